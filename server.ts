@@ -1,12 +1,36 @@
 import express from 'express';
-import { createServer as createViteServer } from 'vite';
+import { createServer as createViteServer, ViteDevServer } from 'vite';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import admin from 'firebase-admin';
 import path from 'path';
+import fs from 'fs';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
-import axios from 'axios';
+import { createStorage, hasFirebaseCredentials, Storage, BlogRecord, NewBlog, NewUser, UserRecord, SecurityEventType, GenerationOutcome, AuditAction, AuditTargetType, IdentityProvider, AccessTokenScope, BlogSortField, SortOrder, BLOG_SORT_FIELDS, DEFAULT_SORT_ORDER, encodeCursor, decodeCursor, decodeCreatedCursor, Role } from './server/storage/index.ts';
+import { recordRevision, ensureBaselineRevision, diffRevisions } from './server/revisions.ts';
+import { buildStatusPatch, isPublished, startPublishScheduler } from './server/lifecycle.ts';
+import { uniqueSlug, ensureSlug, blogPath, authorPath } from './server/slugs.ts';
+import { buildFeed, feedETag, feedLastModified, FeedEntry, FeedFormat, FEED_FILES, FEED_CONTENT_TYPES, FEED_ITEM_LIMIT } from './server/feeds.ts';
+import { SITE_NAME, blogPageMeta, renderBlogBody, renderAuthorBody, injectIntoTemplate, truncateDescription, buildSitemap, buildRobotsTxt } from './server/seo.ts';
+import { normalizeTags, normalizeCategory, matchesTag, matchesCategory, countTags, buildCategoryTree, findCategoryNode, tagSlug, categorySlug, CategoryNode } from './server/taxonomy.ts';
+import { createSearchIndex, foldQuery, foldText } from './server/search.ts';
+import { createSessionManager, describeDevice, readCookie, ACCESS_TOKEN_TTL_SECONDS, REFRESH_COOKIE, REFRESH_COOKIE_PATH, REFRESH_COOKIE_MAX_AGE_MS } from './server/sessions.ts';
+import { createMailer } from './server/mail.ts';
+import { normalizeEmail, normalizeAvatar, createPasswordReset, hashResetToken, passwordResetEmail, ADMIN_SETUP_TTL_MS } from './server/account.ts';
+import { loadPasswordPolicy, checkPassword, checkUsername } from './server/policy.ts';
+import { createAttemptTracker, createRateLimiter } from './server/rateLimit.ts';
+import { buildLibraryZip, parseImport, createDuplicateDetector, MAX_IMPORT_BYTES } from './server/library.ts';
+import { Packer } from 'docx';
+import { buildDocx, exportFileName } from './shared/docx.ts';
+import { generateBlog, GeneratedBlog, GenerateBlogInput, streamBlog, extractPartialBlog, parseGeneratedBlog, GenerationError, aiProviderName } from './server/ai.ts';
+import { parseAnalyticsRange, buildAnalytics, analyticsCsv } from './server/analytics.ts';
+import { blogSummary, userSummary, webhookSummary, diffSummaries, parseAuditQuery, auditCsv } from './server/audit.ts';
+import { createPersonalTokenManager, isPersonalToken, toTokenRequest, toTokenSummary, MAX_TOKENS_PER_USER } from './server/accessTokens.ts';
+import { createWebhookDispatcher, blogEvents, checkWebhookInput, generateWebhookSecret, toWebhookSummary, toDeliverySummary, MAX_WEBHOOKS_PER_USER } from './server/webhooks.ts';
+import { buildOpenApiDocument, apiDocsPage, apiDocsScript, SWAGGER_UI_DIR } from './server/openapi.ts';
+import { createOAuth, oauthResultPage, OAuthMode, OAuthProfile, OAUTH_FLOW_COOKIE, OAUTH_FLOW_COOKIE_PATH, OAUTH_FLOW_TTL_MS } from './server/oauth.ts';
+import { assignRequestId, apiError, sendError, validateBody, validateQuery, apiNotFound, handleErrors } from './server/errors.ts';
+import { ErrorCode, ACCESS_TOKEN_SCOPES, WEBHOOK_EVENTS, MAX_TITLE_LENGTH, MAX_EXCERPT_LENGTH, MAX_CONTENT_LENGTH, GenerateInput, RegisterRequest, LoginRequest, ForgotPasswordRequest, PasswordResetRequest, AccountUpdateRequest, PasswordChangeRequest, AccountDeleteRequest, AccessTokenRequest, WebhookRequest, WebhookUpdateRequest, BlogRequest, BlogUpdateRequest, BlogStatusRequest, GenerateRequest, AdminUserUpdateRequest, AdminUserDeleteRequest, BlogListQuery, SearchQuery, SecurityEventQuery, AdminUserQuery } from './shared/api.ts';
 
 dotenv.config();
 
@@ -15,55 +39,41 @@ const __dirname = path.dirname(__filename);
 
 const JWT_SECRET = process.env.JWT_SECRET || 'super-secret-key';
 
-// --- Firebase Admin Initialization ---
-let db: admin.firestore.Firestore;
-let usersCol: admin.firestore.CollectionReference;
-let blogsCol: admin.firestore.CollectionReference;
-
-function getDb() {
-  if (!db) {
-    try {
-      const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n');
-      
-      if (!admin.apps.length) {
-        if (!process.env.FIREBASE_PROJECT_ID || !process.env.FIREBASE_CLIENT_EMAIL || !process.env.FIREBASE_PRIVATE_KEY) {
-          throw new Error('Firebase environment variables are missing. Please check your .env file.');
-        }
-
-        admin.initializeApp({
-          credential: admin.credential.cert({
-            projectId: process.env.FIREBASE_PROJECT_ID,
-            clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-            privateKey: privateKey,
-          }),
-        });
-        console.log('Firebase Admin initialized successfully');
-      }
-      db = admin.firestore();
-      usersCol = db.collection('users');
-      blogsCol = db.collection('blogs');
-    } catch (error) {
-      console.error('Firebase Admin initialization error:', error);
-      throw error;
-    }
-  }
-  return { db, usersCol, blogsCol };
+// Issues a new one-time setup token for an admin that has no password yet and prints it. Only the
+// hash is stored, so a lost token is replaced by restarting the server.
+async function printAdminSetupToken(storage: Storage, admin: UserRecord) {
+  const { token, patch } = createPasswordReset(ADMIN_SETUP_TTL_MS);
+  await storage.users.update(admin.id, patch);
+  const baseUrl = process.env.APP_URL?.replace(/\/$/, '') || '';
+  console.log(`Admin setup is pending. Open ${baseUrl}/setup?token=${token} within ${ADMIN_SETUP_TTL_MS / 3_600_000} hours to choose the admin password.`);
 }
 
-async function seedAdmin() {
+// The admin password comes from ADMIN_PASSWORD, or is chosen with a setup token printed at startup.
+// Either way the account is flagged `must_change_password` until a new password is set on /setup.
+async function seedAdmin(storage: Storage) {
+  const configuredPassword = process.env.ADMIN_PASSWORD;
+  if (configuredPassword) {
+    const policyError = checkPassword(loadPasswordPolicy(), configuredPassword, 'admin');
+    if (policyError) throw new Error(`ADMIN_PASSWORD does not meet the password policy: ${policyError}`);
+  }
   try {
-    const { usersCol } = getDb();
-    const adminSnapshot = await usersCol.where('username', '==', 'admin').limit(1).get();
-    
-    if (adminSnapshot.empty) {
-      const hashedPassword = await bcrypt.hash('1900', 10);
-      await usersCol.add({
+    const existingAdmin = await storage.users.findOneBy('username', 'admin');
+
+    if (!existingAdmin) {
+      const admin = await storage.users.create({
         username: 'admin',
-        password: hashedPassword,
+        password: configuredPassword ? await bcrypt.hash(configuredPassword, 10) : null,
         role: 'admin',
-        created_at: admin.firestore.FieldValue.serverTimestamp()
+        must_change_password: true
       });
-      console.log('Admin account seeded successfully (admin/1900)');
+      if (configuredPassword) console.log('Admin account created from ADMIN_PASSWORD; a new password must be set at first sign-in');
+      else await printAdminSetupToken(storage, admin);
+    } else if (existingAdmin.must_change_password && !existingAdmin.password) {
+      await printAdminSetupToken(storage, existingAdmin);
+    } else if (!existingAdmin.must_change_password && existingAdmin.password && await bcrypt.compare('1900', existingAdmin.password)) {
+      // Installs seeded before setup tokens existed still have the old hard-coded password
+      await storage.users.update(existingAdmin.id, { must_change_password: true });
+      console.warn('The admin account still uses the old default password; a new password must be set at next sign-in');
     }
   } catch (error) {
     console.error('Error seeding admin:', error);
@@ -72,380 +82,2148 @@ async function seedAdmin() {
 
 async function startServer() {
   const app = express();
-  app.use(express.json());
+  app.use(assignRequestId);
+  // Large enough for the longest blog the schemas accept; bigger bodies get PAYLOAD_TOO_LARGE
+  app.use(express.json({ limit: '1mb' }));
+  // Behind a reverse proxy every request would otherwise share the proxy's IP, and one client could
+  // lock everyone out. TRUST_PROXY takes Express's values: true, a hop count, or addresses.
+  if (process.env.TRUST_PROXY) {
+    const trustProxy = process.env.TRUST_PROXY;
+    app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+  }
+
+  const storage = createStorage();
+  console.log(`Storage backend: ${storage.backend}`);
+  const mailer = createMailer();
+  console.log(`Mail transport: ${mailer.transport}`);
   
   // Seed admin on start
-  await seedAdmin();
+  await seedAdmin(storage);
+
+  const sessions = createSessionManager(storage);
+  const personalTokens = createPersonalTokenManager(storage);
+  const webhooks = createWebhookDispatcher(storage);
 
   // --- Auth Middleware ---
-  const authenticateToken = (req: any, res: any, next: any) => {
+  // Access tokens are short-lived JWTs bound to a session (`sid`); revoking the session rejects them
+  // even before they expire. The `code` tells the client whether refreshing can help.
+  // Suspending an account also revokes its sessions; this catches tokens checked against a session
+  // state cached before that. Looked up on every request, so briefly cached and cleared on change.
+  const suspensionCache = new Map<string, { suspended: boolean; until: number }>();
+  const isSuspended = async (userId: string) => {
+    const cached = suspensionCache.get(userId);
+    if (cached && cached.until > Date.now()) return cached.suspended;
+    const user = await storage.users.findById(userId);
+    const suspended = !!user?.suspended_at;
+    suspensionCache.set(userId, { suspended, until: Date.now() + 30_000 });
+    return suspended;
+  };
+
+  // Personal access tokens authenticate as their owner, with `token_id` and `scopes` added to req.user.
+  type TokenVerification = { user: any; error?: undefined; code?: undefined } | { user?: undefined; error: string; code: ErrorCode };
+
+  const verifyPersonalToken = async (token: string): Promise<TokenVerification> => {
+    const { record, error, code } = await personalTokens.verify(token);
+    if (!record) return { error, code };
+    const owner = await storage.users.findById(record.user_id);
+    if (!owner) return { error: 'Invalid token', code: 'INVALID_TOKEN' };
+    if (owner.suspended_at) return { error: 'Account suspended', code: 'ACCOUNT_SUSPENDED' };
+    return { user: { id: owner.id, username: owner.username, role: owner.role || 'user', token_id: record.id, scopes: record.scopes } };
+  };
+
+  const verifyAccessToken = async (token: string): Promise<TokenVerification> => {
+    if (isPersonalToken(token)) return verifyPersonalToken(token);
+    let payload: any;
+    try {
+      payload = jwt.verify(token, JWT_SECRET);
+    } catch (err: any) {
+      return err.name === 'TokenExpiredError'
+        ? { error: 'Token expired', code: 'TOKEN_EXPIRED' }
+        : { error: 'Invalid token', code: 'INVALID_TOKEN' };
+    }
+    if (!payload.sid || !(await sessions.isActive(payload.sid))) return { error: 'Session revoked', code: 'SESSION_REVOKED' };
+    if (await isSuspended(payload.id)) return { error: 'Account suspended', code: 'ACCOUNT_SUSPENDED' };
+    return { user: payload };
+  };
+
+  const bearerToken = (req: any) => {
     const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+    return authHeader && authHeader.split(' ')[1];
+  };
+
+  // Personal access tokens only reach routes marked with `tokenScope(...)` ahead of the auth
+  // middleware, and only when they carry that scope. Session tokens pass every marker.
+  const tokenScope = (scope: AccessTokenScope) => (req: any, res: any, next: any) => {
+    req.tokenScope = scope;
+    next();
+  };
 
-    if (!token) return res.status(401).json({ error: 'Unauthorized' });
+  const scopeError = (req: any, user: any) => {
+    if (!user.scopes || (req.tokenScope && user.scopes.includes(req.tokenScope))) return null;
+    return req.tokenScope ? `Token is missing the ${req.tokenScope} scope` : 'Personal access tokens cannot be used for this endpoint';
+  };
+
+  const authenticateToken = async (req: any, res: any, next: any) => {
+    const token = bearerToken(req);
+    if (!token) return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
 
-    jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-      if (err) return res.status(403).json({ error: 'Forbidden' });
+    try {
+      const { user, error, code } = await verifyAccessToken(token);
+      if (!user) return sendError(res, 401, code, error);
+      const denied = scopeError(req, user);
+      if (denied) return sendError(res, 403, 'INSUFFICIENT_SCOPE', denied);
       req.user = user;
       next();
-    });
+    } catch (error) {
+      next(error);
+    }
   };
 
-  const tryAuthenticate = (req: any, res: any, next: any) => {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+  // Anonymous requests pass through, but a token that is no longer valid is still rejected so the
+  // client refreshes it instead of silently getting the anonymous view.
+  const tryAuthenticate = async (req: any, res: any, next: any) => {
+    const token = bearerToken(req);
     if (!token) {
       req.user = null;
       return next();
     }
-    jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-      req.user = err ? null : user;
+    try {
+      const { user, error, code } = await verifyAccessToken(token);
+      if (!user) return sendError(res, 401, code, error);
+      const denied = scopeError(req, user);
+      if (denied) return sendError(res, 403, 'INSUFFICIENT_SCOPE', denied);
+      req.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Admin routes stay closed until a freshly seeded admin has chosen its own password. The flag is
+  // read from storage because the access token may predate the change.
+  const requireAdmin = async (req: any, res: any, next: any) => {
+    if (req.user.role !== 'admin') return sendError(res, 403, 'ADMIN_REQUIRED', 'Admin access required');
+    try {
+      const admin = await storage.users.findById(req.user.id);
+      if (!admin || admin.role !== 'admin') return sendError(res, 403, 'ADMIN_REQUIRED', 'Admin access required');
+      if (admin.must_change_password) {
+        return sendError(res, 403, 'PASSWORD_CHANGE_REQUIRED', 'Set a new password before using admin features');
+      }
       next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Owners may change their own blogs and admins anyone's, with the same lock as requireAdmin: the
+  // override waits until a freshly seeded admin has chosen its own password. Sends the error and
+  // returns false when access is refused.
+  const authorizeBlogChange = async (req: any, res: any, blog: BlogRecord, message: string) => {
+    if (blog.user_id === req.user.id) return true;
+    if (req.user.role === 'admin') {
+      const admin = await storage.users.findById(req.user.id);
+      if (admin?.role === 'admin') {
+        if (!admin.must_change_password) return true;
+        sendError(res, 403, 'PASSWORD_CHANGE_REQUIRED', 'Set a new password before using admin features');
+        return false;
+      }
+    }
+    sendError(res, 403, 'FORBIDDEN', message);
+    return false;
+  };
+
+  // --- Sessions ---
+  const signAccessToken = (user: { id: string; username: string; role?: string }, sessionId: string) =>
+    jwt.sign({ id: user.id, username: user.username, role: user.role || 'user', sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+
+  const isSecureRequest = (req: any) => req.secure || req.headers['x-forwarded-proto'] === 'https';
+
+  const setRefreshCookie = (req: any, res: any, refreshToken: string) => {
+    res.cookie(REFRESH_COOKIE, refreshToken, {
+      httpOnly: true,
+      secure: isSecureRequest(req),
+      sameSite: 'strict',
+      path: REFRESH_COOKIE_PATH,
+      maxAge: REFRESH_COOKIE_MAX_AGE_MS
     });
   };
 
+  const clearRefreshCookie = (req: any, res: any) => {
+    res.clearCookie(REFRESH_COOKIE, { httpOnly: true, secure: isSecureRequest(req), sameSite: 'strict', path: REFRESH_COOKIE_PATH });
+  };
+
+  type SessionUser = { id: string; username: string; role?: string; avatar?: string | null; must_change_password?: boolean };
+
+  const publicUser = (user: SessionUser) =>
+    ({ id: user.id, username: user.username, role: user.role || 'user', avatar: user.avatar || null, must_change_password: !!user.must_change_password });
+
+  // Opens a session for a successful sign-in: sets the refresh cookie and returns the access token.
+  const startSession = async (req: any, res: any, user: SessionUser) => {
+    const { session, refreshToken } = await sessions.start(user.id, { userAgent: req.headers['user-agent'], ip: req.ip });
+    setRefreshCookie(req, res, refreshToken);
+    return { token: signAccessToken(user, session.id), expires_in: ACCESS_TOKEN_TTL_SECONDS, user: publicUser(user) };
+  };
+
+  // --- Brute-force Protection ---
+  // Failed sign-ins are counted per account and per IP. Past a few free attempts each failure doubles
+  // the wait before the next one is accepted; enough of them lock the key for a while and leave a
+  // security event for admins.
+  const passwordPolicy = loadPasswordPolicy();
+  const lockoutMs = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60_000;
+  const accountLockoutAfter = Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 10;
+  const ipLockoutAfter = Number(process.env.LOGIN_IP_LOCKOUT_THRESHOLD) || 50;
+  const accountAttempts = createAttemptTracker({
+    freeAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60_000,
+    lockoutAfter: accountLockoutAfter,
+    lockoutMs,
+    resetAfterMs: 60 * 60_000
+  });
+  // One IP may legitimately serve many users (offices, NAT), so it gets more room than an account
+  const ipAttempts = createAttemptTracker({
+    freeAttempts: 10,
+    baseDelayMs: 1000,
+    maxDelayMs: 60_000,
+    lockoutAfter: ipLockoutAfter,
+    lockoutMs,
+    resetAfterMs: 60 * 60_000
+  });
+  const registrations = createRateLimiter({ limit: Number(process.env.REGISTER_LIMIT_PER_HOUR) || 10, windowMs: 60 * 60_000 });
+  const resetRequests = createRateLimiter({ limit: 5, windowMs: 15 * 60_000 });
+
+  const clientIp = (req: any): string => req.ip || req.socket?.remoteAddress || 'unknown';
+
+  const tooManyRequests = (res: any, retryAfterMs: number, code: 'RATE_LIMITED' | 'LOCKED_OUT') => {
+    const seconds = Math.max(Math.ceil(retryAfterMs / 1000), 1);
+    res.set('Retry-After', String(seconds));
+    const message = code === 'LOCKED_OUT' ? 'Too many failed attempts. Sign-in is temporarily locked' : 'Too many attempts. Please wait before trying again';
+    return sendError(res, 429, code, message, { retry_after: seconds });
+  };
+
+  const recordLockout = async (req: any, type: SecurityEventType, username: string, failures: number) => {
+    try {
+      const user = await storage.users.findOneBy('username', username);
+      await storage.securityEvents.create({
+        type,
+        ip: clientIp(req),
+        username,
+        user_id: user?.id || null,
+        user_agent: req.headers['user-agent'] || null,
+        locked_seconds: lockoutMs / 1000,
+        failures
+      });
+      console.warn(`Security: ${type} for ${type === 'ip_locked' ? clientIp(req) : username}`);
+    } catch (error) {
+      console.error('Record Security Event Error:', error);
+    }
+  };
+
+  // --- Audit Log ---
+  // Append-only record of sign-ins and changes to blogs and accounts. The actor defaults to the
+  // signed-in user. Like the other activity logs, a failed write is logged but never fails the request.
+  interface AuditEntry {
+    action: AuditAction;
+    actor?: { id: string; username: string; role?: string } | null;
+    // Submitted username for failed sign-ins, which have no actor
+    actorUsername?: string;
+    target?: { type: AuditTargetType; id: string; label: string | null };
+    adminOverride?: boolean;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+  }
+
+  const audit = async (req: any, entry: AuditEntry) => {
+    const actor = entry.actor === undefined ? req.user : entry.actor;
+    try {
+      await storage.audit.create({
+        action: entry.action,
+        actor_id: actor?.id ?? null,
+        actor_username: actor?.username ?? entry.actorUsername ?? null,
+        actor_role: actor ? (actor.role === 'admin' ? 'admin' : 'user') : null,
+        target_type: entry.target?.type ?? null,
+        target_id: entry.target?.id ?? null,
+        target_label: entry.target?.label ?? null,
+        admin_override: !!entry.adminOverride,
+        ip: clientIp(req),
+        user_agent: req.headers['user-agent'] || null,
+        before: entry.before ?? null,
+        after: entry.after ?? null
+      });
+    } catch (error) {
+      console.error('Record Audit Event Error:', error);
+    }
+  };
+
+  const blogTarget = (blog: BlogRecord) => ({ type: 'blog' as const, id: blog.id, label: blog.title || null });
+  const userTarget = (user: UserRecord) => ({ type: 'user' as const, id: user.id, label: user.username });
+
+  // Blog changes record the changed fields of the blog before and after.
+  const auditBlogChange = (req: any, action: AuditAction, before: BlogRecord | null, after: BlogRecord | null) => {
+    const blog = (after || before)!;
+    const summaries = before && after
+      ? diffSummaries(blogSummary(before), blogSummary(after))
+      : { before: before && blogSummary(before), after: after && blogSummary(after) };
+    // Only admins get past the ownership checks on someone else's blog
+    const adminOverride = !!req.user && action !== 'blog.create' && blog.user_id !== req.user.id;
+    return audit(req, { action, target: blogTarget(blog), adminOverride, ...summaries });
+  };
+
+  // Announces a blog change to the owner's webhooks. Anonymous blogs have nobody to notify. Failing
+  // to queue deliveries never fails the change itself.
+  const notifyBlogChange = async (before: BlogRecord | null, after: BlogRecord | null) => {
+    forgetSearchCorpus();
+    const blog = (after || before)!;
+    if (!blog.user_id) return;
+    try {
+      const author = await findAuthor(blog.user_id);
+      const data = { blog: { ...blog, author, url: `${getBaseUrl()}${blogPath(blog, author?.username)}` } };
+      for (const event of blogEvents(before, after)) await webhooks.emit(blog.user_id, event, data);
+    } catch (error) {
+      console.error('Webhook Dispatch Error:', error);
+    }
+  };
+
+  // Every route that changes a blog records it here.
+  const recordBlogChange = async (req: any, action: AuditAction, before: BlogRecord | null, after: BlogRecord | null) => {
+    await auditBlogChange(req, action, before, after);
+    await notifyBlogChange(before, after);
+  };
+
   // --- Auth Routes ---
-  app.post('/api/auth/register', async (req, res) => {
+  app.get('/api/auth/password-policy', (req, res) => {
+    res.json(passwordPolicy);
+  });
+
+  app.post('/api/auth/register', validateBody(RegisterRequest), async (req, res) => {
     const { username, password } = req.body;
-    if (username && username.toLowerCase() === 'admin') {
-      return res.status(400).json({ error: 'Cannot register with this username' });
-    }
+    const limit = registrations.hit(clientIp(req));
+    if (!limit.allowed) return tooManyRequests(res, limit.retryAfterMs, 'RATE_LIMITED');
+    const usernameError = checkUsername(username);
+    if (usernameError) return sendError(res, 400, 'INVALID_USERNAME', usernameError);
+    const passwordError = checkPassword(passwordPolicy, password, username);
+    if (passwordError) return sendError(res, 400, 'WEAK_PASSWORD', passwordError);
     try {
-      const { usersCol } = getDb();
       // Check if user exists
-      const userSnapshot = await usersCol.where('username', '==', username).limit(1).get();
-      if (!userSnapshot.empty) {
-        return res.status(400).json({ error: 'Username already exists' });
+      const existingUser = await storage.users.findOneBy('username', username);
+      if (existingUser) {
+        return sendError(res, 400, 'USERNAME_TAKEN', 'Username already exists');
       }
 
       const hashedPassword = await bcrypt.hash(password, 10);
-      const userRef = await usersCol.add({
+      const newUser = await storage.users.create({
         username,
         password: hashedPassword,
-        role: 'user',
-        created_at: admin.firestore.FieldValue.serverTimestamp()
+        role: 'user'
       });
       
-      res.status(201).json({ id: userRef.id, username, role: 'user' });
+      res.status(201).json({ id: newUser.id, username, role: 'user' });
     } catch (error) {
       console.error('Register Error:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
     }
   });
 
-  app.post('/api/auth/login', async (req, res) => {
+  // Attempts while backing off are refused before the password is checked and don't count as failures.
+  app.post('/api/auth/login', validateBody(LoginRequest), async (req, res) => {
     const { username, password } = req.body;
+    const ip = clientIp(req);
+    const accountKey = username.toLowerCase();
+    const blocked = [ipAttempts.check(ip), accountAttempts.check(accountKey)]
+      .filter(check => !check.allowed)
+      .sort((a, b) => b.retryAfterMs! - a.retryAfterMs!)[0];
+    if (blocked) return tooManyRequests(res, blocked.retryAfterMs!, blocked.locked ? 'LOCKED_OUT' : 'RATE_LIMITED');
+
+    const auditFailure = (reason: string, user: UserRecord | null) =>
+      audit(req, { action: 'auth.login_failed', actor: null, actorUsername: username, target: user ? userTarget(user) : undefined, after: { reason } });
+
+    const fail = async (user: UserRecord | null) => {
+      await auditFailure(user ? 'wrong_password' : 'unknown_user', user);
+      if (ipAttempts.fail(ip)) await recordLockout(req, 'ip_locked', username, ipLockoutAfter);
+      if (accountAttempts.fail(accountKey)) await recordLockout(req, 'account_locked', username, accountLockoutAfter);
+      sendError(res, 401, 'INVALID_CREDENTIALS', 'Invalid credentials');
+    };
+
     try {
-      const { usersCol } = getDb();
-      const userSnapshot = await usersCol.where('username', '==', username).limit(1).get();
+      const userData = await storage.users.findOneBy('username', username);
+
+      if (!userData) return fail(null);
 
-      if (userSnapshot.empty) {
-        return res.status(401).json({ error: 'Invalid credentials' });
+      if (!userData.password) {
+        await auditFailure('no_password', userData);
+        if (userData.must_change_password) {
+          return sendError(res, 401, 'ACCOUNT_SETUP_REQUIRED', 'Account setup is not complete. Use the setup link printed in the server log.');
+        }
+        return sendError(res, 401, 'SOCIAL_LOGIN_ONLY', 'This account has no password. Sign in with a linked provider.');
       }
 
-      const userDoc = userSnapshot.docs[0];
-      const userData = userDoc.data();
+      if (!(await bcrypt.compare(password, userData.password))) return fail(userData);
 
-      if (!userData.password) {
-        return res.status(401).json({ error: 'This account uses social login. Please sign in with Google.' });
+      accountAttempts.succeed(accountKey);
+      if (userData.suspended_at) {
+        await auditFailure('suspended', userData);
+        return sendError(res, 403, 'ACCOUNT_SUSPENDED', 'This account has been suspended');
       }
+      await audit(req, { action: 'auth.login', actor: userData, target: userTarget(userData), after: { method: 'password' } });
+      res.json(await startSession(req, res, userData));
+    } catch (error) {
+      console.error('Login Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
 
-      if (!(await bcrypt.compare(password, userData.password))) {
-        return res.status(401).json({ error: 'Invalid credentials' });
+  // Exchanges the refresh cookie for a new access token and rotates the cookie.
+  app.post('/api/auth/refresh', async (req, res) => {
+    const refreshToken = readCookie(req.headers.cookie, REFRESH_COOKIE);
+    if (!refreshToken) return sendError(res, 401, 'NO_SESSION', 'Not signed in');
+    try {
+      const { session, refreshToken: nextToken, error } = await sessions.rotate(refreshToken, { ip: req.ip });
+      const user = session && await storage.users.findById(session.user_id);
+      if (!session || !user) {
+        clearRefreshCookie(req, res);
+        return sendError(res, 401, 'SESSION_REVOKED', error || 'Session expired');
       }
+      if (user.suspended_at) {
+        clearRefreshCookie(req, res);
+        return sendError(res, 403, 'ACCOUNT_SUSPENDED', 'This account has been suspended');
+      }
+      if (nextToken) setRefreshCookie(req, res, nextToken);
+      // Username and role are read again so changes apply without signing in again
+      res.json({ token: signAccessToken(user, session.id), expires_in: ACCESS_TOKEN_TTL_SECONDS, user: publicUser(user) });
+    } catch (error) {
+      console.error('Refresh Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
 
-      const token = jwt.sign(
-        { id: userDoc.id, username: userData.username, role: userData.role || 'user' }, 
-        JWT_SECRET, 
-        { expiresIn: '24h' }
-      );
-      res.json({ 
-        token, 
-        user: { 
-          id: userDoc.id, 
-          username: userData.username, 
-          role: userData.role || 'user' 
-        } 
-      });
+  // Ends the session of this browser. Works with an expired access token, since the cookie identifies it.
+  app.post('/api/auth/logout', async (req, res) => {
+    const refreshToken = readCookie(req.headers.cookie, REFRESH_COOKIE);
+    clearRefreshCookie(req, res);
+    if (!refreshToken) return res.json({ message: 'Logged out' });
+    try {
+      await sessions.end(refreshToken);
+      res.json({ message: 'Logged out' });
     } catch (error) {
-      console.error('Login Error:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      console.error('Logout Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
     }
   });
 
-  // --- Google OAuth ---
-  const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID?.trim();
-  const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET?.trim();
-  
-  // Robustly construct REDIRECT_URI
-  const getBaseUrl = () => {
-    let url = process.env.APP_URL;
-    
-    // If APP_URL is missing or is the placeholder, use the default dev URL
-    if (!url || url === 'MY_APP_URL' || url === 'YOUR_APP_URL') {
-      url = 'https://ais-dev-gml4s4622pxoq3pv3dii2h-41700831825.asia-southeast1.run.app';
-    }
-
-    // Force HTTPS for AI Studio environment
-    if (url.includes('.run.app')) {
-      url = url.replace('http://', 'https://');
-    }
-    
-    // Ensure no trailing slash
-    return url.endsWith('/') ? url.slice(0, -1) : url;
-  };
-  const REDIRECT_URI = `${getBaseUrl()}/auth/google/callback`;
-  console.log('--- GOOGLE OAUTH CONFIG ---');
-  console.log('REDIRECT_URI:', REDIRECT_URI);
-  console.log('CLIENT_ID_EXISTS:', !!GOOGLE_CLIENT_ID);
-  console.log('---------------------------');
-
-  app.get('/api/auth/google/url', (req, res) => {
-    if (!GOOGLE_CLIENT_ID) {
-      return res.status(500).json({ error: 'Google Client ID is not configured in environment variables.' });
-    }
-
-    const params = new URLSearchParams({
-      client_id: GOOGLE_CLIENT_ID,
-      redirect_uri: REDIRECT_URI,
-      response_type: 'code',
-      scope: 'openid email profile',
-      access_type: 'offline',
-      prompt: 'select_account'
-    });
-    const url = `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
-    res.json({ url });
+  app.get('/api/auth/sessions', authenticateToken, async (req: any, res) => {
+    try {
+      const active = await sessions.listActive(req.user.id);
+      res.json(active.map(session => ({
+        id: session.id,
+        device: describeDevice(session.user_agent),
+        user_agent: session.user_agent,
+        ip: session.ip,
+        created_at: session.created_at,
+        last_used_at: session.last_used_at,
+        expires_at: session.expires_at,
+        current: session.id === req.user.sid
+      })));
+    } catch (error) {
+      console.error('List Sessions Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
   });
 
-  app.get('/auth/google/callback', async (req, res) => {
-    const { code } = req.query;
-    if (!code) return res.status(400).send('No code provided');
+  app.delete('/api/auth/sessions/:id', authenticateToken, async (req: any, res) => {
+    try {
+      const session = await storage.sessions.findById(req.params.id);
+      if (!session || session.user_id !== req.user.id) return sendError(res, 404, 'NOT_FOUND', 'Session not found');
+      if (!session.revoked_at) await sessions.revoke(session.id);
+      if (session.id === req.user.sid) clearRefreshCookie(req, res);
+      res.json({ message: 'Session revoked' });
+    } catch (error) {
+      console.error('Revoke Session Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
 
+  // Signs out every device. `?keep_current=1` keeps the session making the request.
+  app.delete('/api/auth/sessions', authenticateToken, async (req: any, res) => {
     try {
-      // Exchange code for token
-      const tokenRes = await axios.post('https://oauth2.googleapis.com/token', {
-        client_id: GOOGLE_CLIENT_ID,
-        client_secret: GOOGLE_CLIENT_SECRET,
-        redirect_uri: REDIRECT_URI,
-        grant_type: 'authorization_code',
-        code
-      });
+      const keepCurrent = req.query.keep_current === '1' || req.query.keep_current === 'true';
+      const revoked = await sessions.revokeAll(req.user.id, keepCurrent ? req.user.sid : undefined);
+      if (!keepCurrent) clearRefreshCookie(req, res);
+      res.json({ message: 'Sessions revoked', revoked });
+    } catch (error) {
+      console.error('Revoke Sessions Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
 
-      const accessToken = tokenRes.data.access_token;
+  // --- Base URL ---
+  // Absolute links (feeds, sitemap, emails) and OAuth redirect URIs are built from APP_URL.
+  const getBaseUrl = () => (process.env.APP_URL?.trim() || 'http://localhost:3000').replace(/\/+$/, '');
+  if (!process.env.APP_URL?.trim()) console.warn(`APP_URL is not set; absolute links and OAuth redirect URIs use ${getBaseUrl()}`);
 
-      // Get user info
-      const userRes = await axios.get('https://www.googleapis.com/oauth2/v3/userinfo', {
-        headers: { Authorization: `Bearer ${accessToken}` }
-      });
+  // --- External Sign-in ---
+  const oauth = createOAuth(getBaseUrl(), JWT_SECRET);
+  const appOrigin = new URL(getBaseUrl()).origin;
+  console.log(`Sign-in providers: ${oauth.providers.map(provider => provider.id).join(', ') || 'none'}`);
+
+  // Sent back on the provider's redirect, a cross-site navigation, so it can't be SameSite=Strict
+  const setOAuthFlowCookie = (req: any, res: any, value: string) => {
+    res.cookie(OAUTH_FLOW_COOKIE, value, {
+      httpOnly: true,
+      secure: isSecureRequest(req),
+      sameSite: 'lax',
+      path: OAUTH_FLOW_COOKIE_PATH,
+      maxAge: OAUTH_FLOW_TTL_MS
+    });
+  };
 
-      const { sub: googleId, name, email, picture } = userRes.data;
-      const { usersCol } = getDb();
+  const clearOAuthFlowCookie = (req: any, res: any) => {
+    res.clearCookie(OAUTH_FLOW_COOKIE, { httpOnly: true, secure: isSecureRequest(req), sameSite: 'lax', path: OAUTH_FLOW_COOKIE_PATH });
+  };
 
-      // Find or create user
-      let userSnapshot = await usersCol.where('google_id', '==', googleId).limit(1).get();
-      let userDoc;
+  const providerName = (provider: string) => oauth.find(provider)?.name || provider;
 
-      if (userSnapshot.empty) {
-        // Try finding by email
-        if (email) {
-          const emailSnapshot = await usersCol.where('email', '==', email).limit(1).get();
-          if (!emailSnapshot.empty) {
-            userDoc = emailSnapshot.docs[0];
-            await userDoc.ref.update({ google_id: googleId });
-          }
-        }
+  // Accounts linked to Google before identities existed only carry `google_id`; it becomes an identity
+  // the first time the account signs in or lists its providers.
+  const migrateLegacyGoogleId = async (user: UserRecord) => {
+    if (!user.google_id) return;
+    if (!await storage.identities.findBySubject('google', user.google_id)) {
+      await storage.identities.create({ user_id: user.id, provider: 'google', subject: user.google_id, email: user.email || null, name: null });
+    }
+    await storage.users.update(user.id, { google_id: null });
+  };
 
-        if (!userDoc) {
-          const newUser = await usersCol.add({
-            username: name || email.split('@')[0],
-            email: email || null,
-            google_id: googleId,
-            avatar: picture || null,
-            role: 'user',
-            created_at: admin.firestore.FieldValue.serverTimestamp()
-          });
-          userDoc = await newUser.get();
-        }
-      } else {
-        userDoc = userSnapshot.docs[0];
-      }
-
-      const userData = userDoc.data()!;
-      const token = jwt.sign(
-        { id: userDoc.id, username: userData.username, role: userData.role || 'user' },
-        JWT_SECRET,
-        { expiresIn: '24h' }
-      );
-
-      // Send success message to parent window and close popup
-      res.send(`
-        <html>
-          <body>
-            <script>
-              if (window.opener) {
-                window.opener.postMessage({ 
-                  type: 'OAUTH_AUTH_SUCCESS', 
-                  token: '${token}', 
-                  user: ${JSON.stringify({ id: userDoc.id, username: userData.username, role: userData.role || 'user' })} 
-                }, '*');
-                window.close();
-              } else {
-                window.location.href = '/';
-              }
-            </script>
-            <p>Authentication successful. This window should close automatically.</p>
-          </body>
-        </html>
-      `);
-    } catch (error) {
-      console.error('Google OAuth Error:', error);
-      res.status(500).send('Authentication failed');
+  const listIdentities = async (user: UserRecord) => {
+    await migrateLegacyGoogleId(user);
+    return storage.identities.listByUser(user.id);
+  };
+
+  const findIdentityUser = async (provider: IdentityProvider, subject: string) => {
+    const identity = await storage.identities.findBySubject(provider, subject);
+    if (identity) {
+      const user = await storage.users.findById(identity.user_id);
+      if (!user) await storage.identities.delete(identity.id);
+      return user;
+    }
+    if (provider !== 'google') return null;
+    const legacy = await storage.users.findOneBy('google_id', subject);
+    if (legacy) await migrateLegacyGoogleId(legacy);
+    return legacy;
+  };
+
+  const addIdentity = (user: UserRecord, provider: IdentityProvider, profile: OAuthProfile) =>
+    storage.identities.create({ user_id: user.id, provider, subject: profile.subject, email: profile.email, name: profile.name });
+
+  // Signs in as the account linked to the provider account, or creates a new one. An existing account
+  // with the same email is never taken over: its owner links the provider from their settings.
+  const signInWithProfile = async (provider: IdentityProvider, profile: OAuthProfile): Promise<{ user: UserRecord; error?: undefined } | { user?: undefined; error: string }> => {
+    const linked = await findIdentityUser(provider, profile.subject);
+    if (linked) return { user: linked };
+    if (profile.email && await storage.users.findOneBy('email', profile.email)) {
+      return { error: `An account with this email already exists. Sign in to it and link ${providerName(provider)} from the account settings.` };
+    }
+
+    // Usernames appear in public URLs, so a display name already taken gets a numeric suffix
+    const baseUsername = profile.name || profile.email?.split('@')[0] || `${provider} user`;
+    let username = baseUsername;
+    for (let n = 2; await storage.users.findOneBy('username', username); n++) {
+      username = `${baseUsername} ${n}`;
+    }
+    const user = await storage.users.create({ username, email: profile.email, avatar: profile.avatar, role: 'user' });
+    await addIdentity(user, provider, profile);
+    return { user };
+  };
+
+  // A provider account links to one user only, and a user links one account per provider.
+  const linkProfile = async (userId: string, provider: IdentityProvider, profile: OAuthProfile): Promise<{ user: UserRecord; linked?: boolean; error?: undefined } | { user?: undefined; linked?: undefined; error: string }> => {
+    const user = await storage.users.findById(userId);
+    if (!user || user.suspended_at) return { error: 'Account not available' };
+    const owner = await findIdentityUser(provider, profile.subject);
+    if (owner) {
+      return owner.id === user.id ? { user } : { error: `This ${providerName(provider)} account is already linked to another user` };
     }
+    if ((await listIdentities(user)).some(identity => identity.provider === provider)) {
+      return { error: `Unlink the current ${providerName(provider)} account first` };
+    }
+    await addIdentity(user, provider, profile);
+    return { user, linked: true };
+  };
+
+  app.get('/api/auth/providers', (req, res) => {
+    res.json(oauth.providers);
   });
 
-  // --- Blog Routes ---
-  app.get('/api/blogs', tryAuthenticate, async (req: any, res) => {
+  // Sets the flow cookie and returns the URL the client opens in a popup.
+  const beginOAuth = async (req: any, res: any, mode: OAuthMode, userId: string | null) => {
     try {
-      const { blogsCol } = getDb();
-      
-      if (req.user) {
-        // Everyone (including admin) only sees their own blogs in the dashboard
-        const userBlogsSnapshot = await blogsCol.where('user_id', '==', req.user.id).get();
-        const blogs = userBlogsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }))
-          .sort((a: any, b: any) => {
-            const dateA = a.created_at?.toDate?.() || new Date(0);
-            const dateB = b.created_at?.toDate?.() || new Date(0);
-            return dateB - dateA;
-          });
-        
-        return res.json(blogs);
-      } else {
-        const snapshot = await blogsCol.where('user_id', '==', null).orderBy('created_at', 'desc').limit(20).get();
-        const blogs = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-        res.json(blogs);
+      const started = await oauth.begin(req.params.provider, mode, userId);
+      if (!started) return sendError(res, 404, 'NOT_FOUND', 'Sign-in provider is not configured');
+      setOAuthFlowCookie(req, res, started.cookie);
+      res.json({ url: started.url });
+    } catch (error) {
+      console.error('OAuth Start Error:', error);
+      sendError(res, 502, 'PROVIDER_UNAVAILABLE', 'Sign-in provider is unavailable');
+    }
+  };
+
+  app.get('/api/auth/:provider/url', (req, res) => beginOAuth(req, res, 'login', null));
+
+  app.get('/auth/:provider/callback', async (req: any, res) => {
+    const flowCookie = readCookie(req.headers.cookie, OAUTH_FLOW_COOKIE);
+    clearOAuthFlowCookie(req, res);
+    const fail = (status: number, error: string) => res.status(status).send(oauthResultPage(appOrigin, { type: 'OAUTH_ERROR', error }, '/login'));
+
+    try {
+      const { flow, profile, error } = await oauth.complete(req.params.provider, req.query, flowCookie);
+      if (!profile) return fail(400, error);
+      const provider = flow.provider;
+
+      if (flow.mode === 'link' && flow.user_id) {
+        const linked = await linkProfile(flow.user_id, provider, profile);
+        if (!linked.user) return fail(409, linked.error);
+        if (linked.linked) {
+          await audit(req, { action: 'account.link', actor: linked.user, target: userTarget(linked.user), after: { provider, email: profile.email } });
+        }
+        return res.send(oauthResultPage(appOrigin, { type: 'OAUTH_LINK_SUCCESS', provider }, '/settings'));
+      }
+
+      const { user, error: signInError } = await signInWithProfile(provider, profile);
+      if (!user) {
+        await audit(req, { action: 'auth.login_failed', actor: null, actorUsername: profile.email, after: { reason: 'email_in_use', method: provider } });
+        return fail(409, signInError);
+      }
+      if (user.suspended_at) {
+        await audit(req, { action: 'auth.login_failed', actor: null, actorUsername: user.username, target: userTarget(user), after: { reason: 'suspended', method: provider } });
+        return fail(403, 'This account has been suspended');
       }
+
+      await audit(req, { action: 'auth.login', actor: user, target: userTarget(user), after: { method: provider } });
+      await startSession(req, res, user);
+      res.send(oauthResultPage(appOrigin, { type: 'OAUTH_AUTH_SUCCESS' }, '/dashboard'));
     } catch (error) {
-      console.error('Fetch Blogs Error:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      console.error('OAuth Callback Error:', error);
+      fail(500, 'Authentication failed');
     }
   });
 
-  app.get('/api/blogs/:id', async (req: any, res) => {
+  // --- Account ---
+  const toAccount = async (user: UserRecord) => ({
+    ...publicUser(user),
+    email: user.email || null,
+    created_at: user.created_at,
+    has_password: !!user.password,
+    identities: (await listIdentities(user)).map(({ provider, email, name, created_at }) => ({ provider, email, name, created_at }))
+  });
+
+  app.get('/api/account', authenticateToken, async (req: any, res) => {
     try {
-      const { blogsCol } = getDb();
-      const doc = await blogsCol.doc(req.params.id).get();
-      if (!doc.exists) return res.status(404).json({ error: 'Blog not found' });
-      res.json({ id: doc.id, ...doc.data() });
+      const user = await storage.users.findById(req.user.id);
+      if (!user) return sendError(res, 404, 'NOT_FOUND', 'User not found');
+      res.json(await toAccount(user));
     } catch (error) {
-      res.status(400).json({ error: 'Invalid blog ID' });
+      console.error('Fetch Account Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
     }
   });
 
-  app.post('/api/blogs', tryAuthenticate, async (req: any, res) => {
+  // Only the fields present in the body change; `null` or `""` clears them.
+  app.patch('/api/account', authenticateToken, validateBody(AccountUpdateRequest), async (req: any, res) => {
     try {
-      const { blogsCol } = getDb();
-      const { title, content, excerpt, tone, language } = req.body;
-      const userId = req.user ? req.user.id : null;
-      
-      const blogData = {
-        user_id: userId,
-        title,
-        content,
-        excerpt,
-        tone,
-        language,
-        created_at: admin.firestore.FieldValue.serverTimestamp()
-      };
-      
-      const blogRef = await blogsCol.add(blogData);
-      const savedDoc = await blogRef.get();
-      
-      res.status(201).json({ id: savedDoc.id, ...savedDoc.data() });
-    } catch (error: any) {
-      console.error('Save Blog Error:', error);
-      res.status(500).json({ error: 'Internal server error', details: error.message });
+      const patch: Partial<NewUser> = {};
+      if (req.body.email !== undefined) {
+        const { email, error } = normalizeEmail(req.body.email);
+        if (error) return sendError(res, 400, 'INVALID_REQUEST', error);
+        const owner = email ? await storage.users.findOneBy('email', email) : null;
+        if (owner && owner.id !== req.user.id) return sendError(res, 400, 'EMAIL_TAKEN', 'Email is already in use');
+        patch.email = email;
+      }
+      if (req.body.avatar !== undefined) {
+        const { avatar, error } = normalizeAvatar(req.body.avatar);
+        if (error) return sendError(res, 400, 'INVALID_REQUEST', error);
+        patch.avatar = avatar;
+      }
+      await storage.users.update(req.user.id, patch);
+      authorCache.delete(req.user.id);
+      res.json(await toAccount((await storage.users.findById(req.user.id))!));
+    } catch (error) {
+      console.error('Update Account Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
     }
   });
 
-  app.put('/api/blogs/:id', authenticateToken, async (req: any, res) => {
+  // Accounts created through a sign-in provider have no password yet and can set one without `current_password`.
+  // Every other device is signed out.
+  app.post('/api/account/password', authenticateToken, validateBody(PasswordChangeRequest), async (req: any, res) => {
+    const { current_password, new_password } = req.body;
+    const passwordError = checkPassword(passwordPolicy, new_password, req.user.username);
+    if (passwordError) return sendError(res, 400, 'WEAK_PASSWORD', passwordError);
     try {
-      const { blogsCol } = getDb();
-      const { title, content, excerpt } = req.body;
-      const blogId = req.params.id;
-      
-      const blogDoc = await blogsCol.doc(blogId).get();
-      if (!blogDoc.exists) {
-        return res.status(404).json({ error: 'Blog not found' });
+      const user = await storage.users.findById(req.user.id);
+      if (!user) return sendError(res, 404, 'NOT_FOUND', 'User not found');
+      if (user.password && !(current_password && await bcrypt.compare(current_password, user.password))) {
+        return sendError(res, 400, 'INCORRECT_PASSWORD', 'Current password is incorrect');
       }
-      
-      if (req.user.role !== 'admin' && blogDoc.data()?.user_id !== req.user.id) {
-        return res.status(403).json({ error: 'Unauthorized to edit this blog' });
+      if (user.must_change_password && current_password === new_password) {
+        return sendError(res, 400, 'INVALID_REQUEST', 'Choose a password different from the current one');
       }
-      
-      await blogsCol.doc(blogId).update({
-        title,
-        content,
-        excerpt,
-        updated_at: admin.firestore.FieldValue.serverTimestamp()
+      await storage.users.update(user.id, {
+        password: await bcrypt.hash(new_password, 10),
+        password_reset_hash: null,
+        password_reset_expires_at: null,
+        must_change_password: false
       });
-      
-      res.json({ message: 'Blog updated successfully' });
-    } catch (error: any) {
-      console.error('Update Blog Error:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      const revoked = await sessions.revokeAll(user.id, req.user.sid);
+      res.json({ message: 'Password updated', revoked_sessions: revoked });
+    } catch (error) {
+      console.error('Change Password Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
     }
   });
 
-  app.delete('/api/blogs/:id', authenticateToken, async (req: any, res) => {
+  // Opens the provider's consent page; its callback links the provider account to this user.
+  app.post('/api/account/identities/:provider', authenticateToken, (req: any, res) => beginOAuth(req, res, 'link', req.user.id));
+
+  // Accounts without a password keep at least one provider, so they can still sign in.
+  app.delete('/api/account/identities/:provider', authenticateToken, async (req: any, res) => {
     try {
-      const { blogsCol } = getDb();
-      const blogId = req.params.id;
-      
-      const blogDoc = await blogsCol.doc(blogId).get();
-      if (!blogDoc.exists) {
-        return res.status(404).json({ error: 'Blog not found' });
+      const user = await storage.users.findById(req.user.id);
+      if (!user) return sendError(res, 404, 'NOT_FOUND', 'User not found');
+      const identities = await listIdentities(user);
+      const identity = identities.find(entry => entry.provider === req.params.provider);
+      if (!identity) return sendError(res, 404, 'NOT_FOUND', 'Provider is not linked');
+      if (!user.password && identities.length === 1) {
+        return sendError(res, 400, 'INVALID_REQUEST', 'Set a password or link another provider before unlinking this one');
       }
-      
-      if (req.user.role !== 'admin' && blogDoc.data()?.user_id !== req.user.id) {
-        return res.status(403).json({ error: 'Unauthorized to delete this blog' });
+      await storage.identities.delete(identity.id);
+      await audit(req, { action: 'account.unlink', target: userTarget(user), before: { provider: identity.provider, email: identity.email } });
+      res.json(await toAccount(user));
+    } catch (error) {
+      console.error('Unlink Provider Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Personal Access Tokens ---
+  // Managed with a signed-in session only; a token can't list or create tokens.
+  app.get('/api/account/tokens', authenticateToken, async (req: any, res) => {
+    try {
+      const tokens = await storage.accessTokens.listByUser(req.user.id);
+      res.json({ scopes: ACCESS_TOKEN_SCOPES, items: tokens.map(toTokenSummary) });
+    } catch (error) {
+      console.error('List Tokens Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // `scopes` lists what the token may do; `expires_in_days` is 1-365 (default 30). The token is only
+  // returned in this response.
+  app.post('/api/account/tokens', authenticateToken, validateBody(AccessTokenRequest), async (req: any, res) => {
+    try {
+      const existing = await storage.accessTokens.listByUser(req.user.id);
+      if (existing.length >= MAX_TOKENS_PER_USER) {
+        return sendError(res, 400, 'LIMIT_REACHED', `At most ${MAX_TOKENS_PER_USER} tokens per account. Revoke unused tokens first.`);
       }
-      
-      await blogsCol.doc(blogId).delete();
-      res.json({ message: 'Blog deleted successfully' });
-    } catch (error: any) {
-      console.error('Delete Blog Error:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      const { record, token } = await personalTokens.issue(req.user.id, toTokenRequest(req.body));
+      await audit(req, { action: 'token.create', target: { type: 'user', id: req.user.id, label: req.user.username }, after: { name: record.name, scopes: record.scopes, expires_at: record.expires_at } });
+      res.status(201).json({ ...toTokenSummary(record), token });
+    } catch (error) {
+      console.error('Create Token Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
     }
   });
 
-  // --- Admin Routes ---
-  app.get('/api/admin/stats', authenticateToken, async (req: any, res) => {
-    if (req.user.role !== 'admin') {
-      return res.status(403).json({ error: 'Admin access required' });
+  app.delete('/api/account/tokens/:id', authenticateToken, async (req: any, res) => {
+    try {
+      const token = await storage.accessTokens.findById(req.params.id);
+      if (!token || token.user_id !== req.user.id) return sendError(res, 404, 'NOT_FOUND', 'Token not found');
+      await storage.accessTokens.delete(token.id);
+      await audit(req, { action: 'token.revoke', target: { type: 'user', id: req.user.id, label: req.user.username }, before: { name: token.name, scopes: token.scopes } });
+      res.json({ message: 'Token revoked' });
+    } catch (error) {
+      console.error('Revoke Token Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Webhooks ---
+  // Outgoing webhooks for changes to the user's own blogs, managed with a signed-in session only.
+  // Payloads are signed with the webhook's secret, which is only shown when created or rotated.
+  const WEBHOOK_DELIVERY_PAGE_SIZE = 20;
+  const webhookTarget = (req: any) => ({ type: 'user' as const, id: req.user.id, label: req.user.username });
+
+  const loadOwnWebhook = async (req: any, res: any) => {
+    const webhook = await storage.webhooks.findById(req.params.id);
+    if (!webhook || webhook.user_id !== req.user.id) {
+      sendError(res, 404, 'NOT_FOUND', 'Webhook not found');
+      return null;
+    }
+    return webhook;
+  };
+
+  app.get('/api/account/webhooks', authenticateToken, async (req: any, res) => {
+    try {
+      const items = await storage.webhooks.listByUser(req.user.id);
+      res.json({ events: WEBHOOK_EVENTS, items: items.map(toWebhookSummary) });
+    } catch (error) {
+      console.error('List Webhooks Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
     }
+  });
+
+  // `url` receives a POST per event in `events`; `active` (default true) pauses deliveries.
+  app.post('/api/account/webhooks', authenticateToken, validateBody(WebhookRequest), async (req: any, res) => {
+    const { input, error } = checkWebhookInput(req.body);
+    if (!input) return sendError(res, 400, 'INVALID_REQUEST', error);
     try {
-      const { usersCol } = getDb();
-      const snapshot = await usersCol.get();
-      res.json({ userCount: snapshot.size });
+      const existing = await storage.webhooks.listByUser(req.user.id);
+      if (existing.length >= MAX_WEBHOOKS_PER_USER) {
+        return sendError(res, 400, 'LIMIT_REACHED', `At most ${MAX_WEBHOOKS_PER_USER} webhooks per account. Delete unused webhooks first.`);
+      }
+      const webhook = await storage.webhooks.create({
+        user_id: req.user.id,
+        url: input.url!,
+        events: input.events!,
+        description: input.description ?? null,
+        secret: generateWebhookSecret(),
+        active: input.active ?? true
+      });
+      await audit(req, { action: 'webhook.create', target: webhookTarget(req), after: webhookSummary(webhook) });
+      res.status(201).json({ ...toWebhookSummary(webhook), secret: webhook.secret });
     } catch (error) {
-      console.error('Fetch Stats Error:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      console.error('Create Webhook Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
     }
   });
 
-  // --- Vite Integration ---
-  if (process.env.NODE_ENV !== 'production') {
-    const vite = await createViteServer({
-      server: { middlewareMode: true },
-      appType: 'spa',
-    });
-    app.use(vite.middlewares);
-  } else {
-    app.use(express.static(path.join(__dirname, 'dist')));
-    app.get('*', (req, res) => {
-      res.sendFile(path.join(__dirname, 'dist', 'index.html'));
-    });
-  }
+  // Only the fields present change.
+  app.patch('/api/account/webhooks/:id', authenticateToken, validateBody(WebhookUpdateRequest), async (req: any, res) => {
+    if (!Object.keys(req.body).length) return sendError(res, 400, 'INVALID_REQUEST', 'Nothing to update');
+    const { input, error } = checkWebhookInput(req.body);
+    if (!input) return sendError(res, 400, 'INVALID_REQUEST', error);
+    try {
+      const webhook = await loadOwnWebhook(req, res);
+      if (!webhook) return;
+      await storage.webhooks.update(webhook.id, input);
+      const updated = { ...webhook, ...input };
+      await audit(req, { action: 'webhook.update', target: webhookTarget(req), ...diffSummaries(webhookSummary(webhook), webhookSummary(updated)) });
+      res.json(toWebhookSummary(updated));
+    } catch (error) {
+      console.error('Update Webhook Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.delete('/api/account/webhooks/:id', authenticateToken, async (req: any, res) => {
+    try {
+      const webhook = await loadOwnWebhook(req, res);
+      if (!webhook) return;
+      await storage.webhookDeliveries.deleteByWebhook(webhook.id);
+      await storage.webhooks.delete(webhook.id);
+      await audit(req, { action: 'webhook.delete', target: webhookTarget(req), before: webhookSummary(webhook) });
+      res.json({ message: 'Webhook deleted' });
+    } catch (error) {
+      console.error('Delete Webhook Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // The old secret stops working immediately.
+  app.post('/api/account/webhooks/:id/secret', authenticateToken, async (req: any, res) => {
+    try {
+      const webhook = await loadOwnWebhook(req, res);
+      if (!webhook) return;
+      const secret = generateWebhookSecret();
+      await storage.webhooks.update(webhook.id, { secret });
+      await audit(req, { action: 'webhook.update', target: webhookTarget(req), before: { url: webhook.url, secret_hint: webhook.secret.slice(-4) }, after: { url: webhook.url, secret_hint: secret.slice(-4) } });
+      res.json({ ...toWebhookSummary({ ...webhook, secret }), secret });
+    } catch (error) {
+      console.error('Rotate Webhook Secret Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Sends a `ping` event and answers with the outcome of the first attempt.
+  app.post('/api/account/webhooks/:id/ping', authenticateToken, async (req: any, res) => {
+    try {
+      const webhook = await loadOwnWebhook(req, res);
+      if (!webhook) return;
+      if (!webhook.active) return sendError(res, 400, 'INVALID_REQUEST', 'Enable the webhook first');
+      const delivery = await webhooks.ping(webhook);
+      res.status(201).json(delivery && toDeliverySummary(delivery));
+    } catch (error) {
+      console.error('Ping Webhook Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // The `cursor` of newest-first lists: undefined when absent, null when it can't be read.
+  const readCreatedCursor = (value: unknown) =>
+    value === undefined ? undefined : typeof value === 'string' ? decodeCreatedCursor(value) : null;
+
+  // Newest first; page back with `cursor` set to the previous response's `next_cursor`.
+  app.get('/api/account/webhooks/:id/deliveries', authenticateToken, async (req: any, res) => {
+    const cursor = readCreatedCursor(req.query.cursor);
+    if (cursor === null) return sendError(res, 400, 'INVALID_REQUEST', 'Invalid cursor');
+    const limit = Math.min(Math.max(Number(req.query.limit) || WEBHOOK_DELIVERY_PAGE_SIZE, 1), 100);
+    try {
+      const webhook = await loadOwnWebhook(req, res);
+      if (!webhook) return;
+      const page = await storage.webhookDeliveries.listByWebhook(webhook.id, { cursor, limit });
+      res.json({ items: page.items.map(toDeliverySummary), next_cursor: page.next && encodeCursor(page.next) });
+    } catch (error) {
+      console.error('List Webhook Deliveries Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  const loadOwnDelivery = async (req: any, res: any) => {
+    const webhook = await loadOwnWebhook(req, res);
+    if (!webhook) return null;
+    const delivery = await storage.webhookDeliveries.findById(req.params.deliveryId);
+    if (!delivery || delivery.webhook_id !== webhook.id) {
+      sendError(res, 404, 'NOT_FOUND', 'Delivery not found');
+      return null;
+    }
+    return { webhook, delivery };
+  };
+
+  // With the signed payload and the receiver's (truncated) response.
+  app.get('/api/account/webhooks/:id/deliveries/:deliveryId', authenticateToken, async (req: any, res) => {
+    try {
+      const found = await loadOwnDelivery(req, res);
+      if (!found) return;
+      const { user_id, ...delivery } = found.delivery;
+      res.json(delivery);
+    } catch (error) {
+      console.error('Fetch Webhook Delivery Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Sends the same payload again as a new delivery, which is retried like any other.
+  app.post('/api/account/webhooks/:id/deliveries/:deliveryId/redeliver', authenticateToken, async (req: any, res) => {
+    try {
+      const found = await loadOwnDelivery(req, res);
+      if (!found) return;
+      if (!found.webhook.active) return sendError(res, 400, 'INVALID_REQUEST', 'Enable the webhook first');
+      const delivery = await webhooks.redeliver(found.webhook, found.delivery);
+      res.status(201).json(delivery && toDeliverySummary(delivery));
+    } catch (error) {
+      console.error('Redeliver Webhook Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // `identifier` is a username or an email address. The answer is the same whether or not the
+  // account exists, so the endpoint can't be used to find out who has an account.
+  app.post('/api/auth/password/forgot', validateBody(ForgotPasswordRequest), async (req, res) => {
+    const { identifier } = req.body;
+    const limit = resetRequests.hit(clientIp(req));
+    if (!limit.allowed) return tooManyRequests(res, limit.retryAfterMs, 'RATE_LIMITED');
+    try {
+      const user = identifier.includes('@')
+        ? await storage.users.findOneBy('email', identifier.toLowerCase())
+        : await storage.users.findOneBy('username', identifier);
+      if (user?.email) {
+        const { token, patch } = createPasswordReset();
+        await storage.users.update(user.id, patch);
+        await mailer.send(passwordResetEmail(user.email, user.username, `${getBaseUrl()}/reset-password?token=${encodeURIComponent(token)}`));
+      }
+      res.json({ message: 'If the account exists and has an email address, a reset link has been sent' });
+    } catch (error) {
+      console.error('Forgot Password Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.post('/api/auth/password/reset', validateBody(PasswordResetRequest), async (req, res) => {
+    const { token, password } = req.body;
+    try {
+      const user = await storage.users.findOneBy('password_reset_hash', hashResetToken(token));
+      if (!user || !user.password_reset_expires_at || new Date(user.password_reset_expires_at).getTime() <= Date.now()) {
+        return sendError(res, 400, 'RESET_TOKEN_INVALID', 'Reset link is invalid or has expired');
+      }
+      // Checked after the token so the username rule can apply
+      const passwordError = checkPassword(passwordPolicy, password, user.username);
+      if (passwordError) return sendError(res, 400, 'WEAK_PASSWORD', passwordError);
+      await storage.users.update(user.id, {
+        password: await bcrypt.hash(password, 10),
+        password_reset_hash: null,
+        password_reset_expires_at: null,
+        must_change_password: false
+      });
+      // Whoever knew the old password is signed out too
+      await sessions.revokeAll(user.id);
+      res.json({ message: 'Password has been reset' });
+    } catch (error) {
+      console.error('Reset Password Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // First-run admin setup with the token printed at startup. Signs the admin in on success.
+  app.post('/api/auth/setup', validateBody(PasswordResetRequest), async (req, res) => {
+    const { token, password } = req.body;
+    try {
+      const user = await storage.users.findOneBy('password_reset_hash', hashResetToken(token));
+      if (!user || !user.must_change_password || !user.password_reset_expires_at || new Date(user.password_reset_expires_at).getTime() <= Date.now()) {
+        return sendError(res, 400, 'RESET_TOKEN_INVALID', 'Setup token is invalid or has expired');
+      }
+      const passwordError = checkPassword(passwordPolicy, password, user.username);
+      if (passwordError) return sendError(res, 400, 'WEAK_PASSWORD', passwordError);
+      await storage.users.update(user.id, {
+        password: await bcrypt.hash(password, 10),
+        password_reset_hash: null,
+        password_reset_expires_at: null,
+        must_change_password: false
+      });
+      await sessions.revokeAll(user.id);
+      await audit(req, { action: 'auth.login', actor: user, target: userTarget(user), after: { method: 'setup_token' } });
+      res.json(await startSession(req, res, { ...user, must_change_password: false }));
+    } catch (error) {
+      console.error('Admin Setup Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Removes an account with its sessions. Blogs are deleted, or handed to `newOwnerId` (null makes them
+  // anonymous posts) with a slug from the new owner's namespace. Revision history names the author, so
+  // it is removed in every case.
+  const deleteUserAccount = async (user: UserRecord, mode: 'delete' | 'transfer', newOwnerId: string | null = null) => {
+    const blogs = await storage.blogs.listByUser(user.id);
+    for (const blog of blogs) {
+      await storage.revisions.deleteByBlog(blog.id);
+      if (mode === 'delete') {
+        await storage.blogs.delete(blog.id);
+        searchIndex.remove(blog.id);
+      } else {
+        await storage.blogs.update(blog.id, { user_id: newOwnerId, slug: await uniqueSlug(storage, newOwnerId, blog.title, blog.id) });
+      }
+    }
+    forgetSearchCorpus();
+    await sessions.revokeAll(user.id);
+    await storage.sessions.deleteByUser(user.id);
+    await storage.identities.deleteByUser(user.id);
+    await storage.accessTokens.deleteByUser(user.id);
+    for (const webhook of await storage.webhooks.listByUser(user.id)) await storage.webhookDeliveries.deleteByWebhook(webhook.id);
+    await storage.webhooks.deleteByUser(user.id);
+    await storage.users.delete(user.id);
+    authorCache.delete(user.id);
+    suspensionCache.delete(user.id);
+    return blogs.length;
+  };
+
+  // `blogs: "delete"` removes the user's blogs; `"anonymize"` keeps them as anonymous posts.
+  // Password accounts confirm with `password`.
+  app.delete('/api/account', authenticateToken, validateBody(AccountDeleteRequest), async (req: any, res) => {
+    const mode = req.body.blogs;
+    try {
+      const user = await storage.users.findById(req.user.id);
+      if (!user) return sendError(res, 404, 'NOT_FOUND', 'User not found');
+      if (user.role === 'admin') return sendError(res, 400, 'INVALID_REQUEST', 'Admin accounts cannot be deleted');
+      if (user.password && !(req.body.password && await bcrypt.compare(req.body.password, user.password))) {
+        return sendError(res, 400, 'INCORRECT_PASSWORD', 'Password is incorrect');
+      }
+
+      const count = await deleteUserAccount(user, mode === 'delete' ? 'delete' : 'transfer');
+      await audit(req, { action: 'account.delete', target: userTarget(user), before: userSummary(user), after: { blogs: mode, blog_count: count } });
+      clearRefreshCookie(req, res);
+      res.json({ message: 'Account deleted', blogs: { mode, count } });
+    } catch (error) {
+      console.error('Delete Account Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Blog Routes ---
+  // New blogs start as drafts for their owner. Anonymous blogs have no owner who could publish
+  // them later, so they are published right away unless the request asks otherwise.
+  // The slug follows the title until the blog is first published, then stays fixed.
+  const slugPatch = async (blog: BlogRecord, title: string) =>
+    !title || title === blog.title || blog.published_at || blog.first_published_at || (blog.slug && isPublished(blog))
+      ? {}
+      : { slug: await uniqueSlug(storage, blog.user_id, title, blog.id) };
+
+  const initialStatus = (user: any, body: any) => {
+    const requested = body.status ?? (user ? 'draft' : 'published');
+    return buildStatusPatch({}, requested, body.publish_at);
+  };
+
+  // Used by POST /api/blogs and the importer: assigns the slug and records the first revision.
+  const createBlog = async (user: any, fields: Omit<NewBlog, 'user_id' | 'slug'>) => {
+    const userId = user ? user.id : null;
+    const blog = await storage.blogs.create({ ...fields, user_id: userId, slug: await uniqueSlug(storage, userId, fields.title) });
+    await recordRevision(storage, blog, user, 'create');
+    return blog;
+  };
+
+  // Adds the author's public profile and the canonical URL; never exposes other user fields.
+  const authorCache = new Map<string, Promise<{ username: string; avatar: string | null } | null>>();
+  const findAuthor = (userId: string | null) => {
+    if (!userId) return Promise.resolve(null);
+    if (!authorCache.has(userId)) {
+      const lookup = storage.users.findById(userId).then(user => user && { username: user.username, avatar: user.avatar || null });
+      authorCache.set(userId, lookup);
+      // Short-lived: usernames and avatars can change
+      setTimeout(() => authorCache.delete(userId), 60_000).unref();
+    }
+    return authorCache.get(userId)!;
+  };
+
+  const toPublicBlog = async (blog: BlogRecord) => {
+    const withSlug = isPublished(blog) ? await ensureSlug(storage, blog) : blog;
+    const author = await findAuthor(blog.user_id);
+    return { ...withSlug, author, path: blogPath(withSlug, author?.username) };
+  };
+
+  // List views leave out `content`; the full post is one request away. Owners get their own
+  // blogs with the canonical path, everyone else the public shape.
+  const toBlogSummary = async (blog: BlogRecord, owner?: { username: string }) => {
+    const { content, ...summary } = owner ? { ...blog, path: blogPath(blog, owner.username) } : await toPublicBlog(blog);
+    return summary;
+  };
+
+  // `?tag=` takes a tag, `?category=` a category path (names or slugs); categories include subcategories
+  const taxonomyFilter = (query: any) => {
+    const tag = typeof query.tag === 'string' && query.tag ? tagSlug(query.tag) : null;
+    const categoryPath = normalizeCategory(query.category);
+    const category = categoryPath ? categorySlug(categoryPath) : null;
+    if (!tag && !category) return undefined;
+    return (blog: BlogRecord) => (!tag || matchesTag(blog, tag)) && (!category || matchesCategory(blog, category));
+  };
+
+  const DEFAULT_PAGE_SIZE = 20;
+  const MAX_PAGE_SIZE = 100;
+
+  // Reads `sort`, `order`, `limit` and `cursor`. A cursor only continues the ordering it was issued for.
+  const readPageQuery = (query: any) => {
+    const sort = (query.sort ?? 'created') as BlogSortField;
+    if (!BLOG_SORT_FIELDS.includes(sort)) return { error: 'Invalid sort field' };
+    const order = (query.order ?? DEFAULT_SORT_ORDER[sort]) as SortOrder;
+    if (order !== 'asc' && order !== 'desc') return { error: 'Invalid sort order' };
+    const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(query.limit, 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) return { error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    let cursor = null;
+    if (query.cursor !== undefined) {
+      cursor = typeof query.cursor === 'string' ? decodeCursor(query.cursor) : null;
+      if (!cursor || cursor.sort !== sort || cursor.order !== order) return { error: 'Invalid cursor' };
+    }
+    return { page: { sort, order, limit, cursor } };
+  };
+
+  app.get('/api/blogs', tokenScope('blogs:read'), tryAuthenticate, validateQuery(BlogListQuery), async (req: any, res) => {
+    const { status } = req.query;
+    const { page, error } = readPageQuery(req.query);
+    if (error) return sendError(res, 400, 'INVALID_REQUEST', error);
+    const filter = taxonomyFilter(req.query);
+    try {
+      // Everyone (including admin) only sees their own blogs in the dashboard;
+      // anonymous visitors see published posts from every author
+      const result = req.user
+        ? await storage.blogs.pageByUser(req.user.id, { ...page!, status, filter })
+        : await storage.blogs.pagePublished({ ...page!, filter });
+      const items = await Promise.all(result.items.map(blog => toBlogSummary(blog, req.user)));
+      res.json({ items, total: result.total, next_cursor: result.next && encodeCursor(result.next) });
+    } catch (error) {
+      console.error('Fetch Blogs Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Logged-in users search their own blogs in every status; visitors search published posts.
+  const searchIndex = createSearchIndex();
+  const SEARCH_RESULT_LIMIT = 50;
+
+  // Visitors search the SEARCH_CORPUS_LIMIT most recent published blogs. They are read once and
+  // shared by searches for a minute, or until a blog changes, instead of on every request.
+  const SEARCH_CORPUS_LIMIT = 1000;
+  const SEARCH_CORPUS_TTL_MS = 60_000;
+  let searchCorpus: { blogs: Promise<BlogRecord[]>; until: number } | null = null;
+  const loadSearchCorpus = () => {
+    if (!searchCorpus || searchCorpus.until <= Date.now()) {
+      const entry = { blogs: storage.blogs.listPublished({ limit: SEARCH_CORPUS_LIMIT }), until: Date.now() + SEARCH_CORPUS_TTL_MS };
+      entry.blogs.catch(() => {
+        if (searchCorpus === entry) searchCorpus = null;
+      });
+      searchCorpus = entry;
+    }
+    return searchCorpus.blogs;
+  };
+  const forgetSearchCorpus = () => {
+    searchCorpus = null;
+  };
+
+  app.get('/api/search', tokenScope('blogs:read'), tryAuthenticate, validateQuery(SearchQuery), async (req: any, res) => {
+    const { q, status } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 20, 1), SEARCH_RESULT_LIMIT);
+    const filter = taxonomyFilter(req.query);
+    try {
+      const blogs = req.user
+        ? await storage.blogs.listByUser(req.user.id, { status, filter })
+        : (await loadSearchCorpus()).filter(blog => !filter || filter(blog));
+      const { total, hits } = searchIndex.search(blogs, q, { limit });
+      const results = await Promise.all(hits.map(async ({ blog, ...hit }) => ({ blog: await toBlogSummary(blog, req.user), ...hit })));
+      res.json({ query: q, total, results });
+    } catch (error) {
+      console.error('Search Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Library export / import ---
+  // Every blog of the signed-in user, in any status, as Markdown files with YAML front matter.
+  app.get('/api/blogs/export.zip', tokenScope('blogs:read'), authenticateToken, async (req: any, res) => {
+    try {
+      const blogs = await storage.blogs.listByUser(req.user.id);
+      const fileName = `blogs-${new Date().toISOString().slice(0, 10)}.zip`;
+      res
+        .set('Content-Type', 'application/zip')
+        .set('Content-Disposition', `attachment; filename="${fileName}"`)
+        .send(buildLibraryZip(blogs));
+    } catch (error) {
+      console.error('Export Blogs Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // The request body is the uploaded file: a zip of Markdown files or a WordPress WXR export.
+  // `?dry_run=1` only reports what would happen; `?duplicates=import` also saves posts that match an
+  // existing blog (skipped by default).
+  app.post('/api/blogs/import', tokenScope('blogs:write'), authenticateToken, express.raw({ type: () => true, limit: MAX_IMPORT_BYTES }), async (req: any, res) => {
+    const dryRun = req.query.dry_run === '1' || req.query.dry_run === 'true';
+    const duplicates = req.query.duplicates ?? 'skip';
+    if (duplicates !== 'skip' && duplicates !== 'import') {
+      return sendError(res, 400, 'INVALID_REQUEST', 'Invalid duplicates mode. Expected one of: skip, import');
+    }
+    if (!Buffer.isBuffer(req.body) || !req.body.length) return sendError(res, 400, 'INVALID_REQUEST', 'No file uploaded');
+
+    let parsed;
+    try {
+      parsed = parseImport(req.body);
+    } catch (error: any) {
+      return sendError(res, 400, 'INVALID_REQUEST', error.message);
+    }
+
+    try {
+      const findDuplicate = createDuplicateDetector(await storage.blogs.listByUser(req.user.id));
+      const items = [];
+      for (const post of parsed.posts) {
+        const { source, created_at, ...fields } = post;
+        const duplicate = findDuplicate(post);
+        const action = duplicate && duplicates === 'skip' ? 'skip' : 'create';
+        const saved = !dryRun && action === 'create' ? await createBlog(req.user, { ...fields, ...(created_at ? { created_at } : {}) }) : null;
+        if (saved) await recordBlogChange(req, 'blog.create', null, saved);
+        items.push({
+          source,
+          title: post.title,
+          excerpt: post.excerpt,
+          status: post.status,
+          tags: post.tags,
+          category: post.category,
+          created_at,
+          duplicate,
+          action,
+          blog_id: saved?.id ?? null
+        });
+      }
+      const created = items.filter(item => item.action === 'create').length;
+      res.status(dryRun ? 200 : 201).json({
+        format: parsed.format,
+        dry_run: dryRun,
+        total: items.length,
+        created,
+        skipped: items.length - created,
+        items,
+        issues: parsed.issues
+      });
+    } catch (error) {
+      console.error('Import Blogs Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Unpublished blogs are only visible to their owner and admins.
+  const findVisibleBlog = async (req: any) => {
+    const blog = await storage.blogs.findById(req.params.id);
+    const canSeeUnpublished = req.user && (req.user.role === 'admin' || blog?.user_id === req.user.id);
+    return blog && (isPublished(blog) || canSeeUnpublished) ? blog : null;
+  };
+
+  app.get('/api/blogs/:id', tokenScope('blogs:read'), tryAuthenticate, async (req: any, res) => {
+    try {
+      const blog = await findVisibleBlog(req);
+      if (!blog) return sendError(res, 404, 'NOT_FOUND', 'Blog not found');
+      res.json(await toPublicBlog(blog));
+    } catch (error) {
+      sendError(res, 400, 'INVALID_REQUEST', 'Invalid blog ID');
+    }
+  });
+
+  // Same exporter as the browser download button. `?cover=1` adds a cover page.
+  app.get('/api/blogs/:id/export.docx', tokenScope('blogs:read'), tryAuthenticate, async (req: any, res) => {
+    try {
+      const blog = await findVisibleBlog(req);
+      if (!blog) return sendError(res, 404, 'NOT_FOUND', 'Blog not found');
+      const author = await findAuthor(blog.user_id);
+      const doc = buildDocx({
+        title: blog.title,
+        content: blog.content,
+        excerpt: blog.excerpt,
+        author: author?.username,
+        date: blog.published_at || blog.created_at,
+        coverPage: req.query.cover === '1' || req.query.cover === 'true'
+      });
+      const fileName = exportFileName(blog.title, 'docx');
+      res
+        .set('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')
+        .set('Content-Disposition', `attachment; filename="${fileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`)
+        .send(await Packer.toBuffer(doc));
+    } catch (error) {
+      console.error('DOCX Export Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.post('/api/blogs', tokenScope('blogs:write'), tryAuthenticate, validateBody(BlogRequest), async (req: any, res) => {
+    try {
+      const { title, content, excerpt, tone, language, tags, category } = req.body;
+      const { patch: statusPatch, error: statusError } = initialStatus(req.user, req.body);
+      if (!statusPatch) return sendError(res, 400, 'INVALID_REQUEST', statusError);
+      
+      const savedBlog = await createBlog(req.user, {
+        title,
+        content,
+        excerpt,
+        tone,
+        language,
+        tags: normalizeTags(tags),
+        category: normalizeCategory(category),
+        ...statusPatch
+      });
+      await recordBlogChange(req, 'blog.create', null, savedBlog);
+
+      res.status(201).json(savedBlog);
+    } catch (error: any) {
+      console.error('Save Blog Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.put('/api/blogs/:id', tokenScope('blogs:write'), authenticateToken, validateBody(BlogUpdateRequest), async (req: any, res) => {
+    try {
+      const { title, content, excerpt, status, publish_at, tags, category } = req.body;
+      const blogId = req.params.id;
+      
+      const blog = await storage.blogs.findById(blogId);
+      if (!blog) {
+        return sendError(res, 404, 'NOT_FOUND', 'Blog not found');
+      }
+      
+      if (!(await authorizeBlogChange(req, res, blog, 'Unauthorized to edit this blog'))) return;
+
+      // Status is optional here; PATCH /api/blogs/:id/status changes it without touching content
+      const { patch: statusPatch, error: statusError } = status === undefined ? { patch: {} } : buildStatusPatch(blog, status, publish_at);
+      if (!statusPatch) return sendError(res, 400, 'INVALID_REQUEST', statusError);
+      
+      await ensureBaselineRevision(storage, blog);
+      // Excerpt, tags and category are left untouched when the request omits them
+      const excerptPatch = excerpt !== undefined ? { excerpt } : {};
+      const taxonomyPatch = {
+        ...(tags !== undefined ? { tags: normalizeTags(tags) } : {}),
+        ...(category !== undefined ? { category: normalizeCategory(category) } : {})
+      };
+      await storage.blogs.update(blogId, { title, content, ...excerptPatch, ...statusPatch, ...taxonomyPatch, ...(await slugPatch(blog, title)) });
+      await recordRevision(storage, { ...blog, title, content, ...excerptPatch }, req.user, 'update');
+      await recordBlogChange(req, 'blog.update', blog, await storage.blogs.findById(blogId));
+
+      res.json({ message: 'Blog updated successfully' });
+    } catch (error: any) {
+      console.error('Update Blog Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.patch('/api/blogs/:id/status', tokenScope('blogs:write'), authenticateToken, validateBody(BlogStatusRequest), async (req: any, res) => {
+    try {
+      const blog = await storage.blogs.findById(req.params.id);
+      if (!blog) {
+        return sendError(res, 404, 'NOT_FOUND', 'Blog not found');
+      }
+
+      if (!(await authorizeBlogChange(req, res, blog, 'Unauthorized to edit this blog'))) return;
+
+      const { patch, error } = buildStatusPatch(blog, req.body.status, req.body.publish_at);
+      if (!patch) return sendError(res, 400, 'INVALID_REQUEST', error);
+
+      await storage.blogs.update(blog.id, patch);
+      const updated = await storage.blogs.findById(blog.id);
+      await recordBlogChange(req, 'blog.status', blog, updated);
+      res.json(updated);
+    } catch (error: any) {
+      console.error('Update Blog Status Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.delete('/api/blogs/:id', tokenScope('blogs:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const blogId = req.params.id;
+      
+      const blog = await storage.blogs.findById(blogId);
+      if (!blog) {
+        return sendError(res, 404, 'NOT_FOUND', 'Blog not found');
+      }
+      
+      if (!(await authorizeBlogChange(req, res, blog, 'Unauthorized to delete this blog'))) return;
+      
+      await storage.blogs.delete(blogId);
+      await storage.revisions.deleteByBlog(blogId);
+      searchIndex.remove(blogId);
+      await recordBlogChange(req, 'blog.delete', blog, null);
+      res.json({ message: 'Blog deleted successfully' });
+    } catch (error: any) {
+      console.error('Delete Blog Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Revision Routes ---
+  // Revisions are only visible to the blog owner and admins.
+  const loadEditableBlog = async (req: any, res: any) => {
+    const blog = await storage.blogs.findById(req.params.id);
+    if (!blog) {
+      sendError(res, 404, 'NOT_FOUND', 'Blog not found');
+      return null;
+    }
+    return (await authorizeBlogChange(req, res, blog, 'Unauthorized to access this blog')) ? blog : null;
+  };
+
+  app.get('/api/blogs/:id/revisions', tokenScope('blogs:read'), authenticateToken, async (req: any, res) => {
+    try {
+      const blog = await loadEditableBlog(req, res);
+      if (!blog) return;
+      await ensureBaselineRevision(storage, blog);
+      const revisions = await storage.revisions.listByBlog(blog.id);
+      // Content is omitted from the listing; fetch a single revision or a diff for that.
+      res.json(revisions.map(({ content, excerpt, ...summary }) => summary));
+    } catch (error) {
+      console.error('Fetch Revisions Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.get('/api/blogs/:id/revisions/diff', tokenScope('blogs:read'), authenticateToken, async (req: any, res) => {
+    try {
+      const blog = await loadEditableBlog(req, res);
+      if (!blog) return;
+      const [from, to] = await Promise.all([
+        storage.revisions.findById(String(req.query.from || '')),
+        storage.revisions.findById(String(req.query.to || ''))
+      ]);
+      if (!from || !to || from.blog_id !== blog.id || to.blog_id !== blog.id) {
+        return sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+      }
+      res.json({ from: from.id, to: to.id, fields: diffRevisions(from, to) });
+    } catch (error) {
+      console.error('Diff Revisions Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.get('/api/blogs/:id/revisions/:revisionId', tokenScope('blogs:read'), authenticateToken, async (req: any, res) => {
+    try {
+      const blog = await loadEditableBlog(req, res);
+      if (!blog) return;
+      const revision = await storage.revisions.findById(req.params.revisionId);
+      if (!revision || revision.blog_id !== blog.id) return sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+      res.json(revision);
+    } catch (error) {
+      console.error('Fetch Revision Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.post('/api/blogs/:id/revisions/:revisionId/restore', tokenScope('blogs:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const blog = await loadEditableBlog(req, res);
+      if (!blog) return;
+      const revision = await storage.revisions.findById(req.params.revisionId);
+      if (!revision || revision.blog_id !== blog.id) return sendError(res, 404, 'NOT_FOUND', 'Revision not found');
+
+      await ensureBaselineRevision(storage, blog);
+      const { title, excerpt, content } = revision;
+      await storage.blogs.update(blog.id, { title, excerpt, content, ...(await slugPatch(blog, title)) });
+      await recordRevision(storage, { ...blog, title, excerpt, content }, req.user, 'restore', revision.id);
+      const restored = await storage.blogs.findById(blog.id);
+      await recordBlogChange(req, 'blog.restore', blog, restored);
+      res.json(restored);
+    } catch (error) {
+      console.error('Restore Revision Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Generation Routes ---
+  const readGenerateInput = ({ topic, tone, language, length, suggest_taxonomy }: GenerateInput): GenerateBlogInput =>
+    ({ topic, tone, language, length, suggestTaxonomy: suggest_taxonomy });
+
+  // AI output gets the same length limits as blogs written by hand; longer fields are cut.
+  const saveGeneratedBlog = async (user: any, generated: GeneratedBlog, { tone, language, length }: GenerateBlogInput) => {
+    const title = truncateDescription(generated.title, MAX_TITLE_LENGTH);
+    const blog = await storage.blogs.create({
+      user_id: user ? user.id : null,
+      title,
+      excerpt: truncateDescription(generated.excerpt, MAX_EXCERPT_LENGTH),
+      content: generated.content.slice(0, MAX_CONTENT_LENGTH),
+      tags: normalizeTags(generated.tags),
+      category: normalizeCategory(generated.category),
+      tone,
+      language,
+      length,
+      slug: await uniqueSlug(storage, user ? user.id : null, title),
+      status: user ? 'draft' : 'published',
+      published_at: user ? null : new Date().toISOString()
+    });
+    await recordRevision(storage, blog, user, 'create');
+    return blog;
+  };
+
+  // Every generation attempt is kept for admin analytics. Recording must never fail the request
+  // itself, so errors are only logged.
+  const recordGeneration = (user: any, input: GenerateBlogInput, startedAt: number, result: {
+    streamed: boolean;
+    outcome: GenerationOutcome;
+    errorCode?: string;
+    blogId?: string;
+  }) => {
+    storage.generationEvents.create({
+      user_id: user ? user.id : null,
+      provider: aiProviderName(),
+      tone: input.tone,
+      language: input.language,
+      length: input.length,
+      streamed: result.streamed,
+      outcome: result.outcome,
+      error_code: result.errorCode || null,
+      duration_ms: Date.now() - startedAt,
+      blog_id: result.blogId || null
+    }).catch(error => console.error('Record Generation Error:', error));
+  };
+
+  app.post('/api/generate', tokenScope('generate'), tryAuthenticate, validateBody(GenerateRequest), async (req: any, res) => {
+    const input = readGenerateInput(req.body);
+
+    const startedAt = Date.now();
+    const fail = (errorCode: string) => recordGeneration(req.user, input, startedAt, { streamed: false, outcome: 'failure', errorCode });
+    let generated;
+    try {
+      generated = await generateBlog(input);
+    } catch (error: any) {
+      if (error instanceof GenerationError) {
+        fail(error.code);
+        const status = error.code === 'MISSING_API_KEY' || error.code === 'UNKNOWN_AI_PROVIDER' ? 500 : 502;
+        return sendError(res, status, error.code, 'Generation failed', { details: error.detail });
+      }
+      console.error('Generate Error:', error);
+      fail('AI_GENERATION_FAILED');
+      return sendError(res, 500, 'AI_GENERATION_FAILED', 'Generation failed');
+    }
+
+    try {
+      const blog = await saveGeneratedBlog(req.user, generated, input);
+      recordGeneration(req.user, input, startedAt, { streamed: false, outcome: 'success', blogId: blog.id });
+      await recordBlogChange(req, 'blog.create', null, blog);
+      res.status(201).json(blog);
+    } catch (error: any) {
+      console.error('Save Generated Blog Error:', error);
+      fail('DATABASE_SAVE_FAILED');
+      sendError(res, 500, 'DATABASE_SAVE_FAILED', 'Generated blog could not be saved');
+    }
+  });
+
+  // Server-Sent Events over POST. Events: `delta` ({ field, text }), `done` (saved blog), `error` (the
+  // usual error body). Closing the connection cancels generation and nothing is saved.
+  app.post('/api/generate/stream', tokenScope('generate'), tryAuthenticate, validateBody(GenerateRequest), async (req: any, res) => {
+    const input = readGenerateInput(req.body);
+
+    res.set({
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const startedAt = Date.now();
+    const record = (outcome: GenerationOutcome, extra: { errorCode?: string; blogId?: string } = {}) =>
+      recordGeneration(req.user, input, startedAt, { streamed: true, outcome, ...extra });
+
+    let buffer = '';
+    const sent = { title: 0, excerpt: 0, content: 0 };
+    try {
+      for await (const chunk of streamBlog(input, controller.signal)) {
+        buffer += chunk;
+        const partial = extractPartialBlog(buffer);
+        for (const field of ['title', 'excerpt', 'content'] as const) {
+          const value = partial[field];
+          if (value && value.length > sent[field]) {
+            send('delta', { field, text: value.slice(sent[field]) });
+            sent[field] = value.length;
+          }
+        }
+      }
+      if (controller.signal.aborted) return record('cancelled');
+
+      const generated = parseGeneratedBlog(buffer);
+      try {
+        const blog = await saveGeneratedBlog(req.user, generated, input);
+        record('success', { blogId: blog.id });
+        await recordBlogChange(req, 'blog.create', null, blog);
+        send('done', blog);
+      } catch (error: any) {
+        console.error('Save Generated Blog Error:', error);
+        record('failure', { errorCode: 'DATABASE_SAVE_FAILED' });
+        send('error', apiError(req, 'DATABASE_SAVE_FAILED', 'Generated blog could not be saved'));
+      }
+    } catch (error: any) {
+      if (controller.signal.aborted) return record('cancelled');
+      if (error instanceof GenerationError) {
+        record('failure', { errorCode: error.code });
+        send('error', apiError(req, error.code, 'Generation failed', { details: error.detail }));
+      } else {
+        console.error('Generate Stream Error:', error);
+        record('failure', { errorCode: 'AI_GENERATION_FAILED' });
+        send('error', apiError(req, 'AI_GENERATION_FAILED', 'Generation failed'));
+      }
+    }
+    res.end();
+  });
+
+  // --- Public Routes ---
+  app.get('/api/public/users/:username', async (req, res) => {
+    try {
+      const author = await storage.users.findOneBy('username', req.params.username);
+      if (!author) return sendError(res, 404, 'NOT_FOUND', 'Author not found');
+
+      const blogs = await storage.blogs.listByUser(author.id, { status: 'published' });
+      const withSlugs = await Promise.all(blogs.map(blog => ensureSlug(storage, blog)));
+      res.json({
+        username: author.username,
+        avatar: author.avatar || null,
+        created_at: author.created_at,
+        blogs: withSlugs.map(({ content, ...summary }) => ({ ...summary, path: blogPath(summary as BlogRecord, author.username) }))
+      });
+    } catch (error) {
+      console.error('Fetch Author Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.get('/api/public/users/:username/blogs/:slug', async (req, res) => {
+    try {
+      const author = await storage.users.findOneBy('username', req.params.username);
+      const blog = author ? await storage.blogs.findBySlug(author.id, req.params.slug) : null;
+      if (!blog || !isPublished(blog)) return sendError(res, 404, 'NOT_FOUND', 'Blog not found');
+      res.json(await toPublicBlog(blog));
+    } catch (error) {
+      console.error('Fetch Public Blog Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Taxonomy Routes ---
+  app.get('/api/taxonomy', tokenScope('blogs:read'), authenticateToken, async (req: any, res) => {
+    try {
+      const blogs = await storage.blogs.listByUser(req.user.id);
+      res.json({ tags: countTags(blogs), categories: buildCategoryTree(blogs) });
+    } catch (error) {
+      console.error('Fetch Taxonomy Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.get('/api/public/taxonomy', async (req, res) => {
+    try {
+      const blogs = await storage.blogs.listPublished();
+      res.json({ tags: countTags(blogs), categories: buildCategoryTree(blogs) });
+    } catch (error) {
+      console.error('Fetch Public Taxonomy Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.get('/api/public/tags/:tag', async (req, res) => {
+    try {
+      const slug = tagSlug(req.params.tag);
+      const blogs = await storage.blogs.listPublished({ filter: blog => matchesTag(blog, slug) });
+      if (blogs.length === 0) return sendError(res, 404, 'NOT_FOUND', 'Tag not found');
+      const name = (blogs[0].tags || []).find(tag => tagSlug(tag) === slug) || req.params.tag;
+      res.json({ name, slug, blogs: await Promise.all(blogs.map(blog => toBlogSummary(blog))) });
+    } catch (error) {
+      console.error('Fetch Tag Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.get('/api/public/categories/*', async (req: any, res) => {
+    try {
+      const path = normalizeCategory(String(req.params[0]));
+      if (!path) return sendError(res, 404, 'NOT_FOUND', 'Category not found');
+      const slug = categorySlug(path);
+      const blogs = await storage.blogs.listPublished({ filter: blog => matchesCategory(blog, slug) });
+      const node = findCategoryNode(buildCategoryTree(blogs), slug);
+      if (!node) return sendError(res, 404, 'NOT_FOUND', 'Category not found');
+      res.json({ ...node, blogs: await Promise.all(blogs.map(blog => toBlogSummary(blog))) });
+    } catch (error) {
+      console.error('Fetch Category Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Feeds ---
+  const sendFeed = (req: any, res: any, format: FeedFormat, options: Parameters<typeof buildFeed>[1]) => {
+    res.set({
+      'Content-Type': FEED_CONTENT_TYPES[format],
+      'ETag': feedETag(format, options),
+      'Last-Modified': new Date(feedLastModified(options.entries)).toUTCString(),
+      'Cache-Control': 'public, max-age=300'
+    });
+    if (req.fresh) return res.status(304).end();
+    res.send(buildFeed(format, options));
+  };
+
+  const toFeedEntries = async (blogs: BlogRecord[]): Promise<FeedEntry[]> => {
+    const newestFirst = [...blogs].sort((a, b) => (b.published_at || b.created_at).localeCompare(a.published_at || a.created_at));
+    return Promise.all(newestFirst.slice(0, FEED_ITEM_LIMIT).map(async (blog) => {
+      const publicBlog = await toPublicBlog(blog);
+      return { blog: publicBlog, url: `${getBaseUrl()}${publicBlog.path}`, authorName: publicBlog.author?.username || null };
+    }));
+  };
+
+  for (const format of Object.keys(FEED_FILES) as FeedFormat[]) {
+    app.get(`/${FEED_FILES[format]}`, async (req, res) => {
+      try {
+        const blogs = await storage.blogs.listPublished({ limit: FEED_ITEM_LIMIT });
+        sendFeed(req, res, format, {
+          title: 'ZA Blog AI',
+          description: 'Bài viết mới nhất trên ZA Blog AI',
+          homeUrl: getBaseUrl(),
+          feedUrl: (f) => `${getBaseUrl()}/${FEED_FILES[f]}`,
+          entries: await toFeedEntries(blogs)
+        });
+      } catch (error) {
+        console.error('Site Feed Error:', error);
+        sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+      }
+    });
+
+    app.get(`/u/:username/${FEED_FILES[format]}`, async (req, res) => {
+      try {
+        const author = await storage.users.findOneBy('username', req.params.username);
+        if (!author) return sendError(res, 404, 'NOT_FOUND', 'Author not found');
+        const blogs = await storage.blogs.listByUser(author.id, { status: 'published' });
+        const authorUrl = `${getBaseUrl()}${authorPath(author.username)}`;
+        sendFeed(req, res, format, {
+          title: `${author.username} – ZA Blog AI`,
+          description: `Bài viết của ${author.username} trên ZA Blog AI`,
+          homeUrl: authorUrl,
+          feedUrl: (f) => `${authorUrl}/${FEED_FILES[f]}`,
+          entries: await toFeedEntries(blogs)
+        });
+      } catch (error) {
+        console.error('Author Feed Error:', error);
+        sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+      }
+    });
+  }
+
+  // --- Health ---
+  app.get('/api/health', (req, res) => {
+    res.json({
+      status: 'ok',
+      storage: storage.backend,
+      firebase: hasFirebaseCredentials() ? 'configured' : 'missing_credentials'
+    });
+  });
+
+  // --- API Docs ---
+  const openApiDocument = buildOpenApiDocument(getBaseUrl());
+
+  app.get('/api/openapi.json', (req, res) => {
+    res.json(openApiDocument);
+  });
+
+  app.use('/api/docs/assets', express.static(SWAGGER_UI_DIR, { maxAge: '1d' }));
+
+  app.get('/api/docs/init.js', (req, res) => {
+    res.type('js').send(apiDocsScript('/api/openapi.json'));
+  });
+
+  app.get('/api/docs', (req, res) => {
+    res.type('html').send(apiDocsPage('/api/docs/assets', '/api/docs/init.js'));
+  });
+
+  // --- Admin Routes ---
+  // Content and generation activity between `from` and `to` (inclusive UTC days, YYYY-MM-DD), bucketed
+  // by `interval=day|week`. Defaults to the last 30 days by day.
+  const loadAnalytics = async (query: any) => {
+    const { range, error } = parseAnalyticsRange(query);
+    if (!range) return { error };
+    const [blogs, events, userCount] = await Promise.all([
+      storage.blogs.listCreatedBetween(range),
+      storage.generationEvents.listBetween(range),
+      storage.users.count()
+    ]);
+    return { report: buildAnalytics(range, blogs, events, userCount) };
+  };
+
+  app.get('/api/admin/stats', authenticateToken, requireAdmin, async (req: any, res) => {
+    try {
+      const { report, error } = await loadAnalytics(req.query);
+      if (!report) return sendError(res, 400, 'INVALID_REQUEST', error);
+      res.json(report);
+    } catch (error) {
+      console.error('Fetch Stats Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.get('/api/admin/stats.csv', authenticateToken, requireAdmin, async (req: any, res) => {
+    try {
+      const { report, error } = await loadAnalytics(req.query);
+      if (!report) return sendError(res, 400, 'INVALID_REQUEST', error);
+      // `range.to` is exclusive; the file is named after the last day it covers
+      const lastDay = new Date(new Date(report.range.to).getTime() - 1).toISOString().slice(0, 10);
+      const fileName = `analytics-${report.range.from.slice(0, 10)}-${lastDay}.csv`;
+      res
+        .set('Content-Type', 'text/csv; charset=utf-8')
+        .set('Content-Disposition', `attachment; filename="${fileName}"`)
+        .send(analyticsCsv(report));
+    } catch (error) {
+      console.error('Export Stats Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Newest first; page back with `cursor` set to the previous response's `next_cursor`.
+  app.get('/api/admin/security-events', authenticateToken, requireAdmin, validateQuery(SecurityEventQuery), async (req: any, res) => {
+    const cursor = readCreatedCursor(req.query.cursor);
+    if (cursor === null) return sendError(res, 400, 'INVALID_REQUEST', 'Invalid cursor');
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    try {
+      const page = await storage.securityEvents.list({ type: req.query.type, cursor, limit });
+      res.json({ items: page.items, next_cursor: page.next && encodeCursor(page.next) });
+    } catch (error) {
+      console.error('Fetch Security Events Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Audit Log Routes ---
+  const AUDIT_PAGE_SIZE = 50;
+  const AUDIT_EXPORT_LIMIT = 10_000;
+
+  // Newest first; page back with `cursor` set to the previous response's `next_cursor`.
+  app.get('/api/admin/audit', authenticateToken, requireAdmin, async (req: any, res) => {
+    const { query, error } = parseAuditQuery(req.query, AUDIT_PAGE_SIZE, 200);
+    if (!query) return sendError(res, 400, 'INVALID_REQUEST', error);
+    try {
+      const page = await storage.audit.list(query);
+      res.json({ items: page.items, next_cursor: page.next && encodeCursor(page.next) });
+    } catch (error) {
+      console.error('Fetch Audit Log Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Same filters as the list, up to AUDIT_EXPORT_LIMIT entries.
+  app.get('/api/admin/audit.:format(csv|json)', authenticateToken, requireAdmin, async (req: any, res) => {
+    const { query, error } = parseAuditQuery(req.query, AUDIT_EXPORT_LIMIT, AUDIT_EXPORT_LIMIT);
+    if (!query) return sendError(res, 400, 'INVALID_REQUEST', error);
+    try {
+      const { items: events } = await storage.audit.list(query);
+      const fileName = `audit-${new Date().toISOString().slice(0, 10)}.${req.params.format}`;
+      res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+      if (req.params.format === 'json') return res.json(events);
+      res.set('Content-Type', 'text/csv; charset=utf-8').send(auditCsv(events));
+    } catch (error) {
+      console.error('Export Audit Log Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Admin User Management ---
+  // Read-only: a legacy `google_id` is reported as Google without migrating it.
+  const toAdminUser = async (user: UserRecord) => {
+    const providers = (await storage.identities.listByUser(user.id)).map(identity => identity.provider);
+    if (user.google_id && !providers.includes('google')) providers.push('google');
+    return {
+      ...publicUser(user),
+      email: user.email || null,
+      created_at: user.created_at,
+      suspended_at: user.suspended_at || null,
+      has_password: !!user.password,
+      providers
+    };
+  };
+
+  // `q` matches username or email ignoring case and Vietnamese diacritics; `role` and
+  // `status=active|suspended` narrow the list. Newest first, paged with `cursor`.
+  app.get('/api/admin/users', authenticateToken, requireAdmin, validateQuery(AdminUserQuery), async (req: any, res) => {
+    const { q, role, status, cursor, limit = DEFAULT_PAGE_SIZE } = req.query;
+    const after = readCreatedCursor(cursor);
+    if (after === null) return sendError(res, 400, 'INVALID_REQUEST', 'Invalid cursor');
+
+    const needle = q ? foldQuery(q) : '';
+    // Without conditions the backend can page the users natively
+    const filter = needle || role || status
+      ? (user: UserRecord) =>
+        (!needle || [user.username, user.email].some(value => value && foldText(value).text.includes(needle))) &&
+        (!role || (user.role || 'user') === role) &&
+        (!status || (status === 'suspended') === !!user.suspended_at)
+      : undefined;
+    try {
+      const result = await storage.users.page({ limit, cursor: after, filter });
+      res.json({ items: await Promise.all(result.items.map(toAdminUser)), total: result.total, next_cursor: result.next && encodeCursor(result.next) });
+    } catch (error) {
+      console.error('Fetch Users Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Every blog of the user in any status, with the same paging and sorting as GET /api/blogs.
+  app.get('/api/admin/users/:id/blogs', authenticateToken, requireAdmin, validateQuery(BlogListQuery), async (req: any, res) => {
+    const { status } = req.query;
+    const { page, error } = readPageQuery(req.query);
+    if (error) return sendError(res, 400, 'INVALID_REQUEST', error);
+    try {
+      const user = await storage.users.findById(req.params.id);
+      if (!user) return sendError(res, 404, 'NOT_FOUND', 'User not found');
+      const result = await storage.blogs.pageByUser(user.id, { ...page!, status });
+      const items = await Promise.all(result.items.map(blog => toBlogSummary(blog, user)));
+      res.json({ items, total: result.total, next_cursor: result.next && encodeCursor(result.next) });
+    } catch (error) {
+      console.error('Fetch User Blogs Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // Changes `role` and/or `suspended`. Suspending signs the user out everywhere. Admins can't change
+  // their own account here, and an admin has to be demoted before being suspended.
+  app.patch('/api/admin/users/:id', authenticateToken, requireAdmin, validateBody(AdminUserUpdateRequest), async (req: any, res) => {
+    const { role, suspended } = req.body;
+    if (role === undefined && suspended === undefined) return sendError(res, 400, 'INVALID_REQUEST', 'Nothing to update');
+    if (req.params.id === req.user.id) return sendError(res, 400, 'INVALID_REQUEST', 'You cannot change your own account here');
+    try {
+      const user = await storage.users.findById(req.params.id);
+      if (!user) return sendError(res, 404, 'NOT_FOUND', 'User not found');
+      const nextRole: Role = role ?? user.role ?? 'user';
+      if (nextRole === 'admin' && (suspended ?? !!user.suspended_at)) {
+        return sendError(res, 400, 'INVALID_REQUEST', 'Admin accounts cannot be suspended. Change the role first.');
+      }
+
+      const patch: Partial<NewUser> = {};
+      if (role !== undefined) patch.role = role;
+      if (suspended !== undefined) patch.suspended_at = suspended ? user.suspended_at || new Date().toISOString() : null;
+      await storage.users.update(user.id, patch);
+      suspensionCache.delete(user.id);
+      if (suspended && !user.suspended_at) await sessions.revokeAll(user.id);
+
+      const updated = { ...user, ...patch };
+      const target = userTarget(user);
+      if (role !== undefined && role !== (user.role || 'user')) {
+        await audit(req, { action: 'user.role_change', target, adminOverride: true, before: { role: user.role || 'user' }, after: { role } });
+      }
+      if (suspended !== undefined && suspended !== !!user.suspended_at) {
+        await audit(req, {
+          action: suspended ? 'user.suspend' : 'user.unsuspend',
+          target,
+          adminOverride: true,
+          before: { suspended_at: user.suspended_at || null },
+          after: { suspended_at: updated.suspended_at || null }
+        });
+      }
+      res.json(await toAdminUser(updated));
+    } catch (error) {
+      console.error('Update User Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // `blogs: "delete"` removes the user's blogs; `"reassign"` moves them to the user named by
+  // `reassign_to`. Admin accounts have to be demoted first.
+  app.delete('/api/admin/users/:id', authenticateToken, requireAdmin, validateBody(AdminUserDeleteRequest), async (req: any, res) => {
+    const mode = req.body.blogs;
+    if (req.params.id === req.user.id) return sendError(res, 400, 'INVALID_REQUEST', 'You cannot delete your own account here');
+    try {
+      const user = await storage.users.findById(req.params.id);
+      if (!user) return sendError(res, 404, 'NOT_FOUND', 'User not found');
+      if (user.role === 'admin') return sendError(res, 400, 'INVALID_REQUEST', 'Admin accounts cannot be deleted. Change the role first.');
+
+      let newOwner: UserRecord | null = null;
+      if (mode === 'reassign') {
+        const target = req.body.reassign_to;
+        newOwner = target ? await storage.users.findOneBy('username', target) : null;
+        if (!newOwner) return sendError(res, 400, 'INVALID_REQUEST', 'reassign_to must name an existing user');
+        if (newOwner.id === user.id) return sendError(res, 400, 'INVALID_REQUEST', 'Blogs cannot be reassigned to the deleted user');
+      }
+
+      const count = await deleteUserAccount(user, mode === 'delete' ? 'delete' : 'transfer', newOwner?.id ?? null);
+      await audit(req, {
+        action: 'user.delete',
+        target: userTarget(user),
+        adminOverride: true,
+        before: userSummary(user),
+        after: { blogs: mode, blog_count: count, reassigned_to: newOwner?.username ?? null }
+      });
+      res.json({ message: 'User deleted', blogs: { mode, count, reassigned_to: newOwner?.username ?? null } });
+    } catch (error) {
+      console.error('Delete User Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  // --- Vite Integration ---
+  let vite: ViteDevServer | null = null;
+  if (process.env.NODE_ENV !== 'production') {
+    vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+  }
+
+  let productionTemplate: string | null = null;
+  const loadIndexHtml = async (url: string) => {
+    if (vite) {
+      return vite.transformIndexHtml(url, fs.readFileSync(path.join(__dirname, 'index.html'), 'utf8'));
+    }
+    productionTemplate ??= fs.readFileSync(path.join(__dirname, 'dist', 'index.html'), 'utf8');
+    return productionTemplate;
+  };
+
+  // --- Server-Rendered Pages ---
+  // Public pages get their head tags and content rendered here for crawlers and link previews;
+  // anything not found falls through to the SPA.
+  const sendBlogPage = async (req: any, res: any, blog: BlogRecord) => {
+    const publicBlog = await toPublicBlog(blog);
+    const authorName = publicBlog.author?.username || null;
+    const meta = blogPageMeta(
+      publicBlog,
+      `${getBaseUrl()}${publicBlog.path}`,
+      authorName,
+      authorName ? `${getBaseUrl()}${authorPath(authorName)}` : null
+    );
+    const html = injectIntoTemplate(await loadIndexHtml(req.originalUrl), meta, renderBlogBody(publicBlog, authorName));
+    res.set('Content-Type', 'text/html; charset=utf-8').send(html);
+  };
+
+  // Old ID links redirect to the slug URL once a blog is public. Anonymous posts have no slug URL
+  // and are rendered here directly.
+  app.get('/blog/:id', async (req, res, next) => {
+    try {
+      const blog = await storage.blogs.findById(req.params.id);
+      if (!blog || !isPublished(blog)) return next();
+      const { path: canonicalPath } = await toPublicBlog(blog);
+      if (canonicalPath !== req.path) return res.redirect(301, canonicalPath);
+      await sendBlogPage(req, res, blog);
+    } catch (error) {
+      next();
+    }
+  });
+
+  app.get('/u/:username/:slug', async (req, res, next) => {
+    try {
+      const author = await storage.users.findOneBy('username', req.params.username);
+      const blog = author ? await storage.blogs.findBySlug(author.id, req.params.slug) : null;
+      if (!blog || !isPublished(blog)) return next();
+      await sendBlogPage(req, res, blog);
+    } catch (error) {
+      next();
+    }
+  });
+
+  app.get('/u/:username', async (req, res, next) => {
+    try {
+      const author = await storage.users.findOneBy('username', req.params.username);
+      if (!author) return next();
+      const blogs = await Promise.all((await storage.blogs.listByUser(author.id, { status: 'published' })).map(blog => ensureSlug(storage, blog)));
+      const url = `${getBaseUrl()}${authorPath(author.username)}`;
+      const html = injectIntoTemplate(await loadIndexHtml(req.originalUrl), {
+        title: `${author.username} | ${SITE_NAME}`,
+        description: truncateDescription(`Bài viết của ${author.username} trên ${SITE_NAME}: ${blogs.map(blog => blog.title).join(', ')}`),
+        url,
+        lang: 'vi',
+        type: 'profile',
+        jsonLd: {
+          '@context': 'https://schema.org',
+          '@type': 'ProfilePage',
+          mainEntity: { '@type': 'Person', name: author.username, url }
+        }
+      }, renderAuthorBody(author.username, blogs.map(blog => ({
+        title: blog.title,
+        excerpt: blog.excerpt,
+        url: blogPath(blog, author.username)
+      }))));
+      res.set('Content-Type', 'text/html; charset=utf-8').send(html);
+    } catch (error) {
+      next();
+    }
+  });
+
+  app.get('/sitemap.xml', async (req, res) => {
+    try {
+      const blogs = await storage.blogs.listPublished();
+      const entries: { url: string; lastmod?: string }[] = [{ url: `${getBaseUrl()}/` }];
+      const authors = new Map<string, string>();
+      for (const blog of blogs) {
+        const publicBlog = await toPublicBlog(blog);
+        const lastmod = blog.updated_at || blog.published_at || blog.created_at;
+        entries.push({ url: `${getBaseUrl()}${publicBlog.path}`, lastmod });
+        const username = publicBlog.author?.username;
+        if (username && (!authors.has(username) || authors.get(username)! < lastmod)) authors.set(username, lastmod);
+      }
+      for (const [username, lastmod] of authors) {
+        entries.push({ url: `${getBaseUrl()}${authorPath(username)}`, lastmod });
+      }
+      for (const tag of countTags(blogs)) {
+        entries.push({ url: `${getBaseUrl()}/tags/${encodeURIComponent(tag.slug)}` });
+      }
+      const addCategories = (nodes: CategoryNode[]) => nodes.forEach(node => {
+        entries.push({ url: `${getBaseUrl()}/categories/${node.slug.split('/').map(encodeURIComponent).join('/')}` });
+        addCategories(node.children);
+      });
+      addCategories(buildCategoryTree(blogs));
+      res.set('Content-Type', 'application/xml; charset=utf-8').send(buildSitemap(entries));
+    } catch (error) {
+      console.error('Sitemap Error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  });
+
+  app.get('/robots.txt', (req, res) => {
+    res.type('text/plain').send(buildRobotsTxt(getBaseUrl()));
+  });
+
+  app.all('/api/*', apiNotFound);
+
+  if (vite) {
+    app.use(vite.middlewares);
+  } else {
+    app.use(express.static(path.join(__dirname, 'dist')));
+    app.get('*', (req, res) => {
+      res.sendFile(path.join(__dirname, 'dist', 'index.html'));
+    });
+  }
+  app.use(handleErrors);
+
+  startPublishScheduler(storage, Number(process.env.PUBLISH_SCHEDULER_INTERVAL_MS) || 60_000, notifyBlogChange);
+  webhooks.start(Number(process.env.WEBHOOK_WORKER_INTERVAL_MS) || 15_000);
 
   const PORT = 3000;
   app.listen(PORT, '0.0.0.0', () => {
@@ -453,4 +2231,8 @@ async function startServer() {
   });
 }
 
-startServer();
+// Configuration errors (an invalid ADMIN_PASSWORD or STORAGE_BACKEND) stop the server with their message.
+startServer().catch(error => {
+  console.error(`Server failed to start: ${error?.message || error}`);
+  process.exit(1);
+});
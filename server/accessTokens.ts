@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { Storage, AccessTokenRecord, AccessTokenScope } from './storage/index.ts';
+import { ACCESS_TOKEN_SCOPES, MAX_TOKEN_LIFETIME_DAYS, AccessTokenInput } from '../shared/api.ts';
+
+// Tokens read "zab_pat_<token id>_<secret>". The prefix tells them apart from session JWTs and lets
+// secret scanners recognise a leaked one.
+export const PERSONAL_TOKEN_PREFIX = 'zab_pat_';
+export const MAX_TOKENS_PER_USER = 50;
+// Every request would otherwise write `last_used_at`
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+export const isPersonalToken = (token: string) => token.startsWith(PERSONAL_TOKEN_PREFIX);
+
+export interface TokenRequest {
+  name: string;
+  scopes: AccessTokenScope[];
+  expiresAt: string;
+}
+
+// Every token expires; `expires_in_days` defaults to 30 (see AccessTokenRequest).
+export const toTokenRequest = ({ name, scopes, expires_in_days }: AccessTokenInput, now = Date.now()): TokenRequest =>
+  ({ name, scopes, expiresAt: new Date(now + expires_in_days * DAY_MS).toISOString() });
+
+// Everything but the hash, for listing tokens back to their owner.
+export const toTokenSummary = ({ token_hash, user_id, ...summary }: AccessTokenRecord) => summary;
+
+export type TokenCheck =
+  | { record: AccessTokenRecord; error?: undefined; code?: undefined }
+  | { record?: undefined; error: string; code: 'INVALID_TOKEN' | 'TOKEN_EXPIRED' };
+
+export const createPersonalTokenManager = (storage: Storage) => {
+  // Returns the token itself once; it can't be recovered later.
+  const issue = async (userId: string, request: TokenRequest) => {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const record = await storage.accessTokens.create({
+      user_id: userId,
+      name: request.name,
+      scopes: request.scopes,
+      token_hash: hashSecret(secret),
+      hint: secret.slice(-4),
+      expires_at: request.expiresAt,
+      last_used_at: null
+    });
+    return { record, token: `${PERSONAL_TOKEN_PREFIX}${record.id}_${secret}` };
+  };
+
+  const verify = async (token: string): Promise<TokenCheck> => {
+    const body = token.slice(PERSONAL_TOKEN_PREFIX.length);
+    const separator = body.indexOf('_');
+    const record = separator > 0 ? await storage.accessTokens.findById(body.slice(0, separator)) : null;
+    const expected = record && Buffer.from(record.token_hash);
+    const actual = Buffer.from(hashSecret(body.slice(separator + 1)));
+    if (!record || !expected || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return { error: 'Invalid token', code: 'INVALID_TOKEN' };
+    }
+    if (new Date(record.expires_at).getTime() <= Date.now()) return { error: 'Token expired', code: 'TOKEN_EXPIRED' };
+
+    const lastUsed = record.last_used_at ? new Date(record.last_used_at).getTime() : 0;
+    if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+      const last_used_at = new Date().toISOString();
+      await storage.accessTokens.update(record.id, { last_used_at });
+      return { record: { ...record, last_used_at } };
+    }
+    return { record };
+  };
+
+  return { issue, verify };
+};
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import { MailMessage } from './mail.ts';
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+export const ADMIN_SETUP_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_AVATAR_URL_LENGTH = 2048;
+
+// Emails are compared lowercased; `''` and null both clear the field.
+export const normalizeEmail = (input: unknown): { email: string | null; error?: string } => {
+  if (input === null || input === '') return { email: null };
+  if (typeof input !== 'string') return { email: null, error: 'Invalid email address' };
+  const email = input.trim().toLowerCase();
+  if (email.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return { email: null, error: 'Invalid email address' };
+  return { email };
+};
+
+// Avatars are links to images hosted elsewhere; only http(s) URLs so nothing can run in an <img src>.
+export const normalizeAvatar = (input: unknown): { avatar: string | null; error?: string } => {
+  if (input === null || input === '') return { avatar: null };
+  if (typeof input !== 'string' || input.length > MAX_AVATAR_URL_LENGTH) return { avatar: null, error: 'Invalid avatar URL' };
+  try {
+    const url = new URL(input.trim());
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return { avatar: null, error: 'Avatar URL must use http or https' };
+    return { avatar: url.toString() };
+  } catch {
+    return { avatar: null, error: 'Invalid avatar URL' };
+  }
+};
+
+// The token goes to the user by email (or, for the admin setup token, to the server log); only its
+// hash is stored.
+export const hashResetToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const createPasswordReset = (ttlMs = PASSWORD_RESET_TTL_MS) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return {
+    token,
+    patch: {
+      password_reset_hash: hashResetToken(token),
+      password_reset_expires_at: new Date(Date.now() + ttlMs).toISOString()
+    }
+  };
+};
+
+export const passwordResetEmail = (to: string, username: string, resetUrl: string): MailMessage => ({
+  to,
+  subject: 'Đặt lại mật khẩu ZA Blog AI',
+  text: [
+    `Xin chào ${username},`,
+    '',
+    'Chúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản của bạn. Mở liên kết sau để chọn mật khẩu mới:',
+    '',
+    resetUrl,
+    '',
+    `Liên kết hết hạn sau ${PASSWORD_RESET_TTL_MS / 60_000} phút. Nếu bạn không yêu cầu, hãy bỏ qua email này.`
+  ].join('\n')
+});
@@ -0,0 +1,304 @@
+import { GoogleGenAI, Type, ThinkingLevel } from '@google/genai';
+import axios from 'axios';
+import type { BlogLength, ErrorCode } from '../shared/api.ts';
+
+// --- Types ---
+export interface GenerateBlogInput {
+  topic: string;
+  tone: string;
+  language: string;
+  length: BlogLength;
+  // Also ask the model for tags and a category
+  suggestTaxonomy?: boolean;
+}
+
+export interface GeneratedBlog {
+  title: string;
+  excerpt: string;
+  content: string;
+  tags?: string[];
+  category?: string | null;
+}
+
+export interface AIProvider {
+  name: string;
+  // Returns the raw model output; it is expected to be the JSON object described by the prompt.
+  generate: (input: GenerateBlogInput) => Promise<string>;
+  // Yields the same raw output incrementally. Providers without native streaming may omit it.
+  stream?: (input: GenerateBlogInput, signal?: AbortSignal) => AsyncIterable<string>;
+}
+
+// Codes are part of the API error contract (see ERROR_CODES).
+export type GenerationErrorCode = Extract<ErrorCode, 'MISSING_API_KEY' | 'UNKNOWN_AI_PROVIDER' | 'AI_GENERATION_FAILED' | 'AI_EMPTY_RESPONSE' | 'INVALID_JSON_FORMAT' | 'INCOMPLETE_DATA'>;
+
+export class GenerationError extends Error {
+  code: GenerationErrorCode;
+  detail?: string;
+
+  constructor(code: GenerationErrorCode, detail?: string) {
+    super(detail ? `${code}: ${detail}` : code);
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+// --- Prompt ---
+export const LENGTH_PRESETS: Record<BlogLength, string> = {
+  short: 'Short: 300-500 words.',
+  standard: 'Standard: 800-1,200 words.',
+  long: 'In-depth: 1,500+ words.'
+};
+
+export const buildSystemInstruction = (length: BlogLength, suggestTaxonomy = false) => `Bạn là một chuyên gia viết blog chuyên nghiệp, có khả năng viết lách xuất sắc.
+Nhiệm vụ: Viết một bài blog chi tiết, giàu giá trị, định dạng Markdown đẹp mắt (H1, H2, H3, lists).
+Yêu cầu quan trọng:
+- Tuyệt đối không sai lỗi chính tả tiếng Việt.
+- Sử dụng bảng mã UTF-8 chuẩn, không dùng các ký tự lạ gây lỗi font.
+- Văn phong trôi chảy, chuyên nghiệp, lôi cuốn.
+- Đảm bảo độ dài bài viết phù hợp với yêu cầu: ${LENGTH_PRESETS[length]}.
+- Nếu yêu cầu là "In-depth" (Chuyên sâu), hãy viết cực kỳ chi tiết, phân tích đa chiều, có ví dụ cụ thể.
+- Trả về duy nhất một đối tượng JSON với các trường "title", "excerpt" (tóm tắt ngắn gọn 2 câu) và "content" (Markdown).${suggestTaxonomy ? `
+- Thêm trường "tags" (mảng 3-6 thẻ ngắn) và "category" (danh mục phân cấp dạng "Cha/Con", tối đa 2 cấp), cùng ngôn ngữ với bài viết.` : ''}`;
+
+export const buildUserPrompt = (input: GenerateBlogInput) => `Chủ đề: "${input.topic}"
+Ngôn ngữ: ${input.language}
+Phong cách: ${input.tone}
+Độ dài yêu cầu: ${LENGTH_PRESETS[input.length]}`;
+
+export const parseGeneratedBlog = (raw: string): GeneratedBlog => {
+  // Clean up potential markdown code blocks
+  const text = (raw || '').replace(/```json\n?/, '').replace(/\n?```/, '').trim();
+  if (!text) throw new GenerationError('AI_EMPTY_RESPONSE');
+
+  let result: any;
+  try {
+    result = JSON.parse(text);
+  } catch (parseErr) {
+    console.error('JSON Parse Error:', parseErr, 'Raw text:', text);
+    throw new GenerationError('INVALID_JSON_FORMAT');
+  }
+
+  if (!result || typeof result.title !== 'string' || typeof result.content !== 'string' || !result.title.trim() || !result.content.trim()) {
+    throw new GenerationError('INCOMPLETE_DATA');
+  }
+
+  return {
+    title: result.title.trim(),
+    excerpt: typeof result.excerpt === 'string' ? result.excerpt.trim() : '',
+    content: result.content,
+    ...(Array.isArray(result.tags) ? { tags: result.tags.filter((tag: unknown) => typeof tag === 'string') } : {}),
+    ...(typeof result.category === 'string' ? { category: result.category } : {})
+  };
+};
+
+// Decodes the (possibly unterminated) string value of `field` from a JSON object that is still
+// being streamed. Incomplete escape sequences at the end are dropped so the result only grows.
+const extractPartialString = (buffer: string, field: string): string | undefined => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(buffer);
+  if (!match) return undefined;
+
+  let out = '';
+  for (let i = match.index + match[0].length; i < buffer.length; i++) {
+    const ch = buffer[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      out += ch;
+      continue;
+    }
+    const next = buffer[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+    out += escapes[next] ?? next;
+    i++;
+  }
+  return out;
+};
+
+export const extractPartialBlog = (buffer: string): Partial<GeneratedBlog> => {
+  const text = buffer.replace(/^\s*```json\n?/, '');
+  const partial: Partial<GeneratedBlog> = {};
+  for (const field of ['title', 'excerpt', 'content'] as const) {
+    const value = extractPartialString(text, field);
+    if (value !== undefined) partial[field] = value;
+  }
+  return partial;
+};
+
+// --- Providers ---
+export const createGeminiProvider = (apiKey: string, model = 'gemini-3-flash-preview'): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  const buildRequest = (input: GenerateBlogInput, signal?: AbortSignal) => ({
+    model,
+    contents: buildUserPrompt(input),
+    config: {
+      systemInstruction: buildSystemInstruction(input.length, input.suggestTaxonomy),
+      thinkingConfig: { thinkingLevel: ThinkingLevel.LOW },
+      maxOutputTokens: 12000,
+      responseMimeType: 'application/json',
+      // Gemini emits properties in schema order, so the title and excerpt arrive before the content when streaming.
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: 'Tiêu đề bài viết hấp dẫn' },
+          excerpt: { type: Type.STRING, description: 'Tóm tắt ngắn gọn 2 câu' },
+          content: { type: Type.STRING, description: 'Nội dung bài viết định dạng Markdown' },
+          ...(input.suggestTaxonomy ? {
+            tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: '3-6 thẻ ngắn' },
+            category: { type: Type.STRING, description: 'Danh mục phân cấp dạng "Cha/Con"' }
+          } : {})
+        },
+        required: ['title', 'excerpt', 'content'],
+        propertyOrdering: ['title', 'excerpt', 'content', ...(input.suggestTaxonomy ? ['tags', 'category'] : [])]
+      },
+      abortSignal: signal
+    }
+  });
+
+  return {
+    name: 'gemini',
+    generate: async (input) => {
+      const response = await ai.models.generateContent(buildRequest(input));
+      return response.text || '';
+    },
+    stream: async function* (input, signal) {
+      const stream = await ai.models.generateContentStream(buildRequest(input, signal));
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
+
+// Works with any server implementing the OpenAI chat completions API (OpenAI, OpenRouter, Ollama, vLLM...).
+export const createOpenAICompatibleProvider = (apiKey: string, baseUrl: string, model: string): AIProvider => {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+  const headers = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  const buildBody = (input: GenerateBlogInput, stream: boolean) => ({
+    model,
+    stream,
+    max_tokens: 12000,
+    response_format: { type: 'json_object' },
+    messages: [
+      { role: 'system', content: buildSystemInstruction(input.length, input.suggestTaxonomy) },
+      { role: 'user', content: buildUserPrompt(input) }
+    ]
+  });
+
+  return {
+    name: 'openai',
+    generate: async (input) => {
+      const res = await axios.post(endpoint, buildBody(input, false), { headers });
+      return res.data?.choices?.[0]?.message?.content || '';
+    },
+    stream: async function* (input, signal) {
+      const res = await axios.post(endpoint, buildBody(input, true), { headers, responseType: 'stream', signal });
+      const decoder = new TextDecoder();
+      let pending = '';
+      for await (const chunk of res.data) {
+        pending += decoder.decode(chunk, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    }
+  };
+};
+
+// Deterministic offline provider: the same input always produces the same post.
+export const createMockProvider = (chunkDelayMs = 30): AIProvider => {
+  const sectionCount: Record<BlogLength, number> = { short: 2, standard: 4, long: 6 };
+  const provider: AIProvider = {
+    name: 'mock',
+    generate: async (input) => {
+      const sections = Array.from({ length: sectionCount[input.length] }, (_, i) => [
+        `## ${i + 1}. ${input.topic} — phần ${i + 1}`,
+        '',
+        `Đây là nội dung mẫu (${input.tone}, ${input.language}) cho phần ${i + 1} của chủ đề "${input.topic}".`,
+        '',
+        `- Ý chính ${i + 1}.1`,
+        `- Ý chính ${i + 1}.2`
+      ].join('\n'));
+
+      return JSON.stringify({
+        title: input.topic,
+        excerpt: `Bài viết mẫu về "${input.topic}". Nội dung được tạo bởi mock provider.`,
+        content: [`# ${input.topic}`, ...sections].join('\n\n'),
+        ...(input.suggestTaxonomy ? { tags: [input.tone, input.language, 'mock'], category: `Mock/${input.tone}` } : {})
+      });
+    },
+    stream: async function* (input, signal) {
+      const raw = await provider.generate(input);
+      for (let i = 0; i < raw.length; i += 40) {
+        if (signal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+        yield raw.slice(i, i + 40);
+      }
+    }
+  };
+  return provider;
+};
+
+export const aiProviderName = () => (process.env.AI_PROVIDER || 'gemini').trim().toLowerCase();
+
+export const getAIProvider = (): AIProvider => {
+  const providerName = aiProviderName();
+
+  switch (providerName) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY?.trim() || '';
+      const baseUrl = process.env.OPENAI_BASE_URL?.trim() || 'https://api.openai.com/v1';
+      if (!apiKey && baseUrl.includes('api.openai.com')) throw new GenerationError('MISSING_API_KEY', 'OPENAI_API_KEY');
+      return createOpenAICompatibleProvider(apiKey, baseUrl, process.env.OPENAI_MODEL?.trim() || 'gpt-4o-mini');
+    }
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY?.trim();
+      if (!apiKey) throw new GenerationError('MISSING_API_KEY', 'GEMINI_API_KEY');
+      return createGeminiProvider(apiKey, process.env.GEMINI_MODEL?.trim() || undefined);
+    }
+    default:
+      throw new GenerationError('UNKNOWN_AI_PROVIDER', providerName);
+  }
+};
+
+export const generateBlog = async (input: GenerateBlogInput, provider: AIProvider = getAIProvider()): Promise<GeneratedBlog> => {
+  let raw: string;
+  try {
+    raw = await provider.generate(input);
+  } catch (aiErr: any) {
+    console.error('AI API Error:', aiErr);
+    throw new GenerationError('AI_GENERATION_FAILED', aiErr.message || 'Unknown AI error');
+  }
+  return parseGeneratedBlog(raw);
+};
+
+// Yields raw output chunks; providers without native streaming produce a single chunk.
+export async function* streamBlog(input: GenerateBlogInput, signal?: AbortSignal, provider: AIProvider = getAIProvider()): AsyncGenerator<string> {
+  try {
+    if (!provider.stream) {
+      yield await provider.generate(input);
+      return;
+    }
+    for await (const chunk of provider.stream(input, signal)) {
+      if (signal?.aborted) return;
+      yield chunk;
+    }
+  } catch (aiErr: any) {
+    if (signal?.aborted) return;
+    console.error('AI Stream Error:', aiErr);
+    throw new GenerationError('AI_GENERATION_FAILED', aiErr.message || 'Unknown AI error');
+  }
+}
@@ -0,0 +1,183 @@
+import { BlogRecord, GenerationEventRecord, DateRange } from './storage/index.ts';
+
+// --- Range ---
+export type AnalyticsInterval = 'day' | 'week';
+
+export interface AnalyticsRange extends DateRange {
+  interval: AnalyticsInterval;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+const parseDay = (value: unknown) => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+};
+
+// `from` and `to` are inclusive UTC days (YYYY-MM-DD). Defaults to the last 30 days, ending today.
+export const parseAnalyticsRange = (query: any, now = new Date()): { range: AnalyticsRange; error?: undefined } | { range?: undefined; error: string } => {
+  const interval = query.interval ?? 'day';
+  if (interval !== 'day' && interval !== 'week') return { error: 'Invalid interval. Expected day or week' };
+
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const to = query.to === undefined ? today : parseDay(query.to);
+  if (!to) return { error: 'Invalid to date' };
+  const from = query.from === undefined ? new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS) : parseDay(query.from);
+  if (!from) return { error: 'Invalid from date' };
+  if (from > to) return { error: 'from must not be after to' };
+  if ((to.getTime() - from.getTime()) / DAY_MS >= MAX_RANGE_DAYS) return { error: `Range cannot exceed ${MAX_RANGE_DAYS} days` };
+
+  return { range: { from: from.toISOString(), to: new Date(to.getTime() + DAY_MS).toISOString(), interval } };
+};
+
+// Weeks start on Monday; a bucket is named by its first day.
+const bucketStart = (date: Date, interval: AnalyticsInterval) => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === 'week') day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+const bucketKeys = (range: AnalyticsRange) => {
+  const keys: string[] = [];
+  const end = new Date(range.to).getTime();
+  for (let time = new Date(range.from).getTime(); time < end; time += DAY_MS) {
+    const key = bucketStart(new Date(time), range.interval);
+    if (keys[keys.length - 1] !== key) keys.push(key);
+  }
+  return keys;
+};
+
+// --- Report ---
+export interface CountEntry {
+  key: string;
+  count: number;
+}
+
+export interface AnalyticsPeriod {
+  period: string;
+  posts: number;
+  generations: number;
+  failed_generations: number;
+  active_users: number;
+  avg_latency_ms: number | null;
+}
+
+export interface AnalyticsReport {
+  range: { from: string; to: string; interval: AnalyticsInterval };
+  userCount: number;
+  totals: {
+    posts: number;
+    active_users: number;
+    generations: number;
+    succeeded: number;
+    failed: number;
+    cancelled: number;
+    // Share of finished (succeeded or failed) generations that succeeded; null without any
+    success_rate: number | null;
+    avg_latency_ms: number | null;
+  };
+  series: AnalyticsPeriod[];
+  posts_by: { tone: CountEntry[]; language: CountEntry[]; length: CountEntry[] };
+  // `rate` is the share of finished generations that failed with the code
+  generation_errors: (CountEntry & { rate: number })[];
+}
+
+const countBy = <T>(items: T[], key: (item: T) => string): CountEntry[] => {
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(key(item), (counts.get(key(item)) || 0) + 1);
+  return [...counts].map(([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+};
+
+const average = (values: number[]) => values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+// Cancelled streams never finished, so they are left out of rates and latency.
+const finished = (events: GenerationEventRecord[]) => events.filter(event => event.outcome !== 'cancelled');
+
+// A user counts as active in a period when they created a blog or ran a generation in it.
+const activeUsers = (blogs: BlogRecord[], events: GenerationEventRecord[]) =>
+  new Set([...blogs.map(blog => blog.user_id), ...events.map(event => event.user_id)].filter(Boolean)).size;
+
+const groupByBucket = <T extends { created_at: string }>(items: T[], interval: AnalyticsInterval) => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = bucketStart(new Date(item.created_at), interval);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+  return groups;
+};
+
+// `blogs` and `events` are expected to lie within the range already.
+export const buildAnalytics = (range: AnalyticsRange, blogs: BlogRecord[], events: GenerationEventRecord[], userCount: number): AnalyticsReport => {
+  const blogsByBucket = groupByBucket(blogs, range.interval);
+  const eventsByBucket = groupByBucket(events, range.interval);
+
+  const series = bucketKeys(range).map((period): AnalyticsPeriod => {
+    const periodBlogs = blogsByBucket.get(period) || [];
+    const periodEvents = eventsByBucket.get(period) || [];
+    return {
+      period,
+      posts: periodBlogs.length,
+      generations: periodEvents.length,
+      failed_generations: periodEvents.filter(event => event.outcome === 'failure').length,
+      active_users: activeUsers(periodBlogs, periodEvents),
+      avg_latency_ms: average(finished(periodEvents).map(event => event.duration_ms))
+    };
+  });
+
+  const done = finished(events);
+  const failures = done.filter(event => event.outcome === 'failure');
+  const succeeded = done.length - failures.length;
+
+  return {
+    range: { from: range.from, to: range.to, interval: range.interval },
+    userCount,
+    totals: {
+      posts: blogs.length,
+      active_users: activeUsers(blogs, events),
+      generations: events.length,
+      succeeded,
+      failed: failures.length,
+      cancelled: events.length - done.length,
+      success_rate: done.length ? succeeded / done.length : null,
+      avg_latency_ms: average(done.map(event => event.duration_ms))
+    },
+    series,
+    posts_by: {
+      tone: countBy(blogs, blog => blog.tone || 'unknown'),
+      language: countBy(blogs, blog => blog.language || 'unknown'),
+      // Blogs written or imported by hand have no length preset
+      length: countBy(blogs, blog => blog.length || 'manual')
+    },
+    generation_errors: countBy(failures, event => event.error_code || 'UNKNOWN').map(entry => ({ ...entry, rate: entry.count / done.length }))
+  };
+};
+
+// --- CSV ---
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (rows: (string | number | null)[][]) => rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+// One table per section, separated by blank lines, so spreadsheets open it without extra steps.
+export const analyticsCsv = (report: AnalyticsReport) => [
+  csvRows([
+    ['period', 'posts', 'generations', 'failed_generations', 'active_users', 'avg_latency_ms'],
+    ...report.series.map(row => [row.period, row.posts, row.generations, row.failed_generations, row.active_users, row.avg_latency_ms])
+  ]),
+  csvRows([
+    ['dimension', 'value', 'posts'],
+    ...(['tone', 'language', 'length'] as const).flatMap(dimension =>
+      report.posts_by[dimension].map(entry => [dimension, entry.key, entry.count]))
+  ]),
+  csvRows([
+    ['error_code', 'count', 'rate'],
+    ...report.generation_errors.map(entry => [entry.key, entry.count, entry.rate.toFixed(4)])
+  ])
+].join('\r\n\r\n') + '\r\n';
@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { BlogRecord, UserRecord, WebhookRecord, AuditAction, AuditEventRecord, AuditQuery, AuditTargetType, decodeCreatedCursor } from './storage/index.ts';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'auth.login',
+  'auth.login_failed',
+  'blog.create',
+  'blog.update',
+  'blog.status',
+  'blog.restore',
+  'blog.delete',
+  'user.role_change',
+  'user.suspend',
+  'user.unsuspend',
+  'user.delete',
+  'account.delete',
+  'account.link',
+  'account.unlink',
+  'token.create',
+  'token.revoke',
+  'webhook.create',
+  'webhook.update',
+  'webhook.delete'
+];
+
+const AUDIT_TARGET_TYPES: AuditTargetType[] = ['blog', 'user'];
+
+// --- Summaries ---
+// Entries keep a few identifying fields rather than whole records. Text bodies are reduced to their
+// length and a short hash, enough to tell that they changed without copying posts into the log.
+type Summary = Record<string, unknown>;
+
+const textFingerprint = (text: string | undefined) => ({
+  length: (text || '').length,
+  hash: crypto.createHash('sha256').update(text || '').digest('hex').slice(0, 12)
+});
+
+export const blogSummary = (blog: Partial<BlogRecord>): Summary => ({
+  title: blog.title ?? null,
+  slug: blog.slug ?? null,
+  owner_id: blog.user_id ?? null,
+  status: blog.status || 'published',
+  publish_at: blog.publish_at ?? null,
+  tags: blog.tags ?? [],
+  category: blog.category ?? null,
+  excerpt: textFingerprint(blog.excerpt),
+  content: textFingerprint(blog.content)
+});
+
+export const userSummary = (user: Partial<UserRecord>): Summary => ({
+  username: user.username ?? null,
+  role: user.role || 'user',
+  suspended_at: user.suspended_at ?? null
+});
+
+export const webhookSummary = (webhook: Partial<WebhookRecord>): Summary => ({
+  url: webhook.url ?? null,
+  events: webhook.events ?? [],
+  description: webhook.description ?? null,
+  active: webhook.active ?? null
+});
+
+// Keeps only the fields whose value differs. Returns nulls when nothing changed.
+export const diffSummaries = (before: Summary, after: Summary) => {
+  const changed = Object.keys({ ...before, ...after }).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+  if (!changed.length) return { before: null, after: null };
+  return {
+    before: Object.fromEntries(changed.map(key => [key, before[key] ?? null])),
+    after: Object.fromEntries(changed.map(key => [key, after[key] ?? null]))
+  };
+};
+
+// --- Queries ---
+const isDate = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+// Reads the filters shared by the list and the exports. `from` and `before` accept any date string.
+export const parseAuditQuery = (query: any, defaultLimit: number, maxLimit: number): { query: AuditQuery; error?: undefined } | { query?: undefined; error: string } => {
+  const { action, actor, target_type, target_id, from, before, cursor } = query;
+  if (action !== undefined && !AUDIT_ACTIONS.includes(action)) return { error: `Invalid action. Expected one of: ${AUDIT_ACTIONS.join(', ')}` };
+  if (actor !== undefined && (typeof actor !== 'string' || !actor)) return { error: 'Invalid actor' };
+  if (target_type !== undefined && !AUDIT_TARGET_TYPES.includes(target_type)) return { error: 'Invalid target type' };
+  if (target_id !== undefined && (typeof target_id !== 'string' || !target_id)) return { error: 'Invalid target id' };
+  if (from !== undefined && !isDate(from)) return { error: 'Invalid from date' };
+  if (before !== undefined && !isDate(before)) return { error: 'Invalid before date' };
+  const after = cursor === undefined ? null : typeof cursor === 'string' ? decodeCreatedCursor(cursor) : null;
+  if (cursor !== undefined && !after) return { error: 'Invalid cursor' };
+  const limit = query.limit === undefined ? defaultLimit : parseInt(query.limit, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) return { error: `Limit must be between 1 and ${maxLimit}` };
+
+  return {
+    query: {
+      action,
+      actor,
+      target_type,
+      target_id,
+      from: from && new Date(from).toISOString(),
+      before: before && new Date(before).toISOString(),
+      cursor: after,
+      limit
+    }
+  };
+};
+
+// --- Export ---
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS: (keyof AuditEventRecord)[] = [
+  'created_at', 'action', 'actor_id', 'actor_username', 'actor_role', 'target_type', 'target_id', 'target_label',
+  'admin_override', 'ip', 'user_agent', 'before', 'after'
+];
+
+// `before` and `after` are written as JSON inside their cells.
+export const auditCsv = (events: AuditEventRecord[]) =>
+  [CSV_COLUMNS, ...events.map(event => CSV_COLUMNS.map(column => event[column]))]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
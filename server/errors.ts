@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { ApiError, ErrorCode } from '../shared/api.ts';
+import { Schema, FieldIssue, validate } from '../shared/schema.ts';
+
+// Every request gets an id, echoed in the X-Request-Id header and in error bodies so a report from
+// a user can be matched with the server log. An id set by a proxy in front is kept.
+const REQUEST_ID_HEADER = 'x-request-id';
+
+export const assignRequestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.headers[REQUEST_ID_HEADER];
+  const id = typeof incoming === 'string' && /^[\w.:-]{8,100}$/.test(incoming) ? incoming : crypto.randomUUID();
+  (req as any).id = id;
+  res.set('X-Request-Id', id);
+  next();
+};
+
+export const requestId = (req: Request): string => (req as any).id || '';
+
+export const apiError = (req: Request, code: ErrorCode, message: string, extra: Partial<ApiError> = {}): ApiError =>
+  ({ code, message, ...extra, request_id: requestId(req) });
+
+// The only way routes answer with an error; see ApiError for the body.
+export const sendError = (res: Response, status: number, code: ErrorCode, message: string, extra: Partial<ApiError> = {}) =>
+  res.status(status).json(apiError(res.req, code, message, extra));
+
+export const sendValidationError = (res: Response, fields: FieldIssue[]) =>
+  sendError(res, 400, 'VALIDATION_FAILED', `Invalid ${fields.map(field => field.path || 'body').join(', ')}`, { fields });
+
+// Replaces `req.body` with the checked value: unknown keys are dropped, strings trimmed, defaults set.
+export const validateBody = (schema: Schema<any, boolean>) => (req: Request, res: Response, next: NextFunction) => {
+  const { value, issues } = validate(schema, req.body ?? {});
+  if (issues) return sendValidationError(res, issues);
+  req.body = value;
+  next();
+};
+
+// Query parameters the schema doesn't name are left as they are, for handlers that read them.
+export const validateQuery = (schema: Schema<any, boolean>) => (req: Request, res: Response, next: NextFunction) => {
+  const { value, issues } = validate(schema, req.query);
+  if (issues) return sendValidationError(res, issues);
+  req.query = { ...req.query, ...value };
+  next();
+};
+
+// Unknown /api routes answer in the same format instead of falling through to the web app.
+export const apiNotFound = (req: Request, res: Response) => sendError(res, 404, 'NOT_FOUND', `No route for ${req.method} ${req.path}`);
+
+// Last middleware: body parser failures and anything a route passed to `next`.
+export const handleErrors = (error: any, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) return next(error);
+  if (error?.type === 'entity.parse.failed') return sendError(res, 400, 'INVALID_JSON', 'Request body is not valid JSON');
+  if (error?.type === 'entity.too.large') return sendError(res, 413, 'PAYLOAD_TOO_LARGE', 'Request body is too large');
+  console.error(`Unhandled Error (request ${requestId(req)}):`, error);
+  sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+};
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { BlogRecord } from './storage/index.ts';
+import { renderMarkdown, languageCode, escapeXml } from './render.ts';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json'
+};
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+};
+
+export interface FeedEntry {
+  blog: BlogRecord;
+  url: string;
+  authorName: string | null;
+}
+
+export interface FeedOptions {
+  title: string;
+  description: string;
+  // Absolute URLs
+  homeUrl: string;
+  feedUrl: (format: FeedFormat) => string;
+  entries: FeedEntry[];
+}
+
+export const FEED_ITEM_LIMIT = 50;
+
+const publishedAt = (blog: BlogRecord) => blog.published_at || blog.created_at;
+const updatedAt = (blog: BlogRecord) => blog.updated_at || publishedAt(blog);
+
+// Newest change across all entries; drives Last-Modified and the feed-level updated fields.
+export const feedLastModified = (entries: FeedEntry[]) =>
+  entries.reduce((latest, { blog }) => (updatedAt(blog) > latest ? updatedAt(blog) : latest), new Date(0).toISOString());
+
+// Cheap validator computed from metadata only, so unchanged feeds can be answered with 304
+// before any Markdown is rendered.
+export const feedETag = (format: FeedFormat, options: FeedOptions) => {
+  const hash = crypto.createHash('sha1')
+    .update(format)
+    .update(options.title)
+    .update(options.entries.map(({ blog, url }) => `${blog.id}:${updatedAt(blog)}:${url}`).join('|'))
+    .digest('base64url');
+  return `W/"${hash}"`;
+};
+
+const rfc822 = (iso: string) => new Date(iso).toUTCString();
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const buildRss = (options: FeedOptions) => {
+  const items = options.entries.map(({ blog, url, authorName }) => `    <item>
+      <title>${escapeXml(blog.title)}</title>
+      <link>${escapeXml(url)}</link>
+      <guid isPermaLink="true">${escapeXml(url)}</guid>
+      <pubDate>${rfc822(publishedAt(blog))}</pubDate>
+      <atom:updated>${new Date(updatedAt(blog)).toISOString()}</atom:updated>${authorName ? `
+      <dc:creator>${escapeXml(authorName)}</dc:creator>` : ''}
+      <dc:language>${languageCode(blog.language)}</dc:language>
+      <description>${escapeXml(blog.excerpt)}</description>
+      <content:encoded>${cdata(renderMarkdown(blog.content))}</content:encoded>
+    </item>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${escapeXml(options.homeUrl)}</link>
+    <description>${escapeXml(options.description)}</description>
+    <atom:link href="${escapeXml(options.feedUrl('rss'))}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${rfc822(feedLastModified(options.entries))}</lastBuildDate>
+${items}
+  </channel>
+</rss>
+`;
+};
+
+const buildAtom = (options: FeedOptions) => {
+  const entries = options.entries.map(({ blog, url, authorName }) => `  <entry xml:lang="${languageCode(blog.language)}">
+    <title>${escapeXml(blog.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(url)}" />
+    <id>${escapeXml(url)}</id>
+    <published>${new Date(publishedAt(blog)).toISOString()}</published>
+    <updated>${new Date(updatedAt(blog)).toISOString()}</updated>${authorName ? `
+    <author><name>${escapeXml(authorName)}</name></author>` : ''}
+    <summary>${escapeXml(blog.excerpt)}</summary>
+    <content type="html">${escapeXml(renderMarkdown(blog.content))}</content>
+  </entry>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(options.title)}</title>
+  <subtitle>${escapeXml(options.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(options.homeUrl)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(options.feedUrl('atom'))}" />
+  <id>${escapeXml(options.feedUrl('atom'))}</id>
+  <updated>${new Date(feedLastModified(options.entries)).toISOString()}</updated>
+${entries}
+</feed>
+`;
+};
+
+// https://www.jsonfeed.org/version/1.1/
+const buildJsonFeed = (options: FeedOptions) => JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: options.title,
+  description: options.description,
+  home_page_url: options.homeUrl,
+  feed_url: options.feedUrl('json'),
+  items: options.entries.map(({ blog, url, authorName }) => ({
+    id: url,
+    url,
+    title: blog.title,
+    summary: blog.excerpt,
+    content_html: renderMarkdown(blog.content),
+    language: languageCode(blog.language),
+    date_published: new Date(publishedAt(blog)).toISOString(),
+    date_modified: new Date(updatedAt(blog)).toISOString(),
+    ...(authorName ? { authors: [{ name: authorName }] } : {})
+  }))
+}, null, 2);
+
+export const buildFeed = (format: FeedFormat, options: FeedOptions) => {
+  switch (format) {
+    case 'rss':
+      return buildRss(options);
+    case 'atom':
+      return buildAtom(options);
+    case 'json':
+      return buildJsonFeed(options);
+  }
+};
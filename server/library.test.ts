@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { zipSync, strToU8 } from 'fflate';
+import { parseMarkdownZip, parseImport, MAX_IMPORT_POSTS } from './library.ts';
+import { MAX_TITLE_LENGTH, MAX_CONTENT_LENGTH } from '../shared/api.ts';
+
+const zip = (files: Record<string, string | Uint8Array>) =>
+  Buffer.from(zipSync(Object.fromEntries(Object.entries(files).map(([name, data]) => [name, typeof data === 'string' ? strToU8(data) : data])), { level: 9 }));
+
+test('parseMarkdownZip reads front matter and skips files that are not posts', () => {
+  const { posts, issues } = parseMarkdownZip(zip({
+    '2024-03-01-hello.md': '---\ntitle: Hello\ntags: [a, b]\n---\nBody',
+    '__MACOSX/2024-03-01-hello.md': 'resource fork',
+    '.hidden.md': 'hidden',
+    'notes.txt': 'not markdown'
+  }));
+  assert.deepEqual(issues, []);
+  assert.equal(posts.length, 1);
+  assert.equal(posts[0].title, 'Hello');
+  assert.equal(posts[0].content, 'Body');
+  assert.deepEqual(posts[0].tags, ['a', 'b']);
+});
+
+test('parseMarkdownZip reports files over the per-file limit without inflating them', () => {
+  const { posts, issues } = parseMarkdownZip(zip({ 'big.md': new Uint8Array(3 * 1024 * 1024).fill(97), 'small.md': '# Small' }));
+  assert.deepEqual(posts.map(post => post.title), ['Small']);
+  assert.deepEqual(issues, [{ source: 'big.md', error: 'File is too large' }]);
+});
+
+test('parseMarkdownZip refuses archives with more posts than an import may hold', () => {
+  const files = Object.fromEntries(Array.from({ length: MAX_IMPORT_POSTS + 1 }, (_, i) => [`post-${i}.md`, `# Post ${i}`]));
+  assert.throws(() => parseMarkdownZip(zip(files)), /at most 500 posts/);
+});
+
+test('parseMarkdownZip refuses archives that expand past the total size limit', () => {
+  const file = new Uint8Array(2 * 1024 * 1024 - 1).fill(97);
+  const files = Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`post-${i}.md`, file]));
+  const archive = zip(files);
+  assert.ok(archive.length < 1024 * 1024);
+  assert.throws(() => parseMarkdownZip(archive), /expands to more than 50 MB/);
+});
+
+test('parseMarkdownZip never inflates an entry past the size the archive declares', () => {
+  const archive = zip({ 'post.md': new Uint8Array(1024 * 1024).fill(97) });
+  // Claim 100 bytes in the local and central headers
+  archive.writeUInt32LE(100, 22);
+  archive.writeUInt32LE(100, archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+  const { posts } = parseMarkdownZip(archive);
+  assert.ok(posts[0].content.length <= 100);
+});
+
+test('parseImport reports posts that break the blog limits instead of importing them', () => {
+  const { posts, issues } = parseImport(zip({
+    'ok.md': '# Fine\n\nBody',
+    'long-title.md': `---\ntitle: ${'a'.repeat(MAX_TITLE_LENGTH + 1)}\n---\nBody`,
+    'long-body.md': `# Long body\n\n${'a'.repeat(MAX_CONTENT_LENGTH + 1)}`
+  }));
+  assert.deepEqual(posts.map(post => post.title), ['Fine']);
+  assert.deepEqual(issues.map(issue => issue.source).sort(), ['long-body.md', 'long-title.md']);
+  assert.match(issues.find(issue => issue.source === 'long-title.md')!.error, /^title: /);
+  assert.match(issues.find(issue => issue.source === 'long-body.md')!.error, /^content: /);
+});
+
+test('parseImport refuses files that are neither a zip nor a WordPress export', () => {
+  assert.throws(() => parseImport(Buffer.from('hello')), /Unsupported file/);
+});
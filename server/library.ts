@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import YAML from 'yaml';
+import { XMLParser } from 'fast-xml-parser';
+import TurndownService from 'turndown';
+import { BlogRecord, BlogStatus } from './storage/index.ts';
+import { isBlogStatus, effectiveStatus } from './lifecycle.ts';
+import { normalizeTags, normalizeCategory, CATEGORY_SEPARATOR } from './taxonomy.ts';
+import { foldQuery, plainText } from './search.ts';
+import { truncateDescription } from './seo.ts';
+import { slugify } from '../shared/slugify.ts';
+import { languageLabel } from '../shared/language.ts';
+import { BlogRequest } from '../shared/api.ts';
+import { validate } from '../shared/schema.ts';
+
+export type ImportFormat = 'markdown-zip' | 'wxr';
+
+// A post read from an archive, before it is saved. Dates are ISO strings; `source` names the file or
+// WordPress item it came from so the preview can point at it.
+export interface ImportedPost {
+  source: string;
+  title: string;
+  excerpt: string;
+  content: string;
+  tone: string;
+  language: string;
+  tags: string[];
+  category: string | null;
+  status: BlogStatus;
+  publish_at: string | null;
+  published_at: string | null;
+  created_at: string | null;
+}
+
+export interface ImportIssue {
+  source: string;
+  error: string;
+}
+
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+export const MAX_IMPORT_POSTS = 500;
+// Caps on the uncompressed size, per file and for the whole archive, so a small zip can't expand
+// into gigabytes. Entries are inflated to the size the archive declares, never beyond.
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+const DEFAULT_TONE = 'professional';
+const DEFAULT_LANGUAGE = 'Tiếng Việt';
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+
+// --- Export ---
+const frontMatter = (blog: BlogRecord) => ({
+  title: blog.title,
+  excerpt: blog.excerpt,
+  tone: blog.tone,
+  language: blog.language,
+  status: effectiveStatus(blog),
+  tags: blog.tags || [],
+  category: blog.category || null,
+  slug: blog.slug || null,
+  created_at: blog.created_at,
+  updated_at: blog.updated_at || null,
+  published_at: blog.published_at || null,
+  publish_at: blog.publish_at || null
+});
+
+// `---` YAML front matter followed by the Markdown body, the layout Jekyll, Hugo and most editors read.
+export const toMarkdownFile = (blog: BlogRecord) =>
+  `---\n${YAML.stringify(frontMatter(blog), { lineWidth: 0 })}---\n\n${blog.content.trim()}\n`;
+
+// One `<date>-<slug>.md` per blog so the archive sorts chronologically.
+export const buildLibraryZip = (blogs: BlogRecord[]) => {
+  const files: Record<string, Uint8Array> = {};
+  for (const blog of blogs) {
+    const base = `${blog.created_at.slice(0, 10)}-${blog.slug || slugify(blog.title)}`;
+    let name = `${base}.md`;
+    for (let n = 2; files[name]; n++) name = `${base}-${n}.md`;
+    files[name] = strToU8(toMarkdownFile(blog));
+  }
+  return Buffer.from(zipSync(files, { level: 6 }));
+};
+
+// --- Import: shared helpers ---
+const toIsoDate = (value: unknown) => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '');
+
+// Scheduled posts whose date has passed while they sat in the archive come back as published.
+const resolveStatus = (status: BlogStatus, publishAt: string | null, publishedAt: string | null) => {
+  if (status === 'scheduled') {
+    if (publishAt && new Date(publishAt).getTime() > Date.now()) return { status, publish_at: publishAt, published_at: null };
+    return publishAt ? { status: 'published' as const, publish_at: null, published_at: publishAt } : { status: 'draft' as const, publish_at: null, published_at: null };
+  }
+  if (status === 'published') return { status, publish_at: null, published_at: publishedAt || new Date().toISOString() };
+  return { status, publish_at: null, published_at: null };
+};
+
+const excerptFrom = (content: string) => truncateDescription(plainText(content), 200);
+
+// --- Import: Markdown zip ---
+const FRONT_MATTER = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// Jekyll-style "2024-03-01-my-post.md"
+const dateFromFileName = (name: string) => name.match(/(?:^|\/)(\d{4}-\d{2}-\d{2})-[^/]*$/)?.[1];
+
+const titleFromFileName = (name: string) =>
+  (name.split('/').pop() || name)
+    .replace(MARKDOWN_FILE, '')
+    .replace(/^\d{4}-\d{2}-\d{2}-/, '')
+    .replace(/[-_]+/g, ' ')
+    .trim();
+
+// Front matter is optional: without a title the first `# heading` is used (and dropped from the
+// body), then the file name.
+export const parseMarkdownFile = (name: string, source: string): ImportedPost => {
+  const match = source.match(FRONT_MATTER);
+  let data: Record<string, any> = {};
+  if (match) {
+    const parsed = YAML.parse(match[1]);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) data = parsed;
+  }
+  let content = (match ? source.slice(match[0].length) : source.replace(/^\uFEFF/, '')).trim();
+
+  let title = text(data.title);
+  if (!title) {
+    const heading = content.match(/^#\s+(.+?)\s*#*\s*(?:\r?\n|$)/);
+    if (heading) {
+      title = heading[1].trim();
+      content = content.slice(heading[0].length).trim();
+    } else {
+      title = titleFromFileName(name);
+    }
+  }
+
+  const requested = data.status ?? (data.draft === true ? 'draft' : 'published');
+  const publishedAt = toIsoDate(data.published_at ?? data.date ?? dateFromFileName(name));
+  return {
+    source: name,
+    title,
+    excerpt: text(data.excerpt ?? data.description ?? data.summary) || excerptFrom(content),
+    content,
+    tone: text(data.tone) || DEFAULT_TONE,
+    language: text(data.language) ? languageLabel(text(data.language)) || text(data.language) : DEFAULT_LANGUAGE,
+    tags: normalizeTags(data.tags),
+    // Other generators list several flat categories; only the first is kept
+    category: normalizeCategory(data.category ?? (Array.isArray(data.categories) ? data.categories[0] : data.categories)),
+    ...resolveStatus(isBlogStatus(requested) ? requested : 'draft', toIsoDate(data.publish_at), publishedAt),
+    created_at: toIsoDate(data.created_at ?? data.date ?? dateFromFileName(name)) || publishedAt
+  };
+};
+
+// The limits are checked while the archive is listed, before anything is inflated.
+export const parseMarkdownZip = (archive: Uint8Array) => {
+  const posts: ImportedPost[] = [];
+  const issues: ImportIssue[] = [];
+  let files = 0;
+  let totalBytes = 0;
+  const entries = unzipSync(archive, {
+    filter: file => {
+      if (!MARKDOWN_FILE.test(file.name) || file.name.startsWith('__MACOSX/') || file.name.split('/').pop()!.startsWith('.')) return false;
+      if (++files > MAX_IMPORT_POSTS) throw new Error(`An import can contain at most ${MAX_IMPORT_POSTS} posts`);
+      if (file.originalSize > MAX_FILE_BYTES) {
+        issues.push({ source: file.name, error: 'File is too large' });
+        return false;
+      }
+      totalBytes += file.originalSize;
+      if (totalBytes > MAX_ARCHIVE_BYTES) throw new Error(`The archive expands to more than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB`);
+      return true;
+    }
+  });
+  for (const name of Object.keys(entries).sort()) {
+    try {
+      posts.push(parseMarkdownFile(name, strFromU8(entries[name])));
+    } catch (error: any) {
+      issues.push({ source: name, error: `Invalid front matter: ${error.message}` });
+    }
+  }
+  return { posts, issues };
+};
+
+// --- Import: WordPress WXR ---
+const WXR_STATUSES: Record<string, BlogStatus> = {
+  publish: 'published',
+  future: 'scheduled',
+  pending: 'in_review',
+  draft: 'draft',
+  private: 'draft'
+};
+
+const turndown = new TurndownService({ headingStyle: 'atx', codeBlockStyle: 'fenced', bulletListMarker: '-' });
+
+// WordPress stores paragraphs as blank-line separated text (wpautop adds the <p> tags on display).
+const autop = (html: string) =>
+  html
+    .split(/\r?\n\s*\r?\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => (/^<(p|div|h[1-6]|ul|ol|li|blockquote|pre|table|figure|hr|!--)/i.test(block) ? block : `<p>${block.replace(/\r?\n/g, '<br>')}</p>`))
+    .join('\n');
+
+const htmlToMarkdown = (html: string) => (html.trim() ? turndown.turndown(autop(html)).trim() : '');
+
+// "2024-03-01 08:30:00" in GMT; drafts carry "0000-00-00 00:00:00"
+const wxrDate = (value: unknown) => {
+  const raw = text(value);
+  return raw && !raw.startsWith('0000') ? toIsoDate(`${raw.replace(' ', 'T')}Z`) : null;
+};
+
+const asArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  parseTagValue: false,
+  trimValues: false,
+  isArray: name => name === 'item' || name === 'category' || name === 'wp:category'
+});
+
+// Category elements are `<category domain="post_tag" nicename="...">Name</category>`
+const termName = (term: any) => text(typeof term === 'object' ? term['#text'] : term);
+
+export const parseWxr = (xml: string) => {
+  const document = xmlParser.parse(xml);
+  const channel = document?.rss?.channel;
+  if (!channel) throw new Error('Not a WordPress export (missing rss/channel)');
+
+  // Rebuild category paths from the channel's category list (nicename -> name + parent nicename)
+  const categories = new Map<string, { name: string; parent: string }>();
+  for (const category of asArray<any>(channel['wp:category'])) {
+    categories.set(text(category['wp:category_nicename']), { name: text(category['wp:cat_name']), parent: text(category['wp:category_parent']) });
+  }
+  const categoryPath = (nicename: string, fallback: string) => {
+    const names: string[] = [];
+    for (let current = categories.get(nicename); current && names.length < 10; current = categories.get(current.parent)) {
+      names.unshift(current.name);
+    }
+    return names.length ? names.join(CATEGORY_SEPARATOR) : fallback;
+  };
+
+  const language = languageLabel(text(channel.language)) || DEFAULT_LANGUAGE;
+  const posts: ImportedPost[] = [];
+  const issues: ImportIssue[] = [];
+  asArray<any>(channel.item).forEach((item, index) => {
+    if (text(item['wp:post_type']) !== 'post') return;
+    const source = `item ${index + 1}${item['wp:post_name'] ? ` (${text(item['wp:post_name'])})` : ''}`;
+    const wpStatus = text(item['wp:status']);
+    if (wpStatus === 'trash' || wpStatus === 'auto-draft') return;
+    try {
+      const terms = asArray<any>(item.category);
+      const content = htmlToMarkdown(text(item['content:encoded']));
+      const excerpt = plainText(htmlToMarkdown(text(item['excerpt:encoded'])));
+      const date = wxrDate(item['wp:post_date_gmt']) || toIsoDate(text(item['wp:post_date']).replace(' ', 'T'));
+      const category = terms.find(term => term['@_domain'] === 'category' && term['@_nicename'] !== 'uncategorized');
+      posts.push({
+        source,
+        title: text(item.title) || '(untitled)',
+        excerpt: excerpt || excerptFrom(content),
+        content,
+        tone: DEFAULT_TONE,
+        language,
+        tags: normalizeTags(terms.filter(term => term['@_domain'] === 'post_tag').map(termName)),
+        category: category ? normalizeCategory(categoryPath(text(category['@_nicename']), termName(category))) : null,
+        ...resolveStatus(WXR_STATUSES[wpStatus] || 'draft', date, date),
+        created_at: date
+      });
+    } catch (error: any) {
+      issues.push({ source, error: error.message });
+    }
+  });
+  return { posts, issues };
+};
+
+// Zips start with "PK\x03\x04"; anything else is treated as XML.
+export const detectImportFormat = (body: Buffer): ImportFormat | null => {
+  if (body.length >= 4 && body.readUInt32LE(0) === 0x04034b50) return 'markdown-zip';
+  const head = body.subarray(0, 2048).toString('utf8');
+  return /<rss[\s>]/.test(head) && /wordpress\.org\/export/.test(head) ? 'wxr' : null;
+};
+
+// Posts must pass the same checks as a blog created through POST /api/blogs; those that don't are
+// reported as issues instead of being imported.
+const checkPost = (post: ImportedPost) => {
+  const { source, published_at, created_at, ...fields } = post;
+  const { issues } = validate(BlogRequest, fields);
+  return issues ? issues.map(issue => `${issue.path}: ${issue.message}`).join('; ') : null;
+};
+
+export const parseImport = (body: Buffer) => {
+  const format = detectImportFormat(body);
+  if (!format) throw new Error('Unsupported file. Upload a zip of Markdown files or a WordPress export (.xml)');
+  const result = format === 'wxr' ? parseWxr(body.toString('utf8')) : parseMarkdownZip(body);
+  if (result.posts.length > MAX_IMPORT_POSTS) throw new Error(`An import can contain at most ${MAX_IMPORT_POSTS} posts`);
+  const posts: ImportedPost[] = [];
+  const issues = [...result.issues];
+  for (const post of result.posts) {
+    const error = checkPost(post);
+    if (error) issues.push({ source: post.source, error });
+    else posts.push(post);
+  }
+  return { format, posts, issues };
+};
+
+// --- Duplicate detection ---
+// Titles match when they are equal ignoring case, accents and spacing; bodies when their visible text is.
+const titleKey = (title: string) => foldQuery(title);
+const contentKey = (content: string) => crypto.createHash('sha1').update(foldQuery(plainText(content))).digest('hex');
+
+export interface Duplicate {
+  reason: 'title' | 'content';
+  // Existing blog id, or null when the match is an earlier post of the same import
+  blog_id: string | null;
+  title: string;
+}
+
+// Checks each post against the user's blogs and against the posts before it in the same archive.
+export const createDuplicateDetector = (existing: BlogRecord[]) => {
+  const byTitle = new Map<string, { blog_id: string | null; title: string }>();
+  const byContent = new Map<string, { blog_id: string | null; title: string }>();
+  const remember = (blogId: string | null, title: string, content: string) => {
+    const ref = { blog_id: blogId, title };
+    if (!byTitle.has(titleKey(title))) byTitle.set(titleKey(title), ref);
+    if (content.trim() && !byContent.has(contentKey(content))) byContent.set(contentKey(content), ref);
+  };
+  existing.forEach(blog => remember(blog.id, blog.title, blog.content));
+
+  return (post: ImportedPost): Duplicate | null => {
+    const sameTitle = byTitle.get(titleKey(post.title));
+    const sameContent = post.content.trim() ? byContent.get(contentKey(post.content)) : undefined;
+    remember(null, post.title, post.content);
+    if (sameContent) return { reason: 'content', ...sameContent };
+    if (sameTitle) return { reason: 'title', ...sameTitle };
+    return null;
+  };
+};
@@ -0,0 +1,67 @@
+import { Storage, BlogRecord, BlogStatus } from './storage/index.ts';
+import { BLOG_STATUSES } from '../shared/api.ts';
+
+export const isBlogStatus = (value: unknown): value is BlogStatus =>
+  typeof value === 'string' && (BLOG_STATUSES as readonly string[]).includes(value);
+
+export const effectiveStatus = (blog: BlogRecord): BlogStatus => blog.status || 'published';
+
+export const isPublished = (blog: BlogRecord) => effectiveStatus(blog) === 'published';
+
+type StatusPatch = Pick<BlogRecord, 'status' | 'publish_at' | 'published_at' | 'first_published_at'>;
+
+// When the blog first went public, kept when it is moved back to draft so its slug stays fixed.
+// Blogs from before the lifecycle (no status) were public from creation.
+const firstPublishedAt = (current: Partial<BlogRecord>) =>
+  current.first_published_at || current.published_at || (current.created_at && !current.status ? current.created_at : null);
+
+// Validates a requested transition and returns the fields to store.
+export const buildStatusPatch = (
+  current: Partial<BlogRecord>,
+  status: unknown,
+  publishAt?: unknown
+): { patch: StatusPatch; error?: undefined } | { patch?: undefined; error: string } => {
+  if (!isBlogStatus(status)) {
+    return { error: `Invalid status. Expected one of: ${BLOG_STATUSES.join(', ')}` };
+  }
+  const first_published_at = firstPublishedAt(current);
+
+  if (status === 'scheduled') {
+    const date = typeof publishAt === 'string' || typeof publishAt === 'number' ? new Date(publishAt) : null;
+    if (!date || isNaN(date.getTime())) return { error: 'publish_at is required to schedule a blog' };
+    if (date.getTime() <= Date.now()) return { error: 'publish_at must be in the future' };
+    return { patch: { status, publish_at: date.toISOString(), published_at: null, first_published_at } };
+  }
+
+  if (status === 'published') {
+    // Keep the original publication date when re-saving an already published blog
+    const publishedAt = current.status === 'published' && current.published_at ? current.published_at : new Date().toISOString();
+    return { patch: { status, publish_at: null, published_at: publishedAt, first_published_at: first_published_at || publishedAt } };
+  }
+
+  return { patch: { status, publish_at: null, published_at: null, first_published_at } };
+};
+
+// --- Scheduler ---
+// `onPublished` gets each blog before and after it was published.
+type PublishedListener = (before: BlogRecord, after: BlogRecord) => unknown;
+
+export const publishDueBlogs = async (storage: Storage, now = new Date(), onPublished?: PublishedListener) => {
+  const scheduled = await storage.blogs.listByStatus('scheduled');
+  const due = scheduled.filter(blog => blog.publish_at && new Date(blog.publish_at) <= now);
+  for (const blog of due) {
+    const patch = { status: 'published' as const, published_at: blog.publish_at, publish_at: null, first_published_at: blog.first_published_at || blog.publish_at };
+    await storage.blogs.update(blog.id, patch);
+    console.log(`Published scheduled blog ${blog.id}`);
+    await onPublished?.(blog, { ...blog, ...patch });
+  }
+  return due.length;
+};
+
+export const startPublishScheduler = (storage: Storage, intervalMs = 60_000, onPublished?: PublishedListener) => {
+  const tick = () => publishDueBlogs(storage, new Date(), onPublished).catch(error => console.error('Publish Scheduler Error:', error));
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+};
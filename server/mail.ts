@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export type MailTransport = 'console' | 'file' | 'smtp';
+
+export interface Mailer {
+  transport: MailTransport;
+  send: (message: MailMessage) => Promise<void>;
+}
+
+const MAIL_FROM = () => process.env.MAIL_FROM || 'ZA Blog AI <no-reply@localhost>';
+
+// Prints the message; the default, so password reset links are visible while developing.
+const createConsoleMailer = (): Mailer => ({
+  transport: 'console',
+  send: async (message) => {
+    console.log(`--- Mail to ${message.to} ---\nSubject: ${message.subject}\n\n${message.text}\n--- End of mail ---`);
+  }
+});
+
+// Writes each message to `<dir>/<timestamp>-<to>.eml`, which mail clients can open.
+const createFileMailer = (dir: string): Mailer => ({
+  transport: 'file',
+  send: async (message) => {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`;
+    const eml = [
+      `From: ${MAIL_FROM()}`,
+      `To: ${message.to}`,
+      // RFC 2047 encoded-word, since subjects may contain Vietnamese
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ].join('\r\n');
+    await fs.promises.writeFile(path.join(dir, name), eml);
+  }
+});
+
+const createSmtpMailer = (): Mailer => {
+  if (!process.env.SMTP_HOST) throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST.');
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    ...(process.env.SMTP_USER ? { auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } } : {})
+  });
+  return {
+    transport: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail({ from: MAIL_FROM(), ...message });
+    }
+  };
+};
+
+// MAIL_TRANSPORT picks how mail is delivered: console (default), file (MAIL_DIR) or smtp.
+export const createMailer = (transport = process.env.MAIL_TRANSPORT?.trim().toLowerCase() || 'console'): Mailer => {
+  switch (transport) {
+    case 'console':
+      return createConsoleMailer();
+    case 'file':
+      return createFileMailer(path.resolve(process.env.MAIL_DIR || 'data/mail'));
+    case 'smtp':
+      return createSmtpMailer();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}". Use console, file or smtp.`);
+  }
+};
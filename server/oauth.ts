@@ -0,0 +1,275 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { IdentityProvider } from './storage/index.ts';
+
+// --- Providers ---
+// Each provider is enabled by setting its client id and secret. Redirect URIs default to
+// APP_URL/auth/<provider>/callback and can be overridden per provider (GOOGLE_REDIRECT_URI...) when
+// the URI registered with the provider differs.
+export interface OAuthProfile {
+  subject: string;
+  // Only addresses the provider reports as verified
+  email: string | null;
+  name: string | null;
+  avatar: string | null;
+}
+
+interface Endpoints {
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+}
+
+interface ProviderConfig {
+  id: IdentityProvider;
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scope: string;
+  params?: Record<string, string>;
+  endpoints: () => Promise<Endpoints>;
+  profile: (accessToken: string, endpoints: Endpoints) => Promise<OAuthProfile>;
+}
+
+const bearer = (accessToken: string) => ({ headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' } });
+
+// Standard OIDC userinfo claims. Providers that don't send `email_verified` get no email.
+const oidcProfile = async (accessToken: string, endpoints: Endpoints): Promise<OAuthProfile> => {
+  const { data } = await axios.get(endpoints.userInfoUrl, bearer(accessToken));
+  if (!data?.sub) throw new Error('Userinfo response has no subject');
+  return {
+    subject: String(data.sub),
+    email: data.email && data.email_verified === true ? String(data.email).toLowerCase() : null,
+    name: data.name || data.preferred_username || null,
+    avatar: data.picture || null
+  };
+};
+
+// GitHub isn't an OIDC provider: the id comes from /user and the email from /user/emails.
+const githubProfile = async (accessToken: string, endpoints: Endpoints): Promise<OAuthProfile> => {
+  const { data: user } = await axios.get(endpoints.userInfoUrl, bearer(accessToken));
+  const { data: emails } = await axios.get('https://api.github.com/user/emails', bearer(accessToken)).catch(() => ({ data: [] }));
+  const primary = Array.isArray(emails) ? emails.find((entry: any) => entry.primary && entry.verified) : null;
+  return {
+    subject: String(user.id),
+    email: primary ? String(primary.email).toLowerCase() : null,
+    name: user.name || user.login || null,
+    avatar: user.avatar_url || null
+  };
+};
+
+// Endpoints of a self-hosted issuer (Keycloak realm...) come from its discovery document, fetched once.
+const discover = (issuer: string) => {
+  let pending: Promise<Endpoints> | null = null;
+  return () => {
+    if (!pending) {
+      pending = axios.get(`${issuer}/.well-known/openid-configuration`).then(({ data }) => ({
+        authorizationUrl: data.authorization_endpoint,
+        tokenUrl: data.token_endpoint,
+        userInfoUrl: data.userinfo_endpoint
+      }));
+      pending.catch(() => {
+        pending = null;
+      });
+    }
+    return pending;
+  };
+};
+
+const env = (name: string) => process.env[name]?.trim() || '';
+
+export const loadOAuthProviders = (baseUrl: string): ProviderConfig[] => {
+  const redirectUri = (id: IdentityProvider, prefix: string) => env(`${prefix}_REDIRECT_URI`) || `${baseUrl}/auth/${id}/callback`;
+  const microsoftTenant = env('MICROSOFT_TENANT') || 'common';
+  const oidcIssuer = env('OIDC_ISSUER').replace(/\/$/, '');
+
+  const candidates: (ProviderConfig & { enabled: boolean })[] = [
+    {
+      id: 'google',
+      name: 'Google',
+      enabled: !!env('GOOGLE_CLIENT_ID'),
+      clientId: env('GOOGLE_CLIENT_ID'),
+      clientSecret: env('GOOGLE_CLIENT_SECRET'),
+      redirectUri: redirectUri('google', 'GOOGLE'),
+      scope: 'openid email profile',
+      params: { prompt: 'select_account' },
+      endpoints: async () => ({
+        authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        tokenUrl: 'https://oauth2.googleapis.com/token',
+        userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo'
+      }),
+      profile: oidcProfile
+    },
+    {
+      id: 'github',
+      name: 'GitHub',
+      enabled: !!env('GITHUB_CLIENT_ID'),
+      clientId: env('GITHUB_CLIENT_ID'),
+      clientSecret: env('GITHUB_CLIENT_SECRET'),
+      redirectUri: redirectUri('github', 'GITHUB'),
+      scope: 'read:user user:email',
+      endpoints: async () => ({
+        authorizationUrl: 'https://github.com/login/oauth/authorize',
+        tokenUrl: 'https://github.com/login/oauth/access_token',
+        userInfoUrl: 'https://api.github.com/user'
+      }),
+      profile: githubProfile
+    },
+    {
+      id: 'microsoft',
+      name: 'Microsoft',
+      enabled: !!env('MICROSOFT_CLIENT_ID'),
+      clientId: env('MICROSOFT_CLIENT_ID'),
+      clientSecret: env('MICROSOFT_CLIENT_SECRET'),
+      redirectUri: redirectUri('microsoft', 'MICROSOFT'),
+      scope: 'openid email profile',
+      params: { prompt: 'select_account' },
+      endpoints: async () => ({
+        authorizationUrl: `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/authorize`,
+        tokenUrl: `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/token`,
+        userInfoUrl: 'https://graph.microsoft.com/oidc/userinfo'
+      }),
+      profile: oidcProfile
+    },
+    {
+      id: 'oidc',
+      name: env('OIDC_NAME') || 'Keycloak',
+      enabled: !!oidcIssuer && !!env('OIDC_CLIENT_ID'),
+      clientId: env('OIDC_CLIENT_ID'),
+      clientSecret: env('OIDC_CLIENT_SECRET'),
+      redirectUri: redirectUri('oidc', 'OIDC'),
+      scope: 'openid email profile',
+      endpoints: discover(oidcIssuer),
+      profile: oidcProfile
+    }
+  ];
+  return candidates.filter(provider => provider.enabled).map(({ enabled, ...provider }) => provider);
+};
+
+// --- Flow ---
+// Between the redirect to the provider and its callback, the flow lives in a signed, short-lived
+// cookie: `state` ties the callback to this browser and the PKCE verifier proves the code was
+// requested here. `user_id` is set when a signed-in user links a provider instead of signing in.
+export const OAUTH_FLOW_COOKIE = 'oauth_flow';
+export const OAUTH_FLOW_COOKIE_PATH = '/auth';
+export const OAUTH_FLOW_TTL_MS = 10 * 60 * 1000;
+
+export type OAuthMode = 'login' | 'link';
+
+interface OAuthFlow {
+  provider: IdentityProvider;
+  mode: OAuthMode;
+  state: string;
+  verifier: string;
+  user_id: string | null;
+}
+
+export type OAuthResult =
+  | { flow: OAuthFlow; profile: OAuthProfile; error?: undefined }
+  | { flow?: OAuthFlow; profile?: undefined; error: string };
+
+const randomToken = () => crypto.randomBytes(32).toString('base64url');
+const pkceChallenge = (verifier: string) => crypto.createHash('sha256').update(verifier).digest('base64url');
+
+const sameToken = (a: string, b: string) =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+export const createOAuth = (baseUrl: string, secret: string) => {
+  const providers = loadOAuthProviders(baseUrl);
+  const find = (id: string) => providers.find(provider => provider.id === id) || null;
+
+  // Returns the provider's authorization URL and the cookie value to store until the callback.
+  const begin = async (providerId: string, mode: OAuthMode, userId: string | null = null) => {
+    const provider = find(providerId);
+    if (!provider) return null;
+    const flow: OAuthFlow = { provider: provider.id, mode, state: randomToken(), verifier: randomToken(), user_id: userId };
+    const { authorizationUrl } = await provider.endpoints();
+    const params = new URLSearchParams({
+      client_id: provider.clientId,
+      redirect_uri: provider.redirectUri,
+      response_type: 'code',
+      scope: provider.scope,
+      state: flow.state,
+      code_challenge: pkceChallenge(flow.verifier),
+      code_challenge_method: 'S256',
+      ...provider.params
+    });
+    const cookie = jwt.sign(flow, secret, { expiresIn: Math.floor(OAUTH_FLOW_TTL_MS / 1000), audience: 'oauth_flow' });
+    return { url: `${authorizationUrl}?${params.toString()}`, cookie };
+  };
+
+  // Checks the callback against the flow cookie, exchanges the code and reads the profile.
+  const complete = async (providerId: string, query: any, cookie: string | null): Promise<OAuthResult> => {
+    const provider = find(providerId);
+    if (!provider) return { error: 'Unknown sign-in provider' };
+    let flow: OAuthFlow;
+    try {
+      flow = jwt.verify(cookie || '', secret, { audience: 'oauth_flow' }) as any;
+    } catch {
+      return { error: 'Sign-in session expired. Please try again.' };
+    }
+    if (flow.provider !== provider.id || typeof query.state !== 'string' || !sameToken(query.state, flow.state)) {
+      return { flow, error: 'Sign-in request did not match. Please try again.' };
+    }
+    if (typeof query.error === 'string') return { flow, error: query.error === 'access_denied' ? 'Sign-in was cancelled' : `Provider error: ${query.error}` };
+    if (typeof query.code !== 'string' || !query.code) return { flow, error: 'No code provided' };
+
+    const endpoints = await provider.endpoints();
+    const tokenRes = await axios.post(endpoints.tokenUrl, new URLSearchParams({
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      redirect_uri: provider.redirectUri,
+      grant_type: 'authorization_code',
+      code: query.code,
+      code_verifier: flow.verifier
+    }), { headers: { Accept: 'application/json' }, validateStatus: status => status < 500 });
+    // Codes are single-use and short-lived, so a rejected exchange is an expected outcome
+    const accessToken = tokenRes.status === 200 ? tokenRes.data?.access_token : null;
+    if (!accessToken) return { flow, error: 'The provider rejected the sign-in. Please try again.' };
+    return { flow, profile: await provider.profile(accessToken, endpoints) };
+  };
+
+  return {
+    providers: providers.map(({ id, name }) => ({ id, name })),
+    find,
+    begin,
+    complete
+  };
+};
+
+// --- Result page ---
+// The callback runs in the popup opened by the app. It reports back to the opener at the app's own
+// origin only and carries no tokens: on success the refresh cookie is already set, and the app
+// exchanges it for an access token. Without an opener it falls back to a plain redirect.
+export type OAuthMessage =
+  | { type: 'OAUTH_AUTH_SUCCESS' }
+  | { type: 'OAUTH_LINK_SUCCESS'; provider: IdentityProvider }
+  | { type: 'OAUTH_ERROR'; error: string };
+
+const scriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const oauthResultPage = (appOrigin: string, message: OAuthMessage, fallbackPath: string) => {
+  const text = message.type === 'OAUTH_ERROR' ? message.error : 'Authentication successful. This window should close automatically.';
+  return `<!doctype html>
+<html>
+  <body>
+    <script>
+      (function () {
+        var message = ${scriptJson(message)};
+        if (window.opener) {
+          window.opener.postMessage(message, ${scriptJson(appOrigin)});
+          window.close();
+        } else if (message.type !== 'OAUTH_ERROR') {
+          window.location.href = ${scriptJson(fallbackPath)};
+        }
+      })();
+    </script>
+    <p>${escapeHtml(text)}</p>
+  </body>
+</html>`;
+};
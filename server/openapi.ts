@@ -0,0 +1,916 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { AccessTokenScope } from './storage/index.ts';
+import { PERSONAL_TOKEN_PREFIX } from './accessTokens.ts';
+import { AUDIT_ACTIONS } from './audit.ts';
+import { MAX_DELIVERY_ATTEMPTS } from './webhooks.ts';
+import {
+  ERROR_CODES, ROLES, BLOG_STATUSES, BLOG_LENGTHS, ACCESS_TOKEN_SCOPES, WEBHOOK_EVENTS, SECURITY_EVENT_TYPES,
+  RegisterRequest, LoginRequest, ForgotPasswordRequest, PasswordResetRequest, AccountUpdateRequest, PasswordChangeRequest,
+  AccountDeleteRequest, AccessTokenRequest, WebhookRequest, WebhookUpdateRequest, BlogRequest, BlogUpdateRequest, BlogStatusRequest,
+  GenerateRequest, AdminUserUpdateRequest, AdminUserDeleteRequest
+} from '../shared/api.ts';
+import { ISSUE_CODES } from '../shared/schema.ts';
+
+// OpenAPI 3 description of every /api route, served at /api/openapi.json and rendered at /api/docs.
+// Request bodies are generated from the schemas in shared/api.ts that the routes validate them
+// with; everything else is kept by hand next to the routes, so a new or changed endpoint needs its
+// entry here too.
+
+// --- Building blocks ---
+type Schema = Record<string, any>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const str = (description?: string, extra: Schema = {}): Schema => ({ type: 'string', ...(description ? { description } : {}), ...extra });
+const int = (description?: string, extra: Schema = {}): Schema => ({ type: 'integer', ...(description ? { description } : {}), ...extra });
+const bool = (description?: string): Schema => ({ type: 'boolean', ...(description ? { description } : {}) });
+const date = (description?: string): Schema => str(description, { format: 'date-time' });
+const nullable = (schema: Schema): Schema => ({ ...schema, nullable: true });
+const array = (items: Schema, description?: string): Schema => ({ type: 'array', items, ...(description ? { description } : {}) });
+const object = (properties: Record<string, Schema>, required: string[] = []): Schema =>
+  ({ type: 'object', properties, ...(required.length ? { required } : {}) });
+
+const json = (schema: Schema, description = 'OK') => ({ description, content: { 'application/json': { schema } } });
+const file = (contentType: string, description: string) => ({ description, content: { [contentType]: { schema: { type: 'string', format: 'binary' } } } });
+
+const ERROR_RESPONSES: Record<number, string> = {
+  400: 'BadRequest',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'NotFound',
+  409: 'Conflict',
+  429: 'TooManyRequests'
+};
+
+const pathParam = (name: string, description: string) => ({ name, in: 'path', required: true, description, schema: str() });
+const queryParam = (name: string, description: string, schema: Schema = str()) => ({ name, in: 'query', required: false, description, schema });
+
+// Every JSON request body, by component name
+const REQUEST_BODIES = {
+  RegisterRequest,
+  LoginRequest,
+  ForgotPasswordRequest,
+  PasswordResetRequest,
+  AccountUpdateRequest,
+  PasswordChangeRequest,
+  AccountDeleteRequest,
+  AccessTokenRequest,
+  WebhookRequest,
+  WebhookUpdateRequest,
+  BlogRequest,
+  BlogUpdateRequest,
+  BlogStatusRequest,
+  GenerateRequest,
+  AdminUserUpdateRequest,
+  AdminUserDeleteRequest
+};
+
+const pageParams = [
+  queryParam('sort', 'Sort field', str(undefined, { enum: ['created', 'updated', 'title'], default: 'created' })),
+  queryParam('order', 'Sort order; defaults to desc for dates and asc for titles', str(undefined, { enum: ['asc', 'desc'] })),
+  queryParam('limit', 'Page size', int(undefined, { minimum: 1, maximum: 100, default: 20 })),
+  queryParam('cursor', '`next_cursor` of the previous page, for the same sort and order')
+];
+const taxonomyParams = [
+  queryParam('tag', 'Tag name or slug'),
+  queryParam('category', 'Category path (names or slugs); includes subcategories')
+];
+const statusParam = queryParam('status', 'Only blogs in this status', str(undefined, { enum: BLOG_STATUSES }));
+
+// `auth`: none (public), optional (anonymous callers get the public view), user or admin.
+// `scope` lets personal access tokens with that scope call the operation; without it only a
+// session token works.
+interface OperationSpec {
+  tag: string;
+  summary: string;
+  description?: string;
+  auth: 'none' | 'optional' | 'user' | 'admin';
+  scope?: AccessTokenScope;
+  params?: Schema[];
+  body?: keyof typeof REQUEST_BODIES;
+  responses: Record<number, Schema>;
+  errors?: number[];
+}
+
+const operation = (spec: OperationSpec) => {
+  const security = spec.auth === 'none'
+    ? []
+    : [
+        ...(spec.auth === 'optional' ? [{}] : []),
+        { session: [] },
+        ...(spec.scope ? [{ personalToken: [] }] : [])
+      ];
+  const scopeNote = spec.scope
+    ? `Personal access tokens need the \`${spec.scope}\` scope.`
+    : spec.auth === 'none' ? null : 'Personal access tokens are not accepted.';
+  // Every JSON body is validated, so an operation with one can always answer 400
+  const errors = [
+    ...(spec.errors || []),
+    ...(spec.body ? [400] : []),
+    ...(spec.auth === 'user' || spec.auth === 'admin' ? [401] : []),
+    ...(spec.auth === 'admin' || spec.scope ? [403] : [])
+  ];
+  return {
+    tags: [spec.tag],
+    summary: spec.summary,
+    description: [spec.description, scopeNote].filter(Boolean).join('\n\n') || undefined,
+    security,
+    ...(spec.scope ? { 'x-token-scope': spec.scope } : {}),
+    ...(spec.params?.length ? { parameters: spec.params } : {}),
+    ...(spec.body ? { requestBody: { required: true, content: { 'application/json': { schema: ref(spec.body) } } } } : {}),
+    responses: {
+      ...spec.responses,
+      ...Object.fromEntries([...new Set(errors)].sort().map(code => [code, { $ref: `#/components/responses/${ERROR_RESPONSES[code]}` }]))
+    }
+  };
+};
+
+// --- Schemas ---
+const schemas: Record<string, Schema> = {
+  Error: object({
+    code: str('Machine-readable code; clients show their own text for it', { enum: ERROR_CODES }),
+    message: str('English description, for logs and debugging'),
+    fields: array(ref('FieldIssue'), 'With VALIDATION_FAILED: every value that failed validation'),
+    details: str('Extra context, such as the error reported by the AI provider'),
+    retry_after: int('Seconds to wait, with RATE_LIMITED and LOCKED_OUT'),
+    request_id: str('Same as the X-Request-Id response header')
+  }, ['code', 'message', 'request_id']),
+  FieldIssue: object({
+    path: str('Dotted path of the value, e.g. `scopes.1`; empty for the body itself'),
+    code: str(undefined, { enum: ISSUE_CODES }),
+    message: str(),
+    params: { type: 'object', description: 'Limits or options the message refers to, such as `max`', additionalProperties: true }
+  }, ['path', 'code', 'message']),
+  User: object({
+    id: str(),
+    username: str(),
+    role: str(undefined, { enum: ROLES }),
+    avatar: nullable(str()),
+    must_change_password: bool('Admin routes stay closed until a new password is set')
+  }, ['id', 'username', 'role']),
+  SessionToken: object({
+    token: str('Access token (JWT) for the Authorization header'),
+    expires_in: int('Lifetime of the access token in seconds'),
+    user: ref('User')
+  }, ['token', 'expires_in', 'user']),
+  Author: nullable(object({ username: str(), avatar: nullable(str()) })),
+  BlogSummary: object({
+    id: str(),
+    user_id: nullable(str()),
+    title: str(),
+    excerpt: str(),
+    tone: str(),
+    language: str(),
+    slug: str(),
+    tags: array(str()),
+    category: nullable(str('Category path separated by "/"')),
+    length: nullable(str('Length preset of generated blogs', { enum: BLOG_LENGTHS })),
+    status: str(undefined, { enum: BLOG_STATUSES }),
+    publish_at: nullable(date('Scheduled publication time')),
+    published_at: nullable(date()),
+    first_published_at: nullable(date('First publication; kept when the blog is unpublished, and the slug no longer follows the title')),
+    created_at: date(),
+    updated_at: date(),
+    author: ref('Author'),
+    path: str('Canonical public path')
+  }, ['id', 'title', 'excerpt', 'created_at']),
+  Blog: { allOf: [ref('BlogSummary'), object({ content: str('Markdown body') }, ['content'])] },
+  BlogPage: object({
+    items: array(ref('BlogSummary')),
+    total: int('Matching blogs across all pages'),
+    next_cursor: nullable(str('Pass as `cursor` for the next page'))
+  }, ['items', 'total', 'next_cursor']),
+  SearchResult: object({
+    query: str(),
+    total: int(),
+    results: array(object({
+      blog: ref('BlogSummary'),
+      score: { type: 'number' },
+      highlights: object({ title: array(array(int())), excerpt: array(array(int())) }),
+      snippet: object({ text: str(), highlights: array(array(int(), 'UTF-16 [start, end) offsets into text')) })
+    }))
+  }),
+  RevisionSummary: object({
+    id: str(),
+    blog_id: str(),
+    title: str(),
+    author_id: nullable(str()),
+    author_username: nullable(str()),
+    reason: str(undefined, { enum: ['create', 'update', 'restore'] }),
+    restored_from: nullable(str()),
+    created_at: date()
+  }),
+  Revision: { allOf: [ref('RevisionSummary'), object({ excerpt: str(), content: str() })] },
+  RevisionDiff: object({
+    from: str(),
+    to: str(),
+    fields: { type: 'object', description: 'Side-by-side rows per field (title, excerpt, content)', additionalProperties: object({ changed: bool(), rows: array({ type: 'object' }) }) }
+  }),
+  TagCount: object({ name: str(), slug: str(), count: int() }),
+  CategoryNode: object({ name: str(), slug: str(), count: int(), children: array(ref('CategoryNode')) }),
+  Taxonomy: object({ tags: array(ref('TagCount')), categories: array(ref('CategoryNode')) }),
+  ImportReport: object({
+    format: str(undefined, { enum: ['markdown', 'wxr'] }),
+    dry_run: bool(),
+    total: int(),
+    created: int(),
+    skipped: int(),
+    items: array({ type: 'object' }),
+    issues: array({ type: 'object' })
+  }),
+  Identity: object({ provider: str(undefined, { enum: ['google', 'github', 'microsoft', 'oidc'] }), email: nullable(str()), name: nullable(str()), created_at: date() }),
+  Account: {
+    allOf: [ref('User'), object({
+      email: nullable(str()),
+      created_at: date(),
+      has_password: bool(),
+      identities: array(ref('Identity'))
+    })]
+  },
+  Session: object({
+    id: str(),
+    device: str(),
+    user_agent: nullable(str()),
+    ip: nullable(str()),
+    created_at: date(),
+    last_used_at: date(),
+    expires_at: date(),
+    current: bool('The session making the request')
+  }),
+  AccessToken: object({
+    id: str(),
+    name: str(),
+    scopes: array(str(undefined, { enum: ACCESS_TOKEN_SCOPES })),
+    hint: str('Last characters of the token'),
+    expires_at: date(),
+    last_used_at: nullable(date()),
+    created_at: date()
+  }),
+  Webhook: object({
+    id: str(),
+    url: str(),
+    events: array(str(undefined, { enum: WEBHOOK_EVENTS })),
+    description: nullable(str()),
+    active: bool(),
+    secret_hint: str('Last characters of the signing secret'),
+    created_at: date(),
+    updated_at: date()
+  }),
+  WebhookDelivery: object({
+    id: str(),
+    webhook_id: str(),
+    event: str(undefined, { enum: [...WEBHOOK_EVENTS, 'ping'] }),
+    status: str(undefined, { enum: ['pending', 'succeeded', 'failed'] }),
+    attempts: int(`At most ${MAX_DELIVERY_ATTEMPTS}`),
+    next_attempt_at: nullable(date()),
+    response_status: nullable(int()),
+    error: nullable(str()),
+    duration_ms: nullable(int()),
+    redelivery_of: nullable(str('Delivery this one repeats')),
+    created_at: date(),
+    updated_at: date()
+  }),
+  AdminUser: {
+    allOf: [ref('User'), object({
+      email: nullable(str()),
+      created_at: date(),
+      suspended_at: nullable(date()),
+      has_password: bool(),
+      providers: array(str())
+    })]
+  },
+  AuditEvent: object({
+    id: str(),
+    action: str(undefined, { enum: AUDIT_ACTIONS }),
+    actor_id: nullable(str()),
+    actor_username: nullable(str()),
+    actor_role: nullable(str()),
+    target_type: nullable(str(undefined, { enum: ['blog', 'user'] })),
+    target_id: nullable(str()),
+    target_label: nullable(str()),
+    admin_override: bool(),
+    ip: nullable(str()),
+    user_agent: nullable(str()),
+    before: nullable({ type: 'object' }),
+    after: nullable({ type: 'object' }),
+    created_at: date()
+  }),
+  SecurityEvent: object({
+    id: str(),
+    type: str(undefined, { enum: SECURITY_EVENT_TYPES }),
+    ip: nullable(str()),
+    username: nullable(str()),
+    user_id: nullable(str()),
+    user_agent: nullable(str()),
+    locked_seconds: int(),
+    failures: int(),
+    created_at: date()
+  }),
+  Message: object({ message: str() }),
+  ...Object.fromEntries(Object.entries(REQUEST_BODIES).map(([name, schema]) => [name, schema.jsonSchema]))
+};
+
+// --- Paths ---
+const auth = 'Auth';
+const account = 'Account';
+const blogs = 'Blogs';
+const generation = 'Generation';
+const publicTag = 'Public';
+const admin = 'Admin';
+
+const idParam = pathParam('id', 'Blog id');
+const revisionParam = pathParam('revisionId', 'Revision id');
+const analyticsParams = [
+  queryParam('from', 'First day, YYYY-MM-DD (UTC); defaults to 29 days before `to`', str(undefined, { format: 'date' })),
+  queryParam('to', 'Last day, YYYY-MM-DD (UTC); defaults to today', str(undefined, { format: 'date' })),
+  queryParam('interval', 'Bucket size', str(undefined, { enum: ['day', 'week'], default: 'day' }))
+];
+const auditParams = [
+  queryParam('action', 'Action', str(undefined, { enum: AUDIT_ACTIONS })),
+  queryParam('actor', 'Actor username (exact)'),
+  queryParam('target_type', 'Target type', str(undefined, { enum: ['blog', 'user'] })),
+  queryParam('target_id', 'Target id'),
+  queryParam('from', 'Inclusive start date', date()),
+  queryParam('before', 'Exclusive end date', date()),
+  queryParam('cursor', '`next_cursor` of the previous page')
+];
+
+const paths: Record<string, Record<string, Schema>> = {
+  '/api/health': {
+    get: operation({ tag: publicTag, summary: 'Service health', auth: 'none', responses: { 200: json(object({ status: str(), storage: str(), firebase: str() })) } })
+  },
+  '/api/auth/password-policy': {
+    get: operation({
+      tag: auth,
+      summary: 'Password rules for new passwords',
+      auth: 'none',
+      responses: { 200: json(object({ min_length: int(), max_length: int(), require: array(str()), disallow_username: bool() })) }
+    })
+  },
+  '/api/auth/register': {
+    post: operation({
+      tag: auth,
+      summary: 'Create an account',
+      auth: 'none',
+      body: 'RegisterRequest',
+      responses: { 201: json(object({ id: str(), username: str(), role: str() }), 'Created') },
+      errors: [400, 429]
+    })
+  },
+  '/api/auth/login': {
+    post: operation({
+      tag: auth,
+      summary: 'Sign in with username and password',
+      description: 'Sets the httpOnly refresh cookie and returns an access token.',
+      auth: 'none',
+      body: 'LoginRequest',
+      responses: { 200: json(ref('SessionToken')) },
+      errors: [400, 401, 403, 429]
+    })
+  },
+  '/api/auth/refresh': {
+    post: operation({
+      tag: auth,
+      summary: 'Exchange the refresh cookie for a new access token',
+      description: 'The refresh cookie is rotated on every call.',
+      auth: 'none',
+      responses: { 200: json(ref('SessionToken')) },
+      errors: [401, 403]
+    })
+  },
+  '/api/auth/logout': {
+    post: operation({ tag: auth, summary: 'End the session of this browser', auth: 'none', responses: { 200: json(ref('Message')) } })
+  },
+  '/api/auth/sessions': {
+    get: operation({ tag: auth, summary: 'List active sessions', auth: 'user', responses: { 200: json(array(ref('Session'))) } }),
+    delete: operation({
+      tag: auth,
+      summary: 'Sign out every device',
+      auth: 'user',
+      params: [queryParam('keep_current', 'Keep the session making the request', str(undefined, { enum: ['1', 'true'] }))],
+      responses: { 200: json(object({ message: str(), revoked: int() })) }
+    })
+  },
+  '/api/auth/sessions/{id}': {
+    delete: operation({ tag: auth, summary: 'Revoke one session', auth: 'user', params: [pathParam('id', 'Session id')], responses: { 200: json(ref('Message')) }, errors: [404] })
+  },
+  '/api/auth/providers': {
+    get: operation({ tag: auth, summary: 'Configured sign-in providers', auth: 'none', responses: { 200: json(array(object({ id: str(), name: str() }))) } })
+  },
+  '/api/auth/{provider}/url': {
+    get: operation({
+      tag: auth,
+      summary: 'Start signing in with a provider',
+      description: 'Returns the provider URL to open in a popup and sets a short-lived cookie holding the OAuth state and PKCE verifier.',
+      auth: 'none',
+      params: [pathParam('provider', 'google, github, microsoft or oidc')],
+      responses: { 200: json(object({ url: str() })) },
+      errors: [404]
+    })
+  },
+  '/api/auth/password/forgot': {
+    post: operation({
+      tag: auth,
+      summary: 'Email a password reset link',
+      description: 'Answers the same whether or not the account exists.',
+      auth: 'none',
+      body: 'ForgotPasswordRequest',
+      responses: { 200: json(ref('Message')) },
+      errors: [400, 429]
+    })
+  },
+  '/api/auth/password/reset': {
+    post: operation({
+      tag: auth,
+      summary: 'Set a new password with a reset token',
+      auth: 'none',
+      body: 'PasswordResetRequest',
+      responses: { 200: json(ref('Message')) },
+      errors: [400]
+    })
+  },
+  '/api/auth/setup': {
+    post: operation({
+      tag: auth,
+      summary: 'Choose the admin password with the setup token',
+      auth: 'none',
+      body: 'PasswordResetRequest',
+      responses: { 200: json(ref('SessionToken')) },
+      errors: [400]
+    })
+  },
+  '/api/account': {
+    get: operation({ tag: account, summary: 'The signed-in account', auth: 'user', responses: { 200: json(ref('Account')) }, errors: [404] }),
+    patch: operation({
+      tag: account,
+      summary: 'Update email or avatar',
+      description: 'Only the fields present change; null or an empty string clears them.',
+      auth: 'user',
+      body: 'AccountUpdateRequest',
+      responses: { 200: json(ref('Account')) },
+      errors: [400]
+    }),
+    delete: operation({
+      tag: account,
+      summary: 'Delete the account',
+      auth: 'user',
+      body: 'AccountDeleteRequest',
+      responses: { 200: json(object({ message: str(), blogs: int() })) },
+      errors: [400, 404]
+    })
+  },
+  '/api/account/password': {
+    post: operation({
+      tag: account,
+      summary: 'Change or set the password',
+      description: 'Other devices are signed out.',
+      auth: 'user',
+      body: 'PasswordChangeRequest',
+      responses: { 200: json(object({ message: str(), revoked_sessions: int() })) },
+      errors: [400, 404]
+    })
+  },
+  '/api/account/identities/{provider}': {
+    post: operation({
+      tag: account,
+      summary: 'Start linking a sign-in provider',
+      auth: 'user',
+      params: [pathParam('provider', 'google, github, microsoft or oidc')],
+      responses: { 200: json(object({ url: str() })) },
+      errors: [404]
+    }),
+    delete: operation({
+      tag: account,
+      summary: 'Unlink a sign-in provider',
+      description: 'Accounts without a password keep at least one provider.',
+      auth: 'user',
+      params: [pathParam('provider', 'google, github, microsoft or oidc')],
+      responses: { 200: json(ref('Account')) },
+      errors: [400, 404]
+    })
+  },
+  '/api/account/tokens': {
+    get: operation({
+      tag: account,
+      summary: 'List personal access tokens',
+      auth: 'user',
+      responses: { 200: json(object({ scopes: array(str()), items: array(ref('AccessToken')) })) }
+    }),
+    post: operation({
+      tag: account,
+      summary: 'Create a personal access token',
+      description: 'The token is only returned in this response.',
+      auth: 'user',
+      body: 'AccessTokenRequest',
+      responses: { 201: json({ allOf: [ref('AccessToken'), object({ token: str() }, ['token'])] }, 'Created') },
+      errors: [400]
+    })
+  },
+  '/api/account/tokens/{id}': {
+    delete: operation({ tag: account, summary: 'Revoke a personal access token', auth: 'user', params: [pathParam('id', 'Token id')], responses: { 200: json(ref('Message')) }, errors: [404] })
+  },
+  '/api/account/webhooks': {
+    get: operation({
+      tag: account,
+      summary: 'List webhooks',
+      auth: 'user',
+      responses: { 200: json(object({ events: array(str()), items: array(ref('Webhook')) })) }
+    }),
+    post: operation({
+      tag: account,
+      summary: 'Create a webhook',
+      description: 'Changes to your blogs are sent as signed POST requests. The signing secret is only returned in this response.',
+      auth: 'user',
+      body: 'WebhookRequest',
+      responses: { 201: json({ allOf: [ref('Webhook'), object({ secret: str() }, ['secret'])] }, 'Created') },
+      errors: [400]
+    })
+  },
+  '/api/account/webhooks/{id}': {
+    patch: operation({
+      tag: account,
+      summary: 'Update a webhook',
+      description: 'Only the fields present change.',
+      auth: 'user',
+      params: [pathParam('id', 'Webhook id')],
+      body: 'WebhookUpdateRequest',
+      responses: { 200: json(ref('Webhook')) },
+      errors: [400, 404]
+    }),
+    delete: operation({ tag: account, summary: 'Delete a webhook and its delivery log', auth: 'user', params: [pathParam('id', 'Webhook id')], responses: { 200: json(ref('Message')) }, errors: [404] })
+  },
+  '/api/account/webhooks/{id}/secret': {
+    post: operation({
+      tag: account,
+      summary: 'Rotate the signing secret',
+      auth: 'user',
+      params: [pathParam('id', 'Webhook id')],
+      responses: { 200: json({ allOf: [ref('Webhook'), object({ secret: str() }, ['secret'])] }) },
+      errors: [404]
+    })
+  },
+  '/api/account/webhooks/{id}/ping': {
+    post: operation({
+      tag: account,
+      summary: 'Send a ping event',
+      auth: 'user',
+      params: [pathParam('id', 'Webhook id')],
+      responses: { 201: json(ref('WebhookDelivery'), 'Outcome of the first attempt') },
+      errors: [400, 404]
+    })
+  },
+  '/api/account/webhooks/{id}/deliveries': {
+    get: operation({
+      tag: account,
+      summary: 'Delivery log, newest first',
+      auth: 'user',
+      params: [
+        pathParam('id', 'Webhook id'),
+        queryParam('cursor', '`next_cursor` of the previous page'),
+        queryParam('limit', 'Page size', int(undefined, { minimum: 1, maximum: 100, default: 20 }))
+      ],
+      responses: { 200: json(object({ items: array(ref('WebhookDelivery')), next_cursor: nullable(str('Pass as `cursor` for the next page')) })) },
+      errors: [400, 404]
+    })
+  },
+  '/api/account/webhooks/{id}/deliveries/{deliveryId}': {
+    get: operation({
+      tag: account,
+      summary: 'A delivery with its payload and response',
+      auth: 'user',
+      params: [pathParam('id', 'Webhook id'), pathParam('deliveryId', 'Delivery id')],
+      responses: { 200: json({ allOf: [ref('WebhookDelivery'), object({ payload: str('Signed JSON body'), response_body: nullable(str('Truncated')) })] }) },
+      errors: [404]
+    })
+  },
+  '/api/account/webhooks/{id}/deliveries/{deliveryId}/redeliver': {
+    post: operation({
+      tag: account,
+      summary: 'Send a delivery again',
+      description: 'The same payload goes out as a new delivery, retried like any other.',
+      auth: 'user',
+      params: [pathParam('id', 'Webhook id'), pathParam('deliveryId', 'Delivery id')],
+      responses: { 201: json(ref('WebhookDelivery'), 'Outcome of the first attempt') },
+      errors: [400, 404]
+    })
+  },
+  '/api/blogs': {
+    get: operation({
+      tag: blogs,
+      summary: 'List blogs',
+      description: 'Signed-in callers get their own blogs in every status; anonymous callers get published blogs of every author.',
+      auth: 'optional',
+      scope: 'blogs:read',
+      params: [statusParam, ...taxonomyParams, ...pageParams],
+      responses: { 200: json(ref('BlogPage')) },
+      errors: [400]
+    }),
+    post: operation({
+      tag: blogs,
+      summary: 'Create a blog',
+      auth: 'optional',
+      scope: 'blogs:write',
+      body: 'BlogRequest',
+      responses: { 201: json(ref('Blog'), 'Created') },
+      errors: [400]
+    })
+  },
+  '/api/search': {
+    get: operation({
+      tag: blogs,
+      summary: 'Full-text search',
+      description: 'Signed-in callers search their own blogs; anonymous callers search the 1000 most recent published blogs.',
+      auth: 'optional',
+      scope: 'blogs:read',
+      params: [
+        { ...queryParam('q', 'Query, at most 200 characters'), required: true },
+        statusParam,
+        ...taxonomyParams,
+        queryParam('limit', 'Maximum results', int(undefined, { minimum: 1, maximum: 50, default: 20 }))
+      ],
+      responses: { 200: json(ref('SearchResult')) },
+      errors: [400]
+    })
+  },
+  '/api/blogs/export.zip': {
+    get: operation({ tag: blogs, summary: 'Export every blog as Markdown files in a zip', auth: 'user', scope: 'blogs:read', responses: { 200: file('application/zip', 'Zip archive') } })
+  },
+  '/api/blogs/import': {
+    post: operation({
+      tag: blogs,
+      summary: 'Import a Markdown zip or a WordPress WXR export',
+      description: 'The request body is the file itself.',
+      auth: 'user',
+      scope: 'blogs:write',
+      params: [
+        queryParam('dry_run', 'Only report what would happen', str(undefined, { enum: ['1', 'true'] })),
+        queryParam('duplicates', 'What to do with posts matching an existing blog', str(undefined, { enum: ['skip', 'import'], default: 'skip' }))
+      ],
+      responses: { 200: json(ref('ImportReport'), 'Dry run'), 201: json(ref('ImportReport'), 'Imported') },
+      errors: [400]
+    })
+  },
+  '/api/blogs/{id}': {
+    get: operation({
+      tag: blogs,
+      summary: 'Get a blog',
+      description: 'Unpublished blogs are only visible to their owner and admins.',
+      auth: 'optional',
+      scope: 'blogs:read',
+      params: [idParam],
+      responses: { 200: json(ref('Blog')) },
+      errors: [404]
+    }),
+    put: operation({
+      tag: blogs,
+      summary: 'Update a blog',
+      auth: 'user',
+      scope: 'blogs:write',
+      params: [idParam],
+      body: 'BlogUpdateRequest',
+      responses: { 200: json(ref('Message')) },
+      errors: [400, 404]
+    }),
+    delete: operation({ tag: blogs, summary: 'Delete a blog', auth: 'user', scope: 'blogs:write', params: [idParam], responses: { 200: json(ref('Message')) }, errors: [404] })
+  },
+  '/api/blogs/{id}/status': {
+    patch: operation({
+      tag: blogs,
+      summary: 'Change the status of a blog',
+      auth: 'user',
+      scope: 'blogs:write',
+      params: [idParam],
+      body: 'BlogStatusRequest',
+      responses: { 200: json(ref('Blog')) },
+      errors: [400, 404]
+    })
+  },
+  '/api/blogs/{id}/export.docx': {
+    get: operation({
+      tag: blogs,
+      summary: 'Export a blog as a Word document',
+      auth: 'optional',
+      scope: 'blogs:read',
+      params: [idParam, queryParam('cover', 'Add a cover page', str(undefined, { enum: ['1', 'true'] }))],
+      responses: { 200: file('application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'DOCX file') },
+      errors: [404]
+    })
+  },
+  '/api/blogs/{id}/revisions': {
+    get: operation({ tag: blogs, summary: 'List revisions, oldest first', auth: 'user', scope: 'blogs:read', params: [idParam], responses: { 200: json(array(ref('RevisionSummary'))) }, errors: [404] })
+  },
+  '/api/blogs/{id}/revisions/diff': {
+    get: operation({
+      tag: blogs,
+      summary: 'Compare two revisions',
+      auth: 'user',
+      scope: 'blogs:read',
+      params: [idParam, { ...queryParam('from', 'Revision id'), required: true }, { ...queryParam('to', 'Revision id'), required: true }],
+      responses: { 200: json(ref('RevisionDiff')) },
+      errors: [404]
+    })
+  },
+  '/api/blogs/{id}/revisions/{revisionId}': {
+    get: operation({ tag: blogs, summary: 'Get a revision', auth: 'user', scope: 'blogs:read', params: [idParam, revisionParam], responses: { 200: json(ref('Revision')) }, errors: [404] })
+  },
+  '/api/blogs/{id}/revisions/{revisionId}/restore': {
+    post: operation({ tag: blogs, summary: 'Restore a revision', auth: 'user', scope: 'blogs:write', params: [idParam, revisionParam], responses: { 200: json(ref('Blog')) }, errors: [404] })
+  },
+  '/api/taxonomy': {
+    get: operation({ tag: blogs, summary: 'Tags and categories of the own blogs', auth: 'user', scope: 'blogs:read', responses: { 200: json(ref('Taxonomy')) } })
+  },
+  '/api/generate': {
+    post: operation({
+      tag: generation,
+      summary: 'Generate and save a blog',
+      description: 'Signed-in callers get a draft; anonymous generations are published.',
+      auth: 'optional',
+      scope: 'generate',
+      body: 'GenerateRequest',
+      responses: { 201: json(ref('Blog'), 'Created'), 502: json(ref('Error'), 'The AI provider failed') },
+      errors: [400]
+    })
+  },
+  '/api/generate/stream': {
+    post: operation({
+      tag: generation,
+      summary: 'Generate a blog as Server-Sent Events',
+      description: 'Events: `delta` ({ field, text }), `done` (the saved blog), `error` (an Error). Closing the connection cancels generation.',
+      auth: 'optional',
+      scope: 'generate',
+      body: 'GenerateRequest',
+      responses: { 200: { description: 'Event stream', content: { 'text/event-stream': { schema: str() } } } },
+      errors: [400]
+    })
+  },
+  '/api/public/users/{username}': {
+    get: operation({
+      tag: publicTag,
+      summary: 'Author profile with published blogs',
+      auth: 'none',
+      params: [pathParam('username', 'Username')],
+      responses: { 200: json(object({ username: str(), avatar: nullable(str()), created_at: date(), blogs: array(ref('BlogSummary')) })) },
+      errors: [404]
+    })
+  },
+  '/api/public/users/{username}/blogs/{slug}': {
+    get: operation({ tag: publicTag, summary: 'Published blog by author and slug', auth: 'none', params: [pathParam('username', 'Username'), pathParam('slug', 'Blog slug')], responses: { 200: json(ref('Blog')) }, errors: [404] })
+  },
+  '/api/public/taxonomy': {
+    get: operation({ tag: publicTag, summary: 'Tags and categories of published blogs', auth: 'none', responses: { 200: json(ref('Taxonomy')) } })
+  },
+  '/api/public/tags/{tag}': {
+    get: operation({
+      tag: publicTag,
+      summary: 'Published blogs with a tag',
+      auth: 'none',
+      params: [pathParam('tag', 'Tag name or slug')],
+      responses: { 200: json(object({ name: str(), slug: str(), blogs: array(ref('BlogSummary')) })) },
+      errors: [404]
+    })
+  },
+  '/api/public/categories/{path}': {
+    get: operation({
+      tag: publicTag,
+      summary: 'Published blogs in a category and its subcategories',
+      auth: 'none',
+      params: [pathParam('path', 'Category path, segments separated by "/"')],
+      responses: { 200: json({ allOf: [ref('CategoryNode'), object({ blogs: array(ref('BlogSummary')) })] }) },
+      errors: [404]
+    })
+  },
+  '/api/admin/stats': {
+    get: operation({ tag: admin, summary: 'Content and generation analytics', auth: 'admin', params: analyticsParams, responses: { 200: json({ type: 'object' }) }, errors: [400] })
+  },
+  '/api/admin/stats.csv': {
+    get: operation({ tag: admin, summary: 'Analytics as CSV', auth: 'admin', params: analyticsParams, responses: { 200: file('text/csv', 'CSV file') }, errors: [400] })
+  },
+  '/api/admin/security-events': {
+    get: operation({
+      tag: admin,
+      summary: 'Account and IP lockouts, newest first',
+      auth: 'admin',
+      params: [
+        queryParam('type', 'Event type', str(undefined, { enum: ['account_locked', 'ip_locked'] })),
+        queryParam('cursor', '`next_cursor` of the previous page'),
+        queryParam('limit', 'Page size', int(undefined, { minimum: 1, maximum: 200, default: 50 }))
+      ],
+      responses: { 200: json(object({ items: array(ref('SecurityEvent')), next_cursor: nullable(str('Pass as `cursor` for the next page')) })) },
+      errors: [400]
+    })
+  },
+  '/api/admin/audit': {
+    get: operation({
+      tag: admin,
+      summary: 'Audit log, newest first',
+      auth: 'admin',
+      params: [...auditParams, queryParam('limit', 'Page size', int(undefined, { minimum: 1, maximum: 200, default: 50 }))],
+      responses: { 200: json(object({ items: array(ref('AuditEvent')), next_cursor: nullable(str('Pass as `cursor` for the next page')) })) },
+      errors: [400]
+    })
+  },
+  '/api/admin/audit.{format}': {
+    get: operation({
+      tag: admin,
+      summary: 'Export the audit log',
+      auth: 'admin',
+      params: [{ ...pathParam('format', 'Export format'), schema: str(undefined, { enum: ['csv', 'json'] }) }, ...auditParams],
+      responses: { 200: { description: 'Export file', content: { 'text/csv': { schema: str() }, 'application/json': { schema: array(ref('AuditEvent')) } } } },
+      errors: [400]
+    })
+  },
+  '/api/admin/users': {
+    get: operation({
+      tag: admin,
+      summary: 'Search users',
+      auth: 'admin',
+      params: [
+        queryParam('q', 'Matches username or email, ignoring case and diacritics'),
+        queryParam('role', 'Role', str(undefined, { enum: ['user', 'admin'] })),
+        queryParam('status', 'Account status', str(undefined, { enum: ['active', 'suspended'] })),
+        queryParam('limit', 'Page size', int(undefined, { minimum: 1, maximum: 100, default: 20 })),
+        queryParam('cursor', '`next_cursor` of the previous page')
+      ],
+      responses: { 200: json(object({ items: array(ref('AdminUser')), total: int(), next_cursor: nullable(str()) })) },
+      errors: [400]
+    })
+  },
+  '/api/admin/users/{id}': {
+    patch: operation({
+      tag: admin,
+      summary: 'Change role or suspension',
+      auth: 'admin',
+      params: [pathParam('id', 'User id')],
+      body: 'AdminUserUpdateRequest',
+      responses: { 200: json(ref('AdminUser')) },
+      errors: [400, 404]
+    }),
+    delete: operation({
+      tag: admin,
+      summary: 'Delete a user',
+      description: 'Admin accounts have to be demoted first.',
+      auth: 'admin',
+      params: [pathParam('id', 'User id')],
+      body: 'AdminUserDeleteRequest',
+      responses: { 200: json(object({ message: str(), blogs: int() })) },
+      errors: [400, 404]
+    })
+  },
+  '/api/admin/users/{id}/blogs': {
+    get: operation({ tag: admin, summary: "A user's blogs in every status", auth: 'admin', params: [pathParam('id', 'User id'), statusParam, ...pageParams], responses: { 200: json(ref('BlogPage')) }, errors: [400, 404] })
+  }
+};
+
+export const buildOpenApiDocument = (baseUrl: string) => ({
+  openapi: '3.0.3',
+  info: {
+    title: 'ZA Blog AI API',
+    version: '1.0.0',
+    description: [
+      'Blogs, AI generation and account management.',
+      `Scripts authenticate with a personal access token (\`${PERSONAL_TOKEN_PREFIX}...\`) created in the account settings, sent as \`Authorization: Bearer <token>\`. Each token carries scopes (${ACCESS_TOKEN_SCOPES.join(', ')}) and an expiry; operations list the scope they need.`,
+      'Request bodies are validated before anything else runs. Every error answers with the Error object: a `code`, an English `message`, the failed `fields` for VALIDATION_FAILED, and the `request_id` that is also sent as X-Request-Id. Malformed JSON gets INVALID_JSON, bodies over 1 MB PAYLOAD_TOO_LARGE (413).',
+      'Webhooks POST `{ id, event, created_at, data }` with `X-Webhook-Event`, `X-Webhook-Delivery` and `X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`, keyed with the webhook secret. Non-2xx answers are retried with exponential backoff.'
+    ].join('\n\n')
+  },
+  servers: [{ url: baseUrl }],
+  tags: [auth, account, blogs, generation, publicTag, admin].map(name => ({ name })),
+  paths,
+  components: {
+    securitySchemes: {
+      session: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Access token from sign-in or /api/auth/refresh' },
+      personalToken: { type: 'http', scheme: 'bearer', description: `Personal access token (${PERSONAL_TOKEN_PREFIX}...)` }
+    },
+    schemas,
+    responses: Object.fromEntries(Object.entries(ERROR_RESPONSES).map(([status, name]) => [name, json(ref('Error'), {
+      400: 'Invalid request; VALIDATION_FAILED lists the offending fields',
+      401: 'Missing, invalid or expired credentials (UNAUTHORIZED, INVALID_TOKEN, TOKEN_EXPIRED, SESSION_REVOKED)',
+      403: 'Not allowed, or the token lacks the required scope (INSUFFICIENT_SCOPE)',
+      404: 'Not found',
+      409: 'Conflict',
+      429: 'Too many requests; see Retry-After'
+    }[Number(status)]!)]))
+  }
+});
+
+// Swagger UI is served from the swagger-ui-dist package, so the docs work offline
+// and under a CSP that only allows same-origin scripts (hence no inline script either).
+export const SWAGGER_UI_DIR = path.dirname(createRequire(import.meta.url).resolve('swagger-ui-dist/package.json'));
+
+export const apiDocsPage = (assetsPath: string, initPath: string) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>ZA Blog AI API</title>
+    <link rel="stylesheet" href="${assetsPath}/swagger-ui.css">
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${assetsPath}/swagger-ui-bundle.js"></script>
+    <script src="${initPath}"></script>
+  </body>
+</html>`;
+
+export const apiDocsScript = (specUrl: string) =>
+  `window.ui = SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#swagger-ui', persistAuthorization: true });\n`;
@@ -0,0 +1,76 @@
+// Password and username rules applied wherever a password is chosen (register, change, reset) and
+// to new usernames. Existing passwords are never re-checked.
+
+export type CharacterClass = 'lower' | 'upper' | 'letter' | 'digit' | 'symbol';
+
+export interface PasswordPolicy {
+  min_length: number;
+  max_length: number;
+  // Character classes a password must contain at least one of each
+  require: CharacterClass[];
+  // Rejects passwords that contain the username
+  disallow_username: boolean;
+}
+
+const CHARACTER_CLASSES: Record<CharacterClass, { pattern: RegExp; label: string }> = {
+  lower: { pattern: /\p{Ll}/u, label: 'a lowercase letter' },
+  upper: { pattern: /\p{Lu}/u, label: 'an uppercase letter' },
+  letter: { pattern: /\p{L}/u, label: 'a letter' },
+  digit: { pattern: /\p{N}/u, label: 'a digit' },
+  symbol: { pattern: /[^\p{L}\p{N}\s]/u, label: 'a symbol' }
+};
+
+// A short list of the passwords tried first by every brute-force tool
+const COMMON_PASSWORDS = new Set([
+  'password', 'password1', 'password123', '12345678', '123456789', '1234567890', '11111111', '00000000',
+  'qwerty123', 'qwertyuiop', 'abc12345', 'iloveyou', 'admin123', 'administrator', 'welcome1', 'letmein1',
+  'matkhau', 'matkhau123', '1q2w3e4r', 'zaq12wsx', 'passw0rd', 'sunshine1', 'football1', 'baseball1'
+]);
+
+const isCharacterClass = (value: string): value is CharacterClass => value in CHARACTER_CLASSES;
+
+// PASSWORD_MIN_LENGTH (default 8), PASSWORD_REQUIRE (comma-separated classes, default "letter,digit")
+// and PASSWORD_DISALLOW_USERNAME (default true).
+export const loadPasswordPolicy = (env = process.env): PasswordPolicy => {
+  const required = (env.PASSWORD_REQUIRE ?? 'letter,digit').split(',').map(value => value.trim().toLowerCase()).filter(Boolean);
+  const unknown = required.filter(value => !isCharacterClass(value));
+  if (unknown.length) throw new Error(`Unknown PASSWORD_REQUIRE classes: ${unknown.join(', ')}. Use lower, upper, letter, digit or symbol.`);
+  return {
+    min_length: Math.max(Number(env.PASSWORD_MIN_LENGTH) || 8, 1),
+    max_length: 200,
+    require: required as CharacterClass[],
+    disallow_username: env.PASSWORD_DISALLOW_USERNAME !== 'false'
+  };
+};
+
+// Returns an error message, or null when the password is acceptable.
+export const checkPassword = (policy: PasswordPolicy, password: unknown, username?: string | null) => {
+  if (typeof password !== 'string' || [...password].length < policy.min_length) {
+    return `Password must be at least ${policy.min_length} characters`;
+  }
+  if (password.length > policy.max_length) return 'Password is too long';
+  const missing = policy.require.filter(name => !CHARACTER_CLASSES[name].pattern.test(password));
+  if (missing.length) return `Password must contain ${missing.map(name => CHARACTER_CLASSES[name].label).join(', ')}`;
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) return 'This password is too common';
+  if (policy.disallow_username && username && username.length >= 3 && password.toLowerCase().includes(username.toLowerCase())) {
+    return 'Password must not contain the username';
+  }
+  return null;
+};
+
+// --- Usernames ---
+const USERNAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N}._-]{2,29}$/u;
+
+// Names that would be mistaken for the site itself or collide with routes
+const RESERVED_USERNAMES = new Set([
+  'admin', 'administrator', 'root', 'system', 'support', 'moderator', 'api', 'auth', 'settings',
+  'login', 'register', 'dashboard', 'anonymous', 'null', 'undefined'
+]);
+
+export const checkUsername = (username: unknown) => {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username.normalize('NFC'))) {
+    return 'Username must be 3-30 characters of letters, digits, ".", "_" or "-", starting with a letter or digit';
+  }
+  if (RESERVED_USERNAMES.has(username.toLowerCase())) return 'Cannot register with this username';
+  return null;
+};
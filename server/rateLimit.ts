@@ -0,0 +1,103 @@
+// In-process counters. They reset when the server restarts and are not shared between instances,
+// which is enough to make online brute force impractical for a single-node deployment.
+
+export interface BackoffPolicy {
+  // Failures allowed before any delay is imposed
+  freeAttempts: number;
+  // Delay after the first failure past `freeAttempts`; doubles with each further failure
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Consecutive failures that lock the key for `lockoutMs`
+  lockoutAfter: number;
+  lockoutMs: number;
+  // Failures are forgotten after this long without a new one
+  resetAfterMs: number;
+}
+
+export type AttemptCheck =
+  | { allowed: true; retryAfterMs?: undefined; locked?: undefined }
+  | { allowed: false; retryAfterMs: number; locked: boolean };
+
+interface AttemptState {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+// Exponential backoff on consecutive failures, then a temporary lockout.
+export const createAttemptTracker = (policy: BackoffPolicy) => {
+  const states = new Map<string, AttemptState>();
+
+  const isStale = (state: AttemptState, now: number) => state.lockedUntil <= now && now - state.lastFailureAt > policy.resetAfterMs;
+
+  const current = (key: string, now: number) => {
+    const state = states.get(key);
+    if (state && isStale(state, now)) {
+      states.delete(key);
+      return undefined;
+    }
+    return state;
+  };
+
+  const check = (key: string, now = Date.now()): AttemptCheck => {
+    const state = current(key, now);
+    if (!state) return { allowed: true };
+    if (state.lockedUntil > now) return { allowed: false, retryAfterMs: state.lockedUntil - now, locked: true };
+    if (state.failures < policy.freeAttempts) return { allowed: true };
+    const delay = Math.min(policy.baseDelayMs * 2 ** (state.failures - policy.freeAttempts), policy.maxDelayMs);
+    const nextAttemptAt = state.lastFailureAt + delay;
+    return now < nextAttemptAt ? { allowed: false, retryAfterMs: nextAttemptAt - now, locked: false } : { allowed: true };
+  };
+
+  // Returns true when this failure started a lockout.
+  const fail = (key: string, now = Date.now()) => {
+    const state = current(key, now) || { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+    state.failures++;
+    state.lastFailureAt = now;
+    states.set(key, state);
+    if (state.failures >= policy.lockoutAfter) {
+      state.lockedUntil = now + policy.lockoutMs;
+      // After the lockout the key starts over with backoff rather than being locked again at once
+      state.failures = policy.freeAttempts;
+      return true;
+    }
+    return false;
+  };
+
+  const succeed = (key: string) => {
+    states.delete(key);
+  };
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+    for (const [key, state] of states) if (isStale(state, now)) states.delete(key);
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+
+  return { check, fail, succeed };
+};
+
+// Fixed window: at most `limit` hits per key every `windowMs`.
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const hit = (key: string, now = Date.now()): { allowed: boolean; retryAfterMs: number } => {
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+    return { allowed: window.count <= limit, retryAfterMs: window.resetAt - now };
+  };
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) if (window.resetAt <= now) windows.delete(key);
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+
+  return { hit };
+};
@@ -0,0 +1,19 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from 'react-markdown';
+import { languageCode } from '../shared/language.ts';
+
+export { languageCode };
+
+// Same renderer as the SPA, so server output matches what readers see in the app. Raw HTML in
+// the Markdown is escaped and unsafe link protocols are stripped by react-markdown.
+export const renderMarkdown = (markdown: string) =>
+  renderToStaticMarkup(createElement(Markdown, null, markdown || ''));
+
+export const escapeXml = (text: string) =>
+  (text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
@@ -0,0 +1,145 @@
+import { Storage, BlogRecord, RevisionRecord } from './storage/index.ts';
+
+export interface Actor {
+  id: string;
+  username: string;
+}
+
+export const REVISION_FIELDS = ['title', 'excerpt', 'content'] as const;
+export type RevisionField = typeof REVISION_FIELDS[number];
+
+export const recordRevision = (
+  storage: Storage,
+  blog: BlogRecord,
+  actor: Actor | null,
+  reason: RevisionRecord['reason'],
+  restoredFrom: string | null = null
+) =>
+  storage.revisions.create({
+    blog_id: blog.id,
+    title: blog.title,
+    excerpt: blog.excerpt,
+    content: blog.content,
+    author_id: actor ? actor.id : null,
+    author_username: actor ? actor.username : null,
+    reason,
+    restored_from: restoredFrom
+  });
+
+// Blogs created before revision history existed have no revisions yet. Snapshot their current
+// state as the original so the first edit doesn't lose it.
+export const ensureBaselineRevision = async (storage: Storage, blog: BlogRecord) => {
+  const revisions = await storage.revisions.listByBlog(blog.id);
+  if (revisions.length > 0) return;
+  const owner = blog.user_id ? await storage.users.findById(blog.user_id) : null;
+  await storage.revisions.create({
+    blog_id: blog.id,
+    title: blog.title,
+    excerpt: blog.excerpt,
+    content: blog.content,
+    author_id: blog.user_id,
+    author_username: owner ? owner.username : null,
+    reason: 'create',
+    restored_from: null,
+    created_at: blog.created_at
+  });
+};
+
+// --- Diff ---
+export type DiffOp = { type: 'equal' | 'removed' | 'added'; text: string };
+
+export interface SideBySideRow {
+  type: 'equal' | 'changed' | 'removed' | 'added';
+  left: { line: number; text: string } | null;
+  right: { line: number; text: string } | null;
+}
+
+// Above this many LCS cells the changed middle section is reported as a single replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+export const diffLines = (before: string, after: string): DiffOp[] => {
+  const a = (before || '').split('\n');
+  const b = (after || '').split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(text => ({ type: 'equal', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach(text => ops.push({ type: 'removed', text }));
+    midB.forEach(text => ops.push({ type: 'added', text }));
+  } else {
+    // lcs[i][j] = length of the LCS of midA[i:] and midB[j:], stored row-major
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: 'equal', text: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        ops.push({ type: 'removed', text: midA[i++] });
+      } else {
+        ops.push({ type: 'added', text: midB[j++] });
+      }
+    }
+    while (i < midA.length) ops.push({ type: 'removed', text: midA[i++] });
+    while (j < midB.length) ops.push({ type: 'added', text: midB[j++] });
+  }
+
+  a.slice(endA).forEach(text => ops.push({ type: 'equal', text }));
+  return ops;
+};
+
+// Pairs each run of removed lines with the following run of added lines so replacements line up.
+export const toSideBySide = (ops: DiffOp[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+
+  for (let k = 0; k < ops.length;) {
+    if (ops[k].type === 'equal') {
+      rows.push({ type: 'equal', left: { line: leftLine++, text: ops[k].text }, right: { line: rightLine++, text: ops[k].text } });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type === 'removed') removed.push(ops[k++].text);
+    while (k < ops.length && ops[k].type === 'added') added.push(ops[k++].text);
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = n < removed.length ? { line: leftLine++, text: removed[n] } : null;
+      const right = n < added.length ? { line: rightLine++, text: added[n] } : null;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+};
+
+export const diffRevisions = (from: RevisionRecord, to: RevisionRecord) => {
+  const fields = {} as Record<RevisionField, { changed: boolean; rows: SideBySideRow[] }>;
+  for (const field of REVISION_FIELDS) {
+    const rows = toSideBySide(diffLines(from[field], to[field]));
+    fields[field] = { changed: from[field] !== to[field], rows };
+  }
+  return fields;
+};
@@ -0,0 +1,275 @@
+import { BlogRecord } from './storage/index.ts';
+
+// --- Text folding ---
+// Search compares folded text: compatibility forms unified (full-width → ASCII, half-width kana → full-width),
+// Latin diacritics removed ("phở" → "pho", "crème" → "creme") and lower-cased. Japanese voiced marks are
+// recomposed rather than stripped, so が and か stay different.
+const foldCache = new Map<string, string>();
+
+const foldChar = (ch: string) => {
+  if (ch < '\u0080') return ch.toLowerCase();
+  let folded = foldCache.get(ch);
+  if (folded === undefined) {
+    folded = ch
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/đ/g, 'd')
+      .replace(/Đ/g, 'd')
+      .replace(/œ/g, 'oe')
+      .replace(/æ/g, 'ae')
+      .normalize('NFC')
+      .toLowerCase();
+    foldCache.set(ch, folded);
+  }
+  return folded;
+};
+
+interface FoldedText {
+  text: string;
+  // For each folded UTF-16 unit, the range of the original text it came from
+  starts: number[];
+  ends: number[];
+}
+
+// Folds code point by code point so matches in the folded text can be mapped back for highlighting.
+export const foldText = (input: string): FoldedText => {
+  const parts: string[] = [];
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (let i = 0; i < input.length;) {
+    const ch = String.fromCodePoint(input.codePointAt(i)!);
+    const folded = foldChar(ch);
+    for (let k = 0; k < folded.length; k++) {
+      starts.push(i);
+      ends.push(i + ch.length);
+    }
+    parts.push(folded);
+    i += ch.length;
+  }
+  return { text: parts.join(''), starts, ends };
+};
+
+export const foldQuery = (query: string) => foldText(query).text.replace(/\s+/g, ' ').trim();
+
+// --- Tokenizing ---
+// Latin, Vietnamese and other space-separated text is split into words. Japanese and Chinese have no
+// spaces, so runs of those scripts are indexed as overlapping character bigrams.
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+/gu;
+const CJK_TERM = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+$/u;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (folded: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const word of folded.matchAll(WORD_PATTERN)) {
+    let last = 0;
+    const pushWord = (text: string, offset: number) => {
+      if (text) tokens.push({ term: text, start: offset, end: offset + text.length });
+    };
+    for (const run of word[0].matchAll(CJK_PATTERN)) {
+      pushWord(word[0].slice(last, run.index), word.index! + last);
+      const start = word.index! + run.index!;
+      const chars = Array.from(run[0]);
+      if (chars.length === 1) {
+        tokens.push({ term: chars[0], start, end: start + chars[0].length });
+      }
+      let offset = start;
+      for (let k = 0; k + 1 < chars.length; k++) {
+        const term = chars[k] + chars[k + 1];
+        tokens.push({ term, start: offset, end: offset + term.length });
+        offset += chars[k].length;
+      }
+      last = run.index! + run[0].length;
+    }
+    pushWord(word[0].slice(last), word.index! + last);
+  }
+  return tokens;
+};
+
+// Markdown syntax would otherwise show up in snippets; only the visible text is indexed.
+export const plainText = (markdown: string) =>
+  (markdown || '')
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// --- Index ---
+export const SEARCH_FIELDS = ['title', 'excerpt', 'content'] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, excerpt: 2, content: 1 };
+// Weight of a prefix match ("phon" → "phong") relative to a whole-word match
+const PREFIX_WEIGHT = 0.5;
+// Extra score when a multi-word query appears verbatim in a field
+const PHRASE_BONUS = 2;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedField {
+  original: string;
+  folded: FoldedText;
+  tokens: Token[];
+  counts: Map<string, number>;
+}
+
+interface IndexedBlog {
+  version: string;
+  fields: Record<SearchField, IndexedField>;
+}
+
+const indexField = (original: string): IndexedField => {
+  const folded = foldText(original);
+  const tokens = tokenize(folded.text);
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token.term, (counts.get(token.term) || 0) + 1);
+  return { original, folded, tokens, counts };
+};
+
+export type Range = [number, number];
+
+export interface SearchHit {
+  blog: BlogRecord;
+  score: number;
+  highlights: { title: Range[]; excerpt: Range[] };
+  // Plain-text excerpt of the content around the best match; ranges are relative to `text`
+  snippet: { text: string; highlights: Range[] };
+}
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60;
+
+// Merges overlapping ranges from neighbouring bigrams into one highlight.
+const mergeRanges = (ranges: Range[]) => {
+  const merged: Range[] = [];
+  for (const range of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+};
+
+const buildSnippet = (field: IndexedField, ranges: Range[]) => {
+  const text = field.original;
+  if (text.length <= SNIPPET_LENGTH) return { text, highlights: ranges };
+
+  let start = ranges.length ? Math.max(0, ranges[0][0] - SNIPPET_LEAD) : 0;
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < (ranges[0]?.[0] ?? start)) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const highlights = ranges
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]): Range => [s - start + prefix.length, e - start + prefix.length]);
+  return { text: `${prefix}${text.slice(start, end)}${suffix}`, highlights };
+};
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+// Tokenized blogs are cached by id and re-indexed when the blog changes, so repeated searches
+// only pay for scoring.
+export const createSearchIndex = () => {
+  const cache = new Map<string, IndexedBlog>();
+
+  const indexBlog = (blog: BlogRecord) => {
+    const version = blog.updated_at || blog.created_at;
+    const cached = cache.get(blog.id);
+    if (cached && cached.version === version) return cached;
+    const indexed: IndexedBlog = {
+      version,
+      fields: {
+        title: indexField(blog.title || ''),
+        excerpt: indexField(blog.excerpt || ''),
+        content: indexField(plainText(blog.content))
+      }
+    };
+    cache.set(blog.id, indexed);
+    return indexed;
+  };
+
+  // Every query term must match (whole word, or prefix for non-CJK words). Results are ranked with
+  // BM25 across the weighted fields plus a bonus for verbatim phrase matches.
+  const search = (blogs: BlogRecord[], query: string, options: SearchOptions = {}) => {
+    const foldedQuery = foldQuery(query);
+    const terms = [...new Set(tokenize(foldedQuery).map(token => token.term))];
+    if (terms.length === 0) return { total: 0, hits: [] as SearchHit[] };
+
+    const docs = blogs.map(blog => ({ blog, indexed: indexBlog(blog) }));
+    const averageLength = {} as Record<SearchField, number>;
+    for (const field of SEARCH_FIELDS) {
+      averageLength[field] = docs.reduce((sum, doc) => sum + doc.indexed.fields[field].tokens.length, 0) / (docs.length || 1) || 1;
+    }
+
+    // A single Japanese character can only be found as the start of a bigram
+    const allowsPrefix = (term: string) => !CJK_TERM.test(term) || Array.from(term).length === 1;
+    const matchWeight = (term: string, token: string) =>
+      token === term ? 1 : allowsPrefix(term) && token.startsWith(term) ? PREFIX_WEIGHT : 0;
+
+    const matchesTerm = (doc: typeof docs[number], term: string) =>
+      SEARCH_FIELDS.some(field => [...doc.indexed.fields[field].counts.keys()].some(token => matchWeight(term, token) > 0));
+    const matching = new Map(terms.map(term => [term, new Set(docs.filter(doc => matchesTerm(doc, term)))]));
+    const candidates = docs.filter(doc => terms.every(term => matching.get(term)!.has(doc)));
+    const idf = new Map(terms.map(term => {
+      const df = matching.get(term)!.size;
+      return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+    }));
+
+    const hits = candidates.map(({ blog, indexed }): SearchHit => {
+      let score = 0;
+      const ranges = {} as Record<SearchField, Range[]>;
+      for (const field of SEARCH_FIELDS) {
+        const data = indexed.fields[field];
+        const lengthNorm = 1 - BM25_B + BM25_B * (data.tokens.length / averageLength[field]);
+        for (const term of terms) {
+          let tf = 0;
+          for (const [token, count] of data.counts) tf += matchWeight(term, token) * count;
+          if (tf > 0) score += FIELD_WEIGHTS[field] * idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+        }
+        if (terms.length > 1 && data.folded.text.includes(foldedQuery)) score += FIELD_WEIGHTS[field] * PHRASE_BONUS;
+
+        // Map matched tokens back to the original text; prefix matches only highlight the typed part
+        const matched: Range[] = [];
+        for (const token of data.tokens) {
+          const term = terms.find(t => matchWeight(t, token.term) > 0);
+          if (!term) continue;
+          const end = token.start + Math.min(term.length, token.term.length);
+          matched.push([data.folded.starts[token.start], data.folded.ends[end - 1]]);
+        }
+        ranges[field] = mergeRanges(matched);
+      }
+      return {
+        blog,
+        score: Math.round(score * 1000) / 1000,
+        highlights: { title: ranges.title, excerpt: ranges.excerpt },
+        snippet: buildSnippet(indexed.fields.content, ranges.content)
+      };
+    });
+
+    hits.sort((a, b) => b.score - a.score || (b.blog.updated_at || b.blog.created_at).localeCompare(a.blog.updated_at || a.blog.created_at));
+    return { total: hits.length, hits: hits.slice(0, options.limit ?? hits.length) };
+  };
+
+  const remove = (blogId: string) => {
+    cache.delete(blogId);
+  };
+
+  return { search, remove };
+};
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { injectIntoTemplate, blogPageMeta, renderBlogBody, truncateDescription, PageMeta } from './seo.ts';
+import { BlogRecord } from './storage/index.ts';
+
+const TEMPLATE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta name="description" content="Default" />
+    <title>ZA Blog AI</title>
+  </head>
+  <body>
+    <div id="root"></div>
+  </body>
+</html>`;
+
+const meta: PageMeta = { title: 'Title', description: 'Description', url: 'https://example.com/blog/a', lang: 'vi', type: 'website' };
+
+test('injectIntoTemplate replaces the title, description and language and pre-renders the body', () => {
+  const html = injectIntoTemplate(TEMPLATE, meta, '<p>Body</p>');
+  assert.match(html, /<html lang="vi">/);
+  assert.match(html, /<title>Title<\/title>/);
+  assert.doesNotMatch(html, /content="Default"/);
+  assert.match(html, /<div id="root"><p>Body<\/p><\/div>/);
+});
+
+test('injectIntoTemplate inserts dollar sequences literally', () => {
+  const body = "<pre><code>echo $'a\\tb' $& $` $$ $1</code></pre>";
+  const html = injectIntoTemplate(TEMPLATE, { ...meta, title: "Costs $& $' $`" }, body);
+  assert.ok(html.includes(`<div id="root">${body}</div>`));
+  assert.ok(html.includes("<title>Costs $&amp; $&apos; $`</title>"));
+  assert.equal(html.match(/<div id="root">/g)?.length, 1);
+});
+
+test('a blog whose body contains $\' renders without pieces of the template', () => {
+  const blog = {
+    id: 'b1',
+    user_id: 'u1',
+    title: 'Tabs in bash',
+    excerpt: '',
+    content: "```bash\necho $'a\\tb'\n```",
+    tone: 'professional',
+    language: 'English',
+    created_at: '2024-03-01T00:00:00.000Z'
+  } as BlogRecord;
+  const body = renderBlogBody(blog, null);
+  const html = injectIntoTemplate(TEMPLATE, blogPageMeta(blog, 'https://example.com/blog/tabs', null, null), body);
+  assert.ok(body.includes('echo $&#x27;a\\tb&#x27;'));
+  assert.ok(html.includes(`<div id="root">${body}</div>`));
+  assert.equal(html.match(/<div id="root">/g)?.length, 1);
+});
+
+test('truncateDescription cuts on a word boundary', () => {
+  assert.equal(truncateDescription('short text'), 'short text');
+  assert.equal(truncateDescription('one two three four', 10), 'one two…');
+});
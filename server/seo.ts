@@ -0,0 +1,135 @@
+import { BlogRecord } from './storage/index.ts';
+import { renderMarkdown, languageCode, escapeXml } from './render.ts';
+
+export const SITE_NAME = 'ZA Blog AI';
+
+const OG_LOCALES: Record<string, string> = { vi: 'vi_VN', en: 'en_US', ja: 'ja_JP', fr: 'fr_FR' };
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  // Absolute canonical URL
+  url: string;
+  lang: string;
+  type: 'website' | 'article' | 'profile';
+  publishedTime?: string;
+  modifiedTime?: string;
+  authorName?: string | null;
+  jsonLd?: Record<string, unknown>;
+}
+
+const escapeHtml = escapeXml;
+
+// Meta descriptions are cut on a word boundary around the length search engines display.
+export const truncateDescription = (text: string, max = 160) => {
+  const clean = (text || '').replace(/\s+/g, ' ').trim();
+  if (clean.length <= max) return clean;
+  const cut = clean.slice(0, max - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+};
+
+// `</script>` inside the JSON would end the script element early.
+const jsonForScript = (data: unknown) => JSON.stringify(data).replace(/</g, '\\u003c');
+
+export const renderHeadTags = (meta: PageMeta) => {
+  const tags = [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(meta.description)}" />`,
+    `<link rel="canonical" href="${escapeHtml(meta.url)}" />`,
+    `<link rel="alternate" hreflang="${meta.lang}" href="${escapeHtml(meta.url)}" />`,
+    `<link rel="alternate" hreflang="x-default" href="${escapeHtml(meta.url)}" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta property="og:type" content="${meta.type}" />`,
+    `<meta property="og:title" content="${escapeHtml(meta.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(meta.description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(meta.url)}" />`,
+    `<meta property="og:locale" content="${OG_LOCALES[meta.lang] || 'vi_VN'}" />`,
+    `<meta name="twitter:card" content="summary" />`,
+    `<meta name="twitter:title" content="${escapeHtml(meta.title)}" />`,
+    `<meta name="twitter:description" content="${escapeHtml(meta.description)}" />`
+  ];
+  if (meta.publishedTime) tags.push(`<meta property="article:published_time" content="${meta.publishedTime}" />`);
+  if (meta.modifiedTime) tags.push(`<meta property="article:modified_time" content="${meta.modifiedTime}" />`);
+  if (meta.authorName) tags.push(`<meta property="article:author" content="${escapeHtml(meta.authorName)}" />`);
+  if (meta.jsonLd) tags.push(`<script type="application/ld+json">${jsonForScript(meta.jsonLd)}</script>`);
+  return tags.join('\n    ');
+};
+
+// Replaces the template's <title> and default description with the page head and pre-renders the body into #root.
+// The SPA mounts over it with createRoot, so crawlers and link previews get real content.
+// Replacements are passed as functions: in a replacement string, `$&`, `$'` and `$\`` in a title or
+// post body would be expanded.
+export const injectIntoTemplate = (template: string, meta: PageMeta, bodyHtml: string) =>
+  template
+    .replace(/<html lang="[^"]*">/, () => `<html lang="${meta.lang}">`)
+    .replace(/\s*<meta name="description"[^>]*>/, '')
+    .replace(/<title>[\s\S]*?<\/title>/, () => renderHeadTags(meta))
+    .replace('<div id="root"></div>', () => `<div id="root">${bodyHtml}</div>`);
+
+export const blogPageMeta = (blog: BlogRecord, url: string, authorName: string | null, authorUrl: string | null): PageMeta => {
+  const lang = languageCode(blog.language);
+  const publishedTime = new Date(blog.published_at || blog.created_at).toISOString();
+  const modifiedTime = new Date(blog.updated_at || blog.published_at || blog.created_at).toISOString();
+  const description = truncateDescription(blog.excerpt || blog.content);
+
+  return {
+    title: `${blog.title} | ${SITE_NAME}`,
+    description,
+    url,
+    lang,
+    type: 'article',
+    publishedTime,
+    modifiedTime,
+    authorName,
+    jsonLd: {
+      '@context': 'https://schema.org',
+      '@type': 'Article',
+      headline: blog.title,
+      description,
+      inLanguage: lang,
+      datePublished: publishedTime,
+      dateModified: modifiedTime,
+      mainEntityOfPage: { '@type': 'WebPage', '@id': url },
+      ...(authorName ? { author: { '@type': 'Person', name: authorName, ...(authorUrl ? { url: authorUrl } : {}) } } : {}),
+      publisher: { '@type': 'Organization', name: SITE_NAME }
+    }
+  };
+};
+
+export const renderBlogBody = (blog: BlogRecord, authorName: string | null) => `
+<article class="pt-32 pb-20 px-6 max-w-4xl mx-auto">
+  <h1 class="text-4xl md:text-5xl font-bold mb-6">${escapeHtml(blog.title)}</h1>
+  <p class="flex items-center gap-4 mb-12 text-zinc-500 text-sm">${authorName ? `${escapeHtml(authorName)} • ` : ''}${new Date(blog.published_at || blog.created_at).toISOString().slice(0, 10)} • ${escapeHtml(blog.language)}</p>
+  <div class="markdown-body">${renderMarkdown(blog.content)}</div>
+</article>`;
+
+export const renderAuthorBody = (username: string, blogs: { title: string; excerpt: string; url: string }[]) => `
+<section class="pt-32 pb-20 px-6 max-w-4xl mx-auto">
+  <h1 class="text-4xl font-bold mb-12">${escapeHtml(username)}</h1>
+  <ul>
+${blogs.map(blog => `    <li><a href="${escapeHtml(blog.url)}">${escapeHtml(blog.title)}</a><p>${escapeHtml(blog.excerpt)}</p></li>`).join('\n')}
+  </ul>
+</section>`;
+
+// --- Crawlers ---
+export const buildSitemap = (entries: { url: string; lastmod?: string }[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries.map(({ url, lastmod }) => `  <url>
+    <loc>${escapeXml(url)}</loc>${lastmod ? `
+    <lastmod>${new Date(lastmod).toISOString()}</lastmod>` : ''}
+  </url>`).join('\n')}
+</urlset>
+`;
+
+export const buildRobotsTxt = (baseUrl: string) => `User-agent: *
+Allow: /
+Disallow: /api/
+Disallow: /dashboard
+Disallow: /write
+Disallow: /edit/
+Disallow: /admin
+Disallow: /login
+Disallow: /register
+
+Sitemap: ${baseUrl}/sitemap.xml
+`;
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { Storage, SessionRecord } from './storage/index.ts';
+
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+// A refresh token that was just rotated is still accepted this long, for requests already in flight
+const ROTATION_GRACE_MS = 30_000;
+// authenticateToken checks the session on every request; this keeps Firestore reads down
+const ACTIVE_CACHE_MS = 10_000;
+
+export const REFRESH_COOKIE = 'refresh_token';
+// The cookie is only sent to the auth endpoints, never with ordinary API calls
+export const REFRESH_COOKIE_PATH = '/api/auth';
+export const REFRESH_COOKIE_MAX_AGE_MS = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+const hashToken = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+const newSecret = () => crypto.randomBytes(32).toString('base64url');
+const expiresAt = () => new Date(Date.now() + REFRESH_COOKIE_MAX_AGE_MS).toISOString();
+
+export const isSessionActive = (session: SessionRecord, now = Date.now()) =>
+  !session.revoked_at && new Date(session.expires_at).getTime() > now;
+
+export const readCookie = (header: string | undefined, name: string) => {
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0 && part.slice(0, index).trim() === name) return decodeURIComponent(part.slice(index + 1).trim());
+  }
+  return null;
+};
+
+// "Chrome on Windows", "Safari on iPhone"... Good enough to recognise one's own devices.
+export const describeDevice = (userAgent: string | null | undefined) => {
+  const ua = userAgent || '';
+  const browser =
+    /Edg\//.test(ua) ? 'Edge'
+    : /OPR\/|Opera/.test(ua) ? 'Opera'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : /curl\//.test(ua) ? 'curl'
+    : null;
+  const os =
+    /iPhone/.test(ua) ? 'iPhone'
+    : /iPad/.test(ua) ? 'iPad'
+    : /Android/.test(ua) ? 'Android'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(ua) ? 'macOS'
+    : /Linux/.test(ua) ? 'Linux'
+    : null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};
+
+export type RefreshResult =
+  | { session: SessionRecord; refreshToken: string | null; error?: undefined }
+  | { session?: undefined; refreshToken?: undefined; error: string };
+
+// Refresh tokens are "<session id>.<secret>" and change on every use. Presenting an already rotated
+// token (outside the grace window) means it was copied, so the whole session is revoked.
+export const createSessionManager = (storage: Storage) => {
+  const activeCache = new Map<string, { active: boolean; until: number }>();
+
+  const start = async (userId: string, client: { userAgent?: string | null; ip?: string | null }) => {
+    const secret = newSecret();
+    const now = new Date().toISOString();
+    const session = await storage.sessions.create({
+      user_id: userId,
+      token_hash: hashToken(secret),
+      previous_token_hash: null,
+      rotated_at: null,
+      user_agent: client.userAgent || null,
+      ip: client.ip || null,
+      last_used_at: now,
+      expires_at: expiresAt(),
+      revoked_at: null
+    });
+    return { session, refreshToken: `${session.id}.${secret}` };
+  };
+
+  const revoke = async (sessionId: string) => {
+    await storage.sessions.update(sessionId, { revoked_at: new Date().toISOString() });
+    activeCache.delete(sessionId);
+  };
+
+  // The active session named by a refresh token, and whether its secret is the current one, the one
+  // just rotated out (within the grace window) or neither.
+  const lookup = async (refreshToken: string) => {
+    const [sessionId, secret] = refreshToken.split('.');
+    const session = sessionId && secret ? await storage.sessions.findById(sessionId) : null;
+    if (!session || !isSessionActive(session)) return null;
+    const hash = hashToken(secret);
+    const inGrace = hash === session.previous_token_hash && !!session.rotated_at
+      && Date.now() - new Date(session.rotated_at).getTime() < ROTATION_GRACE_MS;
+    return { session, hash, match: hash === session.token_hash ? 'current' as const : inGrace ? 'previous' as const : null };
+  };
+
+  // `refreshToken: null` means the caller keeps the cookie it already has (grace-window retry).
+  const rotate = async (refreshToken: string, client: { ip?: string | null }): Promise<RefreshResult> => {
+    const found = await lookup(refreshToken);
+    if (!found) return { error: 'Session expired' };
+    const { session, hash, match } = found;
+    if (match === 'previous') return { session, refreshToken: null };
+    if (!match) {
+      await revoke(session.id);
+      console.warn(`Refresh token reuse detected, revoked session ${session.id}`);
+      return { error: 'Session revoked' };
+    }
+
+    const nextSecret = newSecret();
+    const now = new Date().toISOString();
+    const patch = {
+      token_hash: hashToken(nextSecret),
+      previous_token_hash: hash,
+      rotated_at: now,
+      last_used_at: now,
+      expires_at: expiresAt(),
+      ip: client.ip || session.ip
+    };
+    await storage.sessions.update(session.id, patch);
+    return { session: { ...session, ...patch }, refreshToken: `${session.id}.${nextSecret}` };
+  };
+
+  // Logout: only a token whose secret verifies can end its session, so knowing a session id is not enough.
+  const end = async (refreshToken: string) => {
+    const found = await lookup(refreshToken);
+    if (!found?.match) return false;
+    await revoke(found.session.id);
+    return true;
+  };
+
+  const revokeAll = async (userId: string, exceptSessionId?: string) => {
+    const sessions = await storage.sessions.listByUser(userId);
+    const targets = sessions.filter(session => session.id !== exceptSessionId && isSessionActive(session));
+    for (const session of targets) await revoke(session.id);
+    return targets.length;
+  };
+
+  const isActive = async (sessionId: string) => {
+    const cached = activeCache.get(sessionId);
+    if (cached && cached.until > Date.now()) return cached.active;
+    const session = await storage.sessions.findById(sessionId);
+    const active = !!session && isSessionActive(session);
+    activeCache.set(sessionId, { active, until: Date.now() + ACTIVE_CACHE_MS });
+    return active;
+  };
+
+  const listActive = async (userId: string) => (await storage.sessions.listByUser(userId)).filter(session => isSessionActive(session));
+
+  return { start, rotate, end, revoke, revokeAll, isActive, listActive };
+};
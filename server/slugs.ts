@@ -0,0 +1,29 @@
+import { Storage, BlogRecord } from './storage/index.ts';
+import { isPublished } from './lifecycle.ts';
+import { slugify } from '../shared/slugify.ts';
+
+export { slugify };
+
+// Slugs are unique per author (anonymous posts share one namespace). Collisions get -2, -3...
+export const uniqueSlug = async (storage: Storage, userId: string | null, title: string, excludeBlogId?: string) => {
+  const base = slugify(title);
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? base : `${base}-${n}`;
+    const existing = await storage.blogs.findBySlug(userId, candidate);
+    if (!existing || existing.id === excludeBlogId) return candidate;
+  }
+};
+
+// Blogs saved before slugs existed get one the first time a public URL is needed.
+export const ensureSlug = async (storage: Storage, blog: BlogRecord): Promise<BlogRecord> => {
+  if (blog.slug) return blog;
+  const slug = await uniqueSlug(storage, blog.user_id, blog.title, blog.id);
+  await storage.blogs.update(blog.id, { slug });
+  return { ...blog, slug };
+};
+
+export const authorPath = (username: string) => `/u/${encodeURIComponent(username)}`;
+
+// Canonical URL of a blog. Unpublished and anonymous posts have no author URL and stay on their ID URL.
+export const blogPath = (blog: BlogRecord, username?: string | null) =>
+  username && blog.slug && isPublished(blog) ? `${authorPath(username)}/${blog.slug}` : `/blog/${blog.id}`;
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import { Storage } from './types.ts';
+import { createMemoryStorage, MemoryData } from './memory.ts';
+
+// Mutations within this window are written to disk together.
+const WRITE_DELAY_MS = 200;
+
+// Single JSON document on disk, rewritten atomically (temp file + rename) shortly after mutations,
+// off the request path. Meant for local development and small self-hosted installs, not for
+// concurrent processes sharing one file.
+export const createFileStorage = (filePath: string): Storage => {
+  let initial: Partial<MemoryData> = {};
+  if (fs.existsSync(filePath)) {
+    try {
+      initial = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read storage file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  const tmpPath = `${filePath}.tmp`;
+  // The memory backend hands over its live data; `dirty` marks changes not yet on disk.
+  let latest: MemoryData | null = null;
+  let dirty = false;
+  let writing = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const schedule = () => {
+    if (!timer && !writing) timer = setTimeout(write, WRITE_DELAY_MS);
+  };
+
+  const write = async () => {
+    timer = null;
+    if (!dirty || !latest) return;
+    writing = true;
+    dirty = false;
+    try {
+      const json = JSON.stringify(latest, null, 2);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(tmpPath, json);
+      await fs.promises.rename(tmpPath, filePath);
+    } catch (error) {
+      console.error(`Cannot write storage file ${filePath}:`, error);
+      dirty = true;
+    } finally {
+      writing = false;
+      if (dirty) schedule();
+    }
+  };
+
+  const persist = (data: MemoryData) => {
+    latest = data;
+    dirty = true;
+    schedule();
+  };
+
+  // Changes still pending (or being written) when the process stops are written synchronously,
+  // since nothing asynchronous runs at exit.
+  process.on('exit', () => {
+    if (!latest || (!dirty && !writing)) return;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, JSON.stringify(latest, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  });
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => process.exit(signal === 'SIGINT' ? 130 : 143));
+  }
+
+  return { ...createMemoryStorage(initial, persist), backend: 'file' };
+};
@@ -0,0 +1,481 @@
+import admin from 'firebase-admin';
+import { Storage, UserRecord, BlogRecord, BlogPage, BlogPageQuery, BlogSortField, CreatedCursor, CreatedPage, RevisionRecord, SessionRecord, IdentityRecord, AccessTokenRecord, WebhookRecord, WebhookDeliveryRecord, SecurityEventRecord, GenerationEventRecord, AuditEventRecord, DateRange } from './types.ts';
+import { paginateBlogs, paginateUsers, matchesAuditQuery } from './pagination.ts';
+
+export const hasFirebaseCredentials = () =>
+  !!(process.env.FIREBASE_PROJECT_ID && process.env.FIREBASE_CLIENT_EMAIL && process.env.FIREBASE_PRIVATE_KEY);
+
+const initFirestore = () => {
+  if (!admin.apps.length) {
+    if (!hasFirebaseCredentials()) {
+      throw new Error('Firebase environment variables are missing. Please check your .env file.');
+    }
+
+    admin.initializeApp({
+      credential: admin.credential.cert({
+        projectId: process.env.FIREBASE_PROJECT_ID,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+      }),
+    });
+    console.log('Firebase Admin initialized successfully');
+  }
+  return admin.firestore();
+};
+
+// Firestore Timestamps become ISO strings so records look the same for every backend. Columns that
+// only exist for ordering queries (`sort_*`, see BLOG_SORT_COLUMNS) are left out.
+const toRecord = <T>(doc: admin.firestore.DocumentSnapshot): T => {
+  const data: Record<string, any> = { id: doc.id, ...doc.data() };
+  for (const [key, value] of Object.entries(data)) {
+    if (key.startsWith('sort_')) delete data[key];
+    else if (value instanceof admin.firestore.Timestamp) data[key] = value.toDate().toISOString();
+  }
+  return data as T;
+};
+
+// Walks an ordered query in pages and keeps matching documents, for filters Firestore can't express
+// (e.g. "status is published or missing").
+const scanDocs = async <T>(query: admin.firestore.Query, predicate: (record: T) => boolean, limit?: number, pageSize = 100) => {
+  const results: { doc: admin.firestore.QueryDocumentSnapshot; record: T }[] = [];
+  let cursor: admin.firestore.QueryDocumentSnapshot | undefined;
+  while (true) {
+    const page = await (cursor ? query.startAfter(cursor) : query).limit(pageSize).get();
+    for (const doc of page.docs) {
+      const record = toRecord<T>(doc);
+      if (predicate(record)) results.push({ doc, record });
+      if (limit && results.length >= limit) return results;
+    }
+    if (page.docs.length < pageSize) return results;
+    cursor = page.docs[page.docs.length - 1];
+  }
+};
+
+const scanQuery = async <T>(query: admin.firestore.Query, predicate: (record: T) => boolean, limit?: number) =>
+  (await scanDocs<T>(query, predicate, limit)).map(match => match.record);
+
+// Range query on `created_at`, which is stored as a Timestamp.
+const createdBetween = (collection: admin.firestore.CollectionReference, { from, to }: DateRange) =>
+  collection
+    .where('created_at', '>=', admin.firestore.Timestamp.fromDate(new Date(from)))
+    .where('created_at', '<', admin.firestore.Timestamp.fromDate(new Date(to)))
+    .orderBy('created_at', 'asc');
+
+const byCreatedDesc = (a: { created_at: string }, b: { created_at: string }) => (b.created_at || '').localeCompare(a.created_at || '');
+
+// --- Blog pages ---
+// Blog documents carry two fields that exist only to order pages in queries: `sort_updated` (the
+// update date, else the creation date) and `sort_title` (the title without case and diacritics).
+// Every query orders by one of them and the document id; firestore.indexes.json has the indexes.
+const BLOG_SORT_COLUMNS: Record<BlogSortField, string> = { created: 'created_at', updated: 'sort_updated', title: 'sort_title' };
+
+const titleSortKey = (title = '') => title.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Date columns are Timestamps with nanoseconds, which an ISO string would round; cursors carry
+// them as "seconds.nanoseconds".
+const toCursorValue = (doc: admin.firestore.DocumentSnapshot, column: string) => {
+  const value = doc.get(column);
+  return value instanceof admin.firestore.Timestamp ? `${value.seconds}.${String(value.nanoseconds).padStart(9, '0')}` : String(value ?? '');
+};
+
+const fromCursorValue = (sort: BlogSortField, value: string) => {
+  if (sort === 'title') return value;
+  const [seconds, nanoseconds] = value.split('.').map(Number);
+  return Number.isInteger(seconds) && Number.isInteger(nanoseconds) ? new admin.firestore.Timestamp(seconds, nanoseconds) : value;
+};
+
+// Logs (deliveries, security and audit events) page newest first by (created_at, id). Conditions the
+// query leaves out are matched while scanning, so only the single-field created_at index is needed.
+const scanNewestFirst = async <T>(
+  base: admin.firestore.Query,
+  predicate: (record: T) => boolean,
+  { cursor, limit }: { cursor?: CreatedCursor | null; limit: number }
+): Promise<CreatedPage<T>> => {
+  let ordered = base.orderBy('created_at', 'desc').orderBy(admin.firestore.FieldPath.documentId(), 'desc');
+  if (cursor) ordered = ordered.startAfter(fromCursorValue('created', cursor.created_at), cursor.id);
+  const matches = await scanDocs<T>(ordered, predicate, limit + 1);
+  const page = matches.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map(match => match.record),
+    next: matches.length > limit && last ? { created_at: toCursorValue(last.doc, 'created_at'), id: last.doc.id } : null
+  };
+};
+
+const pageQuery = async (base: admin.firestore.Query, query: BlogPageQuery): Promise<BlogPage> => {
+  // Taxonomy filters can't be expressed as a query; they are matched over the author's (or the
+  // published) blogs, which the base query has already narrowed down
+  if (query.filter) return paginateBlogs((await base.get()).docs.map(doc => toRecord<BlogRecord>(doc)), query);
+
+  const { sort, order, limit, cursor } = query;
+  const column = BLOG_SORT_COLUMNS[sort];
+  let ordered = base.orderBy(column, order).orderBy(admin.firestore.FieldPath.documentId(), order);
+  if (cursor) ordered = ordered.startAfter(fromCursorValue(sort, cursor.value), cursor.id);
+  // One extra document tells whether there is a next page
+  const [snapshot, count] = await Promise.all([ordered.limit(limit + 1).get(), base.count().get()]);
+  const docs = snapshot.docs.slice(0, limit);
+  const last = docs[docs.length - 1];
+  return {
+    items: docs.map(doc => toRecord<BlogRecord>(doc)),
+    total: count.data().count,
+    next: snapshot.docs.length > limit && last ? { sort, order, value: toCursorValue(last, column), id: last.id } : null
+  };
+};
+
+// Blogs saved before the lifecycle have no `status`, and older ones no sort columns. Both are
+// needed by the queries above, so they are filled in once; `meta/blogs` records that it happened.
+const BLOG_SCHEMA_VERSION = 1;
+
+const backfillBlogs = async (db: admin.firestore.Firestore, blogsCol: admin.firestore.CollectionReference) => {
+  const marker = db.collection('meta').doc('blogs');
+  if (((await marker.get()).get('schema_version') || 0) >= BLOG_SCHEMA_VERSION) return;
+  let query = blogsCol.orderBy(admin.firestore.FieldPath.documentId()).limit(400);
+  while (true) {
+    const snapshot = await query.get();
+    const batch = db.batch();
+    let writes = 0;
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const patch: Record<string, unknown> = {};
+      if (!data.status) patch.status = 'published';
+      if (data.sort_updated === undefined) patch.sort_updated = data.updated_at || data.created_at;
+      if (data.sort_title === undefined) patch.sort_title = titleSortKey(data.title);
+      if (Object.keys(patch).length) {
+        batch.update(doc.ref, patch);
+        writes++;
+      }
+    }
+    if (writes) await batch.commit();
+    if (snapshot.docs.length < 400) break;
+    query = query.startAfter(snapshot.docs[snapshot.docs.length - 1]);
+  }
+  await marker.set({ schema_version: BLOG_SCHEMA_VERSION }, { merge: true });
+  console.log('Backfilled blog status and sort fields');
+};
+
+export const createFirestoreStorage = (): Storage => {
+  const db = initFirestore();
+  const usersCol = db.collection('users');
+  const blogsCol = db.collection('blogs');
+  const revisionsCol = db.collection('blog_revisions');
+  const sessionsCol = db.collection('sessions');
+  const identitiesCol = db.collection('identities');
+  const accessTokensCol = db.collection('access_tokens');
+  const webhooksCol = db.collection('webhooks');
+  const webhookDeliveriesCol = db.collection('webhook_deliveries');
+  const securityEventsCol = db.collection('security_events');
+  const generationEventsCol = db.collection('generation_events');
+  const auditCol = db.collection('audit_events');
+  const now = () => admin.firestore.FieldValue.serverTimestamp();
+  // Blog pages and lists by status wait for this; a failure is retried by the next request
+  let blogsReady: Promise<void> | null = null;
+  const ensureBlogs = () =>
+    (blogsReady ??= backfillBlogs(db, blogsCol).catch(error => {
+      blogsReady = null;
+      throw error;
+    }));
+
+  return {
+    backend: 'firestore',
+    users: {
+      findById: async (id) => {
+        const doc = await usersCol.doc(id).get();
+        return doc.exists ? toRecord<UserRecord>(doc) : null;
+      },
+      findOneBy: async (field, value) => {
+        const snapshot = await usersCol.where(field, '==', value ?? null).limit(1).get();
+        return snapshot.empty ? null : toRecord<UserRecord>(snapshot.docs[0]);
+      },
+      create: async (data) => {
+        const ref = await usersCol.add({ ...data, created_at: now() });
+        return toRecord<UserRecord>(await ref.get());
+      },
+      update: async (id, patch) => {
+        await usersCol.doc(id).update(patch);
+      },
+      delete: async (id) => {
+        await usersCol.doc(id).delete();
+      },
+      count: async () => (await usersCol.count().get()).data().count,
+      // Newest first, like paginateUsers. Search needs substring matches (and legacy users lack a
+      // role) that Firestore can't query, so filtered pages are still cut in memory.
+      page: async (query) => {
+        if (query.filter) {
+          const snapshot = await usersCol.get();
+          return paginateUsers(snapshot.docs.map(doc => toRecord<UserRecord>(doc)), query);
+        }
+        const { limit, cursor } = query;
+        let ordered = usersCol.orderBy('created_at', 'desc').orderBy(admin.firestore.FieldPath.documentId(), 'desc');
+        // The cursor holds the exact Timestamp, encoded like blog cursors
+        if (cursor) ordered = ordered.startAfter(fromCursorValue('created', cursor.created_at), cursor.id);
+        const [snapshot, count] = await Promise.all([ordered.limit(limit + 1).get(), usersCol.count().get()]);
+        const docs = snapshot.docs.slice(0, limit);
+        const last = docs[docs.length - 1];
+        return {
+          items: docs.map(doc => toRecord<UserRecord>(doc)),
+          total: count.data().count,
+          next: snapshot.docs.length > limit && last ? { created_at: toCursorValue(last, 'created_at'), id: last.id } : null
+        };
+      }
+    },
+    blogs: {
+      findById: async (id) => {
+        const doc = await blogsCol.doc(id).get();
+        return doc.exists ? toRecord<BlogRecord>(doc) : null;
+      },
+      listByUser: async (userId, options = {}) => {
+        await ensureBlogs();
+        const byUser = blogsCol.where('user_id', '==', userId);
+        const query = (options.status ? byUser.where('status', '==', options.status) : byUser).orderBy('created_at', 'desc');
+        return scanQuery<BlogRecord>(query, blog => !options.filter || options.filter(blog), options.limit);
+      },
+      findBySlug: async (userId, slug) => {
+        const snapshot = await blogsCol.where('user_id', '==', userId).where('slug', '==', slug).limit(1).get();
+        return snapshot.empty ? null : toRecord<BlogRecord>(snapshot.docs[0]);
+      },
+      listPublished: async (options = {}) => {
+        await ensureBlogs();
+        return scanQuery<BlogRecord>(
+          blogsCol.where('status', '==', 'published').orderBy('created_at', 'desc'),
+          blog => !options.filter || options.filter(blog),
+          options.limit
+        );
+      },
+      pageByUser: async (userId, query) => {
+        await ensureBlogs();
+        const byUser = blogsCol.where('user_id', '==', userId);
+        return pageQuery(query.status ? byUser.where('status', '==', query.status) : byUser, query);
+      },
+      pagePublished: async (query) => {
+        await ensureBlogs();
+        return pageQuery(blogsCol.where('status', '==', 'published'), query);
+      },
+      listByStatus: async (status) => {
+        const snapshot = await blogsCol.where('status', '==', status).get();
+        return snapshot.docs.map(doc => toRecord<BlogRecord>(doc));
+      },
+      listCreatedBetween: async (range) => {
+        const snapshot = await createdBetween(blogsCol, range).get();
+        return snapshot.docs.map(doc => toRecord<BlogRecord>(doc));
+      },
+      create: async (data) => {
+        const createdAt = data.created_at ? admin.firestore.Timestamp.fromDate(new Date(data.created_at)) : now();
+        const ref = await blogsCol.add({
+          ...data,
+          status: data.status || 'published',
+          created_at: createdAt,
+          sort_updated: createdAt,
+          sort_title: titleSortKey(data.title)
+        });
+        return toRecord<BlogRecord>(await ref.get());
+      },
+      update: async (id, patch) => {
+        const updatedAt = now();
+        await blogsCol.doc(id).update({
+          ...patch,
+          updated_at: updatedAt,
+          sort_updated: updatedAt,
+          ...(patch.title !== undefined ? { sort_title: titleSortKey(patch.title) } : {})
+        });
+      },
+      delete: async (id) => {
+        await blogsCol.doc(id).delete();
+      }
+    },
+    revisions: {
+      findById: async (id) => {
+        const doc = await revisionsCol.doc(id).get();
+        return doc.exists ? toRecord<RevisionRecord>(doc) : null;
+      },
+      listByBlog: async (blogId) => {
+        const snapshot = await revisionsCol.where('blog_id', '==', blogId).get();
+        return snapshot.docs.map(doc => toRecord<RevisionRecord>(doc)).sort((a, b) => byCreatedDesc(b, a));
+      },
+      create: async (data) => {
+        const ref = await revisionsCol.add({
+          ...data,
+          created_at: data.created_at ? admin.firestore.Timestamp.fromDate(new Date(data.created_at)) : now()
+        });
+        return toRecord<RevisionRecord>(await ref.get());
+      },
+      deleteByBlog: async (blogId) => {
+        const snapshot = await revisionsCol.where('blog_id', '==', blogId).get();
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+    },
+    sessions: {
+      findById: async (id) => {
+        const doc = await sessionsCol.doc(id).get();
+        return doc.exists ? toRecord<SessionRecord>(doc) : null;
+      },
+      listByUser: async (userId) => {
+        const snapshot = await sessionsCol.where('user_id', '==', userId).get();
+        return snapshot.docs.map(doc => toRecord<SessionRecord>(doc)).sort(byCreatedDesc);
+      },
+      create: async (data) => {
+        const ref = await sessionsCol.add({ ...data, created_at: now() });
+        return toRecord<SessionRecord>(await ref.get());
+      },
+      update: async (id, patch) => {
+        await sessionsCol.doc(id).update(patch);
+      },
+      deleteByUser: async (userId) => {
+        const snapshot = await sessionsCol.where('user_id', '==', userId).get();
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+    },
+    identities: {
+      findBySubject: async (provider, subject) => {
+        const snapshot = await identitiesCol.where('provider', '==', provider).where('subject', '==', subject).limit(1).get();
+        return snapshot.empty ? null : toRecord<IdentityRecord>(snapshot.docs[0]);
+      },
+      listByUser: async (userId) => {
+        const snapshot = await identitiesCol.where('user_id', '==', userId).get();
+        return snapshot.docs.map(doc => toRecord<IdentityRecord>(doc)).sort((a, b) => byCreatedDesc(b, a));
+      },
+      create: async (data) => {
+        const ref = await identitiesCol.add({ ...data, created_at: now() });
+        return toRecord<IdentityRecord>(await ref.get());
+      },
+      delete: async (id) => {
+        await identitiesCol.doc(id).delete();
+      },
+      deleteByUser: async (userId) => {
+        const snapshot = await identitiesCol.where('user_id', '==', userId).get();
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+    },
+    accessTokens: {
+      findById: async (id) => {
+        const doc = await accessTokensCol.doc(id).get();
+        return doc.exists ? toRecord<AccessTokenRecord>(doc) : null;
+      },
+      listByUser: async (userId) => {
+        const snapshot = await accessTokensCol.where('user_id', '==', userId).get();
+        return snapshot.docs.map(doc => toRecord<AccessTokenRecord>(doc)).sort(byCreatedDesc);
+      },
+      create: async (data) => {
+        const ref = await accessTokensCol.add({ ...data, created_at: now() });
+        return toRecord<AccessTokenRecord>(await ref.get());
+      },
+      update: async (id, patch) => {
+        await accessTokensCol.doc(id).update(patch);
+      },
+      delete: async (id) => {
+        await accessTokensCol.doc(id).delete();
+      },
+      deleteByUser: async (userId) => {
+        const snapshot = await accessTokensCol.where('user_id', '==', userId).get();
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+    },
+    webhooks: {
+      findById: async (id) => {
+        const doc = await webhooksCol.doc(id).get();
+        return doc.exists ? toRecord<WebhookRecord>(doc) : null;
+      },
+      listByUser: async (userId) => {
+        const snapshot = await webhooksCol.where('user_id', '==', userId).get();
+        return snapshot.docs.map(doc => toRecord<WebhookRecord>(doc)).sort(byCreatedDesc);
+      },
+      create: async (data) => {
+        const ref = await webhooksCol.add({ ...data, created_at: now() });
+        return toRecord<WebhookRecord>(await ref.get());
+      },
+      update: async (id, patch) => {
+        await webhooksCol.doc(id).update({ ...patch, updated_at: now() });
+      },
+      delete: async (id) => {
+        await webhooksCol.doc(id).delete();
+      },
+      deleteByUser: async (userId) => {
+        const snapshot = await webhooksCol.where('user_id', '==', userId).get();
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+    },
+    webhookDeliveries: {
+      findById: async (id) => {
+        const doc = await webhookDeliveriesCol.doc(id).get();
+        return doc.exists ? toRecord<WebhookDeliveryRecord>(doc) : null;
+      },
+      // The webhook is filtered while scanning
+      listByWebhook: async (webhookId, query) =>
+        scanNewestFirst<WebhookDeliveryRecord>(webhookDeliveriesCol, delivery => delivery.webhook_id === webhookId, query),
+      // Few deliveries are pending at any time; the due date is checked in memory
+      listDue: async (now, limit) => {
+        const snapshot = await webhookDeliveriesCol.where('status', '==', 'pending').get();
+        return snapshot.docs
+          .map(doc => toRecord<WebhookDeliveryRecord>(doc))
+          .filter(delivery => delivery.next_attempt_at && delivery.next_attempt_at <= now)
+          .sort((a, b) => a.next_attempt_at!.localeCompare(b.next_attempt_at!))
+          .slice(0, limit);
+      },
+      create: async (data) => {
+        const ref = await webhookDeliveriesCol.add({ ...data, created_at: now() });
+        return toRecord<WebhookDeliveryRecord>(await ref.get());
+      },
+      update: async (id, patch) => {
+        await webhookDeliveriesCol.doc(id).update({ ...patch, updated_at: now() });
+      },
+      deleteByWebhook: async (webhookId) => {
+        const snapshot = await webhookDeliveriesCol.where('webhook_id', '==', webhookId).get();
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      },
+      // In chunks: a batch holds at most 500 writes
+      deleteCreatedBefore: async (date) => {
+        const query = webhookDeliveriesCol.where('created_at', '<', admin.firestore.Timestamp.fromDate(new Date(date))).limit(400);
+        while (true) {
+          const snapshot = await query.get();
+          if (snapshot.empty) return;
+          const batch = db.batch();
+          snapshot.docs.forEach(doc => batch.delete(doc.ref));
+          await batch.commit();
+        }
+      }
+    },
+    securityEvents: {
+      create: async (data) => {
+        const ref = await securityEventsCol.add({ ...data, created_at: now() });
+        return toRecord<SecurityEventRecord>(await ref.get());
+      },
+      // The type is filtered while scanning
+      list: async ({ type, ...query }) =>
+        scanNewestFirst<SecurityEventRecord>(securityEventsCol, event => !type || event.type === type, query)
+    },
+    generationEvents: {
+      create: async (data) => {
+        const ref = await generationEventsCol.add({ ...data, created_at: now() });
+        return toRecord<GenerationEventRecord>(await ref.get());
+      },
+      listBetween: async (range) => {
+        const snapshot = await createdBetween(generationEventsCol, range).get();
+        return snapshot.docs.map(doc => toRecord<GenerationEventRecord>(doc));
+      }
+    },
+    audit: {
+      create: async (data) => {
+        const ref = await auditCol.add({ ...data, created_at: now() });
+        return toRecord<AuditEventRecord>(await ref.get());
+      },
+      // Dates bound the query; the other filters are applied while scanning, like security events
+      list: async ({ cursor, limit, ...query }) => {
+        let bounded: admin.firestore.Query = auditCol;
+        if (query.before) bounded = bounded.where('created_at', '<', admin.firestore.Timestamp.fromDate(new Date(query.before)));
+        if (query.from) bounded = bounded.where('created_at', '>=', admin.firestore.Timestamp.fromDate(new Date(query.from)));
+        return scanNewestFirst<AuditEventRecord>(bounded, event => matchesAuditQuery(event, { ...query, from: undefined, before: undefined }), { cursor, limit });
+      }
+    }
+  };
+};
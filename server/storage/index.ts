@@ -0,0 +1,29 @@
+import path from 'path';
+import { Storage, StorageBackend } from './types.ts';
+import { createMemoryStorage } from './memory.ts';
+import { createFileStorage } from './file.ts';
+import { createFirestoreStorage, hasFirebaseCredentials } from './firestore.ts';
+
+export * from './types.ts';
+export { hasFirebaseCredentials };
+export { BLOG_SORT_FIELDS, DEFAULT_SORT_ORDER, encodeCursor, decodeCursor, decodeCreatedCursor } from './pagination.ts';
+
+// STORAGE_BACKEND picks the backend explicitly. When unset, Firestore is used if its credentials
+// are configured, otherwise the app runs in degraded mode on a local JSON file.
+export const resolveStorageBackend = (): StorageBackend => {
+  const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+  if (configured === 'firestore' || configured === 'memory' || configured === 'file') return configured;
+  if (configured) throw new Error(`Unknown STORAGE_BACKEND "${configured}". Use firestore, memory or file.`);
+  return hasFirebaseCredentials() ? 'firestore' : 'file';
+};
+
+export const createStorage = (backend: StorageBackend = resolveStorageBackend()): Storage => {
+  switch (backend) {
+    case 'firestore':
+      return createFirestoreStorage();
+    case 'memory':
+      return createMemoryStorage();
+    case 'file':
+      return createFileStorage(path.resolve(process.env.STORAGE_FILE || 'data/db.json'));
+  }
+};
@@ -0,0 +1,318 @@
+import crypto from 'crypto';
+import { Storage, CreatedCursor, UserRecord, BlogRecord, RevisionRecord, SessionRecord, IdentityRecord, AccessTokenRecord, WebhookRecord, WebhookDeliveryRecord, SecurityEventRecord, GenerationEventRecord, AuditEventRecord } from './types.ts';
+import { paginateBlogs, paginateUsers, paginateNewestFirst, matchesAuditQuery } from './pagination.ts';
+
+export interface MemoryData {
+  users: UserRecord[];
+  blogs: BlogRecord[];
+  revisions: RevisionRecord[];
+  sessions: SessionRecord[];
+  identities: IdentityRecord[];
+  access_tokens: AccessTokenRecord[];
+  webhooks: WebhookRecord[];
+  webhook_deliveries: WebhookDeliveryRecord[];
+  security_events: SecurityEventRecord[];
+  generation_events: GenerationEventRecord[];
+  audit_events: AuditEventRecord[];
+}
+
+export const newId = () => crypto.randomBytes(10).toString('hex');
+
+const byCreatedDesc = (a: { created_at: string }, b: { created_at: string }) => b.created_at.localeCompare(a.created_at);
+
+// Records are copied on the way in and out so callers can never mutate stored state by reference.
+const clone = <T>(record: T): T => structuredClone(record);
+
+const pageOf = <T extends { id: string; created_at: string }>(records: T[], query: { cursor?: CreatedCursor | null; limit: number }) => {
+  const page = paginateNewestFirst(records, query);
+  return { ...page, items: page.items.map(clone) };
+};
+
+// `onChange` runs after every mutation; the file backend uses it to persist the snapshot.
+export const createMemoryStorage = (initial?: Partial<MemoryData>, onChange?: (data: MemoryData) => void): Storage => {
+  const data: MemoryData = {
+    users: initial?.users ? [...initial.users] : [],
+    blogs: initial?.blogs ? [...initial.blogs] : [],
+    revisions: initial?.revisions ? [...initial.revisions] : [],
+    sessions: initial?.sessions ? [...initial.sessions] : [],
+    identities: initial?.identities ? [...initial.identities] : [],
+    access_tokens: initial?.access_tokens ? [...initial.access_tokens] : [],
+    webhooks: initial?.webhooks ? [...initial.webhooks] : [],
+    webhook_deliveries: initial?.webhook_deliveries ? [...initial.webhook_deliveries] : [],
+    security_events: initial?.security_events ? [...initial.security_events] : [],
+    generation_events: initial?.generation_events ? [...initial.generation_events] : [],
+    audit_events: initial?.audit_events ? [...initial.audit_events] : []
+  };
+  const changed = () => onChange?.(data);
+
+  return {
+    backend: 'memory',
+    users: {
+      findById: async (id) => {
+        const user = data.users.find(u => u.id === id);
+        return user ? clone(user) : null;
+      },
+      findOneBy: async (field, value) => {
+        const user = data.users.find(u => (u[field] ?? null) === (value ?? null));
+        return user ? clone(user) : null;
+      },
+      create: async (input) => {
+        const user: UserRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.users.push(user);
+        changed();
+        return clone(user);
+      },
+      update: async (id, patch) => {
+        const user = data.users.find(u => u.id === id);
+        if (!user) throw new Error(`User ${id} not found`);
+        Object.assign(user, clone(patch));
+        changed();
+      },
+      delete: async (id) => {
+        data.users = data.users.filter(u => u.id !== id);
+        changed();
+      },
+      count: async () => data.users.length,
+      page: async (query) => {
+        const page = paginateUsers(data.users, query);
+        return { ...page, items: page.items.map(clone) };
+      }
+    },
+    blogs: {
+      findById: async (id) => {
+        const blog = data.blogs.find(b => b.id === id);
+        return blog ? clone(blog) : null;
+      },
+      listByUser: async (userId, options = {}) => {
+        const blogs = data.blogs
+          .filter(b => b.user_id === userId && (!options.status || (b.status || 'published') === options.status))
+          .filter(b => !options.filter || options.filter(b))
+          .sort(byCreatedDesc);
+        return (options.limit ? blogs.slice(0, options.limit) : blogs).map(clone);
+      },
+      findBySlug: async (userId, slug) => {
+        const blog = data.blogs.find(b => b.user_id === userId && b.slug === slug);
+        return blog ? clone(blog) : null;
+      },
+      listPublished: async (options = {}) => {
+        const blogs = data.blogs
+          .filter(b => (b.status || 'published') === 'published' && (!options.filter || options.filter(b)))
+          .sort(byCreatedDesc);
+        return (options.limit ? blogs.slice(0, options.limit) : blogs).map(clone);
+      },
+      pageByUser: async (userId, query) => {
+        const blogs = data.blogs.filter(b => b.user_id === userId && (!query.status || (b.status || 'published') === query.status));
+        const page = paginateBlogs(blogs, query);
+        return { ...page, items: page.items.map(clone) };
+      },
+      pagePublished: async (query) => {
+        const page = paginateBlogs(data.blogs.filter(b => (b.status || 'published') === 'published'), query);
+        return { ...page, items: page.items.map(clone) };
+      },
+      listByStatus: async (status) => data.blogs.filter(b => (b.status || 'published') === status).map(clone),
+      listCreatedBetween: async ({ from, to }) =>
+        data.blogs.filter(b => b.created_at >= from && b.created_at < to).sort((a, b) => byCreatedDesc(b, a)).map(clone),
+      create: async (input) => {
+        const blog: BlogRecord = { id: newId(), ...clone(input), created_at: input.created_at || new Date().toISOString() };
+        data.blogs.push(blog);
+        changed();
+        return clone(blog);
+      },
+      update: async (id, patch) => {
+        const blog = data.blogs.find(b => b.id === id);
+        if (!blog) throw new Error(`Blog ${id} not found`);
+        Object.assign(blog, clone(patch), { updated_at: new Date().toISOString() });
+        changed();
+      },
+      delete: async (id) => {
+        data.blogs = data.blogs.filter(b => b.id !== id);
+        changed();
+      }
+    },
+    revisions: {
+      findById: async (id) => {
+        const revision = data.revisions.find(r => r.id === id);
+        return revision ? clone(revision) : null;
+      },
+      listByBlog: async (blogId) =>
+        data.revisions.filter(r => r.blog_id === blogId).sort((a, b) => byCreatedDesc(b, a)).map(clone),
+      create: async (input) => {
+        const revision: RevisionRecord = { id: newId(), ...clone(input), created_at: input.created_at || new Date().toISOString() };
+        data.revisions.push(revision);
+        changed();
+        return clone(revision);
+      },
+      deleteByBlog: async (blogId) => {
+        data.revisions = data.revisions.filter(r => r.blog_id !== blogId);
+        changed();
+      }
+    },
+    sessions: {
+      findById: async (id) => {
+        const session = data.sessions.find(s => s.id === id);
+        return session ? clone(session) : null;
+      },
+      listByUser: async (userId) => data.sessions.filter(s => s.user_id === userId).sort(byCreatedDesc).map(clone),
+      create: async (input) => {
+        const session: SessionRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.sessions.push(session);
+        changed();
+        return clone(session);
+      },
+      update: async (id, patch) => {
+        const session = data.sessions.find(s => s.id === id);
+        if (!session) throw new Error(`Session ${id} not found`);
+        Object.assign(session, clone(patch));
+        changed();
+      },
+      deleteByUser: async (userId) => {
+        data.sessions = data.sessions.filter(s => s.user_id !== userId);
+        changed();
+      }
+    },
+    identities: {
+      findBySubject: async (provider, subject) => {
+        const identity = data.identities.find(i => i.provider === provider && i.subject === subject);
+        return identity ? clone(identity) : null;
+      },
+      listByUser: async (userId) => data.identities.filter(i => i.user_id === userId).sort((a, b) => byCreatedDesc(b, a)).map(clone),
+      create: async (input) => {
+        const identity: IdentityRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.identities.push(identity);
+        changed();
+        return clone(identity);
+      },
+      delete: async (id) => {
+        data.identities = data.identities.filter(i => i.id !== id);
+        changed();
+      },
+      deleteByUser: async (userId) => {
+        data.identities = data.identities.filter(i => i.user_id !== userId);
+        changed();
+      }
+    },
+    accessTokens: {
+      findById: async (id) => {
+        const token = data.access_tokens.find(t => t.id === id);
+        return token ? clone(token) : null;
+      },
+      listByUser: async (userId) => data.access_tokens.filter(t => t.user_id === userId).sort(byCreatedDesc).map(clone),
+      create: async (input) => {
+        const token: AccessTokenRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.access_tokens.push(token);
+        changed();
+        return clone(token);
+      },
+      update: async (id, patch) => {
+        const token = data.access_tokens.find(t => t.id === id);
+        if (!token) throw new Error(`Access token ${id} not found`);
+        Object.assign(token, clone(patch));
+        changed();
+      },
+      delete: async (id) => {
+        data.access_tokens = data.access_tokens.filter(t => t.id !== id);
+        changed();
+      },
+      deleteByUser: async (userId) => {
+        data.access_tokens = data.access_tokens.filter(t => t.user_id !== userId);
+        changed();
+      }
+    },
+    webhooks: {
+      findById: async (id) => {
+        const webhook = data.webhooks.find(w => w.id === id);
+        return webhook ? clone(webhook) : null;
+      },
+      listByUser: async (userId) => data.webhooks.filter(w => w.user_id === userId).sort(byCreatedDesc).map(clone),
+      create: async (input) => {
+        const webhook: WebhookRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.webhooks.push(webhook);
+        changed();
+        return clone(webhook);
+      },
+      update: async (id, patch) => {
+        const webhook = data.webhooks.find(w => w.id === id);
+        if (!webhook) throw new Error(`Webhook ${id} not found`);
+        Object.assign(webhook, clone(patch), { updated_at: new Date().toISOString() });
+        changed();
+      },
+      delete: async (id) => {
+        data.webhooks = data.webhooks.filter(w => w.id !== id);
+        changed();
+      },
+      deleteByUser: async (userId) => {
+        data.webhooks = data.webhooks.filter(w => w.user_id !== userId);
+        changed();
+      }
+    },
+    webhookDeliveries: {
+      findById: async (id) => {
+        const delivery = data.webhook_deliveries.find(d => d.id === id);
+        return delivery ? clone(delivery) : null;
+      },
+      listByWebhook: async (webhookId, query) =>
+        pageOf(data.webhook_deliveries.filter(d => d.webhook_id === webhookId), query),
+      listDue: async (now, limit) =>
+        data.webhook_deliveries
+          .filter(d => d.status === 'pending' && d.next_attempt_at && d.next_attempt_at <= now)
+          .sort((a, b) => a.next_attempt_at!.localeCompare(b.next_attempt_at!))
+          .slice(0, limit)
+          .map(clone),
+      create: async (input) => {
+        const delivery: WebhookDeliveryRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.webhook_deliveries.push(delivery);
+        changed();
+        return clone(delivery);
+      },
+      update: async (id, patch) => {
+        const delivery = data.webhook_deliveries.find(d => d.id === id);
+        if (!delivery) throw new Error(`Webhook delivery ${id} not found`);
+        Object.assign(delivery, clone(patch), { updated_at: new Date().toISOString() });
+        changed();
+      },
+      deleteByWebhook: async (webhookId) => {
+        data.webhook_deliveries = data.webhook_deliveries.filter(d => d.webhook_id !== webhookId);
+        changed();
+      },
+      deleteCreatedBefore: async (date) => {
+        const kept = data.webhook_deliveries.filter(d => d.created_at >= date);
+        if (kept.length === data.webhook_deliveries.length) return;
+        data.webhook_deliveries = kept;
+        changed();
+      }
+    },
+    securityEvents: {
+      create: async (input) => {
+        const event: SecurityEventRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.security_events.push(event);
+        changed();
+        return clone(event);
+      },
+      list: async ({ type, ...query }) =>
+        pageOf(data.security_events.filter(e => !type || e.type === type), query)
+    },
+    generationEvents: {
+      create: async (input) => {
+        const event: GenerationEventRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.generation_events.push(event);
+        changed();
+        return clone(event);
+      },
+      listBetween: async ({ from, to }) =>
+        data.generation_events
+          .filter(e => e.created_at >= from && e.created_at < to)
+          .sort((a, b) => byCreatedDesc(b, a))
+          .map(clone)
+    },
+    audit: {
+      create: async (input) => {
+        const event: AuditEventRecord = { id: newId(), ...clone(input), created_at: new Date().toISOString() };
+        data.audit_events.push(event);
+        changed();
+        return clone(event);
+      },
+      list: async (query) =>
+        pageOf(data.audit_events.filter(e => matchesAuditQuery(e, query)), query)
+    }
+  };
+};
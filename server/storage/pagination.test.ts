@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { paginateNewestFirst, encodeCursor, decodeCreatedCursor } from './pagination.ts';
+import { createMemoryStorage } from './memory.ts';
+
+const at = (id: string, created_at: string) => ({ id, created_at });
+
+test('paginateNewestFirst keeps entries of the same instant across page boundaries', () => {
+  const records = [at('a', '2024-01-01T00:00:00.000Z'), at('b', '2024-01-01T00:00:00.000Z'), at('c', '2024-01-01T00:00:00.000Z'), at('d', '2023-12-31T00:00:00.000Z')];
+  const seen: string[] = [];
+  let page = paginateNewestFirst(records, { limit: 2 });
+  seen.push(...page.items.map(record => record.id));
+  while (page.next) {
+    page = paginateNewestFirst(records, { limit: 2, cursor: decodeCreatedCursor(encodeCursor(page.next)) });
+    seen.push(...page.items.map(record => record.id));
+  }
+  assert.deepEqual(seen, ['c', 'b', 'a', 'd']);
+});
+
+test('decodeCreatedCursor refuses anything but an encoded cursor', () => {
+  assert.equal(decodeCreatedCursor('not a cursor'), null);
+  assert.equal(decodeCreatedCursor(Buffer.from(JSON.stringify({ created_at: 1, id: 'a' })).toString('base64url')), null);
+});
+
+test('the memory audit log pages through entries written in the same millisecond', async () => {
+  const storage = createMemoryStorage();
+  for (let i = 0; i < 5; i++) {
+    await storage.audit.create({
+      action: 'auth.login', actor_id: 'u1', actor_username: 'alice', actor_role: 'user', target_type: 'user', target_id: 'u1',
+      target_label: 'alice', admin_override: false, ip: null, user_agent: null, before: null, after: null
+    });
+  }
+  const ids = new Set<string>();
+  let page = await storage.audit.list({ limit: 2 });
+  page.items.forEach(event => ids.add(event.id));
+  while (page.next) {
+    page = await storage.audit.list({ limit: 2, cursor: page.next });
+    page.items.forEach(event => ids.add(event.id));
+  }
+  assert.equal(ids.size, 5);
+});
@@ -0,0 +1,117 @@
+import { BlogRecord, BlogCursor, BlogPage, BlogPageQuery, BlogSortField, SortOrder, UserRecord, UserPage, UserPageQuery, CreatedCursor, CreatedPage, AuditEventRecord, AuditQuery } from './types.ts';
+
+export const BLOG_SORT_FIELDS: BlogSortField[] = ['created', 'updated', 'title'];
+
+// Dates read best newest first, titles alphabetically
+export const DEFAULT_SORT_ORDER: Record<BlogSortField, SortOrder> = { created: 'desc', updated: 'desc', title: 'asc' };
+
+const titleCollator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+const sortValue = (blog: BlogRecord, sort: BlogSortField) => {
+  switch (sort) {
+    case 'created':
+      return blog.created_at || '';
+    case 'updated':
+      return blog.updated_at || blog.created_at || '';
+    case 'title':
+      return blog.title || '';
+  }
+};
+
+const compareValues = (sort: BlogSortField, a: string, b: string) =>
+  sort === 'title' ? titleCollator.compare(a, b) : a.localeCompare(b);
+
+// Ties on the sort value are broken by id so every blog has exactly one position.
+const compareKeys = (sort: BlogSortField, order: SortOrder, a: { value: string; id: string }, b: { value: string; id: string }) => {
+  const result = compareValues(sort, a.value, b.value) || a.id.localeCompare(b.id);
+  return order === 'asc' ? result : -result;
+};
+
+// Shared by every backend: sorts the matching blogs, counts them and cuts the page after the cursor.
+export const paginateBlogs = (blogs: BlogRecord[], query: BlogPageQuery): BlogPage => {
+  const { sort, order, limit, cursor } = query;
+  const keyed = blogs
+    .filter(blog => !query.filter || query.filter(blog))
+    .map(blog => ({ blog, value: sortValue(blog, sort), id: blog.id }))
+    .sort((a, b) => compareKeys(sort, order, a, b));
+
+  const start = cursor ? keyed.findIndex(entry => compareKeys(sort, order, entry, cursor) > 0) : 0;
+  const page = start === -1 ? [] : keyed.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + limit < keyed.length;
+
+  return {
+    items: page.map(entry => entry.blog),
+    total: keyed.length,
+    next: hasMore && last ? { sort, order, value: last.value, id: last.id } : null
+  };
+};
+
+// Newest first, with the same (value, id) ordering as blogs.
+const compareNewestFirst = (a: CreatedCursor, b: CreatedCursor) => -((a.created_at || '').localeCompare(b.created_at || '') || a.id.localeCompare(b.id));
+
+export const paginateUsers = (users: UserRecord[], query: UserPageQuery): UserPage => {
+  const { limit, cursor } = query;
+  const sorted = users.filter(user => !query.filter || query.filter(user)).sort(compareNewestFirst);
+  const start = cursor ? sorted.findIndex(user => compareNewestFirst(user, cursor) > 0) : 0;
+  const page = start === -1 ? [] : sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + limit < sorted.length;
+
+  return {
+    items: page,
+    total: sorted.length,
+    next: hasMore && last ? { created_at: last.created_at || '', id: last.id } : null
+  };
+};
+
+// Logs kept in memory (deliveries, security and audit events), cut after the cursor.
+export const paginateNewestFirst = <T extends CreatedCursor>(records: T[], { cursor, limit }: { cursor?: CreatedCursor | null; limit: number }): CreatedPage<T> => {
+  const sorted = [...records].sort(compareNewestFirst);
+  const start = cursor ? sorted.findIndex(record => compareNewestFirst(record, cursor) > 0) : 0;
+  const page = start === -1 ? [] : sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + limit < sorted.length;
+  return { items: page, next: hasMore && last ? { created_at: last.created_at, id: last.id } : null };
+};
+
+// Shared by every backend; Firestore applies the date bounds in the query and the rest while scanning.
+export const matchesAuditQuery = (event: AuditEventRecord, query: Omit<AuditQuery, 'limit'>) =>
+  (!query.action || event.action === query.action) &&
+  (!query.actor || event.actor_username === query.actor) &&
+  (!query.target_type || event.target_type === query.target_type) &&
+  (!query.target_id || event.target_id === query.target_id) &&
+  (!query.from || event.created_at >= query.from) &&
+  (!query.before || event.created_at < query.before);
+
+// Cursors are opaque to clients: base64url-encoded JSON.
+export const encodeCursor = (cursor: BlogCursor | CreatedCursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+export const decodeCursor = (encoded: string): BlogCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (
+      BLOG_SORT_FIELDS.includes(cursor?.sort) &&
+      (cursor.order === 'asc' || cursor.order === 'desc') &&
+      typeof cursor.value === 'string' &&
+      typeof cursor.id === 'string'
+    ) {
+      return { sort: cursor.sort, order: cursor.order, value: cursor.value, id: cursor.id };
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+};
+
+export const decodeCreatedCursor = (encoded: string): CreatedCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (typeof cursor?.created_at === 'string' && typeof cursor.id === 'string') {
+      return { created_at: cursor.created_at, id: cursor.id };
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+};
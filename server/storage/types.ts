@@ -0,0 +1,463 @@
+import type { Role, BlogStatus, BlogLength, AccessTokenScope, WebhookEvent } from '../../shared/api.ts';
+
+// The value lists behind these are part of the API contract
+export type { Role, BlogStatus, BlogLength, AccessTokenScope, WebhookEvent };
+
+// --- Records ---
+// Dates are ISO-8601 strings regardless of backend so they survive JSON serialization unchanged.
+export interface UserRecord {
+  id: string;
+  username: string;
+  password?: string | null;
+  email?: string | null;
+  // Google account linked before sign-in identities existed; moved to an IdentityRecord on first use
+  google_id?: string | null;
+  avatar?: string | null;
+  role: Role;
+  // SHA-256 of the pending password reset token, if any
+  password_reset_hash?: string | null;
+  password_reset_expires_at?: string | null;
+  // Set on the seeded admin until it chooses its own password; admin routes stay closed meanwhile
+  must_change_password?: boolean;
+  // Set while an admin has suspended the account; suspended users can't sign in or use their tokens
+  suspended_at?: string | null;
+  created_at: string;
+}
+
+export interface BlogRecord {
+  id: string;
+  user_id: string | null;
+  title: string;
+  excerpt: string;
+  content: string;
+  tone: string;
+  language: string;
+  // Unique per author; stable once published so public URLs don't break.
+  slug?: string;
+  tags?: string[];
+  // Hierarchical path of names separated by "/", e.g. "Ẩm thực/Món Việt"
+  category?: string | null;
+  // Length preset of AI-generated blogs; unset for blogs written or imported by hand
+  length?: BlogLength | null;
+  // Blogs saved before the lifecycle existed have no status and count as published.
+  status?: BlogStatus;
+  publish_at?: string | null;
+  published_at?: string | null;
+  // Set on first publication and kept when the blog is unpublished; the slug is fixed from then on
+  first_published_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Snapshot of a blog's editable fields, written on create and on every update or restore.
+export interface RevisionRecord {
+  id: string;
+  blog_id: string;
+  title: string;
+  excerpt: string;
+  content: string;
+  author_id: string | null;
+  author_username: string | null;
+  reason: 'create' | 'update' | 'restore';
+  restored_from?: string | null;
+  created_at: string;
+}
+
+// A signed-in device. Only hashes of refresh tokens are stored; the previous hash is kept briefly so
+// two tabs refreshing at the same moment aren't mistaken for a stolen token being replayed.
+export interface SessionRecord {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  previous_token_hash: string | null;
+  rotated_at: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+export type IdentityProvider = 'google' | 'github' | 'microsoft' | 'oidc';
+
+// An account at an external provider that signs in as this user. `subject` is the provider's stable
+// id for it. A provider account belongs to at most one user, and a user links at most one per provider.
+export interface IdentityRecord {
+  id: string;
+  user_id: string;
+  provider: IdentityProvider;
+  subject: string;
+  // As reported by the provider when linked, so users can tell their linked accounts apart
+  email: string | null;
+  name: string | null;
+  created_at: string;
+}
+
+// Personal access token for scripts and other services. Only the hash of its secret is stored.
+export interface AccessTokenRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  scopes: AccessTokenScope[];
+  token_hash: string;
+  // Last characters of the token, so users can tell their tokens apart
+  hint: string;
+  expires_at: string;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+// Outgoing webhook of a user, for changes to their own blogs. `secret` signs every payload, so it
+// is kept in clear text, unlike token secrets.
+export interface WebhookRecord {
+  id: string;
+  user_id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  secret: string;
+  active: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One event sent to one webhook, with the outcome of its latest attempt. `payload` is the exact
+// body that was signed. A manual redelivery is a new delivery pointing at the original.
+export interface WebhookDeliveryRecord {
+  id: string;
+  webhook_id: string;
+  user_id: string;
+  event: WebhookEvent | 'ping';
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // When a pending delivery is tried next
+  next_attempt_at: string | null;
+  response_status: number | null;
+  // Truncated; enough to see why a receiver refused the delivery
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  redelivery_of: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type SecurityEventType = 'account_locked' | 'ip_locked';
+
+// Recorded when brute-force protection kicks in. `username` is whatever was submitted, so it may not
+// belong to an existing account (`user_id` is then null).
+export interface SecurityEventRecord {
+  id: string;
+  type: SecurityEventType;
+  ip: string | null;
+  username: string | null;
+  user_id: string | null;
+  user_agent: string | null;
+  // Lockout length in seconds and failed attempts that triggered it
+  locked_seconds: number;
+  failures: number;
+  created_at: string;
+}
+
+export type GenerationOutcome = 'success' | 'failure' | 'cancelled';
+
+// One request to /api/generate or /api/generate/stream, kept for admin analytics. `duration_ms` runs
+// from the start of generation until the blog is saved or the request fails.
+export interface GenerationEventRecord {
+  id: string;
+  user_id: string | null;
+  provider: string;
+  tone: string;
+  language: string;
+  length: BlogLength;
+  streamed: boolean;
+  outcome: GenerationOutcome;
+  // GenerationError code, or AI_GENERATION_FAILED / DATABASE_SAVE_FAILED
+  error_code: string | null;
+  duration_ms: number;
+  blog_id: string | null;
+  created_at: string;
+}
+
+export type AuditAction =
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'blog.create'
+  | 'blog.update'
+  | 'blog.status'
+  | 'blog.restore'
+  | 'blog.delete'
+  | 'user.role_change'
+  | 'user.suspend'
+  | 'user.unsuspend'
+  | 'user.delete'
+  | 'account.delete'
+  | 'account.link'
+  | 'account.unlink'
+  | 'token.create'
+  | 'token.revoke'
+  | 'webhook.create'
+  | 'webhook.update'
+  | 'webhook.delete';
+
+export type AuditTargetType = 'blog' | 'user';
+
+// Who did what to which blog or account. `actor_username` is kept even when the account is later
+// deleted, and for failed sign-ins it is whatever was submitted. `before`/`after` hold only the
+// summarized fields that changed.
+export interface AuditEventRecord {
+  id: string;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_username: string | null;
+  actor_role: Role | null;
+  target_type: AuditTargetType | null;
+  target_id: string | null;
+  // Blog title or username at the time of the action
+  target_label: string | null;
+  // An admin acted on a blog or account that isn't their own
+  admin_override: boolean;
+  ip: string | null;
+  user_agent: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export type NewUser = Omit<UserRecord, 'id' | 'created_at'>;
+// `created_at` may be supplied to keep the original date of imported posts.
+export type NewBlog = Omit<BlogRecord, 'id' | 'created_at' | 'updated_at'> & { created_at?: string };
+// `created_at` may be supplied to backfill a baseline revision for blogs that predate history.
+export type NewSession = Omit<SessionRecord, 'id' | 'created_at'>;
+export type NewIdentity = Omit<IdentityRecord, 'id' | 'created_at'>;
+export type NewAccessToken = Omit<AccessTokenRecord, 'id' | 'created_at'>;
+export type NewWebhook = Omit<WebhookRecord, 'id' | 'created_at' | 'updated_at'>;
+export type NewWebhookDelivery = Omit<WebhookDeliveryRecord, 'id' | 'created_at' | 'updated_at'>;
+export type NewRevision = Omit<RevisionRecord, 'id' | 'created_at'> & { created_at?: string };
+export type NewSecurityEvent = Omit<SecurityEventRecord, 'id' | 'created_at'>;
+export type NewGenerationEvent = Omit<GenerationEventRecord, 'id' | 'created_at'>;
+export type NewAuditEvent = Omit<AuditEventRecord, 'id' | 'created_at'>;
+
+// --- Repositories ---
+// Position in a list ordered newest first, with ties on `created_at` broken by id. The date has the
+// issuing backend's precision (Firestore keeps nanoseconds), so a cursor only continues lists of
+// the backend that issued it.
+export interface CreatedCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface CreatedPage<T> {
+  items: T[];
+  next: CreatedCursor | null;
+}
+
+// Users are listed newest first
+export type UserCursor = CreatedCursor;
+
+export interface UserPageQuery {
+  limit: number;
+  cursor?: UserCursor | null;
+  // Search and status conditions, applied in memory by every backend
+  filter?: (user: UserRecord) => boolean;
+}
+
+export interface UserPage {
+  items: UserRecord[];
+  // Number of users matching the query across all pages
+  total: number;
+  next: UserCursor | null;
+}
+
+export interface UserRepository {
+  findById: (id: string) => Promise<UserRecord | null>;
+  findOneBy: <K extends keyof UserRecord>(field: K, value: UserRecord[K]) => Promise<UserRecord | null>;
+  create: (data: NewUser) => Promise<UserRecord>;
+  update: (id: string, patch: Partial<NewUser>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  count: () => Promise<number>;
+  page: (query: UserPageQuery) => Promise<UserPage>;
+}
+
+export interface BlogListOptions {
+  limit?: number;
+  // Applied before `limit`, for conditions the backend can't query natively (tags, categories...)
+  filter?: (blog: BlogRecord) => boolean;
+}
+
+export type BlogSortField = 'created' | 'updated' | 'title';
+export type SortOrder = 'asc' | 'desc';
+
+// Position after the last item of a page. Pages are ordered by (sort value, id), so the cursor stays
+// valid when blogs are added or removed between requests.
+export interface BlogCursor {
+  sort: BlogSortField;
+  order: SortOrder;
+  value: string;
+  id: string;
+}
+
+export interface BlogPageQuery {
+  sort: BlogSortField;
+  order: SortOrder;
+  limit: number;
+  cursor?: BlogCursor | null;
+  filter?: (blog: BlogRecord) => boolean;
+}
+
+export interface BlogPage {
+  items: BlogRecord[];
+  // Number of blogs matching the query across all pages
+  total: number;
+  next: BlogCursor | null;
+}
+
+// ISO dates; `from` is inclusive, `to` exclusive.
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface BlogRepository {
+  findById: (id: string) => Promise<BlogRecord | null>;
+  // Newest first. `userId: null` lists anonymous posts.
+  listByUser: (userId: string | null, options?: BlogListOptions & { status?: BlogStatus }) => Promise<BlogRecord[]>;
+  findBySlug: (userId: string | null, slug: string) => Promise<BlogRecord | null>;
+  // Published blogs from every author, newest first
+  listPublished: (options?: BlogListOptions) => Promise<BlogRecord[]>;
+  pageByUser: (userId: string | null, query: BlogPageQuery & { status?: BlogStatus }) => Promise<BlogPage>;
+  pagePublished: (query: BlogPageQuery) => Promise<BlogPage>;
+  // Only matches an explicitly stored status; used by the publish scheduler.
+  listByStatus: (status: BlogStatus) => Promise<BlogRecord[]>;
+  // Blogs of every author and status created within the range, oldest first
+  listCreatedBetween: (range: DateRange) => Promise<BlogRecord[]>;
+  create: (data: NewBlog) => Promise<BlogRecord>;
+  update: (id: string, patch: Partial<NewBlog>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+export interface RevisionRepository {
+  findById: (id: string) => Promise<RevisionRecord | null>;
+  // Oldest first
+  listByBlog: (blogId: string) => Promise<RevisionRecord[]>;
+  create: (data: NewRevision) => Promise<RevisionRecord>;
+  deleteByBlog: (blogId: string) => Promise<void>;
+}
+
+export interface SessionRepository {
+  findById: (id: string) => Promise<SessionRecord | null>;
+  // Newest first, including revoked and expired sessions
+  listByUser: (userId: string) => Promise<SessionRecord[]>;
+  create: (data: NewSession) => Promise<SessionRecord>;
+  update: (id: string, patch: Partial<NewSession>) => Promise<void>;
+  deleteByUser: (userId: string) => Promise<void>;
+}
+
+export interface IdentityRepository {
+  findBySubject: (provider: IdentityProvider, subject: string) => Promise<IdentityRecord | null>;
+  // Oldest first
+  listByUser: (userId: string) => Promise<IdentityRecord[]>;
+  create: (data: NewIdentity) => Promise<IdentityRecord>;
+  delete: (id: string) => Promise<void>;
+  deleteByUser: (userId: string) => Promise<void>;
+}
+
+export interface AccessTokenRepository {
+  findById: (id: string) => Promise<AccessTokenRecord | null>;
+  // Newest first, including expired tokens
+  listByUser: (userId: string) => Promise<AccessTokenRecord[]>;
+  create: (data: NewAccessToken) => Promise<AccessTokenRecord>;
+  update: (id: string, patch: Partial<NewAccessToken>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  deleteByUser: (userId: string) => Promise<void>;
+}
+
+export interface WebhookRepository {
+  findById: (id: string) => Promise<WebhookRecord | null>;
+  // Newest first
+  listByUser: (userId: string) => Promise<WebhookRecord[]>;
+  create: (data: NewWebhook) => Promise<WebhookRecord>;
+  update: (id: string, patch: Partial<NewWebhook>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  deleteByUser: (userId: string) => Promise<void>;
+}
+
+export interface WebhookDeliveryQuery {
+  // Continues after this delivery, for paging back through the log
+  cursor?: CreatedCursor | null;
+  limit: number;
+}
+
+export interface WebhookDeliveryRepository {
+  findById: (id: string) => Promise<WebhookDeliveryRecord | null>;
+  // Newest first
+  listByWebhook: (webhookId: string, query: WebhookDeliveryQuery) => Promise<CreatedPage<WebhookDeliveryRecord>>;
+  // Pending deliveries whose next attempt is at or before `now`, oldest first
+  listDue: (now: string, limit: number) => Promise<WebhookDeliveryRecord[]>;
+  create: (data: NewWebhookDelivery) => Promise<WebhookDeliveryRecord>;
+  update: (id: string, patch: Partial<NewWebhookDelivery>) => Promise<void>;
+  deleteByWebhook: (webhookId: string) => Promise<void>;
+  // Retention: drops deliveries created before the ISO date
+  deleteCreatedBefore: (date: string) => Promise<void>;
+}
+
+export interface SecurityEventQuery {
+  type?: SecurityEventType;
+  // Continues after this event, for paging back through history
+  cursor?: CreatedCursor | null;
+  limit: number;
+}
+
+export interface SecurityEventRepository {
+  create: (data: NewSecurityEvent) => Promise<SecurityEventRecord>;
+  // Newest first
+  list: (query: SecurityEventQuery) => Promise<CreatedPage<SecurityEventRecord>>;
+}
+
+export interface GenerationEventRepository {
+  create: (data: NewGenerationEvent) => Promise<GenerationEventRecord>;
+  // Oldest first
+  listBetween: (range: DateRange) => Promise<GenerationEventRecord[]>;
+}
+
+export interface AuditQuery {
+  action?: AuditAction;
+  // Matches `actor_username` exactly
+  actor?: string;
+  target_type?: AuditTargetType;
+  target_id?: string;
+  // ISO dates: `from` is inclusive, `before` exclusive
+  from?: string;
+  before?: string;
+  // Continues after this entry, for paging back through history
+  cursor?: CreatedCursor | null;
+  limit: number;
+}
+
+// Append-only: entries are never updated or deleted.
+export interface AuditRepository {
+  create: (data: NewAuditEvent) => Promise<AuditEventRecord>;
+  // Newest first
+  list: (query: AuditQuery) => Promise<CreatedPage<AuditEventRecord>>;
+}
+
+export type StorageBackend = 'firestore' | 'memory' | 'file';
+
+export interface Storage {
+  backend: StorageBackend;
+  users: UserRepository;
+  blogs: BlogRepository;
+  revisions: RevisionRepository;
+  sessions: SessionRepository;
+  identities: IdentityRepository;
+  accessTokens: AccessTokenRepository;
+  webhooks: WebhookRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+  securityEvents: SecurityEventRepository;
+  generationEvents: GenerationEventRepository;
+  audit: AuditRepository;
+}
@@ -0,0 +1,124 @@
+import { BlogRecord } from './storage/index.ts';
+import { MAX_TAGS, MAX_TAG_LENGTH } from '../shared/api.ts';
+
+const MAX_CATEGORY_DEPTH = 4;
+
+// Categories are stored as a path of names ("Ẩm thực/Món Việt"); each level is a parent of the next.
+export const CATEGORY_SEPARATOR = '/';
+
+// Unlike URL slugs, tag and category keys keep non-Latin letters so Japanese tags stay distinct.
+const taxonomySlug = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Trims, collapses whitespace and drops case-insensitive duplicates, keeping the first spelling.
+export const normalizeTags = (input: unknown): string[] => {
+  const raw = Array.isArray(input) ? input : typeof input === 'string' ? input.split(',') : [];
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const value of raw) {
+    if (typeof value !== 'string') continue;
+    const tag = value.replace(/^#/, '').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+    const key = taxonomySlug(tag);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    tags.push(tag);
+    if (tags.length >= MAX_TAGS) break;
+  }
+  return tags;
+};
+
+export const normalizeCategory = (input: unknown): string | null => {
+  if (typeof input !== 'string') return null;
+  const parts = input
+    .split(CATEGORY_SEPARATOR)
+    .map(part => part.replace(/\s+/g, ' ').trim())
+    .filter(part => taxonomySlug(part))
+    .slice(0, MAX_CATEGORY_DEPTH);
+  return parts.length ? parts.join(CATEGORY_SEPARATOR) : null;
+};
+
+export const tagSlug = (tag: string) => taxonomySlug(tag);
+
+export const categorySlug = (category: string) =>
+  category.split(CATEGORY_SEPARATOR).map(part => taxonomySlug(part)).join('/');
+
+export const matchesTag = (blog: BlogRecord, slug: string) =>
+  (blog.tags || []).some(tag => tagSlug(tag) === slug);
+
+// A category filter also matches every descendant category.
+export const matchesCategory = (blog: BlogRecord, slugPath: string) => {
+  if (!blog.category) return false;
+  const blogPath = categorySlug(blog.category);
+  return blogPath === slugPath || blogPath.startsWith(`${slugPath}/`);
+};
+
+export interface TagCount {
+  name: string;
+  slug: string;
+  count: number;
+}
+
+export interface CategoryNode {
+  name: string;
+  // Full slug path, usable as the `category` filter
+  slug: string;
+  // Blogs in this category and all of its descendants
+  count: number;
+  children: CategoryNode[];
+}
+
+export const countTags = (blogs: BlogRecord[]): TagCount[] => {
+  const counts = new Map<string, TagCount>();
+  for (const blog of blogs) {
+    for (const tag of blog.tags || []) {
+      const slug = tagSlug(tag);
+      const entry = counts.get(slug) || { name: tag, slug, count: 0 };
+      entry.count++;
+      counts.set(slug, entry);
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+export const buildCategoryTree = (blogs: BlogRecord[]): CategoryNode[] => {
+  const roots: CategoryNode[] = [];
+  for (const blog of blogs) {
+    if (!blog.category) continue;
+    let level = roots;
+    const slugs: string[] = [];
+    for (const name of blog.category.split(CATEGORY_SEPARATOR)) {
+      slugs.push(taxonomySlug(name));
+      const slug = slugs.join('/');
+      let node = level.find(n => n.slug === slug);
+      if (!node) {
+        node = { name, slug, count: 0, children: [] };
+        level.push(node);
+      }
+      node.count++;
+      level = node.children;
+    }
+  }
+  const sort = (nodes: CategoryNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name));
+    nodes.forEach(node => sort(node.children));
+    return nodes;
+  };
+  return sort(roots);
+};
+
+// Resolves a slug path back to display names, e.g. for a category landing page title.
+export const findCategoryNode = (tree: CategoryNode[], slugPath: string): CategoryNode | null => {
+  for (const node of tree) {
+    if (node.slug === slugPath) return node;
+    if (slugPath.startsWith(`${node.slug}/`)) return findCategoryNode(node.children, slugPath);
+  }
+  return null;
+};
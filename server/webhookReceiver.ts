@@ -0,0 +1,49 @@
+import http from 'http';
+import { parseArgs } from 'util';
+import { verifySignature, SIGNATURE_HEADER } from './webhooks.ts';
+
+// Local webhook receiver for testing without a public endpoint:
+//
+//   npm run webhooks:receive -- --secret whsec_... [--port 4400] [--status 500]
+//
+// Point a webhook at http://localhost:4400/ (start the server with WEBHOOK_ALLOW_PRIVATE_URLS=true to
+// allow private URLs). Every delivery is printed with the result of the signature check; a bad
+// signature is answered with 401.
+// `--status` answers valid deliveries with a fixed code, e.g. 500 to watch the retries.
+const { values } = parseArgs({
+  options: {
+    secret: { type: 'string' },
+    port: { type: 'string', default: '4400' },
+    status: { type: 'string', default: '200' }
+  }
+});
+
+const secret = values.secret || process.env.WEBHOOK_SECRET || '';
+const port = Number(values.port);
+const status = Number(values.status);
+if (!secret) console.warn('No --secret or WEBHOOK_SECRET given: signatures are not checked');
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const check = secret ? verifySignature(secret, body, req.headers[SIGNATURE_HEADER] as string | undefined) : null;
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    console.log(`  event:     ${req.headers['x-webhook-event'] || '-'}`);
+    console.log(`  delivery:  ${req.headers['x-webhook-delivery'] || '-'}`);
+    console.log(`  signature: ${!check ? 'not checked' : check.valid ? 'valid' : `INVALID (${check.error})`}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    const code = check && !check.valid ? 401 : status;
+    res.writeHead(code, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(check && !check.valid ? { error: check.error } : { received: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import { Storage, BlogRecord, WebhookEvent, WebhookRecord, WebhookDeliveryRecord, NewWebhookDelivery } from './storage/index.ts';
+import { isPublished } from './lifecycle.ts';
+import { WEBHOOK_EVENTS, WebhookInput } from '../shared/api.ts';
+
+export const MAX_WEBHOOKS_PER_USER = 10;
+
+// Failed deliveries are retried with exponential backoff: 30s, 1m, 2m... the last of 8 attempts
+// comes about an hour after the first.
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_LIMIT = 2_000;
+const DELIVERY_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const retryDelayMs = (attempts: number) => RETRY_BASE_MS * 2 ** (attempts - 1);
+
+// --- Events ---
+// `blog.updated` fires for every change to an existing blog; `blog.published` additionally whenever
+// a blog becomes published, including at creation and by the publish scheduler.
+export const blogEvents = (before: BlogRecord | null, after: BlogRecord | null): WebhookEvent[] => {
+  if (!after) return before ? ['blog.deleted'] : [];
+  const published = isPublished(after) && !(before && isPublished(before));
+  return [before ? 'blog.updated' : 'blog.created', ...(published ? ['blog.published' as const] : [])];
+};
+
+// --- Signatures ---
+// `X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`. Signing the
+// timestamp lets receivers refuse replays of old deliveries.
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const generateWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export const signPayload = (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+
+export const verifySignature = (
+  secret: string,
+  body: string,
+  header: string | undefined,
+  now = Date.now()
+): { valid: true; error?: undefined } | { valid: false; error: string } => {
+  if (!header) return { valid: false, error: 'Missing signature header' };
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value || '');
+  if (!Number.isInteger(timestamp) || !signatures.length) return { valid: false, error: 'Malformed signature header' };
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return { valid: false, error: 'Signature timestamp is too old' };
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  const matches = signatures.some(signature => {
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  });
+  return matches ? { valid: true } : { valid: false, error: 'Signature does not match' };
+};
+
+// --- Validation ---
+// Only with WEBHOOK_ALLOW_PRIVATE_URLS=true may webhooks point at loopback and private addresses (a
+// local receiver, a service on the same network). Otherwise they are refused so webhooks can't be
+// used to probe the internal network; delivery checks the address it actually connects to as well.
+const allowPrivateUrls = () => process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+// Addresses webhooks may not reach: this host, private networks, link-local, carrier-grade NAT,
+// multicast, broadcast and reserved ranges, plus IPv6 prefixes that embed an IPv4 address (NAT64).
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1, written ::ffff:7f00:1 by
+// URL) against the IPv4 ranges.
+const PRIVATE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 96, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['fec0::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const privateAddresses = new net.BlockList();
+for (const [network, prefix, family] of PRIVATE_RANGES) privateAddresses.addSubnet(network, prefix, family);
+
+// Anything that isn't a plain IP address counts as private.
+export const isPrivateAddress = (address: string) => {
+  const family = net.isIP(address);
+  if (!family) return true;
+  try {
+    return privateAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  } catch {
+    return true;
+  }
+};
+
+const unbracket = (hostname: string) => hostname.replace(/^\[|\]$/g, '');
+
+export const isPrivateHostname = (hostname: string) => {
+  const host = unbracket(hostname);
+  return host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) !== 0 && isPrivateAddress(host));
+};
+
+// Rules beyond WebhookRequest and WebhookUpdateRequest. Returns the input with its URL normalized.
+export const checkWebhookInput = (input: WebhookInput): { input: WebhookInput; error?: undefined } | { input?: undefined; error: string } => {
+  if (input.url === undefined) return { input };
+  const url = new URL(input.url);
+  if (url.username || url.password) return { error: 'url must not contain credentials' };
+  if (!allowPrivateUrls() && isPrivateHostname(url.hostname)) return { error: 'url must not point at a private or loopback address' };
+  return { input: { ...input, url: url.toString() } };
+};
+
+// The secret is only returned when it is created or rotated.
+export const toWebhookSummary = ({ secret, user_id, ...summary }: WebhookRecord) => ({ ...summary, secret_hint: secret.slice(-4) });
+
+// The delivery log leaves out bodies; a single delivery is fetched with them.
+export const toDeliverySummary = ({ payload, response_body, user_id, ...summary }: WebhookDeliveryRecord) => summary;
+
+// --- Delivery ---
+const USER_AGENT = 'ZA-Blog-AI-Webhooks/1.0';
+
+const privateAddressError = (message: string) => Object.assign(new Error(message), { code: 'EPRIVATEADDRESS' });
+
+// Resolves like dns.lookup but fails when any address is private. Used as the agents' lookup, the
+// connection goes to the address that was checked, so a second DNS answer can't swap it
+// (DNS rebinding).
+const publicOnlyLookup = (hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(privateAddressError(`${hostname} resolves to a private address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// IP literals are connected to without a lookup, so the agent checks them itself right before
+// opening the connection.
+const publicOnly = <T extends http.Agent>(agent: T): T => {
+  const createConnection = agent.createConnection.bind(agent);
+  agent.createConnection = (options, callback) => {
+    const host = unbracket(options.host || '');
+    if (net.isIP(host) && isPrivateAddress(host)) {
+      callback?.(privateAddressError(`${host} is a private address`), undefined);
+      return undefined;
+    }
+    return createConnection(options, callback);
+  };
+  return agent;
+};
+
+const publicOnlyAgents = {
+  httpAgent: publicOnly(new http.Agent({ lookup: publicOnlyLookup as net.LookupFunction })),
+  httpsAgent: publicOnly(new https.Agent({ lookup: publicOnlyLookup as net.LookupFunction }))
+};
+
+interface AttemptResult {
+  ok: boolean;
+  // False when retrying can't help
+  retry: boolean;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+}
+
+const send = async (webhook: WebhookRecord, delivery: WebhookDeliveryRecord): Promise<AttemptResult> => {
+  const failure = (error: string, retry = true): AttemptResult => ({ ok: false, retry, response_status: null, response_body: null, error });
+  try {
+    const res = await axios.post(webhook.url, delivery.payload, {
+      ...(allowPrivateUrls() ? {} : publicOnlyAgents),
+      // A proxy would resolve the name itself
+      proxy: false,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': signPayload(webhook.secret, delivery.payload)
+      },
+      // The body must go out byte for byte as signed
+      transformRequest: [(data: string) => data],
+      transformResponse: [(data: string) => data],
+      responseType: 'text',
+      timeout: DELIVERY_TIMEOUT_MS,
+      maxRedirects: 0,
+      maxContentLength: 1024 * 1024,
+      validateStatus: () => true
+    });
+    const ok = res.status >= 200 && res.status < 300;
+    return {
+      ok,
+      retry: !ok,
+      response_status: res.status,
+      response_body: typeof res.data === 'string' ? res.data.slice(0, RESPONSE_BODY_LIMIT) : null,
+      error: ok ? null : `Receiver answered HTTP ${res.status}`
+    };
+  } catch (error: any) {
+    if (error.code === 'EPRIVATEADDRESS') return failure('URL points at a private or loopback address', false);
+    return failure(error.code ? `${error.code}: ${error.message}` : error.message || 'Delivery failed');
+  }
+};
+
+export const createWebhookDispatcher = (storage: Storage) => {
+  // Deliveries being sent right now, so the retry worker doesn't send them a second time
+  const inFlight = new Set<string>();
+
+  // Sends a pending delivery once and records the outcome. Re-reads the delivery first: the copy
+  // the caller holds may already have been delivered.
+  const attempt = async (id: string): Promise<WebhookDeliveryRecord | null> => {
+    if (inFlight.has(id)) return storage.webhookDeliveries.findById(id);
+    inFlight.add(id);
+    try {
+      const delivery = await storage.webhookDeliveries.findById(id);
+      if (!delivery || delivery.status !== 'pending' || (delivery.next_attempt_at && delivery.next_attempt_at > new Date().toISOString())) {
+        return delivery;
+      }
+      const webhook = await storage.webhooks.findById(delivery.webhook_id);
+      const started = Date.now();
+      const result: AttemptResult = !webhook
+        ? { ok: false, retry: false, response_status: null, response_body: null, error: 'Webhook was deleted' }
+        : !webhook.active
+          ? { ok: false, retry: false, response_status: null, response_body: null, error: 'Webhook is disabled' }
+          : await send(webhook, delivery);
+      const attempts = delivery.attempts + 1;
+      const finished = result.ok || !result.retry || attempts >= MAX_DELIVERY_ATTEMPTS;
+      const patch: Partial<NewWebhookDelivery> = {
+        status: result.ok ? 'succeeded' : finished ? 'failed' : 'pending',
+        attempts,
+        next_attempt_at: finished ? null : new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+        response_status: result.response_status,
+        response_body: result.response_body,
+        error: result.error,
+        duration_ms: Date.now() - started
+      };
+      await storage.webhookDeliveries.update(delivery.id, patch);
+      return { ...delivery, ...patch };
+    } finally {
+      inFlight.delete(id);
+    }
+  };
+
+  const enqueue = (webhook: WebhookRecord, event: WebhookDeliveryRecord['event'], payload: string, redeliveryOf: string | null = null) =>
+    storage.webhookDeliveries.create({
+      webhook_id: webhook.id,
+      user_id: webhook.user_id,
+      event,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      response_status: null,
+      response_body: null,
+      error: null,
+      duration_ms: null,
+      redelivery_of: redeliveryOf
+    });
+
+  const payloadFor = (event: WebhookDeliveryRecord['event'], data: Record<string, unknown>) =>
+    JSON.stringify({ id: `evt_${crypto.randomBytes(12).toString('hex')}`, event, created_at: new Date().toISOString(), data });
+
+  // Records a delivery for every active webhook of the user subscribed to the event. The first
+  // attempt runs in the background; the retry worker picks up whatever fails.
+  const emit = async (userId: string, event: WebhookEvent, data: Record<string, unknown>) => {
+    const webhooks = (await storage.webhooks.listByUser(userId)).filter(webhook => webhook.active && webhook.events.includes(event));
+    if (!webhooks.length) return;
+    const payload = payloadFor(event, data);
+    for (const webhook of webhooks) {
+      const delivery = await enqueue(webhook, event, payload);
+      attempt(delivery.id).catch(error => console.error('Webhook Delivery Error:', error));
+    }
+  };
+
+  // Sends a `ping` event and waits for the first attempt, so the owner sees the outcome right away.
+  const ping = async (webhook: WebhookRecord) => {
+    const delivery = await enqueue(webhook, 'ping', payloadFor('ping', { webhook: { id: webhook.id, url: webhook.url, events: webhook.events } }));
+    return attempt(delivery.id);
+  };
+
+  // Same event and payload as the original, under a new delivery id.
+  const redeliver = async (webhook: WebhookRecord, original: WebhookDeliveryRecord) => {
+    const delivery = await enqueue(webhook, original.event, original.payload, original.id);
+    return attempt(delivery.id);
+  };
+
+  const deliverDue = async (limit = 50) => {
+    const due = await storage.webhookDeliveries.listDue(new Date().toISOString(), limit);
+    for (const delivery of due) await attempt(delivery.id);
+    return due.length;
+  };
+
+  // Retries due deliveries and prunes the log past its retention period.
+  const start = (intervalMs = 15_000) => {
+    const tick = () => deliverDue().catch(error => console.error('Webhook Worker Error:', error));
+    const prune = () =>
+      storage.webhookDeliveries
+        .deleteCreatedBefore(new Date(Date.now() - DELIVERY_RETENTION_DAYS * DAY_MS).toISOString())
+        .catch(error => console.error('Webhook Log Pruning Error:', error));
+    tick();
+    prune();
+    const timers = [setInterval(tick, intervalMs), setInterval(prune, DAY_MS / 4)];
+    timers.forEach(timer => timer.unref());
+    return () => timers.forEach(timer => clearInterval(timer));
+  };
+
+  return { emit, ping, redeliver, deliverDue, start };
+};
@@ -0,0 +1,253 @@
+import { FieldIssue, Infer, anyOf, array, boolean, date, describe, integer, nullable, object, oneOf, optional, string, withDefault } from './schema.ts';
+
+// The request and error contract of /api, shared by server.ts (which validates every request body
+// against these schemas) and the browser (which checks forms with them and maps error codes to text).
+
+// --- Values ---
+export const ROLES = ['user', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export const BLOG_STATUSES = ['draft', 'in_review', 'scheduled', 'published'] as const;
+export type BlogStatus = typeof BLOG_STATUSES[number];
+
+export const BLOG_LENGTHS = ['short', 'standard', 'long'] as const;
+export type BlogLength = typeof BLOG_LENGTHS[number];
+
+export const ACCESS_TOKEN_SCOPES = ['blogs:read', 'blogs:write', 'generate'] as const;
+export type AccessTokenScope = typeof ACCESS_TOKEN_SCOPES[number];
+
+export const WEBHOOK_EVENTS = ['blog.created', 'blog.updated', 'blog.published', 'blog.deleted'] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Deleting your own account either deletes the blogs or keeps them as anonymous posts; admins
+// deleting someone else's account either delete them or hand them to another user.
+export const BLOG_DELETION_MODES = ['delete', 'anonymize'] as const;
+export type BlogDeletionMode = typeof BLOG_DELETION_MODES[number];
+export const ADMIN_BLOG_DELETION_MODES = ['delete', 'reassign'] as const;
+
+export const SECURITY_EVENT_TYPES = ['account_locked', 'ip_locked'] as const;
+
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_EXCERPT_LENGTH = 1_000;
+export const MAX_CONTENT_LENGTH = 100_000;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TOKEN_LIFETIME_DAYS = 365;
+
+// --- Errors ---
+// Every error response has this body. `message` is English, for logs and API clients; the UI shows
+// its own text for `code`. `fields` lists what failed validation; `request_id` matches the
+// X-Request-Id response header and the server log.
+export const ERROR_CODES = [
+  // 400
+  'VALIDATION_FAILED',
+  'INVALID_JSON',
+  'INVALID_REQUEST',
+  'INVALID_USERNAME',
+  'WEAK_PASSWORD',
+  'INCORRECT_PASSWORD',
+  'USERNAME_TAKEN',
+  'EMAIL_TAKEN',
+  'RESET_TOKEN_INVALID',
+  'LIMIT_REACHED',
+  // 401
+  'UNAUTHORIZED',
+  'INVALID_TOKEN',
+  'TOKEN_EXPIRED',
+  'SESSION_REVOKED',
+  'NO_SESSION',
+  'INVALID_CREDENTIALS',
+  'ACCOUNT_SETUP_REQUIRED',
+  'SOCIAL_LOGIN_ONLY',
+  // 401 for tokens, 403 at sign-in
+  'ACCOUNT_SUSPENDED',
+  // 403
+  'FORBIDDEN',
+  'ADMIN_REQUIRED',
+  'INSUFFICIENT_SCOPE',
+  'PASSWORD_CHANGE_REQUIRED',
+  // 404, 413, 429
+  'NOT_FOUND',
+  'PAYLOAD_TOO_LARGE',
+  'RATE_LIMITED',
+  'LOCKED_OUT',
+  // 5xx
+  'INTERNAL_ERROR',
+  'PROVIDER_UNAVAILABLE',
+  'DATABASE_SAVE_FAILED',
+  // Blog generation; `details` names the missing key or carries the provider's error
+  'MISSING_API_KEY',
+  'UNKNOWN_AI_PROVIDER',
+  'AI_GENERATION_FAILED',
+  'AI_EMPTY_RESPONSE',
+  'INVALID_JSON_FORMAT',
+  'INCOMPLETE_DATA'
+] as const;
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export interface ApiError {
+  code: ErrorCode;
+  message: string;
+  fields?: FieldIssue[];
+  details?: string;
+  // Seconds, with RATE_LIMITED and LOCKED_OUT
+  retry_after?: number;
+  request_id: string;
+}
+
+export const isApiError = (data: unknown): data is ApiError =>
+  !!data && typeof data === 'object' && typeof (data as ApiError).code === 'string' && typeof (data as ApiError).message === 'string';
+
+// --- Shared fields ---
+// Passwords are checked against the configured policy by the server; here only their size.
+const password = () => string({ min: 1, max: 1_024, trim: false });
+
+// Editors send tags as one comma-separated string, API clients usually as a list.
+const tags = () => describe(
+  anyOf(array(string({ max: MAX_TAG_LENGTH }), { max: MAX_TAGS }), string({ max: MAX_TAGS * (MAX_TAG_LENGTH + 2) })),
+  'A list, or one comma-separated string'
+);
+
+const category = () => describe(nullable(string({ max: 200 }), { emptyAsNull: true }), 'Category path separated by "/"');
+
+const content = () => describe(string({ max: MAX_CONTENT_LENGTH, trim: false }), 'Markdown body');
+
+const publishAt = () => optional(describe(nullable(date()), 'Required when status is scheduled'));
+
+// --- Auth ---
+export const RegisterRequest = object({
+  username: string({ min: 1, max: 30 }),
+  password: password()
+});
+
+export const LoginRequest = object({
+  username: string({ min: 1, max: 254 }),
+  password: password()
+});
+
+// `identifier` is a username or an email address.
+export const ForgotPasswordRequest = object({
+  identifier: describe(string({ min: 1, max: 254 }), 'Username or email')
+});
+
+// Also used for the first-run admin setup, with the setup token.
+export const PasswordResetRequest = object({
+  token: string({ min: 1, max: 200 }),
+  password: password()
+});
+
+// --- Account ---
+// Only the fields present change; `null` or `""` clears them.
+export const AccountUpdateRequest = object({
+  email: optional(nullable(string({ max: 254, format: 'email' }), { emptyAsNull: true })),
+  avatar: optional(nullable(string({ max: 2_048, format: 'url' }), { emptyAsNull: true }))
+});
+
+export const PasswordChangeRequest = object({
+  current_password: optional(describe(string({ max: 1_024, trim: false }), 'Required when the account has a password')),
+  new_password: password()
+});
+
+export const AccountDeleteRequest = object({
+  blogs: oneOf(BLOG_DELETION_MODES),
+  password: optional(describe(string({ max: 1_024, trim: false }), 'Required for password accounts'))
+});
+
+export const AccessTokenRequest = object({
+  name: string({ min: 1, max: 100 }),
+  scopes: array(oneOf(ACCESS_TOKEN_SCOPES), { min: 1, unique: true }),
+  expires_in_days: withDefault(integer({ min: 1, max: MAX_TOKEN_LIFETIME_DAYS }), 30)
+});
+
+const webhookFields = {
+  url: describe(string({ min: 1, max: 2_000, format: 'url' }), 'http or https URL receiving a POST per event'),
+  events: array(oneOf(WEBHOOK_EVENTS), { min: 1, unique: true }),
+  description: optional(nullable(string({ max: 200 }), { emptyAsNull: true })),
+  active: optional(describe(boolean(), 'Defaults to true'))
+};
+
+export const WebhookRequest = object(webhookFields);
+
+// Only the fields present change.
+export const WebhookUpdateRequest = object({
+  ...webhookFields,
+  url: optional(webhookFields.url),
+  events: optional(webhookFields.events)
+});
+
+// --- Blogs ---
+// `status` defaults to draft for signed-in users and published for anonymous posts.
+export const BlogRequest = object({
+  title: string({ min: 1, max: MAX_TITLE_LENGTH }),
+  content: content(),
+  excerpt: withDefault(string({ max: MAX_EXCERPT_LENGTH }), ''),
+  tone: withDefault(string({ max: 50 }), ''),
+  language: withDefault(string({ max: 50 }), ''),
+  tags: optional(nullable(tags())),
+  category: optional(category()),
+  status: optional(describe(oneOf(BLOG_STATUSES), 'Defaults to draft for signed-in users and published for anonymous posts')),
+  publish_at: publishAt()
+});
+
+// Replaces the content; excerpt, tags and category are left untouched when omitted and the status
+// when `status` is.
+export const BlogUpdateRequest = object({
+  title: string({ min: 1, max: MAX_TITLE_LENGTH }),
+  content: content(),
+  excerpt: optional(string({ max: MAX_EXCERPT_LENGTH })),
+  tags: optional(nullable(tags())),
+  category: optional(category()),
+  status: optional(oneOf(BLOG_STATUSES)),
+  publish_at: publishAt()
+});
+
+export const BlogStatusRequest = object({
+  status: oneOf(BLOG_STATUSES),
+  publish_at: publishAt()
+});
+
+export const GenerateRequest = object({
+  topic: string({ min: 1, max: 500 }),
+  tone: withDefault(string({ min: 1, max: 50 }), 'professional'),
+  language: withDefault(string({ min: 1, max: 50 }), 'Tiếng Việt'),
+  length: withDefault(oneOf(BLOG_LENGTHS), 'standard'),
+  suggest_taxonomy: withDefault(describe(boolean(), 'Also suggest tags and a category'), false)
+});
+
+// --- Admin ---
+export const AdminUserUpdateRequest = object({
+  role: optional(oneOf(ROLES)),
+  suspended: optional(boolean())
+});
+
+// `reassign_to` is the username of the new owner, with `blogs: "reassign"`.
+export const AdminUserDeleteRequest = object({
+  blogs: oneOf(ADMIN_BLOG_DELETION_MODES),
+  reassign_to: optional(describe(nullable(string({ max: 254 }), { emptyAsNull: true }), 'Username of the new owner'))
+});
+
+// --- Queries ---
+// Only the parameters checked here; paging and taxonomy filters are read by the handlers.
+const statusFilter = optional(oneOf(BLOG_STATUSES));
+
+export const BlogListQuery = object({ status: statusFilter });
+
+export const SearchQuery = object({
+  q: string({ min: 1, max: 200 }),
+  status: statusFilter
+});
+
+export const SecurityEventQuery = object({
+  type: optional(oneOf(SECURITY_EVENT_TYPES))
+});
+
+export const AdminUserQuery = object({
+  q: optional(string({ max: 200 })),
+  role: optional(oneOf(ROLES)),
+  status: optional(oneOf(['active', 'suspended'] as const)),
+  limit: optional(integer({ min: 1, max: 100, coerce: true }))
+});
+
+export type AccessTokenInput = Infer<typeof AccessTokenRequest>;
+export type WebhookInput = Infer<typeof WebhookUpdateRequest>;
+export type GenerateInput = Infer<typeof GenerateRequest>;
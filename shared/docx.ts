@@ -0,0 +1,250 @@
+import {
+  Document,
+  Paragraph,
+  TextRun,
+  ExternalHyperlink,
+  HeadingLevel,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  AlignmentType,
+  BorderStyle,
+  ShadingType,
+  LevelFormat,
+  ParagraphChild,
+  IParagraphOptions
+} from 'docx';
+import type { RootContent, PhrasingContent, List, Table as MdTable } from 'mdast';
+import { parseMarkdown } from './markdown.ts';
+import { slugify } from './slugify.ts';
+
+export interface DocxExportOptions {
+  title: string;
+  content: string;
+  excerpt?: string;
+  author?: string | null;
+  // ISO date shown on the cover page
+  date?: string | null;
+  // Title, excerpt, author and date on a page of their own before the article
+  coverPage?: boolean;
+}
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+const CODE_FONT = 'Consolas';
+const CODE_SHADING = { type: ShadingType.CLEAR, color: 'auto', fill: 'F4F4F5' };
+const ORDERED_LIST = 'ordered-list';
+// Word indents list levels in twentieths of a point; 720 = 0.5 inch
+const INDENT_STEP = 720;
+const MAX_LIST_LEVEL = 8;
+
+// --- Inline content ---
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+const textRun = (text: string, style: RunStyle) =>
+  new TextRun({
+    // Soft line breaks inside a Markdown paragraph are just spaces
+    text: style.code ? text : text.replace(/\n/g, ' '),
+    bold: style.bold,
+    italics: style.italics,
+    strike: style.strike,
+    ...(style.code ? { font: CODE_FONT, shading: CODE_SHADING } : {}),
+    ...(style.link ? { style: 'Hyperlink' } : {})
+  });
+
+const inlineRuns = (nodes: PhrasingContent[], style: RunStyle = {}): ParagraphChild[] =>
+  nodes.flatMap((node): ParagraphChild[] => {
+    switch (node.type) {
+      case 'text':
+      case 'html':
+        return [textRun(node.value, style)];
+      case 'strong':
+        return inlineRuns(node.children, { ...style, bold: true });
+      case 'emphasis':
+        return inlineRuns(node.children, { ...style, italics: true });
+      case 'delete':
+        return inlineRuns(node.children, { ...style, strike: true });
+      case 'inlineCode':
+        return [textRun(node.value, { ...style, code: true })];
+      case 'break':
+        return [new TextRun({ break: 1 })];
+      case 'link':
+        return [new ExternalHyperlink({ link: node.url, children: inlineRuns(node.children, { ...style, link: true }) })];
+      case 'image':
+        // Images are not downloaded; keep the alt text and a link to the source
+        return [new ExternalHyperlink({ link: node.url, children: [textRun(node.alt || node.url, { ...style, italics: true, link: true })] })];
+      default:
+        return 'children' in node ? inlineRuns(node.children as PhrasingContent[], style) : 'value' in node ? [textRun(String(node.value), style)] : [];
+    }
+  });
+
+// --- Blocks ---
+interface BlockContext {
+  listLevel: number;
+  inQuote: boolean;
+  // Each ordered list gets its own numbering instance so numbering restarts at 1
+  nextListInstance: () => number;
+}
+
+type Block = Paragraph | Table;
+
+const paragraph = (children: ParagraphChild[], ctx: BlockContext, options: IParagraphOptions = {}) =>
+  new Paragraph({
+    children,
+    ...(ctx.inQuote ? { style: 'BlockQuote' } : {}),
+    ...(ctx.listLevel > 0 && !options.bullet && !options.numbering ? { indent: { left: INDENT_STEP * ctx.listLevel } } : {}),
+    ...options
+  });
+
+const listBlocks = (list: List, ctx: BlockContext): Block[] => {
+  const level = Math.min(ctx.listLevel, MAX_LIST_LEVEL);
+  const instance = list.ordered ? ctx.nextListInstance() : 0;
+  return list.children.flatMap(item => {
+    const itemCtx = { ...ctx, listLevel: ctx.listLevel + 1 };
+    return item.children.flatMap((child, index): Block[] => {
+      if (index === 0 && child.type === 'paragraph') {
+        const checkbox = item.checked === true ? '☑ ' : item.checked === false ? '☐ ' : '';
+        const marker = list.ordered ? { numbering: { reference: ORDERED_LIST, level, instance } } : { bullet: { level } };
+        return [paragraph([...(checkbox ? [new TextRun(checkbox)] : []), ...inlineRuns(child.children)], ctx, { ...marker, spacing: { after: 80 } })];
+      }
+      return blocks([child], itemCtx);
+    });
+  });
+};
+
+const tableBlock = (table: MdTable): Table => {
+  const alignments = table.align || [];
+  const toAlignment = (align: string | null | undefined) =>
+    align === 'center' ? AlignmentType.CENTER : align === 'right' ? AlignmentType.RIGHT : AlignmentType.LEFT;
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: table.children.map((row, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0,
+      children: row.children.map((cell, cellIndex) => new TableCell({
+        ...(rowIndex === 0 ? { shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'EDE9FE' } } : {}),
+        margins: { top: 60, bottom: 60, left: 100, right: 100 },
+        children: [new Paragraph({
+          alignment: toAlignment(alignments[cellIndex]),
+          children: inlineRuns(cell.children, { bold: rowIndex === 0 })
+        })]
+      }))
+    }))
+  });
+};
+
+const blocks = (nodes: RootContent[], ctx: BlockContext): Block[] =>
+  nodes.flatMap((node): Block[] => {
+    switch (node.type) {
+      case 'heading':
+        return [new Paragraph({ heading: HEADINGS[node.depth - 1], children: inlineRuns(node.children) })];
+      case 'paragraph':
+        return [paragraph(inlineRuns(node.children), ctx, { spacing: { after: 200 } })];
+      case 'list':
+        return listBlocks(node, ctx);
+      case 'blockquote':
+        return blocks(node.children, { ...ctx, inQuote: true });
+      case 'code':
+        return [new Paragraph({
+          style: 'CodeBlock',
+          children: node.value.split('\n').map((line, index) => new TextRun({ text: line, ...(index > 0 ? { break: 1 } : {}) }))
+        })];
+      case 'table':
+        return [tableBlock(node), new Paragraph({ spacing: { after: 120 } })];
+      case 'thematicBreak':
+        return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D4D4D8', space: 1 } }, spacing: { after: 200 } })];
+      case 'html':
+        return [paragraph([textRun(node.value, {})], ctx)];
+      case 'definition':
+      case 'footnoteDefinition':
+        return [];
+      default:
+        return 'children' in node ? blocks(node.children as RootContent[], ctx) : [];
+    }
+  });
+
+// --- Document ---
+const coverPage = (options: DocxExportOptions) => [
+  new Paragraph({ spacing: { before: 3600 } }),
+  new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, children: [new TextRun(options.title)] }),
+  ...(options.excerpt
+    ? [new Paragraph({ alignment: AlignmentType.CENTER, spacing: { before: 400, after: 400 }, children: [new TextRun({ text: options.excerpt, italics: true, color: '52525B' })] })]
+    : []),
+  new Paragraph({
+    alignment: AlignmentType.CENTER,
+    children: [new TextRun({
+      // ISO date rather than a locale format so server and browser exports are identical
+      text: [options.author, options.date && new Date(options.date).toISOString().slice(0, 10)].filter(Boolean).join(' · '),
+      color: '71717A'
+    })]
+  })
+];
+
+// Walks the Markdown AST so formatting, lists, tables and code come out as real Word structures.
+// Used by the browser download buttons and by the server export endpoint, so both produce the same file.
+export const buildDocx = (options: DocxExportOptions) => {
+  let listInstances = 0;
+  const ctx: BlockContext = { listLevel: 0, inQuote: false, nextListInstance: () => ++listInstances };
+  const body = blocks(parseMarkdown(options.content).children, ctx);
+  // Without a cover page the title opens the article, as the old exporter did
+  const titleBlock = new Paragraph({ heading: HeadingLevel.HEADING_1, spacing: { after: 400 }, children: [new TextRun(options.title)] });
+
+  return new Document({
+    title: options.title,
+    description: options.excerpt,
+    creator: options.author || undefined,
+    styles: {
+      paragraphStyles: [
+        {
+          id: 'BlockQuote',
+          name: 'Block Quote',
+          basedOn: 'Normal',
+          run: { italics: true, color: '52525B' },
+          paragraph: {
+            indent: { left: INDENT_STEP },
+            spacing: { after: 160 },
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: 'A855F7', space: 12 } }
+          }
+        },
+        {
+          id: 'CodeBlock',
+          name: 'Code Block',
+          basedOn: 'Normal',
+          run: { font: CODE_FONT, size: 20 },
+          paragraph: { shading: CODE_SHADING, spacing: { before: 120, after: 200 } }
+        }
+      ]
+    },
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: Array.from({ length: MAX_LIST_LEVEL + 1 }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: INDENT_STEP * (level + 1), hanging: 360 } } }
+        }))
+      }]
+    },
+    sections: options.coverPage
+      ? [{ children: coverPage(options) }, { children: body }]
+      : [{ children: [titleBlock, ...body] }]
+  });
+};
+
+export const exportFileName = (title: string, extension: string) => `${slugify(title)}.${extension}`;
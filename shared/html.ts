@@ -0,0 +1,117 @@
+import { renderMarkdownDocument, OutlineEntry } from './markdown.ts';
+import { languageCode } from './language.ts';
+
+export interface HtmlExportOptions {
+  title: string;
+  content: string;
+  excerpt?: string;
+  author?: string | null;
+  // ISO date shown under the title
+  date?: string | null;
+  // Language label as stored on the blog ("Tiếng Việt", "English"...)
+  language?: string;
+  // @font-face rules for EXPORT_FONT_FAMILY; without them the reader's serif fonts are used
+  fontFaceCss?: string;
+  tableOfContents?: boolean;
+}
+
+export const EXPORT_FONT_FAMILY = 'Export Serif';
+
+const escapeHtml = (text: string) =>
+  (text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Print-friendly typography shared by the HTML download and the PDF renderer. Japanese falls back to
+// system fonts since no CJK font is embedded.
+export const EXPORT_STYLES = `
+.export-document {
+  font-family: '${EXPORT_FONT_FAMILY}', 'Noto Serif', Georgia, 'Hiragino Mincho ProN', 'Yu Mincho', serif;
+  color: #18181b;
+  background: #ffffff;
+  line-height: 1.7;
+  font-size: 16px;
+  max-width: 720px;
+  margin: 0 auto;
+  padding: 48px 32px;
+}
+.export-document h1, .export-document h2, .export-document h3, .export-document h4 { line-height: 1.3; break-after: avoid; page-break-after: avoid; }
+.export-document h1 { font-size: 2.1em; margin: 0 0 0.4em; }
+.export-document h2 { font-size: 1.5em; margin: 1.6em 0 0.6em; }
+.export-document h3 { font-size: 1.2em; margin: 1.4em 0 0.5em; }
+.export-document .export-excerpt { font-style: italic; color: #52525b; margin: 0 0 0.6em; }
+.export-document .export-meta { color: #71717a; font-size: 0.85em; margin: 0 0 2em; }
+.export-document a { color: #7c3aed; }
+.export-document blockquote { margin: 1.2em 0; padding: 0.2em 1em; border-left: 4px solid #a855f7; color: #52525b; font-style: italic; }
+.export-document code { font-family: Consolas, 'Courier New', monospace; font-size: 0.9em; background: #f4f4f5; padding: 0.1em 0.3em; border-radius: 3px; }
+.export-document pre { background: #f4f4f5; padding: 1em; border-radius: 6px; overflow-x: auto; break-inside: avoid; page-break-inside: avoid; }
+.export-document pre code { background: none; padding: 0; }
+.export-document table { border-collapse: collapse; width: 100%; margin: 1.2em 0; }
+.export-document th, .export-document td { border: 1px solid #d4d4d8; padding: 0.4em 0.7em; text-align: left; }
+.export-document th { background: #ede9fe; }
+.export-document tr { break-inside: avoid; page-break-inside: avoid; }
+.export-document img { max-width: 100%; }
+.export-document hr { border: none; border-top: 1px solid #d4d4d8; margin: 2em 0; }
+.export-document .export-toc { border: 1px solid #e4e4e7; border-radius: 8px; padding: 1em 1.4em; margin: 0 0 2.4em; break-inside: avoid; page-break-inside: avoid; }
+.export-document .export-toc h2 { font-size: 1em; margin: 0 0 0.5em; text-transform: uppercase; letter-spacing: 0.05em; color: #71717a; }
+.export-document .export-toc ol { list-style: none; margin: 0; padding: 0; }
+.export-document .export-toc li { margin: 0.2em 0; }
+.export-document .export-toc .depth-2 { padding-left: 1.2em; }
+.export-document .export-toc .depth-3 { padding-left: 2.4em; }
+.export-document .export-toc a { color: inherit; text-decoration: none; }
+`;
+
+const TOC_TITLES: Record<string, string> = {
+  vi: 'Mục lục',
+  en: 'Contents',
+  ja: '目次',
+  fr: 'Sommaire'
+};
+
+const renderToc = (outline: OutlineEntry[], lang: string) => {
+  // Nest relative to the shallowest heading, so posts that start at ## aren't indented
+  const minDepth = Math.min(...outline.map(entry => entry.depth));
+  const items = outline
+    .map(entry => `<li class="depth-${entry.depth - minDepth + 1}"><a href="#${entry.id}">${escapeHtml(entry.text)}</a></li>`)
+    .join('');
+  return `<nav class="export-toc"><h2>${TOC_TITLES[lang] || TOC_TITLES.en}</h2><ol>${items}</ol></nav>`;
+};
+
+// The article markup (title, meta, table of contents, body) inside a `.export-document` element.
+export const renderExportBody = (options: HtmlExportOptions) => {
+  const lang = languageCode(options.language);
+  const { html, outline } = renderMarkdownDocument(options.content);
+  const meta = [options.author, options.date && new Date(options.date).toISOString().slice(0, 10)].filter(Boolean).join(' · ');
+  const showToc = options.tableOfContents !== false && outline.length > 1;
+
+  return `<article class="export-document" lang="${lang}">
+<h1>${escapeHtml(options.title)}</h1>
+${options.excerpt ? `<p class="export-excerpt">${escapeHtml(options.excerpt)}</p>` : ''}
+${meta ? `<p class="export-meta">${escapeHtml(meta)}</p>` : ''}
+${showToc ? renderToc(outline, lang) : ''}
+${html}
+</article>`;
+};
+
+// A self-contained page: no external stylesheets, fonts or scripts.
+export const buildHtmlDocument = (options: HtmlExportOptions) => `<!DOCTYPE html>
+<html lang="${languageCode(options.language)}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(options.title)}</title>
+${options.excerpt ? `<meta name="description" content="${escapeHtml(options.excerpt)}" />` : ''}
+${options.author ? `<meta name="author" content="${escapeHtml(options.author)}" />` : ''}
+<style>
+${options.fontFaceCss || ''}
+body { margin: 0; background: #ffffff; }
+${EXPORT_STYLES}
+</style>
+</head>
+<body>
+${renderExportBody(options)}
+</body>
+</html>
+`;
@@ -0,0 +1,15 @@
+const LANGUAGE_CODES: Record<string, string> = {
+  'Tiếng Việt': 'vi',
+  'English': 'en',
+  'Japanese': 'ja',
+  'French': 'fr'
+};
+
+// Blogs store the language label picked in WriteBlog; feeds and HTML need a BCP 47 tag.
+export const languageCode = (language?: string) => LANGUAGE_CODES[language || ''] || 'vi';
+
+// Maps a BCP 47 tag ("en-US", "vi") back to the stored label, for imported posts.
+export const languageLabel = (code?: string | null) => {
+  const primary = (code || '').toLowerCase().split(/[-_]/)[0];
+  return Object.keys(LANGUAGE_CODES).find(label => LANGUAGE_CODES[label] === primary) || null;
+};
@@ -0,0 +1,55 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import { toHast } from 'mdast-util-to-hast';
+import { toHtml } from 'hast-util-to-html';
+import { toString } from 'mdast-util-to-string';
+import type { Root, Nodes, Link, Image } from 'mdast';
+import { slugify } from './slugify.ts';
+
+// GitHub-flavoured Markdown (tables, strikethrough, task lists, autolinks), the dialect the AI writes in.
+const processor = unified().use(remarkParse).use(remarkGfm);
+
+export const parseMarkdown = (markdown: string): Root => processor.parse(markdown || '');
+
+// react-markdown drops unsafe URLs for us; exports built straight from the AST apply the same rule.
+// Relative URLs (no scheme) are allowed too.
+const SAFE_URL = /^(https?:|mailto:|#|[^:]*$)/i;
+
+const safeUrl = (url: string) => (SAFE_URL.test(url.trim()) ? url : '');
+
+const visitLinks = (node: Nodes, visitor: (node: Link | Image) => void) => {
+  if (node.type === 'link' || node.type === 'image') visitor(node);
+  if ('children' in node) node.children.forEach(child => visitLinks(child, visitor));
+};
+
+export interface OutlineEntry {
+  depth: number;
+  text: string;
+  // Anchor id of the heading in the rendered HTML
+  id: string;
+}
+
+// Renders Markdown to HTML with an id on every top-level heading, and lists those headings (up to
+// `maxOutlineDepth`) for a table of contents. Raw HTML in the Markdown is dropped.
+export const renderMarkdownDocument = (markdown: string, maxOutlineDepth = 3) => {
+  const root = parseMarkdown(markdown);
+  const outline: OutlineEntry[] = [];
+  const usedIds = new Map<string, number>();
+
+  visitLinks(root, node => {
+    node.url = safeUrl(node.url);
+  });
+  for (const node of root.children) {
+    if (node.type !== 'heading') continue;
+    const text = toString(node);
+    const base = slugify(text);
+    const seen = usedIds.get(base) || 0;
+    usedIds.set(base, seen + 1);
+    const id = seen ? `${base}-${seen + 1}` : base;
+    node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id } };
+    if (node.depth <= maxOutlineDepth) outline.push({ depth: node.depth, text, id });
+  }
+
+  return { html: toHtml(toHast(root)), outline };
+};
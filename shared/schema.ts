@@ -0,0 +1,237 @@
+// Small runtime schemas for JSON request bodies and query strings. The server checks every request
+// with them, the browser checks forms with the same definitions before sending and the OpenAPI
+// document publishes their `jsonSchema`. Objects drop keys their schema doesn't name, so handlers
+// only see known fields.
+
+export const ISSUE_CODES = [
+  'required',
+  'invalid_type',
+  'too_short',
+  'too_long',
+  'too_few_items',
+  'too_many_items',
+  'too_small',
+  'too_large',
+  'invalid_option',
+  'invalid_format'
+] as const;
+export type IssueCode = typeof ISSUE_CODES[number];
+
+export interface FieldIssue {
+  // Dotted path to the value, e.g. "scopes.1"; empty for the body itself
+  path: string;
+  code: IssueCode;
+  message: string;
+  // Limits or options the message refers to, so clients can word it themselves
+  params?: Record<string, string | number>;
+}
+
+// OpenAPI 3.0 flavour of JSON Schema (`nullable` instead of a null type)
+export type JsonSchema = Record<string, unknown>;
+
+// `Optional` only matters to `object`: keys of optional schemas may be missing from its type.
+export interface Schema<T, Optional extends boolean = false> {
+  readonly optional: Optional;
+  // What `check` accepts, for API documentation
+  readonly jsonSchema: JsonSchema;
+  // Returns the cleaned value; once an issue was added the return value must not be used.
+  check(value: unknown, path: string, issues: FieldIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T, boolean> ? T : never;
+
+type Shape = Record<string, Schema<any, boolean>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends Schema<any, true> ? K : never }[keyof S];
+type ObjectOf<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+const define = <T>(jsonSchema: JsonSchema, check: Schema<T>['check']): Schema<T> => ({ optional: false, jsonSchema, check });
+
+// Leaves out undefined limits
+const compact = (schema: JsonSchema) => Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined));
+
+const fail = (issues: FieldIssue[], path: string, code: IssueCode, message: string, params?: FieldIssue['params']): any => {
+  issues.push({ path, code, message, ...(params ? { params } : {}) });
+  return undefined;
+};
+
+const join = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+// --- Primitives ---
+const FORMATS = {
+  email: (value: string) => value.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  // Only http(s), so a stored link can't run script when rendered
+  url: (value: string) => {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+      return false;
+    }
+  }
+};
+
+interface StringOptions {
+  // Counted after trimming. `min: 1` reports an empty string as missing.
+  min?: number;
+  max?: number;
+  // Defaults to true: surrounding whitespace is removed before the checks
+  trim?: boolean;
+  // Checked on non-empty strings only, so `''` can still mean "clear this field"
+  format?: keyof typeof FORMATS;
+  pattern?: RegExp;
+}
+
+const JSON_FORMATS: Record<keyof typeof FORMATS, string> = { email: 'email', url: 'uri' };
+
+export const string = ({ min, max, trim = true, format, pattern }: StringOptions = {}) =>
+  define<string>(compact({ type: 'string', minLength: min, maxLength: max, format: format && JSON_FORMATS[format], pattern: pattern?.source }), (value, path, issues) => {
+    if (value === undefined || value === null) return fail(issues, path, 'required', 'Required');
+    if (typeof value !== 'string') return fail(issues, path, 'invalid_type', 'Expected a string', { expected: 'string' });
+    const text = trim ? value.trim() : value;
+    if (min !== undefined && text.length < min) {
+      return text.length === 0
+        ? fail(issues, path, 'required', 'Required')
+        : fail(issues, path, 'too_short', `Must be at least ${min} characters`, { min });
+    }
+    if (max !== undefined && text.length > max) return fail(issues, path, 'too_long', `Must be at most ${max} characters`, { max });
+    if (text && format && !FORMATS[format](text)) return fail(issues, path, 'invalid_format', `Must be a valid ${format}`, { format });
+    if (text && pattern && !pattern.test(text)) return fail(issues, path, 'invalid_format', 'Has an invalid format', { format: 'pattern' });
+    return text;
+  });
+
+interface IntegerOptions {
+  min?: number;
+  max?: number;
+  // Accepts digit strings too, for query parameters
+  coerce?: boolean;
+}
+
+export const integer = ({ min, max, coerce = false }: IntegerOptions = {}) =>
+  define<number>(compact({ type: 'integer', minimum: min, maximum: max }), (value, path, issues) => {
+    if (value === undefined || value === null || value === '') return fail(issues, path, 'required', 'Required');
+    const number = coerce && typeof value === 'string' && /^-?\d+$/.test(value) ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isInteger(number)) return fail(issues, path, 'invalid_type', 'Expected an integer', { expected: 'integer' });
+    if (min !== undefined && number < min) return fail(issues, path, 'too_small', `Must be at least ${min}`, { min });
+    if (max !== undefined && number > max) return fail(issues, path, 'too_large', `Must be at most ${max}`, { max });
+    return number;
+  });
+
+export const boolean = () =>
+  define<boolean>({ type: 'boolean' }, (value, path, issues) => {
+    if (value === undefined || value === null) return fail(issues, path, 'required', 'Required');
+    if (typeof value !== 'boolean') return fail(issues, path, 'invalid_type', 'Expected true or false', { expected: 'boolean' });
+    return value;
+  });
+
+export const oneOf = <const V extends string>(options: readonly V[]) =>
+  define<V>({ type: 'string', enum: [...options] }, (value, path, issues) => {
+    if (value === undefined || value === null || value === '') return fail(issues, path, 'required', 'Required');
+    if (typeof value !== 'string' || !(options as readonly string[]).includes(value)) {
+      return fail(issues, path, 'invalid_option', `Expected one of: ${options.join(', ')}`, { options: options.join(', ') });
+    }
+    return value as V;
+  });
+
+// A date string or a millisecond timestamp, returned as an ISO-8601 string.
+export const date = () =>
+  define<string>({ type: 'string', format: 'date-time' }, (value, path, issues) => {
+    if (value === undefined || value === null || value === '') return fail(issues, path, 'required', 'Required');
+    const parsed = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+    if (!parsed || isNaN(parsed.getTime())) return fail(issues, path, 'invalid_format', 'Must be a valid date', { format: 'date' });
+    return parsed.toISOString();
+  });
+
+// --- Combinators ---
+interface ArrayOptions {
+  min?: number;
+  max?: number;
+  // Drops repeated values instead of keeping them
+  unique?: boolean;
+}
+
+export const array = <T>(item: Schema<T, boolean>, { min, max, unique = false }: ArrayOptions = {}) =>
+  define<T[]>(compact({ type: 'array', items: item.jsonSchema, minItems: min, maxItems: max }), (value, path, issues) => {
+    if (value === undefined || value === null) return fail(issues, path, 'required', 'Required');
+    if (!Array.isArray(value)) return fail(issues, path, 'invalid_type', 'Expected a list', { expected: 'array' });
+    if (max !== undefined && value.length > max) return fail(issues, path, 'too_many_items', `Must contain at most ${max} items`, { max });
+    const before = issues.length;
+    const items = value.map((entry, index) => item.check(entry, join(path, index), issues));
+    if (issues.length > before) return undefined as any;
+    const result = unique ? [...new Set(items)] : items;
+    if (min !== undefined && result.length < min) {
+      return min === 1 && !result.length
+        ? fail(issues, path, 'required', 'Required')
+        : fail(issues, path, 'too_few_items', `Must contain at least ${min} items`, { min });
+    }
+    return result;
+  });
+
+// Keys are required unless their schema is optional or has a default.
+const objectJsonSchema = (shape: Shape): JsonSchema => {
+  const required = Object.keys(shape).filter(key => !shape[key].optional && !('default' in shape[key].jsonSchema));
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.jsonSchema])),
+    ...(required.length ? { required } : {})
+  };
+};
+
+export const object = <S extends Shape>(shape: S) =>
+  define<Simplify<ObjectOf<S>>>(objectJsonSchema(shape), (value, path, issues) => {
+    if (value === undefined || value === null) return fail(issues, path, 'required', 'Required');
+    if (typeof value !== 'object' || Array.isArray(value)) return fail(issues, path, 'invalid_type', 'Expected an object', { expected: 'object' });
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const checked = schema.check(input[key], join(path, key), issues);
+      if (checked !== undefined) result[key] = checked;
+    }
+    return result as any;
+  });
+
+// The first schema that accepts the value wins. Otherwise the issues reported are those of the first
+// schema the value had the right type for, or of the first schema.
+export const anyOf = <S extends Schema<any, boolean>[]>(...schemas: S) =>
+  define<Infer<S[number]>>({ anyOf: schemas.map(schema => schema.jsonSchema) }, (value, path, issues) => {
+    const attempts = schemas.map(schema => {
+      const found: FieldIssue[] = [];
+      return { value: schema.check(value, path, found), found };
+    });
+    const accepted = attempts.find(attempt => !attempt.found.length);
+    if (accepted) return accepted.value;
+    const closest = attempts.find(attempt => attempt.found.some(issue => issue.code !== 'invalid_type')) || attempts[0];
+    issues.push(...closest.found);
+    return undefined as any;
+  });
+
+// A missing value is allowed; `null` still goes to the inner schema.
+export const optional = <T>(schema: Schema<T, boolean>): Schema<T | undefined, true> => ({
+  optional: true,
+  jsonSchema: schema.jsonSchema,
+  check: (value, path, issues) => (value === undefined ? undefined : schema.check(value, path, issues))
+});
+
+// `null` is kept as is; with `emptyAsNull`, so is an empty or blank string.
+export const nullable = <T>(schema: Schema<T, boolean>, { emptyAsNull = false } = {}): Schema<T | null> =>
+  define<T | null>({ ...schema.jsonSchema, nullable: true }, (value, path, issues) => {
+    if (value === null || (emptyAsNull && typeof value === 'string' && !value.trim())) return null;
+    return schema.check(value, path, issues);
+  });
+
+// A missing value becomes `fallback`; the key is always present after the check.
+export const withDefault = <T>(schema: Schema<T, boolean>, fallback: T): Schema<T> =>
+  define<T>({ ...schema.jsonSchema, default: fallback }, (value, path, issues) => (value === undefined ? fallback : schema.check(value, path, issues)));
+
+// Adds a description to the documentation of a schema; checking is unchanged.
+export const describe = <S extends Schema<any, boolean>>(schema: S, description: string): S =>
+  ({ ...schema, jsonSchema: { ...schema.jsonSchema, description } });
+
+// --- Running ---
+export type ValidationResult<T> = { value: T; issues?: undefined } | { value?: undefined; issues: FieldIssue[] };
+
+export const validate = <T>(schema: Schema<T, boolean>, input: unknown): ValidationResult<T> => {
+  const issues: FieldIssue[] = [];
+  const value = schema.check(input, '', issues);
+  return issues.length ? { issues } : { value };
+};
@@ -0,0 +1,16 @@
+const MAX_SLUG_LENGTH = 80;
+
+// "Phở bò Hà Nội!" -> "pho-bo-ha-noi". Vietnamese đ/Đ has no decomposition so it is mapped explicitly.
+export const slugify = (text: string) => {
+  const slug = (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/g, '');
+  return slug || 'bai-viet';
+};
@@ -1,5 +1,5 @@
-import { useState, useEffect, createContext, useContext } from 'react';
-import { Routes, Route, Navigate, Link, useNavigate, useParams } from 'react-router-dom';
+import { useState, useEffect, useRef, createContext, useContext } from 'react';
+import { Routes, Route, Navigate, Link, useNavigate, useParams, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
   LayoutDashboard, 
@@ -14,23 +14,55 @@ import {
   ArrowLeft,
   Edit,
   Trash2,
-  Users,
   ShieldCheck,
-  FileText
+  Square,
+  Save,
+  History,
+  Rss,
+  Tag,
+  Folder,
+  Search,
+  Settings,
+  KeyRound
 } from 'lucide-react';
 import axios from 'axios';
 import Markdown from 'react-markdown';
-import { GoogleGenAI, Type, ThinkingLevel } from "@google/genai";
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
-import { saveAs } from 'file-saver';
+import { RevisionHistory } from './components/RevisionHistory.tsx';
+import { SearchResults } from './components/SearchResults.tsx';
+import { ExportButtons } from './components/ExportButtons.tsx';
+import { LibraryTransfer } from './components/LibraryTransfer.tsx';
+import { SessionList } from './components/SessionList.tsx';
+import { AccessTokens } from './components/AccessTokens.tsx';
+import { Webhooks } from './components/Webhooks.tsx';
+import { AccountSettings } from './components/AccountSettings.tsx';
+import { useOAuthProviders, useOAuthMessages, openOAuthPopup, ProviderIcon, OAuthProvider } from './components/OAuthProviders.tsx';
+import { PasswordPolicyHint } from './components/PasswordPolicyHint.tsx';
+import { SecurityEvents } from './components/SecurityEvents.tsx';
+import { UserManagement } from './components/UserManagement.tsx';
+import { AdminAnalytics } from './components/AdminAnalytics.tsx';
+import { AuditLog } from './components/AuditLog.tsx';
+import { onSessionChange, refreshSession, endSession, fetchWithSession } from './session.ts';
+import { errorMessage, formError, readFetchError, ApiRequestError } from './errors.ts';
+import { BlogRequest, BlogUpdateRequest, GenerateRequest, RegisterRequest } from '../shared/api.ts';
 
 // --- Types ---
 interface User {
   id: string;
   username: string;
   role: 'user' | 'admin';
+  avatar?: string | null;
+  // The seeded admin must choose a new password on /setup before admin features open
+  must_change_password?: boolean;
 }
 
+interface BlogDraft {
+  title: string;
+  excerpt: string;
+  content: string;
+}
+
+type BlogStatus = 'draft' | 'in_review' | 'scheduled' | 'published';
+
 interface Blog {
   id: string;
   user_id: string | null;
@@ -39,9 +71,118 @@ interface Blog {
   content: string;
   tone: string;
   language: string;
+  status?: BlogStatus;
+  publish_at?: string | null;
+  published_at?: string | null;
+  slug?: string;
+  tags?: string[];
+  // Hierarchical path such as "Ẩm thực/Món Việt"
+  category?: string | null;
+  // Canonical URL and public author info, added by the API
+  path?: string;
+  author?: { username: string; avatar: string | null } | null;
   created_at: string;
 }
 
+interface AuthorProfile {
+  username: string;
+  avatar: string | null;
+  created_at: string;
+  blogs: Blog[];
+}
+
+interface TagCount {
+  name: string;
+  slug: string;
+  count: number;
+}
+
+interface CategoryNode {
+  name: string;
+  slug: string;
+  count: number;
+  children: CategoryNode[];
+}
+
+interface Taxonomy {
+  tags: TagCount[];
+  categories: CategoryNode[];
+}
+
+interface TaxonomyListing {
+  name: string;
+  slug: string;
+  blogs: Blog[];
+}
+
+type BlogSort = 'created' | 'updated' | 'title';
+
+const SORT_LABELS: Record<BlogSort, string> = {
+  created: 'Mới tạo nhất',
+  updated: 'Mới cập nhật',
+  title: 'Tiêu đề A–Z'
+};
+
+const STATUS_LABELS: Record<BlogStatus, string> = {
+  draft: 'Bản nháp',
+  in_review: 'Chờ duyệt',
+  scheduled: 'Đã lên lịch',
+  published: 'Đã xuất bản'
+};
+
+const STATUS_STYLES: Record<BlogStatus, string> = {
+  draft: 'bg-zinc-500/10 border-zinc-500/20 text-zinc-300',
+  in_review: 'bg-amber-500/10 border-amber-500/20 text-amber-300',
+  scheduled: 'bg-sky-500/10 border-sky-500/20 text-sky-300',
+  published: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300'
+};
+
+const StatusBadge = ({ blog }: { blog: Blog }) => {
+  const status = blog.status || 'published';
+  return (
+    <span className={`text-xs px-2 py-0.5 rounded-full border ${STATUS_STYLES[status]}`}>
+      {STATUS_LABELS[status]}
+      {status === 'scheduled' && blog.publish_at && ` · ${new Date(blog.publish_at).toLocaleString()}`}
+    </span>
+  );
+};
+
+// Tags and category segments link by name; the server maps them to their slugs.
+const tagPath = (tag: string) => `/tags/${encodeURIComponent(tag)}`;
+const categoryPath = (category: string) => `/categories/${category.split('/').map(encodeURIComponent).join('/')}`;
+
+// Depth-first list of every category with its full path, for selects and datalists
+const flattenCategories = (nodes: CategoryNode[], parent = ''): { path: string; slug: string; depth: number; count: number }[] =>
+  nodes.flatMap(node => {
+    const path = parent ? `${parent}/${node.name}` : node.name;
+    return [{ path, slug: node.slug, depth: parent.split('/').filter(Boolean).length, count: node.count }, ...flattenCategories(node.children, path)];
+  });
+
+const TaxonomyLinks = ({ blog, className = '' }: { blog: Blog; className?: string }) => {
+  if (!blog.category && !blog.tags?.length) return null;
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-xs ${className}`}>
+      {blog.category && (
+        <Link to={categoryPath(blog.category)} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-purple-500/10 border border-purple-500/20 text-purple-300 hover:text-white">
+          <Folder size={12} /> {blog.category.split('/').join(' › ')}
+        </Link>
+      )}
+      {blog.tags?.map(tag => (
+        <Link key={tag} to={tagPath(tag)} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-zinc-400 hover:text-white">
+          <Tag size={12} /> {tag}
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+// <input type="datetime-local"> works in local time without a timezone suffix
+const toDateTimeLocal = (iso?: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
 // --- Auth Context ---
 const AuthContext = createContext<{
   user: User | null;
@@ -83,12 +224,19 @@ const Navbar = () => {
           </Link>
           {user ? (
             <>
-              <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-white/5 border border-white/10">
-                <div className="w-6 h-6 rounded-full bg-gradient-to-tr from-purple-500 to-emerald-500 flex items-center justify-center text-[10px] font-bold">
-                  {user.username.substring(0, 2).toUpperCase()}
-                </div>
+              <Link to="/settings" className="text-zinc-400 hover:text-white transition-colors" title="Cài đặt tài khoản">
+                <Settings size={18} />
+              </Link>
+              <Link to={`/u/${encodeURIComponent(user.username)}`} className="flex items-center gap-2 px-3 py-1 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 transition-colors">
+                {user.avatar ? (
+                  <img src={user.avatar} alt="" className="w-6 h-6 rounded-full object-cover" referrerPolicy="no-referrer" />
+                ) : (
+                  <div className="w-6 h-6 rounded-full bg-gradient-to-tr from-purple-500 to-emerald-500 flex items-center justify-center text-[10px] font-bold">
+                    {user.username.substring(0, 2).toUpperCase()}
+                  </div>
+                )}
                 <span className="text-sm font-medium text-zinc-300">{user.username}</span>
-              </div>
+              </Link>
               <button 
                 onClick={() => {
                   if (window.confirm('Bạn có chắc chắn muốn đăng xuất không?')) {
@@ -164,22 +312,19 @@ const Login = () => {
   const navigate = useNavigate();
 
   useEffect(() => {
-    if (user) navigate('/dashboard');
+    if (user) navigate(user.must_change_password ? '/setup' : '/dashboard');
   }, [user, navigate]);
 
-  useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      const origin = event.origin;
-      if (!origin.endsWith('.run.app') && !origin.includes('localhost')) return;
-      
-      if (event.data?.type === 'OAUTH_AUTH_SUCCESS') {
-        login(event.data.token, event.data.user);
-        navigate('/dashboard');
-      }
-    };
-    window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
-  }, [login, navigate]);
+  const providers = useOAuthProviders();
+  useOAuthMessages((message) => {
+    if (message.type === 'OAUTH_ERROR') setError(message.error);
+    // The popup set the session cookie; refreshing it signs this window in and the effect above navigates
+    if (message.type === 'OAUTH_AUTH_SUCCESS') {
+      refreshSession().then(token => {
+        if (!token) setError('Không thể đăng nhập. Vui lòng thử lại.');
+      });
+    }
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -188,25 +333,21 @@ const Login = () => {
     try {
       const res = await axios.post('/api/auth/login', { username, password });
       login(res.data.token, res.data.user);
-      navigate('/dashboard');
-    } catch (err: any) {
-      if (err.response?.status === 401) {
-        setError(err.response.data.error || 'Tên đăng nhập hoặc mật khẩu không chính xác.');
-      } else {
-        setError('Đã có lỗi xảy ra. Vui lòng thử lại sau.');
-      }
+      navigate(res.data.user.must_change_password ? '/setup' : '/dashboard');
+    } catch (err) {
+      setError(errorMessage(err));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleGoogleLogin = async () => {
+  const handleProviderLogin = async (provider: OAuthProvider) => {
+    setError('');
     try {
-      const res = await axios.get('/api/auth/google/url');
-      window.open(res.data.url, 'google_login', 'width=600,height=700');
-    } catch (err: any) {
-      const msg = err.response?.data?.error || 'Không thể kết nối với Google.';
-      setError(msg);
+      const res = await axios.get(`/api/auth/${provider.id}/url`);
+      openOAuthPopup(res.data.url);
+    } catch (err) {
+      setError(errorMessage(err));
     }
   };
 
@@ -229,29 +370,29 @@ const Login = () => {
           </motion.div>
         )}
 
-        <div className="space-y-4 mb-8">
-          <button 
-            onClick={handleGoogleLogin}
-            className="w-full bg-white text-zinc-900 py-3 rounded-lg font-semibold transition-all flex items-center justify-center gap-3 hover:bg-zinc-100"
-          >
-            <svg className="w-5 h-5" viewBox="0 0 24 24">
-              <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-              <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-              <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l3.66-2.84z"/>
-              <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-            </svg>
-            Continue with Google
-          </button>
-          
-          <div className="relative">
-            <div className="absolute inset-0 flex items-center">
-              <div className="w-full border-t border-white/10"></div>
-            </div>
-            <div className="relative flex justify-center text-xs uppercase">
-              <span className="bg-zinc-950 px-2 text-zinc-500">Or continue with username</span>
+        {providers.length > 0 && (
+          <div className="space-y-4 mb-8">
+            {providers.map(provider => (
+              <button
+                key={provider.id}
+                onClick={() => handleProviderLogin(provider)}
+                className="w-full bg-white text-zinc-900 py-3 rounded-lg font-semibold transition-all flex items-center justify-center gap-3 hover:bg-zinc-100"
+              >
+                <ProviderIcon provider={provider.id} />
+                Continue with {provider.name}
+              </button>
+            ))}
+
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-white/10"></div>
+              </div>
+              <div className="relative flex justify-center text-xs uppercase">
+                <span className="bg-zinc-950 px-2 text-zinc-500">Or continue with username</span>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
@@ -283,7 +424,10 @@ const Login = () => {
             {isLoading ? <Loader2 className="animate-spin" size={20} /> : 'Sign In'}
           </button>
         </form>
-        <p className="mt-6 text-center text-zinc-400">
+        <p className="mt-4 text-center text-sm">
+          <Link to="/forgot-password" className="text-zinc-400 hover:text-white">Quên mật khẩu?</Link>
+        </p>
+        <p className="mt-4 text-center text-zinc-400">
           Don't have an account? <Link to="/register" className="text-purple-400 hover:underline">Register</Link>
         </p>
       </motion.div>
@@ -306,16 +450,14 @@ const Register = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    const invalid = formError(RegisterRequest, { username, password });
+    if (invalid) return setError(invalid);
     setIsLoading(true);
     try {
       await axios.post('/api/auth/register', { username, password });
       navigate('/login');
-    } catch (err: any) {
-      if (err.response?.status === 400) {
-        setError(err.response.data.error || 'Đăng ký thất bại.');
-      } else {
-        setError('Đăng ký thất bại. Vui lòng thử lại.');
-      }
+    } catch (err) {
+      setError(errorMessage(err));
     } finally {
       setIsLoading(false);
     }
@@ -359,7 +501,9 @@ const Register = () => {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               required
+              autoComplete="new-password"
             />
+            <PasswordPolicyHint />
           </div>
           <button 
             type="submit" 
@@ -377,47 +521,285 @@ const Register = () => {
   );
 };
 
+const ForgotPassword = () => {
+  const [identifier, setIdentifier] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      await axios.post('/api/auth/password/forgot', { identifier });
+      setMessage('Nếu tài khoản tồn tại và có email, chúng tôi đã gửi liên kết đặt lại mật khẩu. Liên kết có hiệu lực trong 60 phút.');
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="glass p-8 rounded-2xl w-full max-w-md"
+      >
+        <h2 className="text-3xl font-bold mb-2 text-center">Quên mật khẩu</h2>
+        <p className="text-zinc-400 text-sm text-center mb-6">Nhập tên người dùng hoặc email của tài khoản.</p>
+        {error && <div className="mb-6 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm text-center">{error}</div>}
+        {message ? (
+          <div className="p-4 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm">{message}</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+              type="text"
+              className="w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500"
+              placeholder="Tên người dùng hoặc email"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              required
+            />
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white py-3 rounded-lg font-semibold transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="animate-spin" size={20} /> : 'Gửi liên kết đặt lại'}
+            </button>
+          </form>
+        )}
+        <p className="mt-6 text-center text-zinc-400">
+          <Link to="/login" className="text-purple-400 hover:underline">Quay lại đăng nhập</Link>
+        </p>
+      </motion.div>
+    </div>
+  );
+};
+
+const ResetPassword = () => {
+  const token = new URLSearchParams(useLocation().search).get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isDone, setIsDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) return setError('Mật khẩu xác nhận không khớp.');
+    setError('');
+    setIsLoading(true);
+    try {
+      await axios.post('/api/auth/password/reset', { token, password });
+      setIsDone(true);
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="glass p-8 rounded-2xl w-full max-w-md"
+      >
+        <h2 className="text-3xl font-bold mb-6 text-center">Đặt lại mật khẩu</h2>
+        {error && <div className="mb-6 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm text-center">{error}</div>}
+        {isDone ? (
+          <div className="space-y-6 text-center">
+            <div className="p-4 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm">
+              Mật khẩu đã được đặt lại. Mọi thiết bị đã bị đăng xuất.
+            </div>
+            <Link to="/login" className="text-purple-400 hover:underline">Đăng nhập</Link>
+          </div>
+        ) : !token ? (
+          <p className="text-zinc-400 text-center">Liên kết không hợp lệ. <Link to="/forgot-password" className="text-purple-400 hover:underline">Yêu cầu liên kết mới</Link></p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-zinc-400 mb-1">Mật khẩu mới</label>
+              <input
+                type="password"
+                className="w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+              />
+              <PasswordPolicyHint />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-400 mb-1">Xác nhận mật khẩu</label>
+              <input
+                type="password"
+                className="w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white py-3 rounded-lg font-semibold transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="animate-spin" size={20} /> : <><KeyRound size={18} /> Đặt mật khẩu</>}
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+// First-run admin setup. Opened either with the one-time token from the server log, or after signing
+// in with an ADMIN_PASSWORD-seeded account that still has to replace it.
+const AdminSetup = () => {
+  const setupToken = new URLSearchParams(useLocation().search).get('token') || '';
+  const { user, token, login } = useAuth();
+  const navigate = useNavigate();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const needsCurrentPassword = !setupToken && !!user?.must_change_password;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) return setError('Mật khẩu xác nhận không khớp.');
+    setError('');
+    setIsLoading(true);
+    try {
+      if (setupToken) {
+        const res = await axios.post('/api/auth/setup', { token: setupToken, password });
+        login(res.data.token, res.data.user);
+      } else {
+        await axios.post('/api/account/password', { current_password: currentPassword, new_password: password }, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        login(token!, { ...user!, must_change_password: false });
+      }
+      navigate('/admin');
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!setupToken && user && !user.must_change_password) return <Navigate to="/dashboard" />;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="glass p-8 rounded-2xl w-full max-w-md"
+      >
+        <div className="flex justify-center mb-4">
+          <ShieldCheck className="text-emerald-500" size={40} />
+        </div>
+        <h2 className="text-3xl font-bold mb-2 text-center">Thiết lập quản trị viên</h2>
+        <p className="text-zinc-400 text-sm text-center mb-6">Đặt mật khẩu mới cho tài khoản admin trước khi sử dụng các chức năng quản trị.</p>
+        {error && <div className="mb-6 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm text-center">{error}</div>}
+        {!setupToken && !needsCurrentPassword ? (
+          <p className="text-zinc-400 text-center">
+            Liên kết thiết lập không hợp lệ. Dùng liên kết được in trong log của máy chủ, hoặc <Link to="/login" className="text-purple-400 hover:underline">đăng nhập</Link>.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {needsCurrentPassword && (
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Mật khẩu hiện tại</label>
+                <input
+                  type="password"
+                  className="w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  required
+                  autoComplete="current-password"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-zinc-400 mb-1">Mật khẩu mới</label>
+              <input
+                type="password"
+                className="w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+              />
+              <PasswordPolicyHint />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-zinc-400 mb-1">Xác nhận mật khẩu</label>
+              <input
+                type="password"
+                className="w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white py-3 rounded-lg font-semibold transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="animate-spin" size={20} /> : <><KeyRound size={18} /> Đặt mật khẩu</>}
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
 const AdminPanel = () => {
   const { user, token } = useAuth();
   const navigate = useNavigate();
-  const [userCount, setUserCount] = useState<number>(0);
-  const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     if (!user || user.role !== 'admin') {
       navigate('/dashboard');
       return;
     }
+    if (user.must_change_password) navigate('/setup');
+  }, [user, navigate]);
 
-    const fetchData = async () => {
-      try {
-        const res = await axios.get('/api/admin/stats', { 
-          headers: { Authorization: `Bearer ${token}` } 
-        });
-        setUserCount(res.data.userCount);
-      } catch (err) {
-        console.error('Admin stats error:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    fetchData();
-  }, [token, user, navigate]);
-
-  if (!user || user.role !== 'admin') return null;
-  if (isLoading) return <div className="pt-40 text-center"><Loader2 className="animate-spin mx-auto" /></div>;
+  if (!user || user.role !== 'admin' || user.must_change_password) return null;
 
   return (
-    <div className="pt-32 pb-20 px-6 max-w-4xl mx-auto">
+    <div className="pt-32 pb-20 px-6 max-w-5xl mx-auto">
       <div className="flex items-center gap-4 mb-12">
         <ShieldCheck className="text-emerald-500" size={32} />
         <h1 className="text-4xl font-bold">Admin Panel</h1>
       </div>
 
-      <div className="glass p-12 rounded-3xl text-center">
-        <Users size={64} className="text-purple-500 mx-auto mb-6" />
-        <h2 className="text-2xl font-semibold text-zinc-400 mb-2">Total Registered Users</h2>
-        <div className="text-7xl font-bold gradient-text">{userCount}</div>
+      <AdminAnalytics token={token!} />
+
+      <div className="mt-8">
+        <UserManagement token={token!} currentUserId={user.id} />
+      </div>
+
+      <div className="mt-8">
+        <AuditLog token={token!} />
+      </div>
+
+      <div className="mt-8">
+        <SecurityEvents token={token!} />
       </div>
     </div>
   );
@@ -426,7 +808,40 @@ const AdminPanel = () => {
 const Dashboard = () => {
   const [blogs, setBlogs] = useState<Blog[]>([]);
   const [health, setHealth] = useState<any>(null);
+  const [statusFilter, setStatusFilter] = useState<BlogStatus | ''>('');
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ tags: [], categories: [] });
+  const [tagFilter, setTagFilter] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState<BlogSort>('created');
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped after an import so the list and taxonomy are fetched again
+  const [reloadKey, setReloadKey] = useState(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Bumped whenever the list is reloaded so a late "load more" response can't append to the new list
+  const listVersion = useRef(0);
   const { user, token } = useAuth();
+  const filterParams = {
+    ...(statusFilter ? { status: statusFilter } : {}),
+    ...(tagFilter ? { tag: tagFilter } : {}),
+    ...(categoryFilter ? { category: categoryFilter } : {})
+  };
+
+  useEffect(() => {
+    const fetchTaxonomy = async () => {
+      try {
+        const res = token
+          ? await axios.get('/api/taxonomy', { headers: { Authorization: `Bearer ${token}` } })
+          : await axios.get('/api/public/taxonomy');
+        setTaxonomy(res.data);
+      } catch (err) {
+        console.error('Fetch taxonomy failed', err);
+      }
+    };
+    fetchTaxonomy();
+  }, [token, reloadKey]);
 
   useEffect(() => {
     const checkHealth = async () => {
@@ -439,17 +854,57 @@ const Dashboard = () => {
     };
     checkHealth();
 
+  }, []);
+
+  const fetchPage = async (cursor: string | null) => {
+    const headers = token ? { Authorization: `Bearer ${token}` } : {};
+    const res = await axios.get('/api/blogs', { headers, params: { ...filterParams, sort, ...(cursor ? { cursor } : {}) } });
+    return res.data as { items: Blog[]; total: number; next_cursor: string | null };
+  };
+
+  useEffect(() => {
+    const version = ++listVersion.current;
     const fetchBlogs = async () => {
       try {
-        const headers = token ? { Authorization: `Bearer ${token}` } : {};
-        const res = await axios.get('/api/blogs', { headers });
-        setBlogs(res.data);
+        const page = await fetchPage(null);
+        if (version !== listVersion.current) return;
+        setBlogs(page.items);
+        setTotal(page.total);
+        setNextCursor(page.next_cursor);
       } catch (err) {
         console.error('Fetch blogs failed', err);
       }
     };
     fetchBlogs();
-  }, [token]);
+  }, [token, statusFilter, tagFilter, categoryFilter, sort, reloadKey]);
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const version = listVersion.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      if (version !== listVersion.current) return;
+      setBlogs(prev => [...prev, ...page.items]);
+      setTotal(page.total);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      console.error('Load more blogs failed', err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Infinite scroll: load the next page once the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoadingMore]);
 
   const handleDelete = async (id: string) => {
     if (!window.confirm('Bạn có chắc chắn muốn xóa bài viết này không?')) return;
@@ -458,6 +913,7 @@ const Dashboard = () => {
         headers: { Authorization: `Bearer ${token}` }
       });
       setBlogs(blogs.filter(b => b.id !== id));
+      setTotal(count => count - 1);
     } catch (err) {
       alert('Lỗi khi xóa bài viết');
     }
@@ -465,60 +921,155 @@ const Dashboard = () => {
 
   return (
     <div className="pt-32 pb-20 px-6 max-w-7xl mx-auto">
-      {health?.firebase === 'missing_credentials' && (
+      {health && health.storage !== 'firestore' && (
         <div className="mb-8 p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 text-amber-400 text-sm">
-          <strong>Lưu ý:</strong> Firebase chưa được cấu hình. Bạn vẫn có thể tạo bài viết nhưng chúng sẽ không được lưu lại. 
-          Vui lòng thiết lập FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL và FIREBASE_PRIVATE_KEY trong Secrets.
+          <strong>Lưu ý:</strong> {health.firebase === 'missing_credentials' ? 'Firebase chưa được cấu hình. ' : ''}
+          {health.storage === 'memory'
+            ? 'Bài viết đang được lưu trong bộ nhớ và sẽ mất khi server khởi động lại. '
+            : 'Bài viết đang được lưu vào file cục bộ trên server (chế độ phát triển). '}
+          Để dùng Firestore, hãy thiết lập FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL và FIREBASE_PRIVATE_KEY trong Secrets.
         </div>
       )}
       <div className="flex justify-between items-center mb-12">
         <h1 className="text-4xl font-bold">
           {user ? 'My Blogs' : 'Public Blogs'}
         </h1>
-        <Link to="/write" className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-3 rounded-xl font-semibold flex items-center gap-2">
-          <PenTool size={20} /> New Blog
-        </Link>
+        <div className="flex flex-wrap justify-end gap-3">
+          {user && token && <LibraryTransfer token={token} onImported={() => setReloadKey(key => key + 1)} />}
+          <Link to="/write" className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-3 rounded-xl font-semibold flex items-center gap-2">
+            <PenTool size={20} /> New Blog
+          </Link>
+        </div>
       </div>
 
-      {blogs.length === 0 ? (
+      <div className="flex flex-col md:flex-row gap-4 mb-8">
+        <div className="relative flex-grow">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-500" size={20} />
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Tìm kiếm bài viết (ví dụ: pho, crème, 料理)..."
+            className="w-full bg-white/5 border border-white/10 rounded-xl pl-12 pr-4 py-3 focus:outline-none focus:border-purple-500 transition-colors"
+          />
+        </div>
+        {!searchQuery.trim() && (
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as BlogSort)}
+            className="bg-zinc-900 border border-white/10 rounded-xl px-4 py-3 text-zinc-300 focus:outline-none focus:border-purple-500"
+          >
+            {(Object.keys(SORT_LABELS) as BlogSort[]).map((key) => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {user && (
+        <div className="flex flex-wrap gap-2 mb-8">
+          {(['', 'draft', 'in_review', 'scheduled', 'published'] as const).map((status) => (
+            <button
+              key={status || 'all'}
+              onClick={() => setStatusFilter(status)}
+              className={`px-4 py-1.5 rounded-full text-sm border transition-colors ${statusFilter === status ? 'bg-purple-600 border-purple-500 text-white' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}
+            >
+              {status ? STATUS_LABELS[status] : 'Tất cả'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(taxonomy.tags.length > 0 || taxonomy.categories.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 mb-8">
+          {taxonomy.categories.length > 0 && (
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+              className="bg-zinc-900 border border-white/10 rounded-full px-4 py-1.5 text-sm text-zinc-300 focus:outline-none focus:border-purple-500"
+            >
+              <option value="">Mọi chuyên mục</option>
+              {flattenCategories(taxonomy.categories).map((category) => (
+                <option key={category.slug} value={category.slug}>
+                  {'\u00a0\u00a0'.repeat(category.depth)}{category.path.split('/').pop()} ({category.count})
+                </option>
+              ))}
+            </select>
+          )}
+          {taxonomy.tags.map((tag) => (
+            <button
+              key={tag.slug}
+              onClick={() => setTagFilter(tagFilter === tag.slug ? '' : tag.slug)}
+              className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs border transition-colors ${tagFilter === tag.slug ? 'bg-purple-600 border-purple-500 text-white' : 'bg-white/5 border-white/10 text-zinc-400 hover:text-white'}`}
+            >
+              <Tag size={12} /> {tag.name} <span className="opacity-60">{tag.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {searchQuery.trim() ? (
+        <SearchResults query={searchQuery.trim()} token={token} params={filterParams} />
+      ) : blogs.length === 0 ? (
         <div className="text-center py-20 glass rounded-3xl">
           <BookOpen className="mx-auto text-zinc-600 mb-4" size={48} />
           <p className="text-zinc-400 text-lg">No blogs yet. Start writing your first one!</p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {blogs.map((blog) => (
-            <motion.div 
-              key={blog.id}
-              whileHover={{ y: -5 }}
-              className="glass p-6 rounded-2xl flex flex-col"
-            >
-              <div className="flex justify-between items-start mb-3">
-                <h3 className="text-xl font-bold line-clamp-2">{blog.title}</h3>
-                {user && (blog.user_id === user.id || user.role === 'admin') && (
-                  <div className="flex gap-2">
-                    <Link to={`/edit/${blog.id}`} className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-white transition-colors">
-                      <Edit size={16} />
-                    </Link>
-                    <button 
-                      onClick={() => handleDelete(blog.id)}
-                      className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-red-400 transition-colors"
-                    >
-                      <Trash2 size={16} />
-                    </button>
-                  </div>
-                )}
-              </div>
-              <p className="text-zinc-400 text-sm mb-6 line-clamp-3 flex-grow">{blog.excerpt}</p>
-              <div className="flex justify-between items-center mt-auto">
-                <span className="text-xs text-zinc-500">{new Date(blog.created_at).toLocaleDateString()}</span>
-                <Link to={`/blog/${blog.id}`} className="text-purple-400 hover:text-purple-300 font-medium flex items-center gap-1">
-                  Read More <ChevronRight size={16} />
-                </Link>
-              </div>
-            </motion.div>
-          ))}
-        </div>
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {blogs.map((blog) => (
+              <motion.div 
+                key={blog.id}
+                whileHover={{ y: -5 }}
+                className="glass p-6 rounded-2xl flex flex-col"
+              >
+                <div className="flex justify-between items-start mb-3">
+                  <h3 className="text-xl font-bold line-clamp-2">{blog.title}</h3>
+                  {user && (blog.user_id === user.id || user.role === 'admin') && (
+                    <div className="flex gap-2">
+                      <Link to={`/edit/${blog.id}`} className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-white transition-colors">
+                        <Edit size={16} />
+                      </Link>
+                      <button 
+                        onClick={() => handleDelete(blog.id)}
+                        className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-red-400 transition-colors"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {user && <div className="mb-3"><StatusBadge blog={blog} /></div>}
+                <p className="text-zinc-400 text-sm mb-4 line-clamp-3 flex-grow">{blog.excerpt}</p>
+                <TaxonomyLinks blog={blog} className="mb-4" />
+                <div className="flex justify-between items-center mt-auto">
+                  <span className="text-xs text-zinc-500">
+                    {new Date(blog.created_at).toLocaleDateString()}
+                    {!user && blog.author && (
+                      <> · <Link to={`/u/${encodeURIComponent(blog.author.username)}`} className="hover:text-white">{blog.author.username}</Link></>
+                    )}
+                  </span>
+                  <Link to={blog.path || `/blog/${blog.id}`} className="text-purple-400 hover:text-purple-300 font-medium flex items-center gap-1">
+                    Read More <ChevronRight size={16} />
+                  </Link>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+          <div ref={sentinelRef} className="flex flex-col items-center gap-3 mt-10 text-sm text-zinc-500">
+            <span>Đang hiển thị {blogs.length} / {total} bài viết</span>
+            {nextCursor && (
+              <button
+                onClick={loadMore}
+                disabled={isLoadingMore}
+                className="bg-white/5 hover:bg-white/10 text-white px-6 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                {isLoadingMore && <Loader2 className="animate-spin" size={16} />} Tải thêm
+              </button>
+            )}
+          </div>
+        </>
       )}
     </div>
   );
@@ -529,175 +1080,107 @@ const WriteBlog = () => {
   const [tone, setTone] = useState('professional');
   const [language, setLanguage] = useState('Tiếng Việt');
   const [length, setLength] = useState('standard'); // short, standard, long
+  const [suggestTaxonomy, setSuggestTaxonomy] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedBlog, setGeneratedBlog] = useState<any>(null);
-  const [isDownloading, setIsDownloading] = useState(false);
-  const { token } = useAuth();
-  const navigate = useNavigate();
+  const [draft, setDraft] = useState<BlogDraft | null>(null);
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { user, token } = useAuth();
+
+  // Stop a running generation when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
+    const request = { topic, tone, language, length, suggest_taxonomy: suggestTaxonomy };
+    const invalid = formError(GenerateRequest, request);
+    if (invalid) return alert(invalid);
     setIsGenerating(true);
+    setIsCancelled(false);
+    setDraft({ title: '', excerpt: '', content: '' });
 
-    const lengthMap: Record<string, string> = {
-      short: 'Short: 300-500 words.',
-      standard: 'Standard: 800-1,200 words.',
-      long: 'In-depth: 1,500+ words.'
-    };
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        throw new Error('MISSING_API_KEY');
-      }
-
-      const ai = new GoogleGenAI({ apiKey });
-      let response;
-      try {
-        response = await ai.models.generateContent({
-          model: "gemini-3-flash-preview",
-          contents: `Chủ đề: "${topic}"
-Ngôn ngữ: ${language}
-Phong cách: ${tone}
-Độ dài yêu cầu: ${lengthMap[length]}`,
-          config: {
-            systemInstruction: `Bạn là một chuyên gia viết blog chuyên nghiệp, có khả năng viết lách xuất sắc.
-Nhiệm vụ: Viết một bài blog chi tiết, giàu giá trị, định dạng Markdown đẹp mắt (H1, H2, H3, lists).
-Yêu cầu quan trọng:
-- Tuyệt đối không sai lỗi chính tả tiếng Việt.
-- Sử dụng bảng mã UTF-8 chuẩn, không dùng các ký tự lạ gây lỗi font.
-- Văn phong trôi chảy, chuyên nghiệp, lôi cuốn.
-- Đảm bảo độ dài bài viết phù hợp với yêu cầu: ${lengthMap[length]}.
-- Nếu yêu cầu là "In-depth" (Chuyên sâu), hãy viết cực kỳ chi tiết, phân tích đa chiều, có ví dụ cụ thể.`,
-            thinkingConfig: { thinkingLevel: ThinkingLevel.LOW },
-            maxOutputTokens: 12000,
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING, description: "Tiêu đề bài viết hấp dẫn" },
-                excerpt: { type: Type.STRING, description: "Tóm tắt ngắn gọn 2 câu" },
-                content: { type: Type.STRING, description: "Nội dung bài viết định dạng Markdown" }
-              },
-              required: ["title", "excerpt", "content"]
-            }
+      const res = await fetchWithSession('/api/generate/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: controller.signal
+      }, token);
+      if (!res.ok || !res.body) throw await readFetchError(res);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const frames = pending.split('\n\n');
+        pending = frames.pop() || '';
+
+        for (const frame of frames) {
+          const event = frame.match(/^event: (.*)$/m)?.[1];
+          const data = frame.match(/^data: (.*)$/m)?.[1];
+          if (!event || !data) continue;
+          const payload = JSON.parse(data);
+
+          if (event === 'delta') {
+            const field = payload.field as keyof BlogDraft;
+            setDraft(prev => prev && { ...prev, [field]: prev[field] + payload.text });
+          } else if (event === 'done') {
+            setGeneratedBlog(payload);
+            setDraft(null);
+          } else if (event === 'error') {
+            throw new ApiRequestError(payload);
           }
-        });
-      } catch (aiErr: any) {
-        console.error('AI API Error:', aiErr);
-        const detail = aiErr.message || 'Unknown AI error';
-        throw new Error(`AI_GENERATION_FAILED|${detail}`);
-      }
-
-      let text = response.text || '';
-      if (!text) throw new Error('AI_EMPTY_RESPONSE');
-
-      // Clean up potential markdown code blocks
-      text = text.replace(/```json\n?/, '').replace(/\n?```/, '').trim();
-      
-      let result;
-      try {
-        result = JSON.parse(text);
-      } catch (parseErr) {
-        console.error('JSON Parse Error:', parseErr, 'Raw text:', text);
-        throw new Error('INVALID_JSON_FORMAT');
+        }
       }
-      
-      if (!result.title || !result.content) {
-        throw new Error('INCOMPLETE_DATA');
-      }
-      
-      // Save to database
-      try {
-        const headers = token ? { Authorization: `Bearer ${token}` } : {};
-        const dbRes = await axios.post('/api/blogs', {
-          ...result,
-          tone,
-          language
-        }, { headers });
-        setGeneratedBlog(dbRes.data);
-      } catch (dbErr: any) {
-        console.error('Database Error:', dbErr);
-        const serverMsg = dbErr.response?.data?.details || dbErr.message;
-        throw new Error(`DATABASE_SAVE_FAILED|${serverMsg}`);
-      }
-    } catch (err: any) {
+    } catch (err) {
+      if (controller.signal.aborted) return;
       console.error('Full Error Object:', err);
-      let errorMsg = '';
-      const [errCode, errDetail] = err.message.split('|');
-      
-      switch (errCode) {
-        case 'MISSING_API_KEY':
-          errorMsg = 'Thiếu GEMINI_API_KEY. Vui lòng kiểm tra file .env và khởi động lại server.';
-          break;
-        case 'AI_GENERATION_FAILED':
-          errorMsg = `AI không thể tạo nội dung: ${errDetail || 'Lỗi kết nối hoặc hết hạn ngạch'}.`;
-          break;
-        case 'DATABASE_SAVE_FAILED':
-          errorMsg = `Lỗi lưu dữ liệu: ${errDetail || 'Không thể kết nối tới Firebase'}. Hãy đảm bảo bạn đã cấu hình FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL và FIREBASE_PRIVATE_KEY trong file .env.`;
-          break;
-        case 'AI_EMPTY_RESPONSE':
-          errorMsg = 'AI trả về kết quả rỗng. Vui lòng thử lại.';
-          break;
-        case 'INVALID_JSON_FORMAT':
-          errorMsg = 'Lỗi định dạng dữ liệu từ AI. Vui lòng thử lại với chủ đề khác.';
-          break;
-        default:
-          errorMsg = 'Đã có lỗi xảy ra: ' + (err.message || 'Unknown error');
-      }
-      alert(errorMsg);
+      setDraft(null);
+      alert(errorMessage(err));
     } finally {
+      abortRef.current = null;
       setIsGenerating(false);
     }
   };
 
-  const handleDownloadWord = async () => {
-    if (!generatedBlog) return;
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setIsCancelled(true);
+  };
 
-    setIsDownloading(true);
+  const handleKeepDraft = async () => {
+    if (!draft) return;
+    const blog = { title: draft.title || topic, excerpt: draft.excerpt, content: draft.content, tone, language };
+    const invalid = formError(BlogRequest, blog);
+    if (invalid) return alert(invalid);
+    setIsSavingDraft(true);
     try {
-      const doc = new Document({
-        sections: [{
-          properties: {},
-          children: [
-            new Paragraph({
-              text: generatedBlog.title,
-              heading: HeadingLevel.HEADING_1,
-              spacing: { after: 400 },
-            }),
-            ...generatedBlog.content.split('\n').map((line: string) => {
-              const trimmed = line.trim();
-              if (trimmed.startsWith('### ')) {
-                return new Paragraph({ text: trimmed.replace('### ', ''), heading: HeadingLevel.HEADING_3, spacing: { before: 240, after: 120 } });
-              } else if (trimmed.startsWith('## ')) {
-                return new Paragraph({ text: trimmed.replace('## ', ''), heading: HeadingLevel.HEADING_2, spacing: { before: 300, after: 150 } });
-              } else if (trimmed.startsWith('# ')) {
-                return new Paragraph({ text: trimmed.replace('# ', ''), heading: HeadingLevel.HEADING_1, spacing: { before: 400, after: 200 } });
-              } else if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-                return new Paragraph({ text: trimmed.substring(2), bullet: { level: 0 }, spacing: { after: 120 } });
-              } else if (trimmed === '') {
-                return new Paragraph({ text: '', spacing: { after: 120 } });
-              } else {
-                return new Paragraph({
-                  children: [new TextRun(trimmed)],
-                  spacing: { after: 200 },
-                });
-              }
-            }),
-          ],
-        }],
-      });
-
-      const blob = await Packer.toBlob(doc);
-      saveAs(blob, `${generatedBlog.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.docx`);
-    } catch (err: any) {
-      console.error('Word Download error:', err);
-      alert('Không thể tải xuống bản Word. Vui lòng thử lại.');
+      const headers = token ? { Authorization: `Bearer ${token}` } : {};
+      const res = await axios.post('/api/blogs', blog, { headers });
+      setGeneratedBlog(res.data);
+      setDraft(null);
+      setIsCancelled(false);
+    } catch (err) {
+      console.error('Save draft error:', err);
+      alert(errorMessage(err));
     } finally {
-      setIsDownloading(false);
+      setIsSavingDraft(false);
     }
   };
 
+  const handleDiscardDraft = () => {
+    setDraft(null);
+    setIsCancelled(false);
+  };
+
   if (generatedBlog) {
     return (
       <div className="pt-32 pb-20 px-6 max-w-4xl mx-auto">
@@ -713,15 +1196,8 @@ Yêu cầu quan trọng:
             >
               <ChevronRight className="rotate-180" size={20} /> Write Another
             </button>
-            <div className="flex gap-3">
-              <button 
-                onClick={handleDownloadWord}
-                disabled={isDownloading}
-                className="bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2 border border-white/10 disabled:opacity-50"
-              >
-                {isDownloading ? <Loader2 className="animate-spin" size={18} /> : <FileText size={18} />}
-                {isDownloading ? 'Preparing...' : 'Download Word'}
-              </button>
+            <div className="flex flex-wrap justify-end gap-3">
+              <ExportButtons blog={generatedBlog} author={user?.username} />
               <Link 
                 to="/dashboard"
                 className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-2 rounded-xl font-semibold transition-colors"
@@ -736,7 +1212,9 @@ Yêu cầu quan trọng:
             <div className="flex gap-4 mb-8 text-sm text-zinc-500">
               <span className="bg-white/5 px-3 py-1 rounded-full border border-white/10 uppercase tracking-wider">{generatedBlog.tone}</span>
               <span className="bg-white/5 px-3 py-1 rounded-full border border-white/10 uppercase tracking-wider">{generatedBlog.language}</span>
+              <StatusBadge blog={generatedBlog} />
             </div>
+            <TaxonomyLinks blog={generatedBlog} className="-mt-4 mb-8" />
 
             <div className="markdown-body">
               <Markdown>{generatedBlog.content}</Markdown>
@@ -809,9 +1287,18 @@ Yêu cầu quan trọng:
               </select>
             </div>
           </div>
+          <label className="flex items-center gap-2 text-sm text-zinc-400">
+            <input
+              type="checkbox"
+              checked={suggestTaxonomy}
+              onChange={(e) => setSuggestTaxonomy(e.target.checked)}
+              className="accent-purple-600"
+            />
+            Gợi ý thẻ và chuyên mục bằng AI
+          </label>
           <button 
             type="submit" 
-            disabled={isGenerating}
+            disabled={isGenerating || isCancelled}
             className="w-full bg-gradient-to-r from-purple-600 to-emerald-600 hover:from-purple-700 hover:to-emerald-700 text-white py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all disabled:opacity-50"
           >
             {isGenerating ? (
@@ -826,6 +1313,52 @@ Yêu cầu quan trọng:
           </button>
         </form>
       </motion.div>
+
+      {draft && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass p-8 rounded-3xl mt-8"
+        >
+          <div className="flex justify-between items-center mb-6">
+            <span className="text-sm text-zinc-500 flex items-center gap-2">
+              {isGenerating ? <><Loader2 className="animate-spin" size={16} /> Đang viết...</> : 'Bản nháp đã bị dừng'}
+            </span>
+            {isGenerating ? (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2 border border-white/10"
+              >
+                <Square size={16} /> Dừng
+              </button>
+            ) : isCancelled && (
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleKeepDraft}
+                  disabled={isSavingDraft || !draft.content}
+                  className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  {isSavingDraft ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} Giữ bản nháp
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDiscardDraft}
+                  className="bg-white/5 hover:bg-white/10 text-white px-4 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2"
+                >
+                  <Trash2 size={16} /> Bỏ
+                </button>
+              </div>
+            )}
+          </div>
+          {draft.title && <h1 className="text-4xl font-bold mb-4 text-white">{draft.title}</h1>}
+          {draft.excerpt && <p className="text-zinc-400 mb-8 italic">{draft.excerpt}</p>}
+          <div className="markdown-body">
+            <Markdown>{draft.content}</Markdown>
+          </div>
+        </motion.div>
+      )}
     </div>
   );
 };
@@ -835,38 +1368,65 @@ const EditBlog = () => {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [excerpt, setExcerpt] = useState('');
+  const [status, setStatus] = useState<BlogStatus>('draft');
+  const [publishAt, setPublishAt] = useState('');
+  const [tags, setTags] = useState('');
+  const [category, setCategory] = useState('');
+  const [knownCategories, setKnownCategories] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const { token } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
     const fetchBlog = async () => {
       try {
-        const res = await axios.get(`/api/blogs/${id}`);
+        const res = await axios.get(`/api/blogs/${id}`, { headers: { Authorization: `Bearer ${token}` } });
         setTitle(res.data.title);
         setContent(res.data.content);
         setExcerpt(res.data.excerpt);
+        setStatus(res.data.status || 'published');
+        setPublishAt(toDateTimeLocal(res.data.publish_at));
+        setTags((res.data.tags || []).join(', '));
+        setCategory(res.data.category || '');
       } catch (err) {
         console.error(err);
       } finally {
         setIsLoading(false);
       }
     };
+    const fetchTaxonomy = async () => {
+      try {
+        const res = await axios.get('/api/taxonomy', { headers: { Authorization: `Bearer ${token}` } });
+        setKnownCategories(flattenCategories(res.data.categories).map(c => c.path));
+      } catch (err) {
+        console.error('Fetch taxonomy failed', err);
+      }
+    };
     fetchBlog();
-  }, [id]);
+    fetchTaxonomy();
+  }, [id, token]);
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
+    const blog = {
+      title,
+      content,
+      excerpt,
+      status,
+      publish_at: status === 'scheduled' && publishAt ? new Date(publishAt).toISOString() : null,
+      tags,
+      category
+    };
+    const invalid = formError(BlogUpdateRequest, blog);
+    if (invalid) return alert(invalid);
     setIsSaving(true);
     try {
-      await axios.put(`/api/blogs/${id}`, 
-        { title, content, excerpt },
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
+      await axios.put(`/api/blogs/${id}`, blog, { headers: { Authorization: `Bearer ${token}` } });
       navigate('/dashboard');
     } catch (err) {
-      alert('Lỗi khi lưu bài viết');
+      alert(errorMessage(err));
     } finally {
       setIsSaving(false);
     }
@@ -876,7 +1436,28 @@ const EditBlog = () => {
 
   return (
     <div className="pt-32 pb-20 px-6 max-w-4xl mx-auto">
-      <h1 className="text-3xl font-bold mb-8">Sửa bài viết</h1>
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Sửa bài viết</h1>
+        <button
+          type="button"
+          onClick={() => setShowHistory(!showHistory)}
+          className="bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2 border border-white/10"
+        >
+          <History size={18} /> Lịch sử
+        </button>
+      </div>
+      {showHistory && id && (
+        <RevisionHistory
+          blogId={id}
+          token={token}
+          onClose={() => setShowHistory(false)}
+          onRestored={(restored) => {
+            setTitle(restored.title);
+            setContent(restored.content);
+            setExcerpt(restored.excerpt);
+          }}
+        />
+      )}
       <form onSubmit={handleSave} className="space-y-6">
         <div>
           <label className="block text-sm font-medium text-zinc-400 mb-2">Tiêu đề</label>
@@ -906,6 +1487,58 @@ const EditBlog = () => {
             required
           />
         </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-2">Thẻ (phân cách bằng dấu phẩy)</label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="ẩm thực, phở, hà nội"
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 focus:outline-none focus:border-purple-500 transition-colors"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-2">Chuyên mục (dùng / cho chuyên mục con)</label>
+            <input
+              type="text"
+              list="known-categories"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="Ẩm thực/Món Việt"
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 focus:outline-none focus:border-purple-500 transition-colors"
+            />
+            <datalist id="known-categories">
+              {knownCategories.map(path => <option key={path} value={path} />)}
+            </datalist>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-2">Trạng thái</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as BlogStatus)}
+              className="w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-3 focus:outline-none focus:border-purple-500"
+            >
+              {(Object.keys(STATUS_LABELS) as BlogStatus[]).map((key) => (
+                <option key={key} value={key}>{STATUS_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          {status === 'scheduled' && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-400 mb-2">Thời gian xuất bản</label>
+              <input
+                type="datetime-local"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+                className="w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-3 focus:outline-none focus:border-purple-500"
+                required
+              />
+            </div>
+          )}
+        </div>
         <div className="flex gap-4">
           <button 
             type="submit"
@@ -928,71 +1561,31 @@ const EditBlog = () => {
 };
 
 const BlogDetail = () => {
-  const { id } = useParams<{ id: string }>();
+  // Reached either by ID (/blog/:id) or by its public URL (/u/:username/:slug)
+  const { id, username, slug } = useParams<{ id: string; username: string; slug: string }>();
   const [blog, setBlog] = useState<Blog | null>(null);
-  const [isDownloading, setIsDownloading] = useState(false);
-  const { token } = useAuth();
+  const [showHistory, setShowHistory] = useState(false);
+  const { user, token } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
     const fetchBlog = async () => {
       try {
         const headers = token ? { Authorization: `Bearer ${token}` } : {};
-        const res = await axios.get(`/api/blogs/${id}`, { headers });
+        const url = id
+          ? `/api/blogs/${id}`
+          : `/api/public/users/${encodeURIComponent(username!)}/blogs/${encodeURIComponent(slug!)}`;
+        const res = await axios.get(url, { headers });
         setBlog(res.data);
+        if (id && res.data.path && res.data.path !== `/blog/${id}`) {
+          navigate(res.data.path, { replace: true });
+        }
       } catch (err) {
         navigate('/dashboard');
       }
     };
     fetchBlog();
-  }, [id, token, navigate]);
-
-  const handleDownloadWord = async () => {
-    if (!blog) return;
-
-    setIsDownloading(true);
-    try {
-      const doc = new Document({
-        sections: [{
-          properties: {},
-          children: [
-            new Paragraph({
-              text: blog.title,
-              heading: HeadingLevel.HEADING_1,
-              spacing: { after: 400 },
-            }),
-            ...blog.content.split('\n').map((line: string) => {
-              const trimmed = line.trim();
-              if (trimmed.startsWith('### ')) {
-                return new Paragraph({ text: trimmed.replace('### ', ''), heading: HeadingLevel.HEADING_3, spacing: { before: 240, after: 120 } });
-              } else if (trimmed.startsWith('## ')) {
-                return new Paragraph({ text: trimmed.replace('## ', ''), heading: HeadingLevel.HEADING_2, spacing: { before: 300, after: 150 } });
-              } else if (trimmed.startsWith('# ')) {
-                return new Paragraph({ text: trimmed.replace('# ', ''), heading: HeadingLevel.HEADING_1, spacing: { before: 400, after: 200 } });
-              } else if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-                return new Paragraph({ text: trimmed.substring(2), bullet: { level: 0 }, spacing: { after: 120 } });
-              } else if (trimmed === '') {
-                return new Paragraph({ text: '', spacing: { after: 120 } });
-              } else {
-                return new Paragraph({
-                  children: [new TextRun(trimmed)],
-                  spacing: { after: 200 },
-                });
-              }
-            }),
-          ],
-        }],
-      });
-
-      const blob = await Packer.toBlob(doc);
-      saveAs(blob, `${blog.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.docx`);
-    } catch (err: any) {
-      console.error('Word Download error:', err);
-      alert('Không thể tải xuống bản Word.');
-    } finally {
-      setIsDownloading(false);
-    }
-  };
+  }, [id, username, slug, token, navigate]);
 
   if (!blog) return <div className="pt-40 text-center"><Loader2 className="animate-spin mx-auto" /></div>;
 
@@ -1002,15 +1595,26 @@ const BlogDetail = () => {
         <Link to="/dashboard" className="text-zinc-400 hover:text-white flex items-center gap-2 transition-colors">
           <ArrowLeft size={18} /> Back to Dashboard
         </Link>
-        <button 
-          onClick={handleDownloadWord}
-          disabled={isDownloading}
-          className="bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2 border border-white/10 disabled:opacity-50"
-        >
-          {isDownloading ? <Loader2 className="animate-spin" size={18} /> : <FileText size={18} />}
-          {isDownloading ? 'Preparing...' : 'Download Word'}
-        </button>
+        <div className="flex flex-wrap justify-end gap-3">
+          {user && (blog.user_id === user.id || user.role === 'admin') && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2 border border-white/10"
+            >
+              <History size={18} /> History
+            </button>
+          )}
+          <ExportButtons blog={blog} author={blog.author?.username} />
+        </div>
       </div>
+      {showHistory && (
+        <RevisionHistory
+          blogId={blog.id}
+          token={token}
+          onClose={() => setShowHistory(false)}
+          onRestored={(restored) => setBlog(restored)}
+        />
+      )}
       <motion.div 
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -1019,12 +1623,20 @@ const BlogDetail = () => {
       >
         <h1 className="text-4xl md:text-5xl font-bold mb-6">{blog.title}</h1>
         <div className="flex items-center gap-4 mb-12 text-zinc-500 text-sm">
-          <span>{new Date(blog.created_at).toLocaleDateString()}</span>
+          {blog.status && blog.status !== 'published' && <StatusBadge blog={blog} />}
+          {blog.author && (
+            <>
+              <Link to={`/u/${encodeURIComponent(blog.author.username)}`} className="text-zinc-300 hover:text-white">{blog.author.username}</Link>
+              <span>•</span>
+            </>
+          )}
+          <span>{new Date(blog.published_at || blog.created_at).toLocaleDateString()}</span>
           <span>•</span>
           <span className="capitalize">{blog.tone}</span>
           <span>•</span>
           <span>{blog.language}</span>
         </div>
+        <TaxonomyLinks blog={blog} className="-mt-8 mb-12" />
         <div className="markdown-body">
           <Markdown>{blog.content}</Markdown>
         </div>
@@ -1033,31 +1645,219 @@ const BlogDetail = () => {
   );
 };
 
+const AuthorPage = () => {
+  const { username } = useParams<{ username: string }>();
+  const [profile, setProfile] = useState<AuthorProfile | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const res = await axios.get(`/api/public/users/${encodeURIComponent(username!)}`);
+        setProfile(res.data);
+      } catch (err) {
+        setNotFound(true);
+      }
+    };
+    fetchProfile();
+  }, [username]);
+
+  if (notFound) {
+    return (
+      <div className="pt-40 text-center text-zinc-400">
+        Không tìm thấy tác giả. <Link to="/dashboard" className="text-purple-400 hover:underline">Quay lại</Link>
+      </div>
+    );
+  }
+  if (!profile) return <div className="pt-40 text-center"><Loader2 className="animate-spin mx-auto" /></div>;
+
+  return (
+    <div className="pt-32 pb-20 px-6 max-w-4xl mx-auto">
+      <div className="flex items-center gap-6 mb-12">
+        {profile.avatar ? (
+          <img src={profile.avatar} alt={profile.username} className="w-20 h-20 rounded-full border border-white/10" referrerPolicy="no-referrer" />
+        ) : (
+          <div className="w-20 h-20 rounded-full bg-gradient-to-tr from-purple-500 to-emerald-500 flex items-center justify-center text-2xl font-bold">
+            {profile.username.substring(0, 2).toUpperCase()}
+          </div>
+        )}
+        <div>
+          <h1 className="text-4xl font-bold">{profile.username}</h1>
+          <p className="text-zinc-500 text-sm">
+            {profile.blogs.length} bài viết · Tham gia {new Date(profile.created_at).toLocaleDateString()}
+          </p>
+        </div>
+        <div className="ml-auto flex gap-2 text-xs">
+          {([['feed.xml', 'RSS'], ['atom.xml', 'Atom'], ['feed.json', 'JSON']] as const).map(([file, label]) => (
+            <a
+              key={file}
+              href={`/u/${encodeURIComponent(profile.username)}/${file}`}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-zinc-400 hover:text-orange-300 transition-colors"
+            >
+              <Rss size={14} /> {label}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {profile.blogs.length === 0 ? (
+        <div className="text-center py-20 glass rounded-3xl">
+          <BookOpen className="mx-auto text-zinc-600 mb-4" size={48} />
+          <p className="text-zinc-400 text-lg">Chưa có bài viết nào được xuất bản.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {profile.blogs.map((blog) => (
+            <Link key={blog.id} to={blog.path || `/blog/${blog.id}`} className="block glass p-6 rounded-2xl hover:bg-white/10 transition-colors">
+              <h2 className="text-xl font-bold mb-2">{blog.title}</h2>
+              <p className="text-zinc-400 text-sm line-clamp-2 mb-3">{blog.excerpt}</p>
+              <span className="text-xs text-zinc-500">{new Date(blog.published_at || blog.created_at).toLocaleDateString()}</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Landing page for /tags/:tag and /categories/* listing public posts
+const TaxonomyPage = ({ kind }: { kind: 'tag' | 'category' }) => {
+  const params = useParams();
+  const value = kind === 'tag' ? params.tag! : params['*']!;
+  const [listing, setListing] = useState<TaxonomyListing | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    const fetchListing = async () => {
+      setListing(null);
+      setNotFound(false);
+      try {
+        const url = kind === 'tag'
+          ? `/api/public/tags/${encodeURIComponent(value)}`
+          : `/api/public/categories/${value.split('/').map(encodeURIComponent).join('/')}`;
+        const res = await axios.get(url);
+        setListing(res.data);
+      } catch (err) {
+        setNotFound(true);
+      }
+    };
+    fetchListing();
+  }, [kind, value]);
+
+  if (notFound) {
+    return (
+      <div className="pt-40 text-center text-zinc-400">
+        Không có bài viết nào. <Link to="/dashboard" className="text-purple-400 hover:underline">Quay lại</Link>
+      </div>
+    );
+  }
+  if (!listing) return <div className="pt-40 text-center"><Loader2 className="animate-spin mx-auto" /></div>;
+
+  return (
+    <div className="pt-32 pb-20 px-6 max-w-4xl mx-auto">
+      <p className="text-sm text-zinc-500 mb-2 flex items-center gap-2">
+        {kind === 'tag' ? <><Tag size={14} /> Thẻ</> : <><Folder size={14} /> Chuyên mục</>}
+      </p>
+      <h1 className="text-4xl font-bold mb-2">{listing.name}</h1>
+      <p className="text-zinc-500 text-sm mb-12">{listing.blogs.length} bài viết</p>
+      <div className="space-y-4">
+        {listing.blogs.map((blog) => (
+          <div key={blog.id} className="glass p-6 rounded-2xl">
+            <Link to={blog.path || `/blog/${blog.id}`} className="block hover:text-purple-300 transition-colors">
+              <h2 className="text-xl font-bold mb-2">{blog.title}</h2>
+            </Link>
+            <p className="text-zinc-400 text-sm line-clamp-2 mb-3">{blog.excerpt}</p>
+            <TaxonomyLinks blog={blog} className="mb-3" />
+            <span className="text-xs text-zinc-500">
+              {new Date(blog.published_at || blog.created_at).toLocaleDateString()}
+              {blog.author && (
+                <> · <Link to={`/u/${encodeURIComponent(blog.author.username)}`} className="hover:text-white">{blog.author.username}</Link></>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SettingsPage = () => {
+  const { user, token, login, logout } = useAuth();
+  if (!token || !user) return null;
+  return (
+    <div className="pt-32 pb-20 px-6 max-w-3xl mx-auto space-y-10">
+      <h1 className="text-4xl font-bold">Cài đặt tài khoản</h1>
+      <AccountSettings
+        token={token}
+        onProfileChange={(account) => login(token, { ...user, avatar: account.avatar })}
+        onDeleted={logout}
+      />
+      <section>
+        <h2 className="text-xl font-bold mb-2">Phiên đăng nhập</h2>
+        <p className="text-zinc-400 text-sm mb-4">Các thiết bị đang đăng nhập vào tài khoản của bạn. Đăng xuất những thiết bị bạn không nhận ra.</p>
+        <SessionList token={token} onSignedOut={logout} />
+      </section>
+      <section>
+        <h2 className="text-xl font-bold mb-2">Token truy cập cá nhân</h2>
+        <p className="text-zinc-400 text-sm mb-4">
+          Cho phép script và ứng dụng khác gọi API thay bạn, chỉ với các quyền đã chọn. Xem <a href="/api/docs" target="_blank" rel="noreferrer" className="text-purple-400 hover:underline">tài liệu API</a>.
+        </p>
+        <AccessTokens token={token} />
+      </section>
+      <section>
+        <h2 className="text-xl font-bold mb-2">Webhook</h2>
+        <p className="text-zinc-400 text-sm mb-4">
+          Gửi thông báo có chữ ký HMAC-SHA256 tới dịch vụ khác khi bài viết của bạn được tạo, sửa, xuất bản hoặc xóa. Lần gửi thất bại được tự động thử lại.
+        </p>
+        <Webhooks token={token} />
+      </section>
+    </div>
+  );
+};
+
 // --- Main App ---
 
 export default function App() {
   const navigate = useNavigate();
+  // Only the profile is remembered across reloads; the access token is restored from the refresh cookie
   const [user, setUser] = useState<User | null>(() => {
     const saved = localStorage.getItem('user');
     return saved ? JSON.parse(saved) : null;
   });
-  const [token, setToken] = useState<string | null>(() => localStorage.getItem('token'));
+  const [token, setToken] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(() => !!localStorage.getItem('user'));
+
+  useEffect(() => {
+    // Tokens were kept in localStorage before refresh cookies existed
+    localStorage.removeItem('token');
+    const unsubscribe = onSessionChange((session) => {
+      setToken(session?.token ?? null);
+      setUser(session?.user ?? null);
+      if (session) localStorage.setItem('user', JSON.stringify(session.user));
+      else localStorage.removeItem('user');
+    });
+    if (isRestoring) refreshSession().finally(() => setIsRestoring(false));
+    return unsubscribe;
+  }, []);
 
   const login = (newToken: string, newUser: User) => {
     setToken(newToken);
     setUser(newUser);
-    localStorage.setItem('token', newToken);
     localStorage.setItem('user', JSON.stringify(newUser));
   };
 
   const logout = () => {
+    endSession();
     setToken(null);
     setUser(null);
-    localStorage.removeItem('token');
     localStorage.removeItem('user');
     navigate('/');
   };
 
+  if (isRestoring) {
+    return <div className="min-h-screen bg-zinc-950 pt-40 text-center"><Loader2 className="animate-spin mx-auto text-purple-500" /></div>;
+  }
+
   return (
     <AuthContext.Provider value={{ user, token, login, logout }}>
       <div className="min-h-screen bg-zinc-950">
@@ -1072,6 +1872,14 @@ export default function App() {
             <Route path="/write" element={<WriteBlog />} />
             <Route path="/edit/:id" element={<EditBlog />} />
             <Route path="/blog/:id" element={<BlogDetail />} />
+            <Route path="/u/:username" element={<AuthorPage />} />
+            <Route path="/u/:username/:slug" element={<BlogDetail />} />
+            <Route path="/tags/:tag" element={<TaxonomyPage kind="tag" />} />
+            <Route path="/categories/*" element={<TaxonomyPage kind="category" />} />
+            <Route path="/settings" element={<ProtectedRoute><SettingsPage /></ProtectedRoute>} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/setup" element={<AdminSetup />} />
           </Routes>
         </AnimatePresence>
       </div>
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2, Copy, Check, KeyRound } from 'lucide-react';
+import axios from 'axios';
+import { errorMessage } from '../errors.ts';
+
+// --- Types ---
+type AccessTokenScope = 'blogs:read' | 'blogs:write' | 'generate';
+
+interface AccessToken {
+  id: string;
+  name: string;
+  scopes: AccessTokenScope[];
+  hint: string;
+  expires_at: string;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+const SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  'blogs:read': 'Đọc bài viết',
+  'blogs:write': 'Tạo và sửa bài viết',
+  'generate': 'Tạo bài bằng AI'
+};
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+const inputClass = 'w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500';
+
+const isExpired = (token: AccessToken) => new Date(token.expires_at).getTime() <= Date.now();
+
+// Personal access tokens for scripts and integrations. A new token is shown once, right after it is created.
+export const AccessTokens = ({ token }: { token: string }) => {
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [scopes, setScopes] = useState<AccessTokenScope[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<AccessTokenScope[]>(['blogs:read']);
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const fetchTokens = async () => {
+    try {
+      const res = await axios.get('/api/account/tokens', { headers });
+      setTokens(res.data.items);
+      setScopes(res.data.scopes);
+    } catch (err) {
+      console.error('Fetch access tokens failed', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, [token]);
+
+  const toggleScope = (scope: AccessTokenScope) =>
+    setSelectedScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError('');
+    try {
+      const res = await axios.post('/api/account/tokens', { name, scopes: selectedScopes, expires_in_days: expiresInDays }, { headers });
+      const { token: secret, ...summary } = res.data;
+      setTokens(prev => [summary, ...prev]);
+      setCreated(secret);
+      setCopied(false);
+      setName('');
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copyCreated = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created);
+    setCopied(true);
+  };
+
+  const revoke = async (accessToken: AccessToken) => {
+    if (!window.confirm(`Thu hồi token "${accessToken.name}"? Các tích hợp đang dùng token này sẽ ngừng hoạt động.`)) return;
+    setBusyId(accessToken.id);
+    try {
+      await axios.delete(`/api/account/tokens/${accessToken.id}`, { headers });
+      setTokens(prev => prev.filter(t => t.id !== accessToken.id));
+    } catch (err) {
+      alert('Không thể thu hồi token');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) return <div className="py-10 text-center"><Loader2 className="animate-spin mx-auto" /></div>;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCreate} className="glass p-6 rounded-2xl space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-zinc-400 mb-1">Tên</label>
+            <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} maxLength={100} required placeholder="Ví dụ: Script đăng bài" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-1">Hết hạn sau</label>
+            <select className={inputClass} value={expiresInDays} onChange={(e) => setExpiresInDays(Number(e.target.value))}>
+              {EXPIRY_OPTIONS.map(days => <option key={days} value={days}>{days} ngày</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {scopes.map(scope => (
+            <label key={scope} className="flex items-center gap-2">
+              <input type="checkbox" checked={selectedScopes.includes(scope)} onChange={() => toggleScope(scope)} className="accent-purple-600" />
+              {SCOPE_LABELS[scope] || scope} <code className="text-xs text-zinc-500">{scope}</code>
+            </label>
+          ))}
+        </div>
+        {error && <div className="p-3 rounded-lg text-sm border bg-red-500/10 border-red-500/20 text-red-400">{error}</div>}
+        <button type="submit" disabled={isCreating || !selectedScopes.length} className="bg-purple-600 hover:bg-purple-700 text-white px-5 py-2 rounded-lg font-semibold flex items-center gap-2 disabled:opacity-50">
+          {isCreating ? <Loader2 className="animate-spin" size={18} /> : <Plus size={18} />} Tạo token
+        </button>
+      </form>
+
+      {created && (
+        <div className="p-4 rounded-2xl border bg-emerald-500/10 border-emerald-500/20 space-y-2">
+          <p className="text-sm text-emerald-400">Sao chép token ngay bây giờ. Bạn sẽ không thể xem lại nó.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-grow min-w-0 truncate bg-zinc-900 rounded-lg px-3 py-2 text-sm">{created}</code>
+            <button onClick={copyCreated} className="p-2 hover:bg-white/10 rounded-lg text-zinc-300 transition-colors" title="Sao chép">
+              {copied ? <Check size={18} /> : <Copy size={18} />}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tokens.map((accessToken) => (
+        <div key={accessToken.id} className="glass p-5 rounded-2xl flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-white/5 text-zinc-400">
+            <KeyRound size={20} />
+          </div>
+          <div className="flex-grow min-w-0">
+            <div className="font-semibold flex items-center gap-2">
+              {accessToken.name}
+              <span className="text-xs text-zinc-500 font-mono">…{accessToken.hint}</span>
+              {isExpired(accessToken) && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/10 text-red-400 border border-red-500/20">Đã hết hạn</span>
+              )}
+            </div>
+            <p className="text-xs text-zinc-500 truncate">
+              {accessToken.scopes.join(', ')} · Hết hạn {new Date(accessToken.expires_at).toLocaleDateString()} · {accessToken.last_used_at ? `Dùng lần cuối ${new Date(accessToken.last_used_at).toLocaleString()}` : 'Chưa sử dụng'}
+            </p>
+          </div>
+          <button
+            onClick={() => revoke(accessToken)}
+            disabled={busyId !== null}
+            className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-red-400 transition-colors disabled:opacity-50"
+            title="Thu hồi token"
+          >
+            {busyId === accessToken.id ? <Loader2 className="animate-spin" size={18} /> : <Trash2 size={18} />}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Save, KeyRound, Trash2, UserCircle, Link2, Unlink } from 'lucide-react';
+import axios from 'axios';
+import { errorMessage } from '../errors.ts';
+import { BlogDeletionMode } from '../../shared/api.ts';
+import { PasswordPolicyHint } from './PasswordPolicyHint.tsx';
+import { useOAuthProviders, useOAuthMessages, openOAuthPopup, ProviderIcon, OAuthProviderId } from './OAuthProviders.tsx';
+
+// --- Types ---
+export interface Account {
+  id: string;
+  username: string;
+  role: 'user' | 'admin';
+  avatar: string | null;
+  email: string | null;
+  created_at: string;
+  has_password: boolean;
+  identities: LinkedIdentity[];
+}
+
+export interface LinkedIdentity {
+  provider: OAuthProviderId;
+  email: string | null;
+  name: string | null;
+  created_at: string;
+}
+
+const inputClass = 'w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500';
+const sectionClass = 'glass p-6 rounded-2xl space-y-4';
+
+const Notice = ({ kind, children }: { kind: 'error' | 'success'; children: React.ReactNode }) => (
+  <div className={`p-3 rounded-lg text-sm border ${kind === 'error' ? 'bg-red-500/10 border-red-500/20 text-red-400' : 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400'}`}>
+    {children}
+  </div>
+);
+
+// --- Sections ---
+const ProfileSection = ({ account, token, onSaved }: { account: Account; token: string; onSaved: (account: Account) => void }) => {
+  const [email, setEmail] = useState(account.email || '');
+  const [avatar, setAvatar] = useState(account.avatar || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setNotice(null);
+    try {
+      const res = await axios.patch('/api/account', { email, avatar }, { headers: { Authorization: `Bearer ${token}` } });
+      onSaved(res.data);
+      setNotice({ kind: 'success', text: 'Đã lưu hồ sơ.' });
+    } catch (err: any) {
+      setNotice({ kind: 'error', text: errorMessage(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={sectionClass}>
+      <h2 className="text-xl font-bold">Hồ sơ</h2>
+      <div className="flex items-center gap-4">
+        {avatar ? (
+          <img src={avatar} alt="" className="w-16 h-16 rounded-full object-cover border border-white/10" referrerPolicy="no-referrer" />
+        ) : (
+          <UserCircle className="text-zinc-600" size={64} />
+        )}
+        <div>
+          <div className="font-semibold">{account.username}</div>
+          <div className="text-xs text-zinc-500">Tham gia {new Date(account.created_at).toLocaleDateString()}</div>
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-1">Email</label>
+        <input type="email" className={inputClass} value={email} onChange={(e) => setEmail(e.target.value)} placeholder="ban@example.com" />
+        <p className="text-xs text-zinc-500 mt-1">Dùng để khôi phục mật khẩu.</p>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-1">Ảnh đại diện (URL)</label>
+        <input type="url" className={inputClass} value={avatar} onChange={(e) => setAvatar(e.target.value)} placeholder="https://..." />
+      </div>
+      {notice && <Notice kind={notice.kind}>{notice.text}</Notice>}
+      <button type="submit" disabled={isSaving} className="bg-purple-600 hover:bg-purple-700 text-white px-5 py-2 rounded-lg font-semibold flex items-center gap-2 disabled:opacity-50">
+        {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />} Lưu
+      </button>
+    </form>
+  );
+};
+
+const PasswordSection = ({ account, token, onChanged }: { account: Account; token: string; onChanged: () => void }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setNotice({ kind: 'error', text: 'Mật khẩu xác nhận không khớp.' });
+      return;
+    }
+    setIsSaving(true);
+    setNotice(null);
+    try {
+      const res = await axios.post('/api/account/password',
+        { current_password: currentPassword, new_password: newPassword },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      const others = res.data.revoked_sessions ? ` ${res.data.revoked_sessions} thiết bị khác đã bị đăng xuất.` : '';
+      setNotice({ kind: 'success', text: `Đã đổi mật khẩu.${others}` });
+      onChanged();
+    } catch (err: any) {
+      setNotice({ kind: 'error', text: errorMessage(err) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={sectionClass}>
+      <h2 className="text-xl font-bold">{account.has_password ? 'Đổi mật khẩu' : 'Đặt mật khẩu'}</h2>
+      {!account.has_password && (
+        <p className="text-sm text-zinc-400">Tài khoản này đăng nhập qua tài khoản liên kết. Đặt mật khẩu để có thể đăng nhập bằng tên người dùng.</p>
+      )}
+      {account.has_password && (
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-1">Mật khẩu hiện tại</label>
+          <input type="password" className={inputClass} value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} required autoComplete="current-password" />
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-1">Mật khẩu mới</label>
+          <input type="password" className={inputClass} value={newPassword} onChange={(e) => setNewPassword(e.target.value)} required autoComplete="new-password" />
+          <PasswordPolicyHint />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-1">Xác nhận mật khẩu mới</label>
+          <input type="password" className={inputClass} value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} required autoComplete="new-password" />
+        </div>
+      </div>
+      {notice && <Notice kind={notice.kind}>{notice.text}</Notice>}
+      <button type="submit" disabled={isSaving} className="bg-purple-600 hover:bg-purple-700 text-white px-5 py-2 rounded-lg font-semibold flex items-center gap-2 disabled:opacity-50">
+        {isSaving ? <Loader2 className="animate-spin" size={18} /> : <KeyRound size={18} />} {account.has_password ? 'Đổi mật khẩu' : 'Đặt mật khẩu'}
+      </button>
+    </form>
+  );
+};
+
+// Providers enabled on the server, plus any still linked after being disabled so they can be unlinked.
+const LinkedAccountsSection = ({ account, token, onChanged }: { account: Account; token: string; onChanged: (account: Account) => void }) => {
+  const providers = useOAuthProviders();
+  const [busyProvider, setBusyProvider] = useState<OAuthProviderId | null>(null);
+  const [notice, setNotice] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const rows = [
+    ...providers,
+    ...account.identities
+      .filter(identity => !providers.some(provider => provider.id === identity.provider))
+      .map(identity => ({ id: identity.provider, name: identity.provider }))
+  ];
+  const nameOf = (id: OAuthProviderId) => rows.find(row => row.id === id)?.name || id;
+
+  useOAuthMessages(async (message) => {
+    if (message.type === 'OAUTH_ERROR') setNotice({ kind: 'error', text: message.error });
+    if (message.type === 'OAUTH_LINK_SUCCESS') {
+      try {
+        const res = await axios.get('/api/account', { headers });
+        onChanged(res.data);
+        setNotice({ kind: 'success', text: `Đã liên kết ${nameOf(message.provider)}.` });
+      } catch (err: any) {
+        setNotice({ kind: 'error', text: errorMessage(err) });
+      }
+    }
+  });
+
+  const link = async (provider: OAuthProviderId) => {
+    setBusyProvider(provider);
+    setNotice(null);
+    try {
+      const res = await axios.post(`/api/account/identities/${provider}`, {}, { headers });
+      openOAuthPopup(res.data.url);
+    } catch (err: any) {
+      setNotice({ kind: 'error', text: errorMessage(err) });
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  const unlink = async (provider: OAuthProviderId) => {
+    if (!window.confirm(`Hủy liên kết ${nameOf(provider)}?`)) return;
+    setBusyProvider(provider);
+    setNotice(null);
+    try {
+      const res = await axios.delete(`/api/account/identities/${provider}`, { headers });
+      onChanged(res.data);
+      setNotice({ kind: 'success', text: `Đã hủy liên kết ${nameOf(provider)}.` });
+    } catch (err: any) {
+      setNotice({ kind: 'error', text: errorMessage(err) });
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className={sectionClass}>
+      <h2 className="text-xl font-bold">Tài khoản liên kết</h2>
+      <p className="text-sm text-zinc-400">Đăng nhập bằng tài khoản của nhà cung cấp khác. Tài khoản chỉ được liên kết khi bạn tự thực hiện tại đây.</p>
+      <div className="divide-y divide-white/5">
+        {rows.map(row => {
+          const identity = account.identities.find(entry => entry.provider === row.id);
+          return (
+            <div key={row.id} className="flex items-center gap-3 py-3">
+              <ProviderIcon provider={row.id} />
+              <div className="min-w-0 flex-grow">
+                <div className="font-semibold">{row.name}</div>
+                <div className="text-xs text-zinc-500 truncate">
+                  {identity ? `${identity.email || identity.name || 'Đã liên kết'} · ${new Date(identity.created_at).toLocaleDateString()}` : 'Chưa liên kết'}
+                </div>
+              </div>
+              <button
+                onClick={() => identity ? unlink(row.id) : link(row.id)}
+                disabled={busyProvider !== null}
+                className="bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 transition-all disabled:opacity-50"
+              >
+                {busyProvider === row.id ? <Loader2 className="animate-spin" size={14} /> : identity ? <Unlink size={14} /> : <Link2 size={14} />}
+                {identity ? 'Hủy liên kết' : 'Liên kết'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      {notice && <Notice kind={notice.kind}>{notice.text}</Notice>}
+    </div>
+  );
+};
+
+const DeleteAccountSection = ({ account, token, onDeleted }: { account: Account; token: string; onDeleted: () => void }) => {
+  const [mode, setMode] = useState<BlogDeletionMode>('anonymize');
+  const [password, setPassword] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm('Xóa vĩnh viễn tài khoản của bạn? Hành động này không thể hoàn tác.')) return;
+    setIsDeleting(true);
+    setError('');
+    try {
+      await axios.delete('/api/account', { headers: { Authorization: `Bearer ${token}` }, data: { blogs: mode, password } });
+      onDeleted();
+    } catch (err: any) {
+      setError(errorMessage(err));
+      setIsDeleting(false);
+    }
+  };
+
+  if (account.role === 'admin') return null;
+
+  return (
+    <form onSubmit={handleSubmit} className={`${sectionClass} border border-red-500/20`}>
+      <h2 className="text-xl font-bold text-red-400">Xóa tài khoản</h2>
+      <p className="text-sm text-zinc-400">Tài khoản, phiên đăng nhập và lịch sử chỉnh sửa sẽ bị xóa. Chọn cách xử lý các bài viết của bạn:</p>
+      <div className="space-y-2 text-sm">
+        <label className="flex items-start gap-2">
+          <input type="radio" name="blogs" checked={mode === 'anonymize'} onChange={() => setMode('anonymize')} className="mt-1 accent-purple-600" />
+          <span><strong>Giữ lại ẩn danh</strong> — bài viết vẫn hiển thị nhưng không còn gắn với tên bạn.</span>
+        </label>
+        <label className="flex items-start gap-2">
+          <input type="radio" name="blogs" checked={mode === 'delete'} onChange={() => setMode('delete')} className="mt-1 accent-purple-600" />
+          <span><strong>Xóa tất cả</strong> — mọi bài viết của bạn bị xóa vĩnh viễn.</span>
+        </label>
+      </div>
+      {account.has_password && (
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-1">Nhập mật khẩu để xác nhận</label>
+          <input type="password" className={inputClass} value={password} onChange={(e) => setPassword(e.target.value)} required autoComplete="current-password" />
+        </div>
+      )}
+      {error && <Notice kind="error">{error}</Notice>}
+      <button type="submit" disabled={isDeleting} className="bg-red-600 hover:bg-red-700 text-white px-5 py-2 rounded-lg font-semibold flex items-center gap-2 disabled:opacity-50">
+        {isDeleting ? <Loader2 className="animate-spin" size={18} /> : <Trash2 size={18} />} Xóa tài khoản
+      </button>
+    </form>
+  );
+};
+
+// Profile, password, linked providers and account deletion. `onProfileChange` lets the app update the signed-in user.
+export const AccountSettings = ({ token, onProfileChange, onDeleted }: {
+  token: string;
+  onProfileChange: (account: Account) => void;
+  onDeleted: () => void;
+}) => {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchAccount = async () => {
+    try {
+      const res = await axios.get('/api/account', { headers: { Authorization: `Bearer ${token}` } });
+      setAccount(res.data);
+    } catch (err: any) {
+      setError(errorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    fetchAccount();
+  }, [token]);
+
+  if (error) return <Notice kind="error">{error}</Notice>;
+  if (!account) return <div className="py-10 text-center"><Loader2 className="animate-spin mx-auto" /></div>;
+
+  return (
+    <div className="space-y-6">
+      <ProfileSection
+        account={account}
+        token={token}
+        onSaved={(updated) => {
+          setAccount(updated);
+          onProfileChange(updated);
+        }}
+      />
+      <PasswordSection account={account} token={token} onChanged={fetchAccount} />
+      <LinkedAccountsSection account={account} token={token} onChanged={setAccount} />
+      <DeleteAccountSection account={account} token={token} onDeleted={onDeleted} />
+    </div>
+  );
+};
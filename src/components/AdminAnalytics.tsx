@@ -0,0 +1,258 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Download, Users, FileText, Activity, Sparkles, CircleCheck, Timer } from 'lucide-react';
+import axios from 'axios';
+import { errorMessage } from '../errors.ts';
+import { saveAs } from 'file-saver';
+
+// --- Types ---
+type Interval = 'day' | 'week';
+
+interface CountEntry {
+  key: string;
+  count: number;
+}
+
+interface AnalyticsPeriod {
+  period: string;
+  posts: number;
+  generations: number;
+  failed_generations: number;
+  active_users: number;
+  avg_latency_ms: number | null;
+}
+
+interface AnalyticsReport {
+  range: { from: string; to: string; interval: Interval };
+  userCount: number;
+  totals: {
+    posts: number;
+    active_users: number;
+    generations: number;
+    succeeded: number;
+    failed: number;
+    cancelled: number;
+    success_rate: number | null;
+    avg_latency_ms: number | null;
+  };
+  series: AnalyticsPeriod[];
+  posts_by: { tone: CountEntry[]; language: CountEntry[]; length: CountEntry[] };
+  generation_errors: (CountEntry & { rate: number })[];
+}
+
+const LENGTH_LABELS: Record<string, string> = {
+  short: 'Ngắn',
+  standard: 'Tiêu chuẩn',
+  long: 'Chuyên sâu',
+  manual: 'Tự viết / nhập'
+};
+
+const inputClass = 'bg-zinc-900 border border-white/10 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-purple-500';
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+const daysAgo = (days: number) => isoDay(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+const formatPercent = (rate: number | null) => rate === null ? '–' : `${(rate * 100).toFixed(1)}%`;
+const formatLatency = (ms: number | null) => ms === null ? '–' : ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`;
+
+const StatCard = ({ icon, label, value }: { icon: React.ReactNode; label: string; value: string | number }) => (
+  <div className="glass p-5 rounded-2xl">
+    <div className="flex items-center gap-2 text-sm text-zinc-400 mb-2">{icon}{label}</div>
+    <div className="text-3xl font-bold">{value}</div>
+  </div>
+);
+
+// Vertical bars per period; each bar stacks its segments bottom-up.
+const BarChart = ({ title, series, segments }: {
+  title: string;
+  series: AnalyticsPeriod[];
+  segments: { label: string; color: string; value: (period: AnalyticsPeriod) => number }[];
+}) => {
+  const max = Math.max(1, ...series.map(period => segments.reduce((sum, segment) => sum + segment.value(period), 0)));
+  return (
+    <div className="glass p-6 rounded-3xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">{title}</h3>
+        <div className="flex gap-3 text-xs text-zinc-400">
+          {segments.map(segment => (
+            <span key={segment.label} className="flex items-center gap-1">
+              <span className={`w-2.5 h-2.5 rounded-sm ${segment.color}`} />{segment.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-end gap-px h-40">
+        {series.map(period => (
+          <div
+            key={period.period}
+            className="flex-1 h-full flex flex-col-reverse min-w-0"
+            title={`${period.period}: ${segments.map(segment => `${segment.label} ${segment.value(period)}`).join(', ')}`}
+          >
+            {segments.map(segment => (
+              <div key={segment.label} className={segment.color} style={{ height: `${(segment.value(period) / max) * 100}%` }} />
+            ))}
+          </div>
+        ))}
+      </div>
+      {series.length > 0 && (
+        <div className="flex justify-between text-xs text-zinc-500 mt-2">
+          <span>{series[0].period}</span>
+          <span>{series[series.length - 1].period}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Breakdown = ({ title, entries, label = (key) => key }: { title: string; entries: CountEntry[]; label?: (key: string) => string }) => {
+  const max = Math.max(1, ...entries.map(entry => entry.count));
+  return (
+    <div className="glass p-6 rounded-3xl">
+      <h3 className="font-semibold mb-4">{title}</h3>
+      {entries.length === 0 && <p className="text-sm text-zinc-500">Chưa có dữ liệu.</p>}
+      <div className="space-y-2">
+        {entries.map(entry => (
+          <div key={entry.key} className="text-sm">
+            <div className="flex justify-between mb-1">
+              <span className="truncate">{label(entry.key)}</span>
+              <span className="text-zinc-400">{entry.count}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-white/5">
+              <div className="h-full rounded-full bg-purple-500" style={{ width: `${(entry.count / max) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Content and generation activity for a date range, with CSV download of the same report.
+export const AdminAnalytics = ({ token }: { token: string }) => {
+  const [from, setFrom] = useState(() => daysAgo(29));
+  const [to, setTo] = useState(() => isoDay(new Date()));
+  const [interval, setIntervalOption] = useState<Interval>('day');
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState('');
+  const headers = { Authorization: `Bearer ${token}` };
+  const params = { from, to, interval };
+
+  useEffect(() => {
+    if (!from || !to) return;
+    const fetchReport = async () => {
+      setIsLoading(true);
+      setError('');
+      try {
+        const res = await axios.get('/api/admin/stats', { headers, params });
+        setReport(res.data);
+      } catch (err) {
+        setError(errorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchReport();
+  }, [token, from, to, interval]);
+
+  const downloadCsv = async () => {
+    setIsDownloading(true);
+    try {
+      const res = await axios.get('/api/admin/stats.csv', { headers, params, responseType: 'blob' });
+      saveAs(res.data, `analytics-${from}-${to}.csv`);
+    } catch (err) {
+      alert('Không thể tải tệp CSV');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold">Thống kê</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span className="text-zinc-500">–</span>
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          <select value={interval} onChange={(e) => setIntervalOption(e.target.value as Interval)} className={inputClass}>
+            <option value="day">Theo ngày</option>
+            <option value="week">Theo tuần</option>
+          </select>
+          <button
+            onClick={downloadCsv}
+            disabled={isDownloading || !report}
+            className="bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 transition-all disabled:opacity-50"
+          >
+            {isDownloading ? <Loader2 className="animate-spin" size={16} /> : <Download size={16} />} CSV
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="p-3 rounded-lg text-sm border bg-red-500/10 border-red-500/20 text-red-400">{error}</div>}
+      {isLoading && !report && <div className="py-10 text-center"><Loader2 className="animate-spin mx-auto" /></div>}
+
+      {report && (
+        <div className={`space-y-6 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <StatCard icon={<Users size={16} className="text-purple-400" />} label="Tổng người dùng" value={report.userCount} />
+            <StatCard icon={<Activity size={16} className="text-sky-400" />} label="Người dùng hoạt động" value={report.totals.active_users} />
+            <StatCard icon={<FileText size={16} className="text-emerald-400" />} label="Bài viết mới" value={report.totals.posts} />
+            <StatCard icon={<Sparkles size={16} className="text-purple-400" />} label="Lượt tạo bằng AI" value={report.totals.generations} />
+            <StatCard icon={<CircleCheck size={16} className="text-emerald-400" />} label="Tỷ lệ thành công" value={formatPercent(report.totals.success_rate)} />
+            <StatCard icon={<Timer size={16} className="text-amber-400" />} label="Thời gian tạo trung bình" value={formatLatency(report.totals.avg_latency_ms)} />
+          </div>
+
+          <BarChart
+            title="Bài viết mới"
+            series={report.series}
+            segments={[{ label: 'Bài viết', color: 'bg-purple-500', value: period => period.posts }]}
+          />
+          <BarChart
+            title="Lượt tạo bằng AI"
+            series={report.series}
+            segments={[
+              { label: 'Thành công / hủy', color: 'bg-emerald-500', value: period => period.generations - period.failed_generations },
+              { label: 'Thất bại', color: 'bg-red-500', value: period => period.failed_generations }
+            ]}
+          />
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <Breakdown title="Theo phong cách" entries={report.posts_by.tone} />
+            <Breakdown title="Theo ngôn ngữ" entries={report.posts_by.language} />
+            <Breakdown title="Theo độ dài" entries={report.posts_by.length} label={(key) => LENGTH_LABELS[key] || key} />
+          </div>
+
+          <div className="glass p-6 rounded-3xl">
+            <h3 className="font-semibold mb-4">Lỗi khi tạo bài viết</h3>
+            {report.generation_errors.length === 0 ? (
+              <p className="text-sm text-zinc-500">Không có lỗi nào trong khoảng thời gian này.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-500">
+                    <th className="pb-2 font-medium">Mã lỗi</th>
+                    <th className="pb-2 font-medium text-right">Số lần</th>
+                    <th className="pb-2 font-medium text-right">Tỷ lệ</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {report.generation_errors.map(entry => (
+                    <tr key={entry.key}>
+                      <td className="py-2 font-mono text-red-400">{entry.key}</td>
+                      <td className="py-2 text-right">{entry.count}</td>
+                      <td className="py-2 text-right">{formatPercent(entry.rate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {report.totals.cancelled > 0 && (
+              <p className="text-xs text-zinc-500 mt-3">{report.totals.cancelled} lượt bị hủy giữa chừng không được tính vào tỷ lệ.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Download, ShieldAlert, ChevronDown, ChevronUp } from 'lucide-react';
+import axios from 'axios';
+import { errorMessage } from '../errors.ts';
+import { saveAs } from 'file-saver';
+
+// --- Types ---
+type AuditAction =
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'blog.create'
+  | 'blog.update'
+  | 'blog.status'
+  | 'blog.restore'
+  | 'blog.delete'
+  | 'user.role_change'
+  | 'user.suspend'
+  | 'user.unsuspend'
+  | 'user.delete'
+  | 'account.delete'
+  | 'account.link'
+  | 'account.unlink'
+  | 'token.create'
+  | 'token.revoke'
+  | 'webhook.create'
+  | 'webhook.update'
+  | 'webhook.delete';
+
+interface AuditEvent {
+  id: string;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_username: string | null;
+  actor_role: 'user' | 'admin' | null;
+  target_type: 'blog' | 'user' | null;
+  target_id: string | null;
+  target_label: string | null;
+  admin_override: boolean;
+  ip: string | null;
+  user_agent: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'auth.login': 'Đăng nhập',
+  'auth.login_failed': 'Đăng nhập thất bại',
+  'blog.create': 'Tạo bài viết',
+  'blog.update': 'Sửa bài viết',
+  'blog.status': 'Đổi trạng thái bài viết',
+  'blog.restore': 'Khôi phục phiên bản',
+  'blog.delete': 'Xóa bài viết',
+  'user.role_change': 'Đổi vai trò',
+  'user.suspend': 'Tạm khóa tài khoản',
+  'user.unsuspend': 'Mở khóa tài khoản',
+  'user.delete': 'Xóa người dùng',
+  'account.delete': 'Tự xóa tài khoản',
+  'account.link': 'Liên kết tài khoản',
+  'account.unlink': 'Hủy liên kết tài khoản',
+  'token.create': 'Tạo token truy cập',
+  'token.revoke': 'Thu hồi token truy cập',
+  'webhook.create': 'Tạo webhook',
+  'webhook.update': 'Sửa webhook',
+  'webhook.delete': 'Xóa webhook'
+};
+
+const inputClass = 'bg-zinc-900 border border-white/10 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-purple-500';
+
+// Date inputs give whole days; the API takes an inclusive `from` and an exclusive `before`.
+const dayAfter = (day: string) => new Date(new Date(`${day}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString();
+
+const formatValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value);
+
+const Changes = ({ event }: { event: AuditEvent }) => {
+  const keys = Object.keys({ ...event.before, ...event.after });
+  return (
+    <div className="mt-2 ml-11 text-xs space-y-1">
+      {keys.length > 0 && (
+        <table className="w-full">
+          <tbody>
+            {keys.map(key => (
+              <tr key={key} className="align-top">
+                <td className="pr-3 py-0.5 text-zinc-500 whitespace-nowrap">{key}</td>
+                <td className="pr-3 py-0.5 text-red-300/80 break-all">{event.before && key in event.before ? formatValue(event.before[key]) : ''}</td>
+                <td className="py-0.5 text-emerald-300/80 break-all">{event.after && key in event.after ? formatValue(event.after[key]) : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="text-zinc-500 break-all">IP {event.ip || '?'}{event.user_agent && ` · ${event.user_agent}`}</p>
+    </div>
+  );
+};
+
+// Append-only log of sign-ins and changes to blogs and accounts, newest first, with CSV/JSON export
+// of the current filters.
+export const AuditLog = ({ token }: { token: string }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [actorInput, setActorInput] = useState('');
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const headers = { Authorization: `Bearer ${token}` };
+  const filters = {
+    action: action || undefined,
+    actor: actor || undefined,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    before: to ? dayAfter(to) : undefined
+  };
+
+  const fetchEvents = async (cursor?: string) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const res = await axios.get('/api/admin/audit', { headers, params: { ...filters, cursor } });
+      setEvents(prev => cursor ? [...prev, ...res.data.items] : res.data.items);
+      setNextCursor(res.data.next_cursor);
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [token, action, actor, from, to]);
+
+  const download = async (format: 'csv' | 'json') => {
+    try {
+      const res = await axios.get(`/api/admin/audit.${format}`, { headers, params: filters, responseType: 'blob' });
+      saveAs(res.data, `audit-${new Date().toISOString().slice(0, 10)}.${format}`);
+    } catch (err) {
+      alert('Không thể tải nhật ký');
+    }
+  };
+
+  return (
+    <div className="glass p-6 rounded-3xl space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-bold">Nhật ký hoạt động</h2>
+        <div className="flex gap-2">
+          {(['csv', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => download(format)}
+              className="bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 transition-all"
+            >
+              <Download size={14} /> {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={action} onChange={(e) => setAction(e.target.value as AuditAction | '')} className={inputClass}>
+          <option value="">Mọi hành động</option>
+          {(Object.keys(ACTION_LABELS) as AuditAction[]).map(key => (
+            <option key={key} value={key}>{ACTION_LABELS[key]}</option>
+          ))}
+        </select>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setActor(actorInput.trim());
+          }}
+        >
+          <input className={inputClass} placeholder="Người thực hiện" value={actorInput} onChange={(e) => setActorInput(e.target.value)} />
+        </form>
+        <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        <span className="text-zinc-500">–</span>
+        <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+      </div>
+      {error && <div className="p-3 rounded-lg text-sm border bg-red-500/10 border-red-500/20 text-red-400">{error}</div>}
+      {!isLoading && !error && events.length === 0 && <p className="text-sm text-zinc-500">Chưa có hoạt động nào.</p>}
+      <div className="divide-y divide-white/5">
+        {events.map((event) => (
+          <div key={event.id} className="py-3 text-sm">
+            <button onClick={() => setExpandedId(expandedId === event.id ? null : event.id)} className="w-full flex items-start gap-3 text-left">
+              <div className={`p-2 rounded-lg ${event.action === 'auth.login_failed' || event.admin_override ? 'bg-amber-500/10 text-amber-400' : 'bg-white/5 text-zinc-400'}`}>
+                <ShieldAlert size={16} />
+              </div>
+              <div className="min-w-0 flex-grow">
+                <div className="font-semibold">
+                  {ACTION_LABELS[event.action]}
+                  {event.target_label && <span className="text-zinc-400 font-normal"> · {event.target_label}</span>}
+                  {event.admin_override && (
+                    <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400 border border-amber-500/20">Quyền admin</span>
+                  )}
+                </div>
+                <div className="text-xs text-zinc-500 truncate">
+                  {event.actor_username ? `bởi ${event.actor_username}` : 'Khách'}
+                  {event.actor_role === 'admin' && ' (admin)'}
+                  {event.ip && ` · IP ${event.ip}`}
+                </div>
+              </div>
+              <div className="text-xs text-zinc-500 whitespace-nowrap flex items-center gap-1">
+                {new Date(event.created_at).toLocaleString()}
+                {expandedId === event.id ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+              </div>
+            </button>
+            {expandedId === event.id && <Changes event={event} />}
+          </div>
+        ))}
+      </div>
+      {isLoading && <div className="py-4 text-center"><Loader2 className="animate-spin mx-auto" /></div>}
+      {!isLoading && nextCursor && (
+        <button onClick={() => fetchEvents(nextCursor)} className="w-full py-2 text-sm text-zinc-400 hover:text-white">
+          Xem thêm
+        </button>
+      )}
+    </div>
+  );
+};
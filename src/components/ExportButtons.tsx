@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { FileText, FileDown, Code, Loader2 } from 'lucide-react';
+import { Packer } from 'docx';
+import { saveAs } from 'file-saver';
+import { buildDocx, exportFileName } from '../../shared/docx.ts';
+import { buildHtmlDocument, renderExportBody, EXPORT_STYLES, HtmlExportOptions } from '../../shared/html.ts';
+
+export interface ExportableBlog {
+  title: string;
+  excerpt: string;
+  content: string;
+  language?: string;
+  created_at?: string;
+  published_at?: string | null;
+}
+
+type ExportFormat = 'docx' | 'pdf' | 'html';
+
+// A4 at 96 dpi, so the PDF wraps lines where the HTML does
+const PDF_PAGE_WIDTH_PX = 794;
+
+const buttonClass = 'bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-2 rounded-xl font-semibold transition-colors flex items-center gap-2 border border-white/10 disabled:opacity-50';
+
+export const ExportButtons = ({ blog, author }: { blog: ExportableBlog; author?: string | null }) => {
+  const [downloading, setDownloading] = useState<ExportFormat | null>(null);
+  const [withCover, setWithCover] = useState(false);
+
+  const exportOptions: HtmlExportOptions = {
+    title: blog.title,
+    content: blog.content,
+    excerpt: blog.excerpt,
+    author,
+    date: blog.published_at || blog.created_at,
+    language: blog.language
+  };
+
+  const handleDownloadWord = async () => {
+    setDownloading('docx');
+    try {
+      const doc = buildDocx({ ...exportOptions, coverPage: withCover });
+      saveAs(await Packer.toBlob(doc), exportFileName(blog.title, 'docx'));
+    } catch (err: any) {
+      console.error('Word Download error:', err);
+      alert('Không thể tải xuống bản Word. Vui lòng thử lại.');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleDownloadHtml = async () => {
+    setDownloading('html');
+    try {
+      const { EXPORT_FONT_FACE_CSS } = await import('../exportFonts.ts');
+      const html = buildHtmlDocument({ ...exportOptions, fontFaceCss: EXPORT_FONT_FACE_CSS });
+      saveAs(new Blob([html], { type: 'text/html;charset=utf-8' }), exportFileName(blog.title, 'html'));
+    } catch (err: any) {
+      console.error('HTML Download error:', err);
+      alert('Không thể tải xuống bản HTML. Vui lòng thử lại.');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  // Renders the same markup as the HTML export off-screen, rasterises it with html2pdf and stamps
+  // page numbers on every page.
+  const handleDownloadPdf = async () => {
+    setDownloading('pdf');
+    const container = document.createElement('div');
+    try {
+      const [{ default: html2pdf }, { EXPORT_FONT_FACE_CSS, loadExportFonts }] = await Promise.all([
+        import('html2pdf.js'),
+        import('../exportFonts.ts')
+      ]);
+      container.innerHTML = `<style>${EXPORT_FONT_FACE_CSS}${EXPORT_STYLES}</style>${renderExportBody(exportOptions)}`;
+      Object.assign(container.style, { position: 'fixed', left: '-10000px', top: '0', width: `${PDF_PAGE_WIDTH_PX}px` });
+      document.body.appendChild(container);
+      await loadExportFonts();
+
+      // pagebreak is missing from the html2pdf typings, hence the untyped object
+      const options = {
+        margin: [12, 0, 16, 0] as [number, number, number, number],
+        filename: exportFileName(blog.title, 'pdf'),
+        image: { type: 'jpeg' as const, quality: 0.95 },
+        html2canvas: { scale: 2, useCORS: true, backgroundColor: '#ffffff' },
+        jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' as const },
+        pagebreak: { mode: ['css', 'legacy'], avoid: ['h2', 'h3', 'tr', 'pre', 'blockquote', 'img'] }
+      };
+      const pdf = await html2pdf().set(options).from(container.querySelector<HTMLElement>('.export-document')!).toPdf().get('pdf');
+
+      const pageCount = pdf.internal.getNumberOfPages();
+      const pageWidth = pdf.internal.pageSize.getWidth();
+      const pageHeight = pdf.internal.pageSize.getHeight();
+      for (let page = 1; page <= pageCount; page++) {
+        pdf.setPage(page);
+        pdf.setFontSize(9);
+        pdf.setTextColor(150);
+        pdf.text(`${page} / ${pageCount}`, pageWidth / 2, pageHeight - 8, { align: 'center' });
+      }
+      pdf.save(options.filename);
+    } catch (err: any) {
+      console.error('PDF Download error:', err);
+      alert('Không thể tải xuống bản PDF. Vui lòng thử lại.');
+    } finally {
+      container.remove();
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <label className="flex items-center gap-2 text-sm text-zinc-400">
+        <input type="checkbox" checked={withCover} onChange={(e) => setWithCover(e.target.checked)} className="accent-purple-600" />
+        Trang bìa
+      </label>
+      <button onClick={handleDownloadWord} disabled={downloading !== null} className={buttonClass}>
+        {downloading === 'docx' ? <Loader2 className="animate-spin" size={18} /> : <FileText size={18} />}
+        {downloading === 'docx' ? 'Preparing...' : 'Download Word'}
+      </button>
+      <button onClick={handleDownloadPdf} disabled={downloading !== null} className={buttonClass}>
+        {downloading === 'pdf' ? <Loader2 className="animate-spin" size={18} /> : <FileDown size={18} />}
+        {downloading === 'pdf' ? 'Preparing...' : 'Download PDF'}
+      </button>
+      <button onClick={handleDownloadHtml} disabled={downloading !== null} className={buttonClass}>
+        {downloading === 'html' ? <Loader2 className="animate-spin" size={18} /> : <Code size={18} />}
+        {downloading === 'html' ? 'Preparing...' : 'Download HTML'}
+      </button>
+    </div>
+  );
+};
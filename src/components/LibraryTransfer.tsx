@@ -0,0 +1,202 @@
+import { useState, useRef } from 'react';
+import { motion } from 'motion/react';
+import { Download, Upload, Loader2, X, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import axios from 'axios';
+import { errorMessage } from '../errors.ts';
+import { saveAs } from 'file-saver';
+
+// --- Types ---
+interface ImportItem {
+  source: string;
+  title: string;
+  excerpt: string;
+  status: string;
+  tags: string[];
+  category: string | null;
+  created_at: string | null;
+  duplicate: { reason: 'title' | 'content'; blog_id: string | null; title: string } | null;
+  action: 'create' | 'skip';
+  blog_id: string | null;
+}
+
+interface ImportReport {
+  format: 'markdown-zip' | 'wxr';
+  dry_run: boolean;
+  total: number;
+  created: number;
+  skipped: number;
+  items: ImportItem[];
+  issues: { source: string; error: string }[];
+}
+
+const FORMAT_LABELS: Record<ImportReport['format'], string> = {
+  'markdown-zip': 'Markdown (.zip)',
+  wxr: 'WordPress (WXR)'
+};
+
+const DUPLICATE_LABELS: Record<'title' | 'content', string> = {
+  title: 'Trùng tiêu đề',
+  content: 'Trùng nội dung'
+};
+
+const buttonClass = 'bg-white/5 hover:bg-white/10 text-zinc-300 hover:text-white px-4 py-3 rounded-xl font-semibold transition-colors flex items-center gap-2 border border-white/10 disabled:opacity-50';
+
+// Bulk backup and migration: downloads every blog as a zip of Markdown files, and imports a zip or a
+// WordPress export after showing a dry-run preview.
+export const LibraryTransfer = ({ token, onImported }: { token: string; onImported: () => void }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const res = await axios.get('/api/blogs/export.zip', {
+        headers: { Authorization: `Bearer ${token}` },
+        responseType: 'blob'
+      });
+      saveAs(res.data, `blogs-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err) {
+      console.error('Export blogs failed', err);
+      alert('Không thể xuất bài viết. Vui lòng thử lại.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const runImport = async (upload: File, dryRun: boolean, duplicates: boolean) => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const res = await axios.post('/api/blogs/import', upload, {
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': upload.type || 'application/octet-stream' },
+        params: { dry_run: dryRun ? 1 : 0, duplicates: duplicates ? 'import' : 'skip' }
+      });
+      setReport(res.data);
+      if (!dryRun) onImported();
+    } catch (err) {
+      setReport(null);
+      setError(errorMessage(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    setFile(selected);
+    setIncludeDuplicates(false);
+    runImport(selected, true, false);
+  };
+
+  const toggleDuplicates = (checked: boolean) => {
+    setIncludeDuplicates(checked);
+    if (file) runImport(file, true, checked);
+  };
+
+  const close = () => {
+    setFile(null);
+    setReport(null);
+    setError('');
+  };
+
+  return (
+    <>
+      <div className="flex gap-3">
+        <button onClick={handleExport} disabled={isExporting} className={buttonClass} title="Tải tất cả bài viết dạng Markdown">
+          {isExporting ? <Loader2 className="animate-spin" size={18} /> : <Download size={18} />} Xuất .zip
+        </button>
+        <button onClick={() => inputRef.current?.click()} disabled={isWorking} className={buttonClass} title="Nhập từ .zip Markdown hoặc WordPress .xml">
+          <Upload size={18} /> Nhập
+        </button>
+        <input ref={inputRef} type="file" accept=".zip,.xml,application/zip,text/xml" onChange={handleFileChange} className="hidden" />
+      </div>
+
+      {file && (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-6" onClick={close}>
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            className="glass rounded-3xl w-full max-w-3xl max-h-[85vh] flex flex-col"
+          >
+            <div className="flex justify-between items-center p-6 border-b border-white/10">
+              <div>
+                <h2 className="text-xl font-bold">Nhập bài viết</h2>
+                <p className="text-sm text-zinc-500">{file.name}{report && ` · ${FORMAT_LABELS[report.format]}`}</p>
+              </div>
+              <button onClick={close} className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-white">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-6 overflow-y-auto flex-grow space-y-3">
+              {isWorking && !report && (
+                <div className="flex justify-center py-10"><Loader2 className="animate-spin text-purple-500" size={32} /></div>
+              )}
+              {error && <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">{error}</div>}
+              {report && !report.dry_run && (
+                <div className="p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm flex items-center gap-2">
+                  <CheckCircle2 size={18} /> Đã nhập {report.created} bài viết, bỏ qua {report.skipped}.
+                </div>
+              )}
+              {report?.issues.map((issue) => (
+                <div key={issue.source} className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 text-amber-400 text-sm flex items-center gap-2">
+                  <AlertTriangle size={16} /> <span className="font-mono">{issue.source}</span>: {issue.error}
+                </div>
+              ))}
+              {report && report.items.length === 0 && <p className="text-zinc-400 text-center py-6">Không tìm thấy bài viết nào trong tệp.</p>}
+              {report?.items.map((item, index) => (
+                <div key={index} className={`p-4 rounded-xl border ${item.action === 'skip' ? 'border-white/5 opacity-50' : 'border-white/10 bg-white/5'}`}>
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold truncate">{item.title}</h3>
+                      <p className="text-xs text-zinc-500 font-mono truncate">{item.source}</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0 text-xs">
+                      {item.duplicate && (
+                        <span className="px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400 border border-amber-500/20" title={item.duplicate.title}>
+                          {DUPLICATE_LABELS[item.duplicate.reason]}
+                        </span>
+                      )}
+                      <span className="px-2 py-0.5 rounded-full bg-white/5 text-zinc-400 border border-white/10">{item.status}</span>
+                    </div>
+                  </div>
+                  {item.excerpt && <p className="text-sm text-zinc-400 mt-2 line-clamp-2">{item.excerpt}</p>}
+                  <p className="text-xs text-zinc-500 mt-2">
+                    {item.created_at && new Date(item.created_at).toLocaleDateString()}
+                    {item.category && ` · ${item.category}`}
+                    {item.tags.length > 0 && ` · #${item.tags.join(' #')}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {report?.dry_run && (
+              <div className="flex flex-wrap justify-between items-center gap-4 p-6 border-t border-white/10">
+                <label className="flex items-center gap-2 text-sm text-zinc-400">
+                  <input type="checkbox" checked={includeDuplicates} onChange={(e) => toggleDuplicates(e.target.checked)} className="accent-purple-600" />
+                  Nhập cả bài trùng lặp
+                </label>
+                <button
+                  onClick={() => runImport(file, false, includeDuplicates)}
+                  disabled={isWorking || report.created === 0}
+                  className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-3 rounded-xl font-semibold flex items-center gap-2 disabled:opacity-50"
+                >
+                  {isWorking ? <Loader2 className="animate-spin" size={18} /> : <Upload size={18} />}
+                  Nhập {report.created} / {report.total} bài viết
+                </button>
+              </div>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </>
+  );
+};
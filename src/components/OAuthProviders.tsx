@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef } from 'react';
+import { Github, Building2, KeyRound } from 'lucide-react';
+import axios from 'axios';
+
+// --- Types ---
+export type OAuthProviderId = 'google' | 'github' | 'microsoft' | 'oidc';
+
+export interface OAuthProvider {
+  id: OAuthProviderId;
+  name: string;
+}
+
+// Posted by the callback page in the popup. It carries no token: after a sign-in the session cookie is
+// already set and the app refreshes it.
+export type OAuthMessage =
+  | { type: 'OAUTH_AUTH_SUCCESS' }
+  | { type: 'OAUTH_LINK_SUCCESS'; provider: OAuthProviderId }
+  | { type: 'OAUTH_ERROR'; error: string };
+
+// Providers enabled on the server, in the server's order.
+export const useOAuthProviders = () => {
+  const [providers, setProviders] = useState<OAuthProvider[]>([]);
+  useEffect(() => {
+    axios.get('/api/auth/providers')
+      .then(res => setProviders(res.data))
+      .catch(err => console.error('Failed to load sign-in providers', err));
+  }, []);
+  return providers;
+};
+
+// Only messages from this app's own origin are accepted.
+export const useOAuthMessages = (onMessage: (message: OAuthMessage) => void) => {
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin) return;
+      if (typeof event.data?.type !== 'string' || !event.data.type.startsWith('OAUTH_')) return;
+      handlerRef.current(event.data);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+};
+
+export const openOAuthPopup = (url: string) => window.open(url, 'oauth_popup', 'width=600,height=700');
+
+export const ProviderIcon = ({ provider, size = 20 }: { provider: OAuthProviderId; size?: number }) => {
+  if (provider === 'google') {
+    return (
+      <svg width={size} height={size} viewBox="0 0 24 24">
+        <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
+        <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
+        <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l3.66-2.84z"/>
+        <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
+      </svg>
+    );
+  }
+  if (provider === 'github') return <Github size={size} />;
+  if (provider === 'microsoft') return <Building2 size={size} />;
+  return <KeyRound size={size} />;
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+
+// --- Types ---
+interface PasswordPolicy {
+  min_length: number;
+  require: ('lower' | 'upper' | 'letter' | 'digit' | 'symbol')[];
+  disallow_username: boolean;
+}
+
+const CLASS_LABELS: Record<PasswordPolicy['require'][number], string> = {
+  lower: 'chữ thường',
+  upper: 'chữ hoa',
+  letter: 'chữ cái',
+  digit: 'chữ số',
+  symbol: 'ký tự đặc biệt'
+};
+
+// The policy is the same for every page, so it is fetched once per load.
+let policyRequest: Promise<PasswordPolicy> | null = null;
+const fetchPolicy = () => {
+  policyRequest ??= axios.get('/api/auth/password-policy').then(res => res.data).catch((err) => {
+    policyRequest = null;
+    throw err;
+  });
+  return policyRequest;
+};
+
+// One line describing the server's password rules, shown under new-password fields.
+export const PasswordPolicyHint = () => {
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    fetchPolicy().then(setPolicy).catch(() => setPolicy(null));
+  }, []);
+
+  if (!policy) return null;
+  const parts = [`Tối thiểu ${policy.min_length} ký tự`];
+  if (policy.require.length) parts.push(`gồm ${policy.require.map(name => CLASS_LABELS[name]).join(', ')}`);
+  if (policy.disallow_username) parts.push('không chứa tên người dùng');
+
+  return <p className="text-xs text-zinc-500 mt-1">{parts.join(', ')}.</p>;
+};
@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import axios from 'axios';
+
+// --- Types ---
+interface RevisionSummary {
+  id: string;
+  title: string;
+  author_username: string | null;
+  reason: 'create' | 'update' | 'restore';
+  restored_from?: string | null;
+  created_at: string;
+}
+
+interface DiffRow {
+  type: 'equal' | 'changed' | 'removed' | 'added';
+  left: { line: number; text: string } | null;
+  right: { line: number; text: string } | null;
+}
+
+type DiffField = 'title' | 'excerpt' | 'content';
+
+interface RevisionDiff {
+  from: string;
+  to: string;
+  fields: Record<DiffField, { changed: boolean; rows: DiffRow[] }>;
+}
+
+const REASON_LABELS: Record<RevisionSummary['reason'], string> = {
+  create: 'Bản gốc',
+  update: 'Chỉnh sửa',
+  restore: 'Khôi phục'
+};
+
+const FIELD_LABELS: Record<DiffField, string> = {
+  title: 'Tiêu đề',
+  excerpt: 'Tóm tắt',
+  content: 'Nội dung'
+};
+
+const cellClass = (side: 'left' | 'right', type: DiffRow['type']) => {
+  if (type === 'equal') return 'text-zinc-400';
+  if (side === 'left') return type === 'added' ? 'bg-zinc-900/50' : 'bg-red-500/10 text-red-300';
+  return type === 'removed' ? 'bg-zinc-900/50' : 'bg-emerald-500/10 text-emerald-300';
+};
+
+export const RevisionHistory = ({ blogId, token, onClose, onRestored }: {
+  blogId: string;
+  token: string | null;
+  onClose: () => void;
+  onRestored: (blog: any) => void;
+}) => {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [field, setField] = useState<DiffField>('content');
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const fetchRevisions = async () => {
+    try {
+      const res = await axios.get(`/api/blogs/${blogId}/revisions`, { headers });
+      const list: RevisionSummary[] = res.data;
+      setRevisions(list);
+      // Default: compare the previous revision with the latest one
+      setToId(list.length ? list[list.length - 1].id : null);
+      setFromId(list.length > 1 ? list[list.length - 2].id : list[0]?.id || null);
+    } catch (err) {
+      console.error('Fetch revisions failed', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [blogId, token]);
+
+  useEffect(() => {
+    if (!fromId || !toId) return;
+    const fetchDiff = async () => {
+      try {
+        const res = await axios.get(`/api/blogs/${blogId}/revisions/diff`, { headers, params: { from: fromId, to: toId } });
+        setDiff(res.data);
+      } catch (err) {
+        console.error('Fetch diff failed', err);
+      }
+    };
+    fetchDiff();
+  }, [blogId, fromId, toId, token]);
+
+  const handleRestore = async (revisionId: string) => {
+    if (!window.confirm('Khôi phục bài viết về phiên bản này? Nội dung hiện tại vẫn được giữ trong lịch sử.')) return;
+    setIsRestoring(true);
+    try {
+      const res = await axios.post(`/api/blogs/${blogId}/revisions/${revisionId}/restore`, {}, { headers });
+      onRestored(res.data);
+      await fetchRevisions();
+    } catch (err) {
+      alert('Không thể khôi phục phiên bản này.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const latestId = revisions.length ? revisions[revisions.length - 1].id : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass p-6 rounded-3xl mb-8"
+    >
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <History size={20} className="text-purple-400" /> Lịch sử chỉnh sửa
+        </h2>
+        <button type="button" onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8"><Loader2 className="animate-spin mx-auto" /></div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <ul className="space-y-2 lg:col-span-1 max-h-[32rem] overflow-y-auto">
+            {[...revisions].reverse().map((revision) => (
+              <li key={revision.id} className="p-3 rounded-xl bg-white/5 border border-white/10 text-sm">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-xs uppercase tracking-wider text-purple-300">{REASON_LABELS[revision.reason]}</span>
+                  {revision.id !== latestId && (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(revision.id)}
+                      disabled={isRestoring}
+                      title="Khôi phục"
+                      className="p-1 hover:bg-white/10 rounded text-zinc-400 hover:text-white disabled:opacity-50"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                  )}
+                </div>
+                <div className="text-zinc-300 line-clamp-1">{revision.title}</div>
+                <div className="text-xs text-zinc-500 mb-2">
+                  {new Date(revision.created_at).toLocaleString()} · {revision.author_username || 'Ẩn danh'}
+                </div>
+                <div className="flex gap-3 text-xs text-zinc-400">
+                  <label className="flex items-center gap-1">
+                    <input type="radio" name="diff-from" checked={fromId === revision.id} onChange={() => setFromId(revision.id)} /> Trái
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input type="radio" name="diff-to" checked={toId === revision.id} onChange={() => setToId(revision.id)} /> Phải
+                  </label>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="lg:col-span-3">
+            <div className="flex gap-2 mb-4">
+              {(Object.keys(FIELD_LABELS) as DiffField[]).map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setField(key)}
+                  className={`px-3 py-1 rounded-full text-sm border ${field === key ? 'bg-purple-600 border-purple-500 text-white' : 'bg-white/5 border-white/10 text-zinc-400'}`}
+                >
+                  {FIELD_LABELS[key]}{diff?.fields[key].changed ? ' •' : ''}
+                </button>
+              ))}
+            </div>
+            {diff && (
+              <div className="rounded-xl border border-white/10 overflow-auto max-h-[32rem] font-mono text-xs">
+                <table className="w-full table-fixed border-collapse">
+                  <tbody>
+                    {diff.fields[field].rows.map((row, i) => (
+                      <tr key={i} className="align-top">
+                        <td className="w-10 px-2 text-right text-zinc-600 select-none">{row.left?.line}</td>
+                        <td className={`px-2 whitespace-pre-wrap break-words ${cellClass('left', row.type)}`}>{row.left?.text}</td>
+                        <td className="w-10 px-2 text-right text-zinc-600 select-none border-l border-white/10">{row.right?.line}</td>
+                        <td className={`px-2 whitespace-pre-wrap break-words ${cellClass('right', row.type)}`}>{row.right?.text}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, SearchX } from 'lucide-react';
+import axios from 'axios';
+
+// --- Types ---
+type Range = [number, number];
+
+interface SearchResult {
+  blog: {
+    id: string;
+    title: string;
+    excerpt: string;
+    path?: string;
+    created_at: string;
+    updated_at?: string;
+    author?: { username: string } | null;
+  };
+  score: number;
+  highlights: { title: Range[]; excerpt: Range[] };
+  snippet: { text: string; highlights: Range[] };
+}
+
+// Ranges come from the server as UTF-16 offsets into the original text.
+export const Highlight = ({ text, ranges }: { text: string; ranges: Range[] }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(<mark key={i} className="bg-purple-500/30 text-white rounded px-0.5">{text.slice(start, end)}</mark>);
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export const SearchResults = ({ query, token, params }: {
+  query: string;
+  token: string | null;
+  // Extra filters shared with the Dashboard (status, tag, category)
+  params: Record<string, string>;
+}) => {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const paramsKey = JSON.stringify(params);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const headers = token ? { Authorization: `Bearer ${token}` } : {};
+        const res = await axios.get('/api/search', { headers, params: { q: query, ...params }, signal: controller.signal });
+        setResults(res.data.results);
+        setTotal(res.data.total);
+        setIsLoading(false);
+      } catch (err) {
+        if (!axios.isCancel(err)) {
+          console.error('Search failed', err);
+          setIsLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, token, paramsKey]);
+
+  if (isLoading) return <div className="text-center py-20"><Loader2 className="animate-spin mx-auto" /></div>;
+
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-20 glass rounded-3xl">
+        <SearchX className="mx-auto text-zinc-600 mb-4" size={48} />
+        <p className="text-zinc-400 text-lg">Không tìm thấy bài viết nào cho “{query}”.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-zinc-500 mb-4">
+        {total} kết quả{total > results.length ? ` (hiển thị ${results.length})` : ''}
+      </p>
+      <div className="space-y-4">
+        {results.map(({ blog, highlights, snippet }) => (
+          <Link key={blog.id} to={blog.path || `/blog/${blog.id}`} className="block glass p-6 rounded-2xl hover:bg-white/10 transition-colors">
+            <h3 className="text-xl font-bold mb-2">
+              <Highlight text={blog.title} ranges={highlights.title} />
+            </h3>
+            <p className="text-zinc-400 text-sm mb-2">
+              <Highlight text={blog.excerpt} ranges={highlights.excerpt} />
+            </p>
+            {snippet.highlights.length > 0 && (
+              <p className="text-zinc-500 text-sm mb-3">
+                <Highlight text={snippet.text} ranges={snippet.highlights} />
+              </p>
+            )}
+            <span className="text-xs text-zinc-500">
+              {new Date(blog.updated_at || blog.created_at).toLocaleDateString()}
+              {blog.author && ` · ${blog.author.username}`}
+            </span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
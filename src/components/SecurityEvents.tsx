@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Lock, Globe } from 'lucide-react';
+import axios from 'axios';
+import { errorMessage } from '../errors.ts';
+
+// --- Types ---
+type SecurityEventType = 'account_locked' | 'ip_locked';
+
+interface SecurityEvent {
+  id: string;
+  type: SecurityEventType;
+  ip: string | null;
+  username: string | null;
+  user_id: string | null;
+  user_agent: string | null;
+  locked_seconds: number;
+  failures: number;
+  created_at: string;
+}
+
+const TYPE_LABELS: Record<SecurityEventType, string> = {
+  account_locked: 'Khóa tài khoản',
+  ip_locked: 'Khóa địa chỉ IP'
+};
+
+// Lockouts recorded by the sign-in brute-force protection, newest first.
+export const SecurityEvents = ({ token }: { token: string }) => {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [type, setType] = useState<SecurityEventType | ''>('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchEvents = async (cursor?: string) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const res = await axios.get('/api/admin/security-events', {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { type: type || undefined, cursor }
+      });
+      setEvents(prev => cursor ? [...prev, ...res.data.items] : res.data.items);
+      setNextCursor(res.data.next_cursor);
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [token, type]);
+
+  return (
+    <div className="glass p-6 rounded-3xl space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-xl font-bold">Sự kiện bảo mật</h2>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as SecurityEventType | '')}
+          className="bg-zinc-900 border border-white/10 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-purple-500"
+        >
+          <option value="">Tất cả</option>
+          <option value="account_locked">{TYPE_LABELS.account_locked}</option>
+          <option value="ip_locked">{TYPE_LABELS.ip_locked}</option>
+        </select>
+      </div>
+      {error && <div className="p-3 rounded-lg text-sm border bg-red-500/10 border-red-500/20 text-red-400">{error}</div>}
+      {!isLoading && !error && events.length === 0 && <p className="text-sm text-zinc-500">Chưa có sự kiện nào.</p>}
+      <div className="divide-y divide-white/5">
+        {events.map((event) => (
+          <div key={event.id} className="py-3 flex items-start gap-3 text-sm">
+            <div className="p-2 rounded-lg bg-red-500/10 text-red-400">
+              {event.type === 'ip_locked' ? <Globe size={16} /> : <Lock size={16} />}
+            </div>
+            <div className="min-w-0 flex-grow">
+              <div className="font-semibold">
+                {TYPE_LABELS[event.type]}
+                {event.username && <span className="text-zinc-400 font-normal"> · {event.username}{!event.user_id && ' (không tồn tại)'}</span>}
+              </div>
+              <div className="text-xs text-zinc-500 truncate">
+                IP {event.ip || '?'} · {event.failures} lần thất bại · khóa {Math.round(event.locked_seconds / 60)} phút
+                {event.user_agent && ` · ${event.user_agent}`}
+              </div>
+            </div>
+            <div className="text-xs text-zinc-500 whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</div>
+          </div>
+        ))}
+      </div>
+      {isLoading && <div className="py-4 text-center"><Loader2 className="animate-spin mx-auto" /></div>}
+      {!isLoading && nextCursor && (
+        <button onClick={() => fetchEvents(nextCursor)} className="w-full py-2 text-sm text-zinc-400 hover:text-white">
+          Xem thêm
+        </button>
+      )}
+    </div>
+  );
+};
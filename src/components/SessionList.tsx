@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Monitor, Smartphone, LogOut } from 'lucide-react';
+import axios from 'axios';
+
+// --- Types ---
+interface SessionInfo {
+  id: string;
+  device: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+const isMobile = (device: string) => /iPhone|iPad|Android/.test(device);
+
+// Signed-in devices of the current user, with sign-out per device or everywhere else.
+// Revoking the current session signs this browser out, which `onSignedOut` handles.
+export const SessionList = ({ token, onSignedOut }: { token: string; onSignedOut: () => void }) => {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const fetchSessions = async () => {
+    try {
+      const res = await axios.get('/api/auth/sessions', { headers });
+      setSessions(res.data);
+    } catch (err) {
+      console.error('Fetch sessions failed', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, [token]);
+
+  const revoke = async (session: SessionInfo) => {
+    if (session.current && !window.confirm('Đăng xuất khỏi thiết bị này?')) return;
+    setBusyId(session.id);
+    try {
+      await axios.delete(`/api/auth/sessions/${session.id}`, { headers });
+      if (session.current) return onSignedOut();
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      alert('Không thể đăng xuất phiên này');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeOthers = async () => {
+    if (!window.confirm('Đăng xuất khỏi tất cả thiết bị khác?')) return;
+    setBusyId('others');
+    try {
+      await axios.delete('/api/auth/sessions', { headers, params: { keep_current: 1 } });
+      setSessions(prev => prev.filter(s => s.current));
+    } catch (err) {
+      alert('Không thể đăng xuất các phiên khác');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) return <div className="py-10 text-center"><Loader2 className="animate-spin mx-auto" /></div>;
+
+  return (
+    <div className="space-y-3">
+      {sessions.map((session) => (
+        <div key={session.id} className="glass p-5 rounded-2xl flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-white/5 text-zinc-400">
+            {isMobile(session.device) ? <Smartphone size={20} /> : <Monitor size={20} />}
+          </div>
+          <div className="flex-grow min-w-0">
+            <div className="font-semibold flex items-center gap-2">
+              {session.device}
+              {session.current && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-emerald-500/10 text-emerald-400 border border-emerald-500/20">Thiết bị này</span>
+              )}
+            </div>
+            <p className="text-xs text-zinc-500 truncate" title={session.user_agent || undefined}>
+              {session.ip || 'IP không xác định'} · Đăng nhập {new Date(session.created_at).toLocaleString()} · Hoạt động {new Date(session.last_used_at).toLocaleString()}
+            </p>
+          </div>
+          <button
+            onClick={() => revoke(session)}
+            disabled={busyId !== null}
+            className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-red-400 transition-colors disabled:opacity-50"
+            title="Đăng xuất phiên này"
+          >
+            {busyId === session.id ? <Loader2 className="animate-spin" size={18} /> : <LogOut size={18} />}
+          </button>
+        </div>
+      ))}
+      {sessions.length > 1 && (
+        <button
+          onClick={revokeOthers}
+          disabled={busyId !== null}
+          className="text-sm text-red-400 hover:text-red-300 transition-colors disabled:opacity-50"
+        >
+          Đăng xuất khỏi tất cả thiết bị khác
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,337 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, Search, Ban, CircleCheck, Trash2, FileText, ChevronDown, ChevronUp } from 'lucide-react';
+import axios from 'axios';
+import { errorMessage } from '../errors.ts';
+import { OAuthProviderId } from './OAuthProviders.tsx';
+
+// --- Types ---
+type Role = 'user' | 'admin';
+type StatusFilter = '' | 'active' | 'suspended';
+
+interface ManagedUser {
+  id: string;
+  username: string;
+  role: Role;
+  avatar: string | null;
+  email: string | null;
+  created_at: string;
+  suspended_at: string | null;
+  has_password: boolean;
+  providers: OAuthProviderId[];
+}
+
+interface UserBlog {
+  id: string;
+  title: string;
+  status?: string;
+  path?: string;
+  created_at: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'Bản nháp',
+  in_review: 'Chờ duyệt',
+  scheduled: 'Đã lên lịch',
+  published: 'Đã xuất bản'
+};
+
+const PROVIDER_LABELS: Record<OAuthProviderId, string> = {
+  google: 'Google',
+  github: 'GitHub',
+  microsoft: 'Microsoft',
+  oidc: 'SSO'
+};
+
+// "Mật khẩu, Google": every way the user can sign in
+const signInMethods = (user: ManagedUser) =>
+  [...(user.has_password ? ['Mật khẩu'] : []), ...user.providers.map(provider => PROVIDER_LABELS[provider] || provider)].join(', ') || 'Chưa có';
+
+const inputClass = 'bg-zinc-900 border border-white/10 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-purple-500';
+
+// A user's blogs in every status, loaded page by page.
+const UserBlogs = ({ user, token }: { user: ManagedUser; token: string }) => {
+  const [blogs, setBlogs] = useState<UserBlog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchBlogs = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const res = await axios.get(`/api/admin/users/${user.id}/blogs`, {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { cursor }
+      });
+      setBlogs(prev => cursor ? [...prev, ...res.data.items] : res.data.items);
+      setTotal(res.data.total);
+      setNextCursor(res.data.next_cursor);
+    } catch (err) {
+      console.error('Fetch user blogs failed', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBlogs();
+  }, [user.id, token]);
+
+  return (
+    <div className="mt-3 ml-11 space-y-1 text-sm">
+      {!isLoading && blogs.length === 0 && <p className="text-zinc-500">Chưa có bài viết nào.</p>}
+      {blogs.length > 0 && <p className="text-xs text-zinc-500">{total} bài viết</p>}
+      {blogs.map((blog) => (
+        <div key={blog.id} className="flex items-center gap-2">
+          <FileText size={14} className="text-zinc-500 shrink-0" />
+          {blog.path && blog.status === 'published'
+            ? <Link to={blog.path} className="truncate hover:text-purple-400">{blog.title}</Link>
+            : <span className="truncate">{blog.title}</span>}
+          <span className="text-xs text-zinc-500 whitespace-nowrap">
+            {STATUS_LABELS[blog.status || 'published']} · {new Date(blog.created_at).toLocaleDateString()}
+          </span>
+        </div>
+      ))}
+      {isLoading && <Loader2 className="animate-spin text-zinc-500" size={16} />}
+      {!isLoading && nextCursor && (
+        <button onClick={() => fetchBlogs(nextCursor)} className="text-xs text-zinc-400 hover:text-white">Xem thêm</button>
+      )}
+    </div>
+  );
+};
+
+// Deletes the user after choosing what happens to their blogs.
+const DeleteUserForm = ({ user, token, onDeleted, onCancel }: {
+  user: ManagedUser;
+  token: string;
+  onDeleted: () => void;
+  onCancel: () => void;
+}) => {
+  const [mode, setMode] = useState<'reassign' | 'delete'>('reassign');
+  const [reassignTo, setReassignTo] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm(`Xóa vĩnh viễn người dùng ${user.username}?`)) return;
+    setIsDeleting(true);
+    setError('');
+    try {
+      await axios.delete(`/api/admin/users/${user.id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        data: { blogs: mode, reassign_to: mode === 'reassign' ? reassignTo.trim() : undefined }
+      });
+      onDeleted();
+    } catch (err: any) {
+      setError(errorMessage(err));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 ml-11 p-4 rounded-xl border border-red-500/20 space-y-3 text-sm">
+      <div className="space-y-2">
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={mode === 'reassign'} onChange={() => setMode('reassign')} className="accent-purple-600" />
+          <span>Chuyển bài viết cho</span>
+          <input
+            className={inputClass}
+            placeholder="Tên người dùng"
+            value={reassignTo}
+            onChange={(e) => setReassignTo(e.target.value)}
+            disabled={mode !== 'reassign'}
+            required={mode === 'reassign'}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={mode === 'delete'} onChange={() => setMode('delete')} className="accent-purple-600" />
+          <span>Xóa tất cả bài viết</span>
+        </label>
+      </div>
+      {error && <div className="p-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400">{error}</div>}
+      <div className="flex gap-2">
+        <button type="submit" disabled={isDeleting} className="bg-red-600 hover:bg-red-700 text-white px-4 py-1.5 rounded-lg font-semibold flex items-center gap-2 disabled:opacity-50">
+          {isDeleting ? <Loader2 className="animate-spin" size={16} /> : <Trash2 size={16} />} Xóa người dùng
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-1.5 rounded-lg text-zinc-400 hover:text-white">Hủy</button>
+      </div>
+    </form>
+  );
+};
+
+// Searchable list of accounts with role changes, suspension and deletion. The signed-in admin's own
+// row is read-only.
+export const UserManagement = ({ token, currentUserId }: { token: string; currentUserId: string }) => {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState<Role | ''>('');
+  const [status, setStatus] = useState<StatusFilter>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<{ id: string; panel: 'blogs' | 'delete' } | null>(null);
+  const [error, setError] = useState('');
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const fetchUsers = async (cursor?: string) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const res = await axios.get('/api/admin/users', {
+        headers,
+        params: { q: search || undefined, role: role || undefined, status: status || undefined, cursor }
+      });
+      setUsers(prev => cursor ? [...prev, ...res.data.items] : res.data.items);
+      setTotal(res.data.total);
+      setNextCursor(res.data.next_cursor);
+    } catch (err: any) {
+      setError(errorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, [token, search, role, status]);
+
+  const update = async (user: ManagedUser, patch: { role?: Role; suspended?: boolean }) => {
+    if (patch.suspended && !window.confirm(`Tạm khóa ${user.username}? Người dùng sẽ bị đăng xuất khỏi mọi thiết bị.`)) return;
+    setBusyId(user.id);
+    try {
+      const res = await axios.patch(`/api/admin/users/${user.id}`, patch, { headers });
+      setUsers(prev => prev.map(u => u.id === user.id ? res.data : u));
+    } catch (err: any) {
+      alert(errorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggle = (id: string, panel: 'blogs' | 'delete') =>
+    setExpanded(prev => prev?.id === id && prev.panel === panel ? null : { id, panel });
+
+  return (
+    <div className="glass p-6 rounded-3xl space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-bold">Người dùng <span className="text-zinc-500 font-normal text-base">({total})</span></h2>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearch(query.trim());
+          }}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <div className="relative">
+            <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-zinc-500" />
+            <input
+              className={`${inputClass} pl-8`}
+              placeholder="Tên hoặc email"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <select value={role} onChange={(e) => setRole(e.target.value as Role | '')} className={inputClass}>
+            <option value="">Mọi vai trò</option>
+            <option value="user">User</option>
+            <option value="admin">Admin</option>
+          </select>
+          <select value={status} onChange={(e) => setStatus(e.target.value as StatusFilter)} className={inputClass}>
+            <option value="">Mọi trạng thái</option>
+            <option value="active">Đang hoạt động</option>
+            <option value="suspended">Đã tạm khóa</option>
+          </select>
+        </form>
+      </div>
+      {error && <div className="p-3 rounded-lg text-sm border bg-red-500/10 border-red-500/20 text-red-400">{error}</div>}
+      {!isLoading && !error && users.length === 0 && <p className="text-sm text-zinc-500">Không tìm thấy người dùng nào.</p>}
+      <div className="divide-y divide-white/5">
+        {users.map((user) => {
+          const isSelf = user.id === currentUserId;
+          const isBusy = busyId === user.id;
+          return (
+            <div key={user.id} className="py-3">
+              <div className="flex items-center gap-3 text-sm">
+                {user.avatar ? (
+                  <img src={user.avatar} alt="" className="w-8 h-8 rounded-full object-cover" referrerPolicy="no-referrer" />
+                ) : (
+                  <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-purple-500 to-emerald-500 flex items-center justify-center text-[10px] font-bold">
+                    {user.username.substring(0, 2).toUpperCase()}
+                  </div>
+                )}
+                <div className="min-w-0 flex-grow">
+                  <div className="font-semibold flex items-center gap-2">
+                    <Link to={`/u/${encodeURIComponent(user.username)}`} className="hover:text-purple-400 truncate">{user.username}</Link>
+                    {user.suspended_at && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/10 text-red-400 border border-red-500/20">Đã tạm khóa</span>
+                    )}
+                    {isSelf && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-emerald-500/10 text-emerald-400 border border-emerald-500/20">Bạn</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-zinc-500 truncate">
+                    {user.email || 'Không có email'} · {signInMethods(user)} · Tham gia {new Date(user.created_at).toLocaleDateString()}
+                  </div>
+                </div>
+                <select
+                  value={user.role}
+                  onChange={(e) => update(user, { role: e.target.value as Role })}
+                  disabled={isSelf || isBusy || !!user.suspended_at}
+                  className={`${inputClass} disabled:opacity-50`}
+                >
+                  <option value="user">User</option>
+                  <option value="admin">Admin</option>
+                </select>
+                <button
+                  onClick={() => toggle(user.id, 'blogs')}
+                  className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                  title="Bài viết"
+                >
+                  {expanded?.id === user.id && expanded.panel === 'blogs' ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+                <button
+                  onClick={() => update(user, { suspended: !user.suspended_at })}
+                  disabled={isSelf || isBusy || user.role === 'admin'}
+                  className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-amber-400 transition-colors disabled:opacity-30"
+                  title={user.suspended_at ? 'Mở khóa' : 'Tạm khóa'}
+                >
+                  {isBusy ? <Loader2 className="animate-spin" size={16} /> : user.suspended_at ? <CircleCheck size={16} /> : <Ban size={16} />}
+                </button>
+                <button
+                  onClick={() => toggle(user.id, 'delete')}
+                  disabled={isSelf || user.role === 'admin'}
+                  className="p-2 hover:bg-white/10 rounded-lg text-zinc-400 hover:text-red-400 transition-colors disabled:opacity-30"
+                  title="Xóa người dùng"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              {expanded?.id === user.id && expanded.panel === 'blogs' && <UserBlogs user={user} token={token} />}
+              {expanded?.id === user.id && expanded.panel === 'delete' && (
+                <DeleteUserForm
+                  user={user}
+                  token={token}
+                  onCancel={() => setExpanded(null)}
+                  onDeleted={() => {
+                    setExpanded(null);
+                    setUsers(prev => prev.filter(u => u.id !== user.id));
+                    setTotal(prev => prev - 1);
+                  }}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {isLoading && <div className="py-4 text-center"><Loader2 className="animate-spin mx-auto" /></div>}
+      {!isLoading && nextCursor && (
+        <button onClick={() => fetchUsers(nextCursor)} className="w-full py-2 text-sm text-zinc-400 hover:text-white">
+          Xem thêm
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Plus, Trash2, Copy, Check, Send, RotateCcw, KeyRound, ChevronDown, ChevronUp, Webhook as WebhookIcon } from 'lucide-react';
+import axios from 'axios';
+import { errorMessage } from '../errors.ts';
+
+// --- Types ---
+type WebhookEvent = 'blog.created' | 'blog.updated' | 'blog.published' | 'blog.deleted';
+
+interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  active: boolean;
+  secret_hint: string;
+  created_at: string;
+}
+
+interface Delivery {
+  id: string;
+  event: WebhookEvent | 'ping';
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number | null;
+  redelivery_of: string | null;
+  created_at: string;
+  payload?: string;
+  response_body?: string | null;
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'blog.created': 'Tạo bài viết',
+  'blog.updated': 'Sửa bài viết',
+  'blog.published': 'Xuất bản',
+  'blog.deleted': 'Xóa bài viết'
+};
+
+const STATUS_STYLES: Record<Delivery['status'], { label: string; className: string }> = {
+  pending: { label: 'Đang thử lại', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' },
+  succeeded: { label: 'Thành công', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' },
+  failed: { label: 'Thất bại', className: 'bg-red-500/10 text-red-400 border-red-500/20' }
+};
+
+const inputClass = 'w-full bg-zinc-900 border border-white/10 rounded-lg px-4 py-2 focus:outline-none focus:border-purple-500';
+const iconButtonClass = 'p-2 hover:bg-white/10 rounded-lg text-zinc-400 transition-colors disabled:opacity-50';
+
+// Shown once after creating a webhook or rotating its secret.
+const SecretNotice = ({ secret }: { secret: string }) => {
+  const [copied, setCopied] = useState(false);
+  return (
+    <div className="p-4 rounded-2xl border bg-emerald-500/10 border-emerald-500/20 space-y-2">
+      <p className="text-sm text-emerald-400">Sao chép khóa ký ngay bây giờ. Bạn sẽ không thể xem lại nó.</p>
+      <div className="flex items-center gap-2">
+        <code className="flex-grow min-w-0 truncate bg-zinc-900 rounded-lg px-3 py-2 text-sm">{secret}</code>
+        <button
+          onClick={async () => {
+            await navigator.clipboard.writeText(secret);
+            setCopied(true);
+          }}
+          className={iconButtonClass}
+          title="Sao chép"
+        >
+          {copied ? <Check size={18} /> : <Copy size={18} />}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Delivery log of one webhook with the payload of a selected delivery and manual redelivery.
+const DeliveryLog = ({ webhook, token, refreshKey }: { webhook: Webhook; token: string; refreshKey: number }) => {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<Delivery | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const fetchDeliveries = async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const res = await axios.get(`/api/account/webhooks/${webhook.id}/deliveries`, { headers, params: { cursor } });
+      setDeliveries(prev => cursor ? [...prev, ...res.data.items] : res.data.items);
+      setNextCursor(res.data.next_cursor);
+    } catch (err) {
+      console.error('Fetch webhook deliveries failed', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [webhook.id, refreshKey]);
+
+  const select = async (delivery: Delivery) => {
+    if (selected?.id === delivery.id) return setSelected(null);
+    try {
+      const res = await axios.get(`/api/account/webhooks/${webhook.id}/deliveries/${delivery.id}`, { headers });
+      setSelected(res.data);
+    } catch (err) {
+      alert('Không thể tải chi tiết lần gửi');
+    }
+  };
+
+  const redeliver = async (delivery: Delivery) => {
+    setBusyId(delivery.id);
+    try {
+      const res = await axios.post(`/api/account/webhooks/${webhook.id}/deliveries/${delivery.id}/redeliver`, {}, { headers });
+      setDeliveries(prev => [res.data, ...prev]);
+    } catch (err) {
+      alert(errorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading && deliveries.length === 0) return <div className="py-4 text-center"><Loader2 className="animate-spin mx-auto" size={18} /></div>;
+  if (deliveries.length === 0) return <p className="text-sm text-zinc-500 py-2">Chưa có lần gửi nào.</p>;
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map((delivery) => {
+        const style = STATUS_STYLES[delivery.status];
+        return (
+          <div key={delivery.id} className="bg-white/5 rounded-xl">
+            <div className="flex items-center gap-3 px-3 py-2 text-sm">
+              <button onClick={() => select(delivery)} className="flex-grow min-w-0 flex items-center gap-3 text-left">
+                <span className={`text-xs px-2 py-0.5 rounded-full border ${style.className}`}>{style.label}</span>
+                <code className="text-xs">{delivery.event}</code>
+                <span className="text-xs text-zinc-500 truncate">
+                  {new Date(delivery.created_at).toLocaleString()} · {delivery.response_status ? `HTTP ${delivery.response_status}` : delivery.error || '…'} · {delivery.attempts} lần thử
+                  {delivery.redelivery_of && ' · gửi lại'}
+                </span>
+              </button>
+              <button onClick={() => redeliver(delivery)} disabled={busyId !== null || !webhook.active} className={iconButtonClass} title="Gửi lại">
+                {busyId === delivery.id ? <Loader2 className="animate-spin" size={16} /> : <RotateCcw size={16} />}
+              </button>
+            </div>
+            {selected?.id === delivery.id && (
+              <div className="px-3 pb-3 space-y-2 text-xs">
+                {selected.error && <p className="text-red-400">{selected.error}</p>}
+                {selected.next_attempt_at && <p className="text-zinc-400">Thử lại lúc {new Date(selected.next_attempt_at).toLocaleString()}</p>}
+                <pre className="bg-zinc-900 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap break-all">{selected.payload && JSON.stringify(JSON.parse(selected.payload), null, 2)}</pre>
+                {selected.response_body && (
+                  <pre className="bg-zinc-900 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap break-all text-zinc-400">{selected.response_body}</pre>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {nextCursor && (
+        <button onClick={() => fetchDeliveries(nextCursor)} disabled={isLoading} className="text-sm text-purple-400 hover:underline disabled:opacity-50">
+          Xem thêm
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Outgoing webhooks for changes to the user's blogs. Payloads are signed with the webhook's secret,
+// which is shown once after creation or rotation.
+export const Webhooks = ({ token }: { token: string }) => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [selectedEvents, setSelectedEvents] = useState<WebhookEvent[]>(['blog.published']);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState('');
+  const [secret, setSecret] = useState<{ webhookId: string; value: string } | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const fetchWebhooks = async () => {
+    try {
+      const res = await axios.get('/api/account/webhooks', { headers });
+      setWebhooks(res.data.items);
+      setEvents(res.data.events);
+    } catch (err) {
+      console.error('Fetch webhooks failed', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [token]);
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setSelectedEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError('');
+    try {
+      const res = await axios.post('/api/account/webhooks', { url, description: description || null, events: selectedEvents }, { headers });
+      const { secret: value, ...webhook } = res.data;
+      setWebhooks(prev => [webhook, ...prev]);
+      setSecret({ webhookId: webhook.id, value });
+      setUrl('');
+      setDescription('');
+    } catch (err: any) {
+      setError(errorMessage(err));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Runs an action on one webhook, with its buttons disabled meanwhile.
+  const withBusy = async (webhook: Webhook, action: () => Promise<void>) => {
+    setBusyId(webhook.id);
+    try {
+      await action();
+    } catch (err) {
+      alert(errorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleActive = (webhook: Webhook) => withBusy(webhook, async () => {
+    const res = await axios.patch(`/api/account/webhooks/${webhook.id}`, { active: !webhook.active }, { headers });
+    setWebhooks(prev => prev.map(w => w.id === webhook.id ? res.data : w));
+  });
+
+  const ping = (webhook: Webhook) => withBusy(webhook, async () => {
+    const res = await axios.post(`/api/account/webhooks/${webhook.id}/ping`, {}, { headers });
+    setExpandedId(webhook.id);
+    setRefreshKey(key => key + 1);
+    if (res.data?.status !== 'succeeded') alert(`Ping chưa thành công: ${res.data?.error || 'không rõ lỗi'}`);
+  });
+
+  const rotateSecret = (webhook: Webhook) => {
+    if (!window.confirm('Tạo khóa ký mới? Khóa cũ sẽ ngừng hoạt động ngay lập tức.')) return;
+    return withBusy(webhook, async () => {
+      const res = await axios.post(`/api/account/webhooks/${webhook.id}/secret`, {}, { headers });
+      const { secret: value, ...updated } = res.data;
+      setWebhooks(prev => prev.map(w => w.id === webhook.id ? updated : w));
+      setSecret({ webhookId: webhook.id, value });
+    });
+  };
+
+  const remove = (webhook: Webhook) => {
+    if (!window.confirm(`Xóa webhook ${webhook.url}? Nhật ký gửi cũng bị xóa.`)) return;
+    return withBusy(webhook, async () => {
+      await axios.delete(`/api/account/webhooks/${webhook.id}`, { headers });
+      setWebhooks(prev => prev.filter(w => w.id !== webhook.id));
+    });
+  };
+
+  if (isLoading) return <div className="py-10 text-center"><Loader2 className="animate-spin mx-auto" /></div>;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCreate} className="glass p-6 rounded-2xl space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-1">URL nhận</label>
+            <input type="url" className={inputClass} value={url} onChange={(e) => setUrl(e.target.value)} required placeholder="https://example.com/hooks/blog" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-1">Mô tả</label>
+            <input className={inputClass} value={description} onChange={(e) => setDescription(e.target.value)} maxLength={200} placeholder="Ví dụ: Build lại trang tĩnh" />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {events.map(event => (
+            <label key={event} className="flex items-center gap-2">
+              <input type="checkbox" checked={selectedEvents.includes(event)} onChange={() => toggleEvent(event)} className="accent-purple-600" />
+              {EVENT_LABELS[event] || event} <code className="text-xs text-zinc-500">{event}</code>
+            </label>
+          ))}
+        </div>
+        {error && <div className="p-3 rounded-lg text-sm border bg-red-500/10 border-red-500/20 text-red-400">{error}</div>}
+        <button type="submit" disabled={isCreating || !selectedEvents.length} className="bg-purple-600 hover:bg-purple-700 text-white px-5 py-2 rounded-lg font-semibold flex items-center gap-2 disabled:opacity-50">
+          {isCreating ? <Loader2 className="animate-spin" size={18} /> : <Plus size={18} />} Thêm webhook
+        </button>
+      </form>
+
+      {webhooks.map((webhook) => (
+        <div key={webhook.id} className="glass p-5 rounded-2xl space-y-3">
+          <div className="flex items-center gap-4">
+            <div className={`p-3 rounded-xl bg-white/5 ${webhook.active ? 'text-purple-400' : 'text-zinc-600'}`}>
+              <WebhookIcon size={20} />
+            </div>
+            <div className="flex-grow min-w-0">
+              <div className="font-semibold truncate" title={webhook.url}>{webhook.url}</div>
+              <p className="text-xs text-zinc-500 truncate">
+                {webhook.description ? `${webhook.description} · ` : ''}{webhook.events.join(', ')} · khóa …{webhook.secret_hint}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-zinc-400 shrink-0">
+              <input type="checkbox" checked={webhook.active} onChange={() => toggleActive(webhook)} disabled={busyId !== null} className="accent-purple-600" />
+              Bật
+            </label>
+            <button onClick={() => ping(webhook)} disabled={busyId !== null || !webhook.active} className={iconButtonClass} title="Gửi ping">
+              {busyId === webhook.id ? <Loader2 className="animate-spin" size={18} /> : <Send size={18} />}
+            </button>
+            <button onClick={() => rotateSecret(webhook)} disabled={busyId !== null} className={iconButtonClass} title="Tạo khóa ký mới">
+              <KeyRound size={18} />
+            </button>
+            <button onClick={() => remove(webhook)} disabled={busyId !== null} className={`${iconButtonClass} hover:text-red-400`} title="Xóa webhook">
+              <Trash2 size={18} />
+            </button>
+            <button onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)} className={iconButtonClass} title="Nhật ký gửi">
+              {expandedId === webhook.id ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+            </button>
+          </div>
+          {secret?.webhookId === webhook.id && <SecretNotice secret={secret.value} />}
+          {expandedId === webhook.id && <DeliveryLog webhook={webhook} token={token} refreshKey={refreshKey} />}
+        </div>
+      ))}
+    </div>
+  );
+};
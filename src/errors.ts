@@ -0,0 +1,222 @@
+import { ApiError, ErrorCode, isApiError } from '../shared/api.ts';
+import { FieldIssue, IssueCode, Schema, validate } from '../shared/schema.ts';
+
+// The one place that turns API errors into text for the user. The server answers every error with
+// an ApiError; its `code` picks the text here and its English `message` is only shown where no
+// better wording exists.
+
+export type Locale = 'vi' | 'en';
+
+// Vietnamese unless the browser's first language is English
+export const locale: Locale = typeof navigator !== 'undefined' && /^en\b/i.test(navigator.languages?.[0] || navigator.language || '') ? 'en' : 'vi';
+
+type Text = Record<Locale, string | ((error: ApiError) => string)>;
+
+const waitTime = (seconds = 0, lang: Locale) => lang === 'vi'
+  ? (seconds >= 90 ? `${Math.ceil(seconds / 60)} phút` : `${seconds} giây`)
+  : (seconds >= 90 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`);
+
+// Server errors the user can only report; the request id lets an admin find it in the log
+const withRequestId = (vi: string, en: string): Text => ({
+  vi: error => `${vi}${error.request_id ? ` (mã yêu cầu ${error.request_id})` : ''}`,
+  en: error => `${en}${error.request_id ? ` (request ${error.request_id})` : ''}`
+});
+
+const SESSION_EXPIRED: Text = {
+  vi: 'Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại.',
+  en: 'Your session has expired. Please sign in again.'
+};
+
+const MESSAGES: Record<ErrorCode, Text> = {
+  VALIDATION_FAILED: {
+    vi: error => issuesMessage(error.fields || [], 'vi') || 'Dữ liệu gửi lên chưa hợp lệ.',
+    en: error => issuesMessage(error.fields || [], 'en') || 'Some values are invalid.'
+  },
+  INVALID_JSON: { vi: 'Dữ liệu gửi lên không đúng định dạng JSON.', en: 'The request body is not valid JSON.' },
+  INVALID_REQUEST: { vi: error => `Yêu cầu không hợp lệ: ${error.message}`, en: error => error.message },
+  INVALID_USERNAME: {
+    vi: 'Tên đăng nhập phải dài 3-30 ký tự, gồm chữ, số, ".", "_" hoặc "-", bắt đầu bằng chữ hoặc số, và không được là tên dành riêng.',
+    en: error => error.message
+  },
+  WEAK_PASSWORD: { vi: 'Mật khẩu chưa đáp ứng các yêu cầu về độ mạnh.', en: error => error.message },
+  INCORRECT_PASSWORD: { vi: 'Mật khẩu không chính xác.', en: 'The password is incorrect.' },
+  USERNAME_TAKEN: { vi: 'Tên đăng nhập đã tồn tại.', en: 'This username is already taken.' },
+  EMAIL_TAKEN: { vi: 'Email này đã được tài khoản khác sử dụng.', en: 'This email address is already in use.' },
+  RESET_TOKEN_INVALID: { vi: 'Liên kết hoặc mã thiết lập không hợp lệ hoặc đã hết hạn.', en: 'The link or setup token is invalid or has expired.' },
+  LIMIT_REACHED: { vi: 'Bạn đã đạt số lượng tối đa. Hãy xóa bớt những mục không dùng trước.', en: error => error.message },
+  UNAUTHORIZED: { vi: 'Vui lòng đăng nhập để tiếp tục.', en: 'Please sign in to continue.' },
+  INVALID_TOKEN: SESSION_EXPIRED,
+  TOKEN_EXPIRED: SESSION_EXPIRED,
+  SESSION_REVOKED: SESSION_EXPIRED,
+  NO_SESSION: SESSION_EXPIRED,
+  INVALID_CREDENTIALS: { vi: 'Tên đăng nhập hoặc mật khẩu không chính xác.', en: 'Incorrect username or password.' },
+  ACCOUNT_SETUP_REQUIRED: {
+    vi: 'Tài khoản chưa được thiết lập. Hãy dùng liên kết thiết lập được in trong log của server.',
+    en: 'Account setup is not complete. Use the setup link printed in the server log.'
+  },
+  SOCIAL_LOGIN_ONLY: {
+    vi: 'Tài khoản này chưa có mật khẩu. Hãy đăng nhập bằng tài khoản đã liên kết (Google, GitHub...).',
+    en: 'This account has no password. Sign in with a linked provider (Google, GitHub...).'
+  },
+  ACCOUNT_SUSPENDED: { vi: 'Tài khoản này đã bị tạm khóa.', en: 'This account has been suspended.' },
+  FORBIDDEN: { vi: 'Bạn không có quyền thực hiện thao tác này.', en: "You don't have permission to do this." },
+  ADMIN_REQUIRED: { vi: 'Chức năng này chỉ dành cho quản trị viên.', en: 'Only administrators can do this.' },
+  INSUFFICIENT_SCOPE: { vi: 'Token truy cập không có quyền cho thao tác này.', en: 'The access token is missing the scope for this action.' },
+  PASSWORD_CHANGE_REQUIRED: { vi: 'Hãy đặt mật khẩu mới trước khi dùng chức năng quản trị.', en: 'Set a new password before using admin features.' },
+  NOT_FOUND: { vi: 'Không tìm thấy nội dung được yêu cầu.', en: error => error.message },
+  PAYLOAD_TOO_LARGE: { vi: 'Dữ liệu gửi lên quá lớn.', en: 'The request is too large.' },
+  RATE_LIMITED: {
+    vi: error => `Bạn thao tác quá nhanh. Vui lòng thử lại sau ${waitTime(error.retry_after, 'vi')}.`,
+    en: error => `Too many attempts. Please try again in ${waitTime(error.retry_after, 'en')}.`
+  },
+  LOCKED_OUT: {
+    vi: error => `Quá nhiều lần đăng nhập thất bại. Tạm khóa, vui lòng thử lại sau ${waitTime(error.retry_after, 'vi')}.`,
+    en: error => `Too many failed sign-in attempts. Sign-in is locked; try again in ${waitTime(error.retry_after, 'en')}.`
+  },
+  INTERNAL_ERROR: withRequestId('Đã có lỗi xảy ra. Vui lòng thử lại sau.', 'Something went wrong. Please try again later.'),
+  PROVIDER_UNAVAILABLE: { vi: 'Không thể kết nối với nhà cung cấp đăng nhập.', en: 'The sign-in provider is unavailable.' },
+  DATABASE_SAVE_FAILED: withRequestId(
+    'Lỗi lưu dữ liệu: không thể ghi vào cơ sở dữ liệu. Hãy kiểm tra cấu hình STORAGE_BACKEND hoặc FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL và FIREBASE_PRIVATE_KEY trong file .env.',
+    'Could not save to the database. Check STORAGE_BACKEND, or FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY in .env.'
+  ),
+  MISSING_API_KEY: {
+    vi: error => `Thiếu ${error.details || 'API key'} trên server. Vui lòng kiểm tra file .env và khởi động lại server.`,
+    en: error => `${error.details || 'The API key'} is not set on the server. Check .env and restart the server.`
+  },
+  UNKNOWN_AI_PROVIDER: {
+    vi: error => `Nhà cung cấp AI "${error.details || ''}" không được hỗ trợ. Vui lòng kiểm tra AI_PROVIDER trong file .env.`,
+    en: error => `AI provider "${error.details || ''}" is not supported. Check AI_PROVIDER in .env.`
+  },
+  AI_GENERATION_FAILED: {
+    vi: error => `AI không thể tạo nội dung: ${error.details || 'Lỗi kết nối hoặc hết hạn ngạch'}.`,
+    en: error => `The AI could not generate the blog: ${error.details || 'connection error or quota exceeded'}.`
+  },
+  AI_EMPTY_RESPONSE: { vi: 'AI trả về kết quả rỗng. Vui lòng thử lại.', en: 'The AI returned an empty answer. Please try again.' },
+  INVALID_JSON_FORMAT: {
+    vi: 'Lỗi định dạng dữ liệu từ AI. Vui lòng thử lại với chủ đề khác.',
+    en: 'The AI answered in an unexpected format. Please try again with another topic.'
+  },
+  INCOMPLETE_DATA: {
+    vi: 'Lỗi định dạng dữ liệu từ AI. Vui lòng thử lại với chủ đề khác.',
+    en: 'The AI answer was incomplete. Please try again with another topic.'
+  }
+};
+
+// --- Field issues ---
+const FIELD_LABELS: Record<string, Record<Locale, string>> = {
+  title: { vi: 'Tiêu đề', en: 'Title' },
+  excerpt: { vi: 'Tóm tắt', en: 'Excerpt' },
+  content: { vi: 'Nội dung', en: 'Content' },
+  tone: { vi: 'Giọng văn', en: 'Tone' },
+  language: { vi: 'Ngôn ngữ', en: 'Language' },
+  length: { vi: 'Độ dài', en: 'Length' },
+  topic: { vi: 'Chủ đề', en: 'Topic' },
+  tags: { vi: 'Thẻ', en: 'Tags' },
+  category: { vi: 'Chuyên mục', en: 'Category' },
+  status: { vi: 'Trạng thái', en: 'Status' },
+  publish_at: { vi: 'Thời gian đăng', en: 'Publish time' },
+  username: { vi: 'Tên đăng nhập', en: 'Username' },
+  identifier: { vi: 'Tên đăng nhập hoặc email', en: 'Username or email' },
+  password: { vi: 'Mật khẩu', en: 'Password' },
+  current_password: { vi: 'Mật khẩu hiện tại', en: 'Current password' },
+  new_password: { vi: 'Mật khẩu mới', en: 'New password' },
+  token: { vi: 'Mã', en: 'Token' },
+  email: { vi: 'Email', en: 'Email' },
+  avatar: { vi: 'Ảnh đại diện', en: 'Avatar' },
+  name: { vi: 'Tên', en: 'Name' },
+  scopes: { vi: 'Quyền', en: 'Scopes' },
+  expires_in_days: { vi: 'Thời hạn', en: 'Expiry' },
+  url: { vi: 'URL', en: 'URL' },
+  events: { vi: 'Sự kiện', en: 'Events' },
+  description: { vi: 'Mô tả', en: 'Description' },
+  reassign_to: { vi: 'Người nhận bài viết', en: 'New owner' },
+  q: { vi: 'Từ khóa', en: 'Search query' }
+};
+
+type Params = FieldIssue['params'] & {};
+
+const FORMAT_NAMES: Record<string, Record<Locale, string>> = {
+  email: { vi: 'địa chỉ email', en: 'email address' },
+  url: { vi: 'URL http(s)', en: 'http(s) URL' },
+  date: { vi: 'ngày giờ', en: 'date' }
+};
+
+const ISSUE_MESSAGES: Record<IssueCode, Record<Locale, (params: Params) => string>> = {
+  required: { vi: () => 'không được để trống', en: () => 'is required' },
+  invalid_type: { vi: () => 'có kiểu dữ liệu không hợp lệ', en: () => 'has the wrong type' },
+  too_short: { vi: p => `phải có ít nhất ${p.min} ký tự`, en: p => `must be at least ${p.min} characters` },
+  too_long: { vi: p => `không được dài quá ${p.max} ký tự`, en: p => `must be at most ${p.max} characters` },
+  too_few_items: { vi: p => `cần ít nhất ${p.min} mục`, en: p => `needs at least ${p.min} items` },
+  too_many_items: { vi: p => `không được quá ${p.max} mục`, en: p => `can have at most ${p.max} items` },
+  too_small: { vi: p => `phải từ ${p.min} trở lên`, en: p => `must be at least ${p.min}` },
+  too_large: { vi: p => `không được lớn hơn ${p.max}`, en: p => `must be at most ${p.max}` },
+  invalid_option: { vi: p => `phải là một trong: ${p.options}`, en: p => `must be one of: ${p.options}` },
+  invalid_format: {
+    vi: p => FORMAT_NAMES[p.format] ? `không phải ${FORMAT_NAMES[p.format].vi} hợp lệ` : 'có định dạng không hợp lệ',
+    en: p => FORMAT_NAMES[p.format] ? `is not a valid ${FORMAT_NAMES[p.format].en}` : 'has an invalid format'
+  }
+};
+
+// "Tiêu đề không được để trống", naming list items by their position: "Quyền #2 ..."
+export const issueMessage = (issue: FieldIssue, lang: Locale = locale) => {
+  const [field, ...rest] = issue.path.split('.');
+  const label = FIELD_LABELS[field]?.[lang] || field || (lang === 'vi' ? 'Dữ liệu' : 'The request');
+  const position = rest.length && /^\d+$/.test(rest[rest.length - 1]) ? ` #${Number(rest[rest.length - 1]) + 1}` : '';
+  return `${label}${position} ${ISSUE_MESSAGES[issue.code][lang](issue.params || {})}`;
+};
+
+const issuesMessage = (issues: FieldIssue[], lang: Locale) =>
+  issues.map(issue => issueMessage(issue, lang)).join('. ') + (issues.length ? '.' : '');
+
+// Checks a form with the schema the server uses for the request. Returns the text to show, or null
+// when the values are fine.
+export const formError = (schema: Schema<any, boolean>, values: unknown) => {
+  const { issues } = validate(schema, values);
+  return issues ? issuesMessage(issues, locale) : null;
+};
+
+// --- Reading errors ---
+// Thrown for failed `fetch` calls, which (unlike axios) don't reject on error statuses.
+export class ApiRequestError extends Error {
+  body: ApiError;
+
+  constructor(body: ApiError) {
+    super(body.message);
+    this.body = body;
+  }
+}
+
+export const readFetchError = async (res: Response) => {
+  const data = await res.json().catch(() => null);
+  return new ApiRequestError(isApiError(data) ? data : { code: statusCode(res.status), message: res.statusText, request_id: res.headers.get('X-Request-Id') || '' });
+};
+
+// For answers without an ApiError body, e.g. from a proxy in front of the server
+const statusCode = (status: number): ErrorCode =>
+  status === 401 ? 'UNAUTHORIZED' : status === 403 ? 'FORBIDDEN' : status === 404 ? 'NOT_FOUND' : status === 413 ? 'PAYLOAD_TOO_LARGE'
+    : status === 429 ? 'RATE_LIMITED' : status >= 500 ? 'INTERNAL_ERROR' : 'INVALID_REQUEST';
+
+// The ApiError behind an axios error, an ApiRequestError or an error body; null when the server
+// was never reached.
+export const apiErrorOf = (error: any): ApiError | null => {
+  if (error instanceof ApiRequestError) return error.body;
+  if (isApiError(error)) return error;
+  const response = error?.response;
+  if (!response) return null;
+  if (isApiError(response.data)) return response.data;
+  return { code: statusCode(response.status), message: response.statusText || `HTTP ${response.status}`, request_id: response.headers?.['x-request-id'] || '' };
+};
+
+// Axios rejects without a response, and fetch with a TypeError, when the request never got an answer
+const isNetworkError = (error: any) => (error?.isAxiosError ? !error.response : error instanceof TypeError);
+
+// What went wrong, in the user's language.
+export const errorMessage = (error: unknown, lang: Locale = locale) => {
+  const apiError = apiErrorOf(error);
+  if (!apiError) {
+    if (isNetworkError(error)) return lang === 'vi' ? 'Không thể kết nối tới máy chủ. Vui lòng kiểm tra kết nối mạng.' : 'Could not reach the server. Check your connection.';
+    return lang === 'vi' ? 'Đã có lỗi xảy ra. Vui lòng thử lại.' : 'Something went wrong. Please try again.';
+  }
+  const text = (MESSAGES[apiError.code] || MESSAGES.INTERNAL_ERROR)[lang];
+  return typeof text === 'function' ? text(apiError) : text;
+};
@@ -0,0 +1,28 @@
+import latin400 from '@fontsource/noto-serif/files/noto-serif-latin-400-normal.woff2?inline';
+import latin400Italic from '@fontsource/noto-serif/files/noto-serif-latin-400-italic.woff2?inline';
+import latin700 from '@fontsource/noto-serif/files/noto-serif-latin-700-normal.woff2?inline';
+import vietnamese400 from '@fontsource/noto-serif/files/noto-serif-vietnamese-400-normal.woff2?inline';
+import vietnamese400Italic from '@fontsource/noto-serif/files/noto-serif-vietnamese-400-italic.woff2?inline';
+import vietnamese700 from '@fontsource/noto-serif/files/noto-serif-vietnamese-700-normal.woff2?inline';
+import { EXPORT_FONT_FAMILY } from '../shared/html.ts';
+
+// Noto Serif, inlined as data URIs so downloaded HTML files render Vietnamese correctly offline.
+// Loaded with a dynamic import so the ~80 KB only ships when someone exports.
+const LATIN_RANGE = 'U+0000-00FF,U+0131,U+0152-0153,U+02BB-02BC,U+02C6,U+02DA,U+02DC,U+0304,U+0308,U+0329,U+2000-206F,U+20AC,U+2122,U+2191,U+2193,U+2212,U+2215,U+FEFF,U+FFFD';
+const VIETNAMESE_RANGE = 'U+0102-0103,U+0110-0111,U+0128-0129,U+0168-0169,U+01A0-01A1,U+01AF-01B0,U+0300-0301,U+0303-0304,U+0308-0309,U+0323,U+0329,U+1EA0-1EF9,U+20AB';
+
+const fontFace = (src: string, weight: number, style: 'normal' | 'italic', range: string) =>
+  `@font-face { font-family: '${EXPORT_FONT_FAMILY}'; font-style: ${style}; font-weight: ${weight}; font-display: block; src: url(${src}) format('woff2'); unicode-range: ${range}; }`;
+
+export const EXPORT_FONT_FACE_CSS = [
+  fontFace(latin400, 400, 'normal', LATIN_RANGE),
+  fontFace(latin400Italic, 400, 'italic', LATIN_RANGE),
+  fontFace(latin700, 700, 'normal', LATIN_RANGE),
+  fontFace(vietnamese400, 400, 'normal', VIETNAMESE_RANGE),
+  fontFace(vietnamese400Italic, 400, 'italic', VIETNAMESE_RANGE),
+  fontFace(vietnamese700, 700, 'normal', VIETNAMESE_RANGE)
+].join('\n');
+
+// Faces load lazily on first use; html2canvas would otherwise snapshot the fallback font.
+export const loadExportFonts = () =>
+  Promise.all(['400', 'italic 400', '700'].map(variant => document.fonts.load(`${variant} 16px '${EXPORT_FONT_FAMILY}'`, 'Aa Ăă Đđ Ơơ Ưư ệ')));
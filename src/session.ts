@@ -0,0 +1,71 @@
+import axios from 'axios';
+
+// The access token lives only in memory. The refresh token is an httpOnly cookie the browser sends
+// to /api/auth/*, so a page reload restores the session with one call to /api/auth/refresh.
+
+export interface SessionResponse<U> {
+  token: string;
+  expires_in: number;
+  user: U;
+}
+
+type Listener = (session: SessionResponse<any> | null) => void;
+
+const REFRESH_URL = '/api/auth/refresh';
+
+let listener: Listener | null = null;
+let pendingRefresh: Promise<string | null> | null = null;
+
+// App registers this to keep its auth state in sync with refreshes triggered anywhere.
+export const onSessionChange = (callback: Listener) => {
+  listener = callback;
+  return () => {
+    if (listener === callback) listener = null;
+  };
+};
+
+// Concurrent callers share one request: the server rotates the refresh token on every call.
+export const refreshSession = () => {
+  if (!pendingRefresh) {
+    pendingRefresh = axios
+      .post<SessionResponse<any>>(REFRESH_URL)
+      .then(res => {
+        listener?.(res.data);
+        return res.data.token;
+      })
+      .catch(() => {
+        listener?.(null);
+        return null;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+};
+
+export const endSession = () => axios.post('/api/auth/logout').catch(err => console.error('Logout failed', err));
+
+// Requests that failed with 401 because the access token expired are retried once with a fresh token.
+axios.interceptors.response.use(undefined, async (error) => {
+  const config = error.config;
+  const authorization = config?.headers?.Authorization;
+  if (error.response?.status !== 401 || !authorization || config._retried || config.url === REFRESH_URL) throw error;
+  const token = await refreshSession();
+  if (!token) throw error;
+  config._retried = true;
+  config.headers.Authorization = `Bearer ${token}`;
+  return axios(config);
+});
+
+// `fetch` counterpart of the interceptor, for streaming responses.
+export const fetchWithSession = async (url: string, init: RequestInit, token: string | null) => {
+  const withToken = (value: string | null): RequestInit => ({
+    ...init,
+    headers: { ...init.headers, ...(value ? { Authorization: `Bearer ${value}` } : {}) }
+  });
+  const res = await fetch(url, withToken(token));
+  if (res.status !== 401 || !token) return res;
+  const fresh = await refreshSession();
+  return fresh ? fetch(url, withToken(fresh)) : res;
+};